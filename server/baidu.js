@@ -0,0 +1,198 @@
+// 百度翻译开放平台调用：凭据只存在于服务端，签名也在这里完成
+import crypto from 'crypto';
+
+const BAIDU_API_BASE = 'https://fanyi-api.baidu.com';
+
+const ENDPOINTS = {
+  text: '/api/trans/vip/translate',
+  image: '/api/trans/sdk/picture',
+  speech: '/api/trans/sdk/speech'
+};
+
+// 应用语言代码 -> 百度语言代码
+const BAIDU_LANGUAGE_MAP = {
+  auto: 'auto',
+  zh: 'zh',
+  en: 'en',
+  ja: 'jp',
+  ko: 'kor',
+  fr: 'fra',
+  de: 'de',
+  es: 'spa',
+  it: 'it',
+  pt: 'pt',
+  ru: 'ru',
+  ar: 'ara',
+  hi: 'hi',
+  th: 'th',
+  vi: 'vie'
+};
+
+// 百度语言代码 -> 应用语言代码
+const REVERSE_LANGUAGE_MAP = Object.fromEntries(
+  Object.entries(BAIDU_LANGUAGE_MAP).map(([app, baidu]) => [baidu, app])
+);
+
+export const SUPPORTED_LANGUAGES = Object.keys(BAIDU_LANGUAGE_MAP);
+
+// 上游返回的业务错误，保留百度的 error_code 交给客户端分类
+export class BaiduApiError extends Error {
+  constructor(errorCode, errorMsg) {
+    super(`百度翻译API错误: ${errorMsg} (${errorCode})`);
+    this.errorCode = String(errorCode);
+    this.errorMsg = errorMsg;
+  }
+}
+
+const md5 = (text) => crypto.createHash('md5').update(text).digest('hex');
+
+// 每个端点按 QPS 间隔串行发出，所有用户共享同一个百度账号的额度
+class EndpointThrottle {
+  constructor(qps) {
+    this.interval = 1000 / Math.max(qps, 0.1);
+    this.tail = Promise.resolve();
+    this.lastStart = 0;
+  }
+
+  run(task) {
+    const result = this.tail.then(async () => {
+      const wait = this.lastStart + this.interval - Date.now();
+      if (wait > 0) {
+        await new Promise(resolve => setTimeout(resolve, wait));
+      }
+      this.lastStart = Date.now();
+      return task();
+    });
+    this.tail = result.catch(() => undefined);
+    return result;
+  }
+}
+
+export class BaiduClient {
+  constructor({ appId, apiKey, qps = {}, timeout = 30000 }) {
+    this.appId = appId;
+    this.apiKey = apiKey;
+    this.timeout = timeout;
+    this.throttles = {
+      text: new EndpointThrottle(qps.text || 1),
+      image: new EndpointThrottle(qps.image || 1),
+      speech: new EndpointThrottle(qps.speech || 1)
+    };
+  }
+
+  isConfigured() {
+    return Boolean(this.appId && this.apiKey);
+  }
+
+  toBaiduLanguage(lang, fallback) {
+    return BAIDU_LANGUAGE_MAP[lang] || fallback;
+  }
+
+  toAppLanguage(lang) {
+    return REVERSE_LANGUAGE_MAP[lang] || lang;
+  }
+
+  sign(query, salt) {
+    return md5(this.appId + query + salt + this.apiKey);
+  }
+
+  async post(endpoint, params) {
+    return this.throttles[endpoint].run(async () => {
+      const response = await fetch(BAIDU_API_BASE + ENDPOINTS[endpoint], {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams(params),
+        signal: AbortSignal.timeout(this.timeout)
+      });
+
+      if (!response.ok) {
+        throw new BaiduApiError('52002', `HTTP ${response.status}`);
+      }
+      return response.json();
+    });
+  }
+
+  // 图片/语音接口对签名方式有两种说法：先按原文签名，签名错误时改用内容的 MD5 再签一次
+  async postWithSignFallback(endpoint, params, content) {
+    const salt = Date.now().toString();
+    let data = await this.post(endpoint, { ...params, appid: this.appId, salt, sign: this.sign(content, salt) });
+
+    if (String(data.error_code) === '54001') {
+      data = await this.post(endpoint, { ...params, appid: this.appId, salt, sign: this.sign(md5(content), salt) });
+    }
+    return data;
+  }
+
+  // 文本翻译：多行文本按行返回
+  async translateText({ text, sourceLang, targetLang }) {
+    const salt = Date.now().toString();
+    const data = await this.post('text', {
+      q: text,
+      from: this.toBaiduLanguage(sourceLang, 'auto'),
+      to: this.toBaiduLanguage(targetLang, 'en'),
+      appid: this.appId,
+      salt,
+      sign: this.sign(text, salt)
+    });
+
+    if (data.error_code && String(data.error_code) !== '52000') {
+      throw new BaiduApiError(data.error_code, data.error_msg);
+    }
+
+    return {
+      from: this.toAppLanguage(data.from),
+      to: this.toAppLanguage(data.to),
+      translations: (data.trans_result || []).map(item => ({ source: item.src, translated: item.dst }))
+    };
+  }
+
+  async translateImage({ image, sourceLang, targetLang, paste = 0 }) {
+    const data = await this.postWithSignFallback('image', {
+      image,
+      from: this.toBaiduLanguage(sourceLang, 'auto'),
+      to: this.toBaiduLanguage(targetLang, 'en'),
+      paste: String(paste)
+    }, image);
+
+    if (data.error_code && String(data.error_code) !== '0') {
+      throw new BaiduApiError(data.error_code, data.error_msg);
+    }
+
+    return {
+      originalText: data.data.sumSrc,
+      translatedText: data.data.sumDst,
+      translatedImage: data.data.pasteImg,
+      textBlocks: data.data.content.map(item => ({
+        original: item.src,
+        translated: item.dst,
+        position: {
+          x: item.rect.left,
+          y: item.rect.top,
+          width: item.rect.width,
+          height: item.rect.height
+        }
+      }))
+    };
+  }
+
+  async translateSpeech({ voice, format, rate = 16000, channel = 1, sourceLang, targetLang }) {
+    const data = await this.postWithSignFallback('speech', {
+      voice,
+      format,
+      rate: String(rate),
+      channel: String(channel),
+      from: this.toBaiduLanguage(sourceLang, 'auto'),
+      to: this.toBaiduLanguage(targetLang, 'en')
+    }, voice);
+
+    if (data.error_code && String(data.error_code) !== '0') {
+      throw new BaiduApiError(data.error_code, data.error_msg);
+    }
+
+    return {
+      originalText: data.result.src,
+      translatedText: data.result.dst,
+      translatedAudio: data.result.voice
+    };
+  }
+}
@@ -0,0 +1,276 @@
+// 翻译代理服务：持有百度凭据并完成签名，按用户限额，浏览器只调用 /api/translate* 接口
+// 开发时由 Vite 代理转发到这里，生产环境可直接部署（设置 PROXY_STATIC_DIR 后同时托管前端构建产物）
+import 'dotenv/config';
+import http from 'http';
+import fs from 'fs';
+import path from 'path';
+import { BaiduClient, BaiduApiError, SUPPORTED_LANGUAGES } from './baidu.js';
+import { QuotaTracker, QuotaExceededError } from './quota.js';
+
+const numberEnv = (name, fallback) => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+};
+
+const config = {
+  port: numberEnv('PORT', numberEnv('PROXY_PORT', 8787)),
+  // 允许跨域调用的前端地址，默认只允许同源页面；'*' 表示任何网站都能使用代理持有的凭据，仅用于调试
+  allowedOrigins: (process.env.PROXY_ALLOWED_ORIGINS || '').split(',').map(origin => origin.trim()).filter(Boolean),
+  staticDir: process.env.PROXY_STATIC_DIR ? path.resolve(process.env.PROXY_STATIC_DIR) : null,
+  trustForwarded: process.env.PROXY_TRUST_FORWARDED === 'true',
+  maxBodyBytes: 10 * 1024 * 1024 // 图片和语音以 base64 传输
+};
+
+const baidu = new BaiduClient({
+  appId: process.env.BAIDU_APP_ID,
+  apiKey: process.env.BAIDU_API_KEY,
+  qps: {
+    text: numberEnv('BAIDU_TEXT_QPS', 1),
+    image: numberEnv('BAIDU_IMAGE_QPS', 1),
+    speech: numberEnv('BAIDU_SPEECH_QPS', 1)
+  }
+});
+
+// 0 表示不限
+const quota = new QuotaTracker({
+  text: numberEnv('PROXY_DAILY_TEXT_CHARS', 50000),
+  image: numberEnv('PROXY_DAILY_IMAGE_REQUESTS', 100),
+  speech: numberEnv('PROXY_DAILY_SPEECH_REQUESTS', 100)
+});
+
+class RequestError extends Error {
+  constructor(status, code, message) {
+    super(message);
+    this.status = status;
+    this.code = code;
+  }
+}
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(body));
+};
+
+// 代理自身的错误统一为 { error: { type: 'proxy_error', code, message } }
+const sendProxyError = (res, status, code, message) =>
+  sendJson(res, status, { error: { type: 'proxy_error', code, message } });
+
+// 没有 Origin 的请求（非浏览器）和同源页面总是允许，其他网站需在 PROXY_ALLOWED_ORIGINS 中列出
+const isOriginAllowed = (req) => {
+  const origin = req.headers.origin;
+  if (!origin) return true;
+  if (config.allowedOrigins.includes('*') || config.allowedOrigins.includes(origin)) return true;
+  try {
+    return new URL(origin).host === req.headers.host;
+  } catch {
+    return false;
+  }
+};
+
+const applyCors = (req, res) => {
+  const origin = req.headers.origin;
+  if (!origin || !isOriginAllowed(req)) return;
+  res.setHeader('Access-Control-Allow-Origin', origin);
+  res.setHeader('Vary', 'Origin');
+  res.setHeader('Access-Control-Allow-Methods', 'GET,POST,OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+};
+
+// 配额按服务端确定的来源 IP 计算，不采信客户端自报的标识；部署在反向代理后面时设置 PROXY_TRUST_FORWARDED
+const resolveUserId = (req) => {
+  const forwarded = config.trustForwarded ? String(req.headers['x-forwarded-for'] || '').split(',')[0].trim() : '';
+  return `ip:${forwarded || req.socket.remoteAddress}`;
+};
+
+const readJsonBody = (req) => new Promise((resolve, reject) => {
+  const chunks = [];
+  let size = 0;
+  req.on('data', chunk => {
+    size += chunk.length;
+    if (size > config.maxBodyBytes) {
+      reject(new RequestError(413, 'payload_too_large', '请求体过大'));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => {
+    try {
+      resolve(JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}'));
+    } catch {
+      reject(new RequestError(400, 'invalid_request', '请求体不是有效的 JSON'));
+    }
+  });
+  req.on('error', reject);
+});
+
+const requireString = (body, field) => {
+  if (typeof body[field] !== 'string' || !body[field].trim()) {
+    throw new RequestError(400, 'invalid_request', `缺少参数: ${field}`);
+  }
+  return body[field];
+};
+
+const requireLanguages = (body) => {
+  const sourceLang = body.sourceLang || 'auto';
+  const targetLang = requireString(body, 'targetLang');
+  if (!SUPPORTED_LANGUAGES.includes(sourceLang)) {
+    throw new RequestError(400, 'unsupported_language', `不支持的源语言: ${sourceLang}`);
+  }
+  if (targetLang === 'auto' || !SUPPORTED_LANGUAGES.includes(targetLang)) {
+    throw new RequestError(400, 'unsupported_language', `不支持的目标语言: ${targetLang}`);
+  }
+  return { sourceLang, targetLang };
+};
+
+const routes = {
+  '/api/translate': async (body, userId) => {
+    const text = requireString(body, 'text');
+    const languages = requireLanguages(body);
+
+    const result = await quota.consume(userId, 'text', text.length, () => baidu.translateText({ text, ...languages }));
+
+    return { ...result, billedCharacters: text.length, quota: quota.remaining(userId) };
+  },
+
+  '/api/translate/image': async (body, userId) => {
+    const image = requireString(body, 'image');
+    const languages = requireLanguages(body);
+
+    const result = await quota.consume(userId, 'image', 1, () => baidu.translateImage({
+      image,
+      paste: Number(body.paste) || 0,
+      ...languages
+    }));
+
+    return { ...result, quota: quota.remaining(userId) };
+  },
+
+  '/api/translate/speech': async (body, userId) => {
+    const voice = requireString(body, 'voice');
+    const format = requireString(body, 'format');
+    const languages = requireLanguages(body);
+
+    const result = await quota.consume(userId, 'speech', 1, () => baidu.translateSpeech({
+      voice,
+      format,
+      rate: Number(body.rate) || 16000,
+      channel: Number(body.channel) || 1,
+      ...languages
+    }));
+
+    return { ...result, quota: quota.remaining(userId) };
+  }
+};
+
+const handleApi = async (req, res, pathname) => {
+  if (!isOriginAllowed(req)) {
+    sendProxyError(res, 403, 'origin_not_allowed', `不允许来自 ${req.headers.origin} 的请求`);
+    return;
+  }
+
+  if (pathname === '/api/health' && req.method === 'GET') {
+    sendJson(res, 200, {
+      ok: true,
+      configured: baidu.isConfigured(),
+      quota: quota.remaining(resolveUserId(req))
+    });
+    return;
+  }
+
+  const route = routes[pathname];
+  if (!route) {
+    sendProxyError(res, 404, 'not_found', `未知接口: ${pathname}`);
+    return;
+  }
+  if (req.method !== 'POST') {
+    sendProxyError(res, 405, 'method_not_allowed', '仅支持 POST');
+    return;
+  }
+
+  try {
+    if (!baidu.isConfigured()) {
+      throw new RequestError(503, 'not_configured', '翻译代理未配置百度凭据（BAIDU_APP_ID / BAIDU_API_KEY）');
+    }
+    const body = await readJsonBody(req);
+    sendJson(res, 200, await route(body, resolveUserId(req)));
+  } catch (error) {
+    if (error instanceof RequestError) {
+      sendProxyError(res, error.status, error.code, error.message);
+    } else if (error instanceof QuotaExceededError) {
+      sendProxyError(res, 429, 'user_quota_exceeded', error.message);
+    } else if (error instanceof BaiduApiError) {
+      // 百度业务错误原样透传 error_code，客户端按百度错误码分类
+      sendJson(res, error.errorCode === '54003' ? 429 : 502, {
+        error_code: error.errorCode,
+        error_msg: error.errorMsg
+      });
+    } else if (error?.name === 'TimeoutError') {
+      sendProxyError(res, 504, 'upstream_timeout', '百度翻译接口响应超时');
+    } else {
+      console.error('翻译代理错误:', error);
+      sendProxyError(res, 502, 'upstream_unreachable', '无法连接百度翻译接口');
+    }
+  }
+};
+
+const MIME_TYPES = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript',
+  '.css': 'text/css',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.ico': 'image/x-icon',
+  '.woff2': 'font/woff2',
+  '.traineddata': 'application/octet-stream'
+};
+
+// 前端构建产物，未命中的路径回退到 index.html（单页应用路由）
+const serveStatic = (res, pathname) => {
+  let decoded;
+  try {
+    decoded = decodeURIComponent(pathname);
+  } catch {
+    sendProxyError(res, 400, 'invalid_request', '请求路径编码无效');
+    return;
+  }
+
+  // 只允许目录内的文件（前缀相同的兄弟目录如 static-secret 不算）
+  const requested = path.resolve(config.staticDir, `.${path.sep}${decoded}`);
+  const relative = path.relative(config.staticDir, requested);
+  const insideRoot = relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative);
+  const file = insideRoot && fs.existsSync(requested) && fs.statSync(requested).isFile()
+    ? requested
+    : path.join(config.staticDir, 'index.html');
+
+  res.writeHead(200, { 'Content-Type': MIME_TYPES[path.extname(file)] || 'application/octet-stream' });
+  fs.createReadStream(file).pipe(res);
+};
+
+const server = http.createServer((req, res) => {
+  const { pathname } = new URL(req.url, 'http://localhost');
+  applyCors(req, res);
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  if (pathname.startsWith('/api/')) {
+    handleApi(req, res, pathname);
+  } else if (config.staticDir) {
+    serveStatic(res, pathname);
+  } else {
+    sendProxyError(res, 404, 'not_found', `未知接口: ${pathname}`);
+  }
+});
+
+server.listen(config.port, () => {
+  console.log(`🚀 翻译代理已启动: http://localhost:${config.port}`);
+  if (!baidu.isConfigured()) {
+    console.warn('⚠️ 未设置 BAIDU_APP_ID / BAIDU_API_KEY，翻译接口将返回 503');
+  }
+});
@@ -0,0 +1,70 @@
+// 按用户的每日配额（内存计数，进程重启后清零）
+export class QuotaExceededError extends Error {
+  constructor(kind, limit) {
+    super(`今日${kind === 'text' ? '文本翻译字符' : kind === 'image' ? '图片翻译次数' : '语音翻译次数'}额度已用完（上限 ${limit}）`);
+    this.kind = kind;
+    this.limit = limit;
+  }
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+export class QuotaTracker {
+  // limits: { text: 每日字符数, image: 每日次数, speech: 每日次数 }，0 表示不限
+  constructor(limits) {
+    this.limits = limits;
+    this.day = today();
+    this.usage = new Map();
+  }
+
+  getUsage(userId) {
+    if (this.day !== today()) {
+      this.day = today();
+      this.usage.clear();
+    }
+    let usage = this.usage.get(userId);
+    if (!usage) {
+      usage = { text: 0, image: 0, speech: 0 };
+      this.usage.set(userId, usage);
+    }
+    return usage;
+  }
+
+  // 请求前检查并预占用量，超出配额时抛出 QuotaExceededError
+  // 检查和预占在同一步完成，同一用户的并发请求不会一起越过上限
+  reserve(userId, kind, amount) {
+    const limit = this.limits[kind];
+    const usage = this.getUsage(userId);
+    if (limit && usage[kind] + amount > limit) {
+      throw new QuotaExceededError(kind, limit);
+    }
+    usage[kind] += amount;
+  }
+
+  // 上游失败时退还预占的用量（跨天后计数已清零，不再退还）
+  release(userId, kind, amount, day) {
+    if (day !== this.day) return;
+    const usage = this.getUsage(userId);
+    usage[kind] = Math.max(usage[kind] - amount, 0);
+  }
+
+  // 预占用量后执行上游调用，失败时退还
+  async consume(userId, kind, amount, call) {
+    this.reserve(userId, kind, amount);
+    const day = this.day;
+    try {
+      return await call();
+    } catch (error) {
+      this.release(userId, kind, amount, day);
+      throw error;
+    }
+  }
+
+  remaining(userId) {
+    const usage = this.getUsage(userId);
+    return Object.fromEntries(Object.entries(this.limits).map(([kind, limit]) => [
+      kind,
+      limit ? Math.max(limit - usage[kind], 0) : null
+    ]));
+  }
+}
@@ -1,5 +1,6 @@
+import { useEffect } from "react";
 import { BrowserRouter as Router, Routes, Route } from "react-router-dom";
-import { Toaster } from "sonner";
+import { Toaster, toast } from "sonner";
 import Home from "./pages/Home";
 import TextTranslate from "./pages/TextTranslate";
 import CameraTranslate from "./pages/CameraTranslate";
@@ -11,8 +12,95 @@ import LanguageSettings from "./pages/LanguageSettings";
 import Profile from "./pages/Profile";
 import Login from "./pages/Login";
 import EmbeddedBrowserDebugger from "./components/EmbeddedBrowserDebugger";
+import { useTranslationStore } from "./store/translationStore";
+import { translationService, providerRegistry } from "./services/translationService";
+import { offlineTranslationService } from "./services/offlineTranslationService";
+import { glossaryService } from "./services/glossaryService";
+import { translationMemoryService } from "./services/translationMemoryService";
+import Glossary from "./pages/Glossary";
+import FileTranslate from "./pages/FileTranslate";
+import DocumentTranslate from "./pages/DocumentTranslate";
+import Usage from "./pages/Usage";
+import CacheManager from "./pages/CacheManager";
+import { budgetService } from "./services/budgetService";
+import { pricingService } from "./services/pricingService";
+import { translationCacheService, DEFAULT_IMAGE_MATCHING } from "./services/cacheService";
 
 export default function App() {
+  const preferredModel = useTranslationStore(state => state.settings.preferredModel);
+  const failoverChain = useTranslationStore(state => state.settings.failoverChain);
+  const offlineMode = useTranslationStore(state => state.settings.offlineMode);
+  const budgets = useTranslationStore(state => state.settings.budgets);
+  const pricingPlans = useTranslationStore(state => state.settings.pricingPlans);
+  const imageHashAlgorithm = useTranslationStore(state => state.settings.imageHashAlgorithm);
+  const imageMatchDistance = useTranslationStore(state => state.settings.imageMatchDistance);
+  const history = useTranslationStore(state => state.history);
+  const glossaries = useTranslationStore(state => state.glossaries);
+
+  // 用户设置中的首选提供方即为主翻译服务的默认模型
+  useEffect(() => {
+    if (providerRegistry.has(preferredModel)) {
+      translationService.setDefaultModel(preferredModel);
+    }
+  }, [preferredModel]);
+
+  useEffect(() => {
+    translationService.setFailoverChain(failoverChain || []);
+  }, [failoverChain]);
+
+  useEffect(() => {
+    translationService.setOfflineMode(!!offlineMode);
+  }, [offlineMode]);
+
+  useEffect(() => {
+    pricingService.setSelectedPlans(pricingPlans || {});
+  }, [pricingPlans]);
+
+  useEffect(() => {
+    translationCacheService.setImageMatching({
+      algorithm: imageHashAlgorithm || DEFAULT_IMAGE_MATCHING.algorithm,
+      maxDistance: imageMatchDistance ?? DEFAULT_IMAGE_MATCHING.maxDistance
+    });
+  }, [imageHashAlgorithm, imageMatchDistance]);
+
+  // 预算接近或超出上限时提醒（先订阅，设置规则时的检查结果也能提示）
+  useEffect(() => budgetService.onAlert(({ status, message }) => {
+    if (status.level === 'exceeded') {
+      toast.error(message);
+    } else {
+      toast.warning(message);
+    }
+  }), []);
+
+  useEffect(() => {
+    budgetService.setRules(budgets || []);
+  }, [budgets]);
+
+  // 历史记录作为离线翻译的词条来源和翻译记忆的语料
+  useEffect(() => {
+    const entries = history.map(record => ({
+      sourceText: record.sourceText,
+      translatedText: record.translatedText,
+      sourceLang: record.sourceLang,
+      targetLang: record.targetLang
+    }));
+    offlineTranslationService.setEntries('history', entries);
+    translationMemoryService.setEntries('history', entries);
+  }, [history]);
+
+  // 术语表同时用于在线翻译的术语保护和离线翻译的词条查找
+  useEffect(() => {
+    glossaryService.setGlossaries(glossaries);
+    offlineTranslationService.setEntries('glossary', glossaries
+      .filter(glossary => glossary.enabled)
+      .flatMap(glossary => glossary.terms.map(term => ({
+        sourceText: term.sourceTerm,
+        translatedText: term.doNotTranslate ? term.sourceTerm : term.targetTerm,
+        sourceLang: glossary.sourceLang,
+        targetLang: glossary.targetLang
+      }))));
+  }, [glossaries]);
+
   return (
     <Router>
       <Routes>
@@ -21,9 +109,14 @@ export default function App() {
         <Route path="/camera-translate" element={<CameraTranslate />} />
         <Route path="/audio-translate" element={<AudioTranslate />} />
         <Route path="/overlay" element={<InterfaceOverlay />} />
+        <Route path="/file-translate" element={<FileTranslate />} />
+        <Route path="/document-translate" element={<DocumentTranslate />} />
         <Route path="/history" element={<History />} />
         <Route path="/settings" element={<Settings />} />
         <Route path="/language-settings" element={<LanguageSettings />} />
+        <Route path="/glossary" element={<Glossary />} />
+        <Route path="/usage" element={<Usage />} />
+        <Route path="/cache" element={<CacheManager />} />
         <Route path="/profile" element={<Profile />} />
         <Route path="/login" element={<Login />} />
       </Routes>
@@ -2,18 +2,32 @@ import React, { useState, useEffect } from 'react';
 import { browserEnvironment, environmentConfig, getDebugInfo } from '../utils/browserDetection';
 import { AlertTriangle, Info, CheckCircle, XCircle, Copy, RefreshCw } from 'lucide-react';
 import { toast } from 'sonner';
+import { baiduRequestScheduler, type BaiduEndpoint, type RequestQueueStats } from '../services/rateLimiter';
+import { PROXY_ENDPOINTS, checkProxyHealth } from '../services/translationProxy';
+import { clearRecentErrors, getRecentErrors, type ErrorLogEntry } from '../services/translationErrors';
+
+const ENDPOINT_LABELS: Record<BaiduEndpoint, string> = {
+  text: '文本',
+  image: '图片',
+  speech: '语音'
+};
 
 interface DebugInfo {
   timestamp: string;
   environment: any;
   debugData: any;
   testResults: Record<string, boolean>;
+  requestQueues: Record<BaiduEndpoint, RequestQueueStats>;
+  recentErrors: ErrorLogEntry[];
 }
 
 export function EmbeddedBrowserDebugger() {
   const [debugInfo, setDebugInfo] = useState<DebugInfo | null>(null);
   const [isVisible, setIsVisible] = useState(false);
   const [testResults, setTestResults] = useState<Record<string, boolean>>({});
+  const [queueStats, setQueueStats] = useState(() => baiduRequestScheduler.getStats());
+  const [recentErrors, setRecentErrors] = useState<ErrorLogEntry[]>(() => getRecentErrors());
+  const [expandedError, setExpandedError] = useState<string | null>(null);
 
   // 只在开发环境或嵌入式浏览器中显示
   const shouldShow = import.meta.env.DEV || browserEnvironment.isEmbedded;
@@ -24,18 +38,32 @@ export function EmbeddedBrowserDebugger() {
     }
   }, [shouldShow]);
 
+  // 面板打开时每秒刷新请求队列状态和最近的错误
+  useEffect(() => {
+    if (!isVisible) return;
+
+    const refresh = () => {
+      setQueueStats(baiduRequestScheduler.getStats());
+      setRecentErrors(getRecentErrors());
+    };
+    refresh();
+    const timer = setInterval(refresh, 1000);
+    return () => clearInterval(timer);
+  }, [isVisible]);
+
   const runDiagnostics = async () => {
     console.log('🔍 运行嵌入式浏览器诊断...');
     
+    const proxyHealth = await checkProxyHealth();
     const tests = {
       'Fetch API': testFetchAPI(),
       'CORS预检': await testCORSPreflight(),
-      '环境变量访问': testEnvironmentVariables(),
+      '代理凭据配置': proxyHealth.configured,
       '本地存储': testLocalStorage(),
       '剪贴板API': await testClipboardAPI(),
       '语音合成': testSpeechSynthesis(),
       '网络连接': testNetworkConnection(),
-      '代理配置': await testProxyConfiguration()
+      '翻译代理': proxyHealth.ok
     };
 
     setTestResults(tests);
@@ -44,7 +72,9 @@ export function EmbeddedBrowserDebugger() {
       timestamp: new Date().toISOString(),
       environment: browserEnvironment,
       debugData: getDebugInfo(),
-      testResults: tests
+      testResults: tests,
+      requestQueues: baiduRequestScheduler.getStats(),
+      recentErrors: getRecentErrors()
     };
     
     setDebugInfo(info);
@@ -64,7 +94,7 @@ export function EmbeddedBrowserDebugger() {
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), 3000);
       
-      await fetch('/api/baidu/api/trans/vip/translate', {
+      await fetch(PROXY_ENDPOINTS.text, {
         method: 'OPTIONS',
         signal: controller.signal
       });
@@ -76,16 +106,6 @@ export function EmbeddedBrowserDebugger() {
     }
   };
 
-  const testEnvironmentVariables = (): boolean => {
-    try {
-      const appId = import.meta.env.VITE_BAIDU_APP_ID;
-      const apiKey = import.meta.env.VITE_BAIDU_API_KEY;
-      return !!(appId && apiKey);
-    } catch {
-      return false;
-    }
-  };
-
   const testLocalStorage = (): boolean => {
     try {
       const testKey = '__embedded_browser_test__';
@@ -122,32 +142,10 @@ export function EmbeddedBrowserDebugger() {
     }
   };
 
-  const testProxyConfiguration = async (): Promise<boolean> => {
-    try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 5000);
-      
-      const response = await fetch('/api/baidu/api/trans/vip/translate', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/x-www-form-urlencoded'
-        },
-        body: 'q=test&from=en&to=zh&appid=test&salt=123&sign=test',
-        signal: controller.signal
-      });
-      
-      clearTimeout(timeoutId);
-      // 即使返回错误，只要能连接到代理就算成功
-      return response.status !== 0;
-    } catch {
-      return false;
-    }
-  };
-
   const copyDebugInfo = async () => {
     if (!debugInfo) return;
     
-    const debugText = JSON.stringify(debugInfo, null, 2);
+    const debugText = JSON.stringify({ ...debugInfo, recentErrors: getRecentErrors() }, null, 2);
     
     try {
       if (navigator.clipboard) {
@@ -286,13 +284,89 @@ export function EmbeddedBrowserDebugger() {
               </div>
             </div>
 
+            {/* 请求队列 */}
+            <div>
+              <h4 className="font-medium text-sm text-gray-700 mb-2">百度请求队列</h4>
+              <div className="space-y-1">
+                {(Object.keys(ENDPOINT_LABELS) as BaiduEndpoint[]).map(endpoint => {
+                  const stats = queueStats[endpoint];
+                  return (
+                    <div key={endpoint} className="text-xs text-gray-600">
+                      <div className="flex items-center justify-between">
+                        <span>{ENDPOINT_LABELS[endpoint]} ({stats.config.qps} QPS / 并发 {stats.config.concurrency})</span>
+                        <span className={stats.queued > 0 ? 'text-orange-600' : 'text-green-600'}>
+                          排队 {stats.queued} · 进行中 {stats.running}
+                        </span>
+                      </div>
+                      <div className="text-gray-500">
+                        交互 {stats.queuedByPriority.interactive} / 普通 {stats.queuedByPriority.normal} / 后台 {stats.queuedByPriority.background}
+                        {' · '}等待 平均 {stats.averageWaitMs}ms，最长 {stats.maxWaitMs}ms
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            {/* 最近的错误：展开后显示原始错误链，最外层在前 */}
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <h4 className="font-medium text-sm text-gray-700">最近的错误</h4>
+                {recentErrors.length > 0 && (
+                  <button
+                    onClick={() => {
+                      clearRecentErrors();
+                      setRecentErrors([]);
+                    }}
+                    className="text-xs text-gray-500 hover:text-gray-700"
+                  >
+                    清空
+                  </button>
+                )}
+              </div>
+              {recentErrors.length === 0 ? (
+                <div className="text-xs text-gray-500">暂无</div>
+              ) : (
+                <div className="space-y-1">
+                  {recentErrors.map(entry => (
+                    <div key={entry.id} className="text-xs">
+                      <button
+                        onClick={() => setExpandedError(expandedError === entry.id ? null : entry.id)}
+                        className="w-full text-left text-red-600 hover:text-red-700"
+                      >
+                        {new Date(entry.timestamp).toLocaleTimeString()} · {entry.source}
+                        {entry.kind && ` · ${entry.kind}`}
+                        <div className="text-gray-600 truncate">{entry.message}</div>
+                      </button>
+                      {expandedError === entry.id && (
+                        <ol className="mt-1 ml-2 pl-2 border-l border-gray-200 space-y-1 text-gray-600">
+                          {entry.chain.map((link, index) => (
+                            <li key={index}>
+                              <span className="font-mono">{link.name}</span>
+                              {link.code && ` [${link.code}]`}
+                              {link.providerCode && ` (${link.providerCode})`}
+                              {link.status !== undefined && ` HTTP ${link.status}`}
+                              <div>{link.message}</div>
+                              {link.data && (
+                                <pre className="mt-0.5 p-1 bg-gray-50 rounded whitespace-pre-wrap break-all">{link.data}</pre>
+                              )}
+                            </li>
+                          ))}
+                        </ol>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
             {/* 建议 */}
             {browserEnvironment.isEmbedded && (
               <div className="bg-orange-50 border border-orange-200 rounded p-3">
                 <h4 className="font-medium text-sm text-orange-800 mb-1">建议</h4>
                 <ul className="text-xs text-orange-700 space-y-1">
                   <li>• 确保代理配置正确</li>
-                  <li>• 检查环境变量设置</li>
+                  <li>• 检查翻译代理是否已配置百度凭据</li>
                   <li>• 如有问题请联系技术支持</li>
                 </ul>
               </div>
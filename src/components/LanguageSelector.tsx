@@ -1,4 +1,4 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { Search, Globe, Star, Clock, ChevronDown, X } from 'lucide-react';
 import { 
   SUPPORTED_LANGUAGES, 
@@ -10,6 +10,7 @@ import {
   type Language 
 } from '../config/languages';
 import { useTranslationStore } from '../store/translationStore';
+import { detectLanguageCandidates } from '../utils/languageDetection';
 import { Button } from './ui';
 
 interface LanguageSelectorProps {
@@ -290,6 +291,7 @@ interface LanguagePairSelectorProps {
   onSwap?: () => void;
   className?: string;
   disabled?: boolean;
+  detectionText?: string; // 源语言为自动检测时，用于展示候选语言的输入文本
 }
 
 export function LanguagePairSelector({
@@ -299,9 +301,16 @@ export function LanguagePairSelector({
   onTargetChange,
   onSwap,
   className = '',
-  disabled = false
+  disabled = false,
+  detectionText
 }: LanguagePairSelectorProps) {
   const { addRecentLanguagePair } = useTranslationStore();
+
+  // 自动检测时在本地给出候选语言，点击即可固定源语言
+  const detectedCandidates = useMemo(() => {
+    if (sourceLang !== 'auto' || !detectionText?.trim()) return [];
+    return detectLanguageCandidates(detectionText, 3).filter(candidate => candidate.score >= 0.05);
+  }, [sourceLang, detectionText]);
   
   const handleSourceChange = (value: string) => {
     onSourceChange(value);
@@ -321,7 +330,8 @@ export function LanguagePairSelector({
   };
   
   return (
-    <div className={`flex items-center space-x-2 ${className}`}>
+    <div className={className}>
+    <div className="flex items-center space-x-2">
       <div className="flex-1">
         <LanguageSelector
           value={sourceLang}
@@ -357,5 +367,27 @@ export function LanguagePairSelector({
         />
       </div>
     </div>
+
+    {detectedCandidates.length > 0 && (
+      <div className="mt-2 flex flex-wrap items-center gap-1 text-xs">
+        <span className="text-gray-500">检测到:</span>
+        {detectedCandidates.map(candidate => {
+          const language = getLanguageByCode(candidate.code);
+          return (
+            <button
+              key={candidate.code}
+              type="button"
+              onClick={() => handleSourceChange(candidate.code)}
+              disabled={disabled}
+              className="px-2 py-0.5 rounded-full bg-blue-50 text-blue-700 hover:bg-blue-100 transition-colors"
+              title="设为源语言"
+            >
+              {language ? `${language.flag} ${language.nativeName}` : candidate.code} {Math.round(candidate.score * 100)}%
+            </button>
+          );
+        })}
+      </div>
+    )}
+    </div>
   );
 }
\ No newline at end of file
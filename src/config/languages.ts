@@ -1,4 +1,6 @@
 // Language Configuration
+import { detectLanguage } from '../utils/languageDetection';
+
 export interface Language {
   code: string;
   name: string;
@@ -168,17 +170,6 @@ export const getLanguagePairLabel = (source: string, target: string): string =>
 };
 
 export const detectLanguageFromText = (text: string): string => {
-  // Simple language detection based on character patterns
-  // In a real app, you'd use a proper language detection library
-  
-  if (/[\u4e00-\u9fff]/.test(text)) return 'zh'; // Chinese
-  if (/[\u3040-\u309f\u30a0-\u30ff]/.test(text)) return 'ja'; // Japanese
-  if (/[\uac00-\ud7af]/.test(text)) return 'ko'; // Korean
-  if (/[\u0600-\u06ff]/.test(text)) return 'ar'; // Arabic
-  if (/[\u0400-\u04ff]/.test(text)) return 'ru'; // Russian
-  if (/[\u0900-\u097f]/.test(text)) return 'hi'; // Hindi
-  if (/[\u0e00-\u0e7f]/.test(text)) return 'th'; // Thai
-  
-  // Default to auto for other languages
-  return 'auto';
+  // 本地检测，无法判断（如没有文字）时返回 auto
+  return detectLanguage(text, 'auto');
 };
\ No newline at end of file
@@ -0,0 +1,55 @@
+// 内置离线短语本：常见界面文案和日常短语，离线模式下作为最后的译文来源
+export type PhrasebookEntry = Partial<Record<string, string>>;
+
+export const PHRASEBOOK: PhrasebookEntry[] = [
+  // 界面按钮
+  { en: 'OK', zh: '确定', ja: 'OK', ko: '확인', fr: 'OK', de: 'OK', es: 'Aceptar' },
+  { en: 'Cancel', zh: '取消', ja: 'キャンセル', ko: '취소', fr: 'Annuler', de: 'Abbrechen', es: 'Cancelar' },
+  { en: 'Confirm', zh: '确认', ja: '確認', ko: '확인', fr: 'Confirmer', de: 'Bestätigen', es: 'Confirmar' },
+  { en: 'Save', zh: '保存', ja: '保存', ko: '저장', fr: 'Enregistrer', de: 'Speichern', es: 'Guardar' },
+  { en: 'Delete', zh: '删除', ja: '削除', ko: '삭제', fr: 'Supprimer', de: 'Löschen', es: 'Eliminar' },
+  { en: 'Edit', zh: '编辑', ja: '編集', ko: '편집', fr: 'Modifier', de: 'Bearbeiten', es: 'Editar' },
+  { en: 'Copy', zh: '复制', ja: 'コピー', ko: '복사', fr: 'Copier', de: 'Kopieren', es: 'Copiar' },
+  { en: 'Paste', zh: '粘贴', ja: '貼り付け', ko: '붙여넣기', fr: 'Coller', de: 'Einfügen', es: 'Pegar' },
+  { en: 'Share', zh: '分享', ja: '共有', ko: '공유', fr: 'Partager', de: 'Teilen', es: 'Compartir' },
+  { en: 'Search', zh: '搜索', ja: '検索', ko: '검색', fr: 'Rechercher', de: 'Suchen', es: 'Buscar' },
+  { en: 'Settings', zh: '设置', ja: '設定', ko: '설정', fr: 'Paramètres', de: 'Einstellungen', es: 'Configuración' },
+  { en: 'Back', zh: '返回', ja: '戻る', ko: '뒤로', fr: 'Retour', de: 'Zurück', es: 'Atrás' },
+  { en: 'Next', zh: '下一步', ja: '次へ', ko: '다음', fr: 'Suivant', de: 'Weiter', es: 'Siguiente' },
+  { en: 'Previous', zh: '上一步', ja: '前へ', ko: '이전', fr: 'Précédent', de: 'Zurück', es: 'Anterior' },
+  { en: 'Close', zh: '关闭', ja: '閉じる', ko: '닫기', fr: 'Fermer', de: 'Schließen', es: 'Cerrar' },
+  { en: 'Open', zh: '打开', ja: '開く', ko: '열기', fr: 'Ouvrir', de: 'Öffnen', es: 'Abrir' },
+  { en: 'Submit', zh: '提交', ja: '送信', ko: '제출', fr: 'Envoyer', de: 'Absenden', es: 'Enviar' },
+  { en: 'Send', zh: '发送', ja: '送信', ko: '보내기', fr: 'Envoyer', de: 'Senden', es: 'Enviar' },
+  { en: 'Retry', zh: '重试', ja: '再試行', ko: '다시 시도', fr: 'Réessayer', de: 'Erneut versuchen', es: 'Reintentar' },
+  { en: 'Refresh', zh: '刷新', ja: '更新', ko: '새로고침', fr: 'Actualiser', de: 'Aktualisieren', es: 'Actualizar' },
+  { en: 'Download', zh: '下载', ja: 'ダウンロード', ko: '다운로드', fr: 'Télécharger', de: 'Herunterladen', es: 'Descargar' },
+  { en: 'Upload', zh: '上传', ja: 'アップロード', ko: '업로드', fr: 'Téléverser', de: 'Hochladen', es: 'Subir' },
+  { en: 'Log in', zh: '登录', ja: 'ログイン', ko: '로그인', fr: 'Se connecter', de: 'Anmelden', es: 'Iniciar sesión' },
+  { en: 'Log out', zh: '退出登录', ja: 'ログアウト', ko: '로그아웃', fr: 'Se déconnecter', de: 'Abmelden', es: 'Cerrar sesión' },
+  { en: 'Sign up', zh: '注册', ja: '新規登録', ko: '회원가입', fr: "S'inscrire", de: 'Registrieren', es: 'Registrarse' },
+  { en: 'Username', zh: '用户名', ja: 'ユーザー名', ko: '사용자 이름', fr: "Nom d'utilisateur", de: 'Benutzername', es: 'Nombre de usuario' },
+  { en: 'Password', zh: '密码', ja: 'パスワード', ko: '비밀번호', fr: 'Mot de passe', de: 'Passwort', es: 'Contraseña' },
+  { en: 'Home', zh: '首页', ja: 'ホーム', ko: '홈', fr: 'Accueil', de: 'Startseite', es: 'Inicio' },
+  { en: 'Help', zh: '帮助', ja: 'ヘルプ', ko: '도움말', fr: 'Aide', de: 'Hilfe', es: 'Ayuda' },
+  { en: 'Language', zh: '语言', ja: '言語', ko: '언어', fr: 'Langue', de: 'Sprache', es: 'Idioma' },
+  { en: 'Loading...', zh: '加载中...', ja: '読み込み中...', ko: '로딩 중...', fr: 'Chargement...', de: 'Wird geladen...', es: 'Cargando...' },
+  { en: 'Error', zh: '错误', ja: 'エラー', ko: '오류', fr: 'Erreur', de: 'Fehler', es: 'Error' },
+  { en: 'Success', zh: '成功', ja: '成功', ko: '성공', fr: 'Succès', de: 'Erfolg', es: 'Éxito' },
+  { en: 'Warning', zh: '警告', ja: '警告', ko: '경고', fr: 'Avertissement', de: 'Warnung', es: 'Advertencia' },
+  { en: 'Yes', zh: '是', ja: 'はい', ko: '예', fr: 'Oui', de: 'Ja', es: 'Sí' },
+  { en: 'No', zh: '否', ja: 'いいえ', ko: '아니요', fr: 'Non', de: 'Nein', es: 'No' },
+
+  // 日常短语
+  { en: 'Hello', zh: '你好', ja: 'こんにちは', ko: '안녕하세요', fr: 'Bonjour', de: 'Hallo', es: 'Hola' },
+  { en: 'Goodbye', zh: '再见', ja: 'さようなら', ko: '안녕히 가세요', fr: 'Au revoir', de: 'Auf Wiedersehen', es: 'Adiós' },
+  { en: 'Thank you', zh: '谢谢', ja: 'ありがとうございます', ko: '감사합니다', fr: 'Merci', de: 'Danke', es: 'Gracias' },
+  { en: 'Sorry', zh: '对不起', ja: 'すみません', ko: '죄송합니다', fr: 'Désolé', de: 'Entschuldigung', es: 'Lo siento' },
+  { en: 'Good morning', zh: '早上好', ja: 'おはようございます', ko: '좋은 아침입니다', fr: 'Bonjour', de: 'Guten Morgen', es: 'Buenos días' },
+  { en: 'Good night', zh: '晚安', ja: 'おやすみなさい', ko: '안녕히 주무세요', fr: 'Bonne nuit', de: 'Gute Nacht', es: 'Buenas noches' },
+  { en: 'Where is the restroom?', zh: '洗手间在哪里？', ja: 'トイレはどこですか？', ko: '화장실이 어디예요?', fr: 'Où sont les toilettes ?', de: 'Wo ist die Toilette?', es: '¿Dónde está el baño?' },
+  { en: 'How much is this?', zh: '这个多少钱？', ja: 'これはいくらですか？', ko: '이거 얼마예요?', fr: 'Combien ça coûte ?', de: 'Wie viel kostet das?', es: '¿Cuánto cuesta esto?' },
+  { en: 'I don\'t understand', zh: '我听不懂', ja: 'わかりません', ko: '이해하지 못했어요', fr: 'Je ne comprends pas', de: 'Ich verstehe nicht', es: 'No entiendo' },
+  { en: 'Exit', zh: '出口', ja: '出口', ko: '출구', fr: 'Sortie', de: 'Ausgang', es: 'Salida' },
+  { en: 'Entrance', zh: '入口', ja: '入口', ko: '입구', fr: 'Entrée', de: 'Eingang', es: 'Entrada' }
+];
@@ -1,13 +1,16 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { ArrowLeft, Mic, Square, Play, Pause, Volume2, Copy, Share2 } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { baiduTranslationService } from '../services/baiduTranslationService';
 import { useTranslationStore } from '../store/translationStore';
+import { isCancelledError } from '../utils/abort';
+import { getErrorRemediation } from '../services/translationErrors';
+import { qualityCheckService } from '../services/qualityCheckService';
 import { toast } from 'sonner';
 
 export default function AudioTranslate() {
   const navigate = useNavigate();
-  const { addTranslation, addRecentLanguagePair } = useTranslationStore();
+  const { addTranslation, addRecentLanguagePair, settings } = useTranslationStore();
   const [isRecording, setIsRecording] = useState(false);
   const [isPlaying, setIsPlaying] = useState(false);
   const [recordingTime, setRecordingTime] = useState(0);
@@ -19,9 +22,14 @@ export default function AudioTranslate() {
   const [sourceLang, setSourceLang] = useState('auto');
   const [targetLang, setTargetLang] = useState('en');
   const [error, setError] = useState<string | null>(null);
+  const [errorRemediation, setErrorRemediation] = useState<string | null>(null);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
   const audioRef = useRef<HTMLAudioElement | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // 离开页面时取消未完成的语音翻译
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
 
   const startRecording = async () => {
     try {
@@ -65,8 +73,14 @@ export default function AudioTranslate() {
   };
 
   const processAudio = async (blob: Blob) => {
+    // 新的录音取代上一次还未完成的翻译
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
     setIsProcessing(true);
     setError(null);
+    setErrorRemediation(null);
     
     try {
       // 将音频转换为base64格式
@@ -80,12 +94,20 @@ export default function AudioTranslate() {
         rate: 16000,
         channel: 1,
         sourceLang,
-        targetLang
+        targetLang,
+        signal: controller.signal
       });
       
       setTranscript(result.originalText);
       setTranslatedText(result.translatedText);
       setTranslatedAudio(result.translatedAudio);
+
+      // 语音接口不返回置信度，按识别文本和译文做质量检查
+      const quality = await qualityCheckService.check(result.originalText, result.translatedText, sourceLang, targetLang, {
+        backTranslate: settings.qualityCheck,
+        model: settings.preferredModel,
+        signal: controller.signal
+      });
       
       // 添加到翻译历史
       addTranslation({
@@ -94,9 +116,10 @@ export default function AudioTranslate() {
         sourceLang,
         targetLang,
         type: 'audio',
-        confidence: 0.9,
+        confidence: quality.score,
         model: 'baidu',
-        isFavorite: false
+        isFavorite: false,
+        metadata: { quality }
       });
       
       // 更新最近使用的语言对
@@ -104,11 +127,17 @@ export default function AudioTranslate() {
       
       toast.success('语音翻译完成！');
     } catch (error) {
+      if (isCancelledError(error)) return;
       console.error('语音翻译错误:', error);
       setError(error instanceof Error ? error.message : '语音翻译失败');
+      setErrorRemediation(getErrorRemediation(error) || null);
       toast.error('语音翻译失败，请重试');
     } finally {
-      setIsProcessing(false);
+      // 被新请求取代时由新请求负责状态
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+        setIsProcessing(false);
+      }
     }
   };
 
@@ -152,6 +181,7 @@ export default function AudioTranslate() {
     setRecordingTime(0);
     setIsPlaying(false);
     setError(null);
+    setErrorRemediation(null);
     if (audioRef.current) {
       audioRef.current.pause();
       audioRef.current.src = '';
@@ -242,6 +272,9 @@ export default function AudioTranslate() {
             <div className="text-sm text-red-700">
               <strong>错误:</strong> {error}
             </div>
+            {errorRemediation && (
+              <div className="text-xs text-red-600 mt-1">{errorRemediation}</div>
+            )}
           </div>
         )}
         {/* Recording Interface */}
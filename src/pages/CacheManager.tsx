@@ -0,0 +1,319 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ArrowLeft, Database, Download, Pin, PinOff, Search, Trash2, Upload } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import {
+  translationCacheService,
+  type CacheEntrySummary,
+  type CacheStoreName
+} from '../services/cacheService';
+import { translationService } from '../services/translationService';
+import { getLanguageByCode } from '../config/languages';
+import { Button, Card, Input } from '../components/ui';
+import { toast } from 'sonner';
+import { downloadBlob } from '../utils/download';
+
+// 列表每次显示的条数
+const PAGE_SIZE = 50;
+
+const CACHE_LABELS: Record<CacheStoreName, string> = {
+  text: '文本',
+  image: '图片',
+  speech: '语音',
+  ocr: 'OCR'
+};
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024
+    ? `${(bytes / 1024 / 1024).toFixed(1)} MB`
+    : bytes >= 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${bytes} B`;
+
+const languageName = (code?: string) => code ? getLanguageByCode(code)?.nativeName || code : '';
+
+export default function CacheManager() {
+  const navigate = useNavigate();
+  const [cacheName, setCacheName] = useState<CacheStoreName>('text');
+  const [entries, setEntries] = useState<CacheEntrySummary[] | null>(null);
+  const [query, setQuery] = useState('');
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const [version, setVersion] = useState(0);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const reload = () => setVersion(v => v + 1);
+
+  useEffect(() => {
+    let cancelled = false;
+    translationCacheService.listCacheEntries(cacheName).then(list => {
+      if (!cancelled) setEntries(list);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [cacheName, version]);
+
+  const providers = translationService.getProviders();
+  // 文本缓存的模型标识形如 "baidu" 或 "openai:模型:领域:语气"
+  const modelLabel = (model?: string) => {
+    if (!model) return '';
+    if (model === 'block') return '图片文字块';
+    const [provider, ...rest] = model.split(':');
+    const name = providers.find(item => item.id === provider)?.displayName || provider;
+    return rest.length > 0 ? `${name} · ${rest[0]}` : name;
+  };
+
+  const keyword = query.trim().toLowerCase();
+  const filtered = (entries || []).filter(entry => !keyword || [
+    entry.key,
+    entry.info?.sourceText,
+    entry.info?.translatedText,
+    entry.info?.model,
+    entry.info?.sourceLang,
+    entry.info?.targetLang
+  ].some(value => value?.toLowerCase().includes(keyword)));
+  const totalBytes = (entries || []).reduce((sum, entry) => sum + entry.bytes, 0);
+  const pinnedCount = (entries || []).filter(entry => entry.pinned).length;
+
+  const handleSwitch = (name: CacheStoreName) => {
+    setCacheName(name);
+    setEntries(null);
+    setVisibleCount(PAGE_SIZE);
+  };
+
+  const handleDelete = async (key: string) => {
+    await translationCacheService.deleteCacheEntry(cacheName, key);
+    reload();
+    toast.success('缓存项已删除');
+  };
+
+  const handleTogglePin = async (entry: CacheEntrySummary) => {
+    await translationCacheService.setCacheEntryPinned(cacheName, entry.key, !entry.pinned);
+    reload();
+    toast.success(entry.pinned ? '已取消固定' : '已固定，该缓存项不会过期');
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm(`确定要清空${CACHE_LABELS[cacheName]}缓存吗？固定的缓存项也会被删除。`)) return;
+    await translationCacheService.clearCache(cacheName);
+    reload();
+    toast.success(`${CACHE_LABELS[cacheName]}缓存已清空`);
+  };
+
+  const handleExport = async () => {
+    const data = await translationCacheService.exportTextCache();
+    if (data.entries.length === 0) {
+      toast.error('文本缓存为空');
+      return;
+    }
+
+    downloadBlob(
+      new Blob([JSON.stringify(data, null, 2)], { type: 'application/json;charset=utf-8;' }),
+      `translation-text-cache-${new Date().toISOString().split('T')[0]}.json`
+    );
+
+    toast.success(`已导出 ${data.entries.length} 条文本缓存`);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const count = await translationCacheService.importTextCache(JSON.parse(await file.text()));
+      if (count === 0) {
+        toast.error('文件中没有可导入的缓存项（可能已全部过期）');
+        return;
+      }
+      reload();
+      toast.success(`已导入 ${count} 条文本缓存`);
+    } catch (error) {
+      console.error('文本缓存导入失败:', error);
+      toast.error(error instanceof SyntaxError ? '文件不是有效的 JSON' : error instanceof Error ? error.message : '文本缓存导入失败');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-md mx-auto px-4 py-3 flex items-center">
+          <button
+            onClick={() => navigate('/settings')}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5 text-gray-600" />
+          </button>
+          <h1 className="flex-1 text-center text-lg font-semibold text-gray-900">
+            缓存管理
+          </h1>
+          <div className="w-9" />
+        </div>
+      </div>
+
+      <div className="max-w-md mx-auto p-4 space-y-4">
+        {/* Cache Tabs */}
+        <div className="flex bg-gray-100 rounded-lg p-1 text-sm">
+          {(Object.keys(CACHE_LABELS) as CacheStoreName[]).map(name => (
+            <button
+              key={name}
+              onClick={() => handleSwitch(name)}
+              className={`flex-1 py-1.5 rounded-md ${cacheName === name ? 'bg-white shadow-sm text-gray-900' : 'text-gray-500'}`}
+            >
+              {CACHE_LABELS[name]}
+            </button>
+          ))}
+        </div>
+
+        {/* Summary */}
+        <div className="grid grid-cols-3 gap-3">
+          <div className="bg-white rounded-xl p-3 shadow-sm">
+            <div className="text-xs text-gray-500">缓存项</div>
+            <div className="text-lg font-semibold text-gray-900">{entries?.length ?? '-'}</div>
+          </div>
+          <div className="bg-white rounded-xl p-3 shadow-sm">
+            <div className="text-xs text-gray-500">占用空间</div>
+            <div className="text-lg font-semibold text-gray-900">{entries ? formatBytes(totalBytes) : '-'}</div>
+          </div>
+          <div className="bg-white rounded-xl p-3 shadow-sm">
+            <div className="text-xs text-gray-500">已固定</div>
+            <div className="text-lg font-semibold text-blue-600">{entries ? pinnedCount : '-'}</div>
+          </div>
+        </div>
+
+        {/* Text Cache Sharing */}
+        {cacheName === 'text' && (
+          <Card>
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">共享文本缓存</h3>
+            <p className="text-xs text-gray-500 mb-3">
+              导出为 JSON 文件，团队成员导入后，翻译过的文本无需再次请求翻译服务，离线模式下也能使用
+            </p>
+            <div className="flex space-x-2">
+              <Button
+                variant="outline"
+                onClick={handleExport}
+                icon={<Download className="w-4 h-4" />}
+                className="flex-1"
+              >
+                导出
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => fileInputRef.current?.click()}
+                icon={<Upload className="w-4 h-4" />}
+                className="flex-1"
+              >
+                导入
+              </Button>
+            </div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,application/json"
+              onChange={handleImport}
+              className="hidden"
+            />
+          </Card>
+        )}
+
+        {/* Entries */}
+        <Card>
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-lg font-semibold text-gray-900">{CACHE_LABELS[cacheName]}缓存</h3>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={handleClear}
+              disabled={!entries || entries.length === 0}
+              icon={<Trash2 className="w-4 h-4" />}
+            >
+              清空
+            </Button>
+          </div>
+
+          <div className="mb-3">
+            <Input
+              placeholder="搜索原文、译文、语言或缓存键"
+              value={query}
+              onChange={(e) => {
+                setQuery(e.target.value);
+                setVisibleCount(PAGE_SIZE);
+              }}
+              leftIcon={<Search className="w-4 h-4" />}
+            />
+          </div>
+
+          {entries === null ? (
+            <div className="text-center py-6 text-sm text-gray-500">加载中...</div>
+          ) : filtered.length === 0 ? (
+            <div className="text-center py-6 text-sm text-gray-500">
+              <Database className="w-8 h-8 mx-auto mb-2 text-gray-300" />
+              {entries.length === 0 ? '暂无缓存' : '没有匹配的缓存项'}
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {filtered.slice(0, visibleCount).map(entry => {
+                const { info } = entry;
+                const languages = [languageName(info?.sourceLang), languageName(info?.targetLang)].filter(Boolean).join(' → ');
+                return (
+                  <div key={entry.key} className={`p-3 rounded-lg ${entry.pinned ? 'bg-blue-50' : 'bg-gray-50'}`}>
+                    <div className="flex items-start justify-between">
+                      <div className="flex-1 min-w-0">
+                        <div className="text-xs text-gray-500 truncate">
+                          {[languages, modelLabel(info?.model)].filter(Boolean).join(' · ') || entry.key}
+                        </div>
+                        {info?.sourceText ? (
+                          <div className="text-sm text-gray-900 break-words line-clamp-2">{info.sourceText}</div>
+                        ) : (
+                          <div className="text-sm text-gray-400">（无原文记录）</div>
+                        )}
+                        {info?.translatedText && (
+                          <div className="text-sm text-gray-600 break-words line-clamp-2">{info.translatedText}</div>
+                        )}
+                      </div>
+                      <div className="flex items-center ml-2">
+                        <button
+                          onClick={() => handleTogglePin(entry)}
+                          title={entry.pinned ? '取消固定' : '固定（不过期）'}
+                          className={`p-1 ${entry.pinned ? 'text-blue-600' : 'text-gray-400 hover:text-blue-600'}`}
+                        >
+                          {entry.pinned ? <PinOff className="w-4 h-4" /> : <Pin className="w-4 h-4" />}
+                        </button>
+                        <button
+                          onClick={() => handleDelete(entry.key)}
+                          title="删除"
+                          className="p-1 text-gray-400 hover:text-red-500"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+                    <div className="mt-1 flex flex-wrap gap-x-2 text-xs text-gray-400">
+                      <span>{formatBytes(entry.bytes)}</span>
+                      <span>命中 {entry.accessCount} 次</span>
+                      <span>
+                        {entry.pinned ? '已固定' : `${new Date(entry.expiresAt).toLocaleString('zh-CN')} 过期`}
+                      </span>
+                      {!entry.persisted && <span>仅内存</span>}
+                    </div>
+                    <div className="text-xs text-gray-300 font-mono truncate" title={entry.key}>{entry.key}</div>
+                  </div>
+                );
+              })}
+              {filtered.length > visibleCount && (
+                <Button
+                  variant="outline"
+                  onClick={() => setVisibleCount(count => count + PAGE_SIZE)}
+                  className="w-full"
+                >
+                  显示更多（还有 {filtered.length - visibleCount} 项）
+                </Button>
+              )}
+            </div>
+          )}
+          <p className="mt-3 text-xs text-gray-500">
+            命中次数包括本次启动以来的内存命中和从本地数据库读取的次数；固定的缓存项不会过期，也不会因空间不足被清理
+          </p>
+        </Card>
+      </div>
+    </div>
+  );
+}
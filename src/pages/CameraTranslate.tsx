@@ -1,4 +1,4 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import Tesseract from 'tesseract.js';
 import { ArrowLeft, Camera, Image, Zap, Download, Copy, Share2, Settings, Eye, EyeOff } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
@@ -6,10 +6,13 @@ import { baiduTranslationService } from '../services/baiduTranslationService';
 import { useTranslationStore } from '../store/translationStore';
 import { toast } from 'sonner';
 import { ImageTranslationFilter, FilterOptions, FilterResult } from '../services/imageTranslationFilter';
+import { isCancelledError } from '../utils/abort';
+import { getErrorRemediation } from '../services/translationErrors';
+import { qualityCheckService } from '../services/qualityCheckService';
 
 export default function CameraTranslate() {
   const navigate = useNavigate();
-  const { addTranslation, addRecentLanguagePair } = useTranslationStore();
+  const { addTranslation, addRecentLanguagePair, settings } = useTranslationStore();
   const [capturedImage, setCapturedImage] = useState<string | null>(null);
   const [extractedText, setExtractedText] = useState('');
   const [translatedText, setTranslatedText] = useState('');
@@ -17,13 +20,24 @@ export default function CameraTranslate() {
   const [sourceLang, setSourceLang] = useState('auto');
   const [targetLang, setTargetLang] = useState('en');
   const [translatedImage, setTranslatedImage] = useState<string | null>(null);
+  // 处理中已绘制部分译文的图片
+  const [partialImage, setPartialImage] = useState<string | null>(null);
   const [textBlocks, setTextBlocks] = useState<Array<{
     original: string;
     translated: string;
     position: { x: number; y: number; width: number; height: number };
   }>>([]);
   const [error, setError] = useState<string | null>(null);
+  const [errorRemediation, setErrorRemediation] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // 当前图片的处理任务：换图、重拍、切换语言或离开页面时取消
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  useEffect(() => {
+    abortControllerRef.current?.abort();
+  }, [sourceLang, targetLang]);
   
   // New advanced filter states
   const [filterResult, setFilterResult] = useState<FilterResult | null>(null);
@@ -80,8 +94,14 @@ export default function CameraTranslate() {
   };
 
   const processImage = async (imageUrl: string) => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
     setIsProcessing(true);
     setError(null);
+    setErrorRemediation(null);
+    setPartialImage(null);
     setProcessingProgress(0);
     setProcessingStage('初始化处理...');
     
@@ -106,7 +126,10 @@ export default function CameraTranslate() {
           progressCallback: (progress, stage) => {
             setProcessingStage(stage);
             setProcessingProgress(progress);
-          }
+          },
+          // 文本块翻译完一批就显示一次
+          onBlockRendered: (canvas) => setPartialImage(canvas.toDataURL('image/jpeg', 0.8)),
+          signal: controller.signal
         }
       );
       
@@ -130,41 +153,63 @@ export default function CameraTranslate() {
         }
       }));
       setTextBlocks(legacyTextBlocks);
+
+      // 滤镜给出的是处理流程的默认置信度，历史记录中的分数以识别文字的质量检查为准
+      const recognizedText = result.textBlocks.map(block => block.text).join(' ');
+      const translation = result.textBlocks.map(block => (block as any).translatedText || block.text).join(' ');
+      const quality = await qualityCheckService.check(recognizedText, translation, sourceLang, targetLang, {
+        backTranslate: settings.qualityCheck,
+        model: settings.preferredModel,
+        signal: controller.signal
+      });
       
       // 添加到翻译历史
       addTranslation({
-        sourceText: result.textBlocks.map(block => block.text).join(' '),
-        translatedText: result.textBlocks.map(block => (block as any).translatedText || block.text).join(' '),
+        sourceText: recognizedText,
+        translatedText: translation,
         sourceLang,
         targetLang,
         type: 'image',
-        confidence: result.confidence,
+        confidence: quality.score,
         model: 'advanced-filter',
-        isFavorite: false
+        isFavorite: false,
+        metadata: { quality }
       });
       
       // 更新最近使用的语言对
       addRecentLanguagePair({ source: sourceLang, target: targetLang });
       
-      toast.success(`图片翻译完成！置信度: ${Math.round(result.confidence * 100)}%`);
+      toast.success(`图片翻译完成！置信度: ${Math.round(quality.score * 100)}%`);
     } catch (error) {
+      if (isCancelledError(error)) {
+        console.log('图片翻译已取消');
+        return;
+      }
       console.error('图片翻译错误:', error);
       setError(error instanceof Error ? error.message : '图片翻译失败');
+      setErrorRemediation(getErrorRemediation(error) || null);
       toast.error('图片翻译失败，请重试');
     } finally {
-      setIsProcessing(false);
-      setProcessingStage('');
-      setProcessingProgress(0);
+      // 被新图片取代时由新任务负责处理状态
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+        setIsProcessing(false);
+        setPartialImage(null);
+        setProcessingStage('');
+        setProcessingProgress(0);
+      }
     }
   };
 
   const handleRetake = () => {
+    abortControllerRef.current?.abort();
     setCapturedImage(null);
     setExtractedText('');
     setTranslatedText('');
     setTranslatedImage(null);
     setTextBlocks([]);
     setError(null);
+    setErrorRemediation(null);
     setFilterResult(null);
     setShowPreview(false);
   };
@@ -364,6 +409,9 @@ export default function CameraTranslate() {
             <div className="text-sm text-red-700">
               <strong>错误:</strong> {error}
             </div>
+            {errorRemediation && (
+              <div className="text-xs text-red-600 mt-1">{errorRemediation}</div>
+            )}
           </div>
         )}
 
@@ -414,7 +462,7 @@ export default function CameraTranslate() {
             {/* Captured Image */}
             <div className="bg-white rounded-xl p-4 shadow-sm">
               <img
-                src={capturedImage}
+                src={(isProcessing && partialImage) || capturedImage}
                 alt="Captured"
                 className="w-full rounded-lg"
               />
@@ -0,0 +1,249 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertCircle, ArrowLeft, CheckCircle, Download, FileText, Loader2, Upload } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { useTranslationStore } from '../store/translationStore';
+import {
+  documentTranslationService,
+  detectDocumentKind,
+  DOCUMENT_FILE_ACCEPT,
+  type DocumentPartProgress,
+  type DocumentTranslationResult
+} from '../services/documentTranslationService';
+import { Button, Card } from '../components/ui';
+import { LanguagePairSelector } from '../components/LanguageSelector';
+import { toast } from 'sonner';
+import { isCancelledError } from '../utils/abort';
+import { getErrorRemediation } from '../services/translationErrors';
+import { downloadBlob } from '../utils/download';
+
+export default function DocumentTranslate() {
+  const navigate = useNavigate();
+  const { settings } = useTranslationStore();
+
+  const [file, setFile] = useState<File | null>(null);
+  const [sourceLang, setSourceLang] = useState(settings.defaultSourceLang || 'auto');
+  const [targetLang, setTargetLang] = useState(settings.defaultTargetLang || 'zh');
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [parts, setParts] = useState<DocumentPartProgress[]>([]);
+  const [result, setResult] = useState<DocumentTranslationResult | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // 离开页面时取消未完成的翻译
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const handleOpen = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    event.target.value = '';
+    if (!selected) return;
+
+    if (!detectDocumentKind(selected.name)) {
+      toast.error('只支持 DOCX 和 PDF 文件');
+      return;
+    }
+    setFile(selected);
+    setParts([]);
+    setResult(null);
+  };
+
+  const handleTranslate = async () => {
+    if (!file) return;
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsProcessing(true);
+    setResult(null);
+    setParts([]);
+
+    try {
+      const translated = await documentTranslationService.translateFile(file, {
+        sourceLang,
+        targetLang,
+        model: settings.preferredModel,
+        onProgress: setParts,
+        signal: controller.signal
+      });
+      setResult(translated);
+      if (translated.warnings.length > 0) {
+        toast.warning(`翻译完成，${translated.warnings.length} 处格式标记可能有误`);
+      } else {
+        toast.success('文档翻译完成');
+      }
+    } catch (error) {
+      if (isCancelledError(error)) {
+        toast('已取消翻译');
+      } else {
+        console.error('文档翻译失败:', error);
+        toast.error((error as { message?: string })?.message || '翻译失败，请重试', {
+          description: getErrorRemediation(error)
+        });
+      }
+    } finally {
+      abortControllerRef.current = null;
+      setIsProcessing(false);
+    }
+  };
+
+  const handleDownload = () => {
+    if (!result) return;
+
+    downloadBlob(result.blob, result.fileName);
+  };
+
+  const overallProgress = parts.length > 0
+    ? parts.reduce((sum, part) => sum + part.progress, 0) / parts.length
+    : 0;
+  const currentPart = parts.find(part => part.status === 'processing');
+  const kind = file ? detectDocumentKind(file.name) : null;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-md mx-auto px-4 py-3 flex items-center">
+          <button
+            onClick={() => navigate('/')}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5 text-gray-600" />
+          </button>
+          <h1 className="flex-1 text-center text-lg font-semibold text-gray-900">
+            文档翻译
+          </h1>
+          <div className="w-9" />
+        </div>
+      </div>
+
+      <div className="max-w-md mx-auto p-4 space-y-4">
+        <Card>
+          <LanguagePairSelector
+            sourceLang={sourceLang}
+            targetLang={targetLang}
+            onSourceChange={setSourceLang}
+            onTargetChange={setTargetLang}
+          />
+
+          <div className="mt-4 space-y-3">
+            <Button
+              variant="outline"
+              onClick={() => fileInputRef.current?.click()}
+              icon={<Upload className="w-4 h-4" />}
+              className="w-full"
+              disabled={isProcessing}
+            >
+              {file ? file.name : '选择 DOCX 或 PDF 文档'}
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={DOCUMENT_FILE_ACCEPT}
+              onChange={handleOpen}
+              className="hidden"
+            />
+            <p className="text-xs text-gray-500">
+              {kind === 'pdf'
+                ? 'PDF 按页翻译：有文字层的页面在原位置覆盖译文，导出后译文可选中和搜索；扫描页按图片识别翻译，导出后文字不可选中'
+                : 'DOCX 逐段翻译并写回原文档，保留段落、表格、页眉页脚和文字格式'}
+            </p>
+
+            {file && (
+              <Button
+                onClick={handleTranslate}
+                loading={isProcessing}
+                disabled={isProcessing}
+                className="w-full"
+              >
+                翻译文档
+              </Button>
+            )}
+          </div>
+        </Card>
+
+        {/* Processing Status */}
+        {isProcessing && (
+          <div className="bg-white rounded-xl p-6 shadow-sm">
+            <div className="text-center mb-4">
+              <div className="animate-spin w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full mx-auto mb-3"></div>
+              <p className="text-gray-600 mb-2">
+                {currentPart ? `${currentPart.label} · ${currentPart.stage}` : '正在读取文档...'}
+              </p>
+              <div className="w-full bg-gray-200 rounded-full h-2">
+                <div
+                  className="bg-blue-600 h-2 rounded-full transition-all duration-300"
+                  style={{ width: `${overallProgress}%` }}
+                ></div>
+              </div>
+              <p className="text-xs text-gray-500 mt-1">{Math.round(overallProgress)}%</p>
+            </div>
+            <button
+              onClick={() => abortControllerRef.current?.abort()}
+              className="w-full text-sm text-red-500 hover:text-red-600"
+            >
+              取消
+            </button>
+          </div>
+        )}
+
+        {/* Per-page Progress */}
+        {parts.length > 0 && (
+          <Card>
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-lg font-semibold text-gray-900">{kind === 'pdf' ? '逐页进度' : '文档部件'}</h3>
+              <FileText className="w-5 h-5 text-gray-400" />
+            </div>
+            <div className="space-y-2">
+              {parts.map((part, index) => (
+                <div key={index} className="p-2 bg-gray-50 rounded-lg">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="flex items-center text-gray-700">
+                      {part.status === 'done' && <CheckCircle className="w-4 h-4 mr-1.5 text-green-500" />}
+                      {part.status === 'failed' && <AlertCircle className="w-4 h-4 mr-1.5 text-red-500" />}
+                      {part.status === 'processing' && <Loader2 className="w-4 h-4 mr-1.5 text-blue-500 animate-spin" />}
+                      {part.status === 'pending' && <span className="w-4 h-4 mr-1.5 rounded-full border-2 border-gray-300" />}
+                      {part.label}
+                    </span>
+                    <span className="text-xs text-gray-500 truncate ml-2">{part.stage}</span>
+                  </div>
+                  {part.status === 'processing' && (
+                    <div className="mt-1.5 h-1 bg-gray-200 rounded-full overflow-hidden">
+                      <div
+                        className="h-full bg-blue-500 transition-all"
+                        style={{ width: `${part.progress}%` }}
+                      />
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </Card>
+        )}
+
+        {/* Result */}
+        {result && !isProcessing && (
+          <Card>
+            <div className="space-y-3">
+              <div className="text-sm text-gray-600">
+                已翻译 {result.segmentCount} {result.kind === 'pdf' ? '行' : '段'}
+                {result.scannedPages > 0 && ` · ${result.scannedPages} 个扫描页按图片翻译`}
+              </div>
+              {result.warnings.length > 0 && (
+                <div className="p-2 bg-yellow-50 rounded-lg text-xs text-yellow-700 space-y-0.5 max-h-32 overflow-y-auto">
+                  {result.warnings.map((warning, index) => (
+                    <div key={index}>{warning}</div>
+                  ))}
+                </div>
+              )}
+              <Button
+                onClick={handleDownload}
+                icon={<Download className="w-4 h-4" />}
+                className="w-full"
+              >
+                下载 {result.fileName}
+              </Button>
+            </div>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,350 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ArrowLeft, Check, Download, FileText, Upload } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { useTranslationStore } from '../store/translationStore';
+import { translationService } from '../services/translationService';
+import {
+  parseLocalizationFile,
+  serializeLocalizationFile,
+  localizedFileName,
+  LOCALIZATION_FILE_ACCEPT,
+  LOCALIZATION_FORMATS,
+  type LocalizationFile
+} from '../utils/localizationFiles';
+import { Button, Card, Input } from '../components/ui';
+import { LanguagePairSelector } from '../components/LanguageSelector';
+import { toast } from 'sonner';
+import { isCancelledError } from '../utils/abort';
+import { getErrorRemediation } from '../services/translationErrors';
+import { downloadBlob } from '../utils/download';
+
+// 每批发送的条目数，批次之间更新进度、响应取消
+const ENTRIES_PER_BATCH = 40;
+
+export default function FileTranslate() {
+  const navigate = useNavigate();
+  const { settings } = useTranslationStore();
+
+  const [file, setFile] = useState<LocalizationFile | null>(null);
+  const [sourceLang, setSourceLang] = useState(settings.defaultSourceLang || 'auto');
+  const [targetLang, setTargetLang] = useState(settings.defaultTargetLang || 'zh');
+  // 当前译文（含文件中已有的译文和人工修改），按条目 id 索引
+  const [translations, setTranslations] = useState<Record<string, string>>({});
+  const [warnings, setWarnings] = useState<Record<string, string[]>>({});
+  const [reviewed, setReviewed] = useState<Set<string>>(new Set());
+  const [overwriteExisting, setOverwriteExisting] = useState(false);
+  const [progress, setProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [filter, setFilter] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // 离开页面时取消未完成的翻译
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const handleOpen = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    event.target.value = '';
+    if (!selected) return;
+
+    try {
+      const parsed = parseLocalizationFile(selected.name, await selected.text());
+      if (parsed.entries.length === 0) {
+        toast.error('文件中没有可翻译的条目');
+        return;
+      }
+      setFile(parsed);
+      setTranslations(Object.fromEntries(parsed.entries.map(entry => [entry.id, entry.target])));
+      setWarnings({});
+      setReviewed(new Set());
+      toast.success(`已读取 ${parsed.entries.length} 个条目（${LOCALIZATION_FORMATS[parsed.format].label}）`);
+    } catch (error) {
+      console.error('资源文件读取失败:', error);
+      toast.error(error instanceof Error ? error.message : '资源文件读取失败');
+    }
+  };
+
+  const handleTranslate = async () => {
+    if (!file) return;
+
+    const pending = file.entries.filter(entry =>
+      entry.translatable && (overwriteExisting || !translations[entry.id]?.trim())
+    );
+    if (pending.length === 0) {
+      toast('所有条目都已有译文');
+      return;
+    }
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setProgress({ completed: 0, total: pending.length });
+
+    try {
+      for (let start = 0; start < pending.length; start += ENTRIES_PER_BATCH) {
+        if (controller.signal.aborted) {
+          toast(`已取消，完成 ${start}/${pending.length} 个条目`);
+          return;
+        }
+
+        const batch = pending.slice(start, start + ENTRIES_PER_BATCH);
+        // 占位符按文件格式保护，术语表在批量翻译中统一生效
+        const responses = await translationService.translateBatch(
+          batch.map(entry => entry.source),
+          sourceLang,
+          targetLang,
+          settings.preferredModel,
+          { format: LOCALIZATION_FORMATS[file.format].markup, priority: 'interactive', signal: controller.signal }
+        );
+
+        setTranslations(previous => ({
+          ...previous,
+          ...Object.fromEntries(batch.map((entry, index) => [entry.id, responses[index].translatedText]))
+        }));
+        setWarnings(previous => ({
+          ...previous,
+          ...Object.fromEntries(batch.map((entry, index) => [entry.id, responses[index].warnings || []]))
+        }));
+        setReviewed(previous => {
+          const next = new Set(previous);
+          batch.forEach(entry => next.delete(entry.id));
+          return next;
+        });
+        setProgress({ completed: Math.min(start + ENTRIES_PER_BATCH, pending.length), total: pending.length });
+      }
+      toast.success(`已翻译 ${pending.length} 个条目，请逐条审阅后导出`);
+    } catch (error) {
+      if (isCancelledError(error)) {
+        // 已完成的批次保留在列表里
+        toast('已取消翻译');
+        return;
+      }
+      console.error('资源文件翻译失败:', error);
+      toast.error((error as { message?: string })?.message || '翻译失败，请重试', {
+        description: getErrorRemediation(error)
+      });
+    } finally {
+      abortControllerRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const toggleReviewed = (id: string) => {
+    setReviewed(previous => {
+      const next = new Set(previous);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  // 只写回有变化的译文，其余条目保持原样
+  const handleExport = () => {
+    if (!file) return;
+
+    const values = new Map(
+      file.entries
+        .filter(entry => entry.translatable && translations[entry.id] && translations[entry.id] !== entry.target)
+        .map(entry => [entry.id, translations[entry.id]])
+    );
+    const content = serializeLocalizationFile(file, values, targetLang);
+    const fileName = localizedFileName(file, targetLang);
+
+    downloadBlob(new Blob([content], { type: 'text/plain;charset=utf-8;' }), fileName);
+
+    toast.success(`已导出 ${fileName}`);
+  };
+
+  const translatableEntries = file?.entries.filter(entry => entry.translatable) ?? [];
+  const translatedCount = translatableEntries.filter(entry => translations[entry.id]?.trim()).length;
+  const warningCount = Object.values(warnings).filter(list => list.length > 0).length;
+
+  const visibleEntries = file?.entries.filter(entry => {
+    const query = filter.trim().toLowerCase();
+    return !query ||
+      entry.key.toLowerCase().includes(query) ||
+      entry.source.toLowerCase().includes(query) ||
+      (translations[entry.id] || '').toLowerCase().includes(query);
+  }) ?? [];
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-md mx-auto px-4 py-3 flex items-center">
+          <button
+            onClick={() => navigate('/')}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5 text-gray-600" />
+          </button>
+          <h1 className="flex-1 text-center text-lg font-semibold text-gray-900">
+            文件翻译
+          </h1>
+          <div className="w-9" />
+        </div>
+      </div>
+
+      <div className="max-w-md mx-auto p-4 space-y-4">
+        <Card>
+          <LanguagePairSelector
+            sourceLang={sourceLang}
+            targetLang={targetLang}
+            onSourceChange={setSourceLang}
+            onTargetChange={setTargetLang}
+          />
+
+          <div className="mt-4 space-y-3">
+            <Button
+              variant="outline"
+              onClick={() => fileInputRef.current?.click()}
+              icon={<Upload className="w-4 h-4" />}
+              className="w-full"
+              disabled={!!progress}
+            >
+              {file ? file.fileName : '选择资源文件'}
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={LOCALIZATION_FILE_ACCEPT}
+              onChange={handleOpen}
+              className="hidden"
+            />
+            <p className="text-xs text-gray-500">
+              支持 i18next JSON、gettext PO、XLIFF 1.2 / 2.0、Android strings.xml 和 iOS .strings，只翻译值，键和注释原样保留
+            </p>
+
+            {file && (
+              <>
+                <div className="text-sm text-gray-600">
+                  {LOCALIZATION_FORMATS[file.format].label} · 已有译文 {translatedCount}/{translatableEntries.length} · 已审阅 {reviewed.size}
+                  {warningCount > 0 && <span className="text-yellow-600"> · {warningCount} 条占位符异常</span>}
+                </div>
+                <label className="flex items-center justify-between text-sm text-gray-600">
+                  <span>覆盖已有译文</span>
+                  <input
+                    type="checkbox"
+                    checked={overwriteExisting}
+                    onChange={(e) => setOverwriteExisting(e.target.checked)}
+                    className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                  />
+                </label>
+                <div className="flex space-x-2">
+                  <Button
+                    onClick={handleTranslate}
+                    loading={!!progress}
+                    disabled={!!progress}
+                    className="flex-1"
+                  >
+                    翻译
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={handleExport}
+                    disabled={!!progress || translatedCount === 0}
+                    icon={<Download className="w-4 h-4" />}
+                    className="flex-1"
+                  >
+                    导出
+                  </Button>
+                </div>
+              </>
+            )}
+
+            {progress && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between text-xs text-gray-500">
+                  <span>已翻译 {progress.completed}/{progress.total} 个条目</span>
+                  <button
+                    onClick={() => abortControllerRef.current?.abort()}
+                    className="text-red-500 hover:text-red-600"
+                  >
+                    取消
+                  </button>
+                </div>
+                <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-blue-500 transition-all"
+                    style={{ width: `${(progress.completed / progress.total) * 100}%` }}
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+        </Card>
+
+        {/* Per-key Review */}
+        {file && (
+          <Card>
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-lg font-semibold text-gray-900">逐条审阅</h3>
+              <FileText className="w-5 h-5 text-gray-400" />
+            </div>
+
+            {file.entries.length > 5 && (
+              <div className="mb-3">
+                <Input
+                  placeholder="搜索键名、原文或译文"
+                  value={filter}
+                  onChange={(e) => setFilter(e.target.value)}
+                />
+              </div>
+            )}
+
+            {visibleEntries.length === 0 ? (
+              <div className="text-center py-6 text-sm text-gray-500">没有匹配的条目</div>
+            ) : (
+              <div className="space-y-3">
+                {visibleEntries.map(entry => {
+                  const isReviewed = reviewed.has(entry.id);
+                  const entryWarnings = warnings[entry.id] || [];
+                  return (
+                    <div
+                      key={entry.id}
+                      className={`p-3 rounded-lg space-y-2 ${isReviewed ? 'bg-green-50' : 'bg-gray-50'}`}
+                    >
+                      <div className="flex items-center justify-between">
+                        <span className="text-xs font-mono text-gray-500 truncate">{entry.key}</span>
+                        {entry.translatable ? (
+                          <button
+                            onClick={() => toggleReviewed(entry.id)}
+                            className={`flex items-center text-xs ${isReviewed ? 'text-green-600' : 'text-gray-400 hover:text-gray-600'}`}
+                          >
+                            <Check className="w-3 h-3 mr-0.5" />
+                            {isReviewed ? '已审阅' : '标记已审阅'}
+                          </button>
+                        ) : (
+                          <span className="text-xs text-gray-400">不翻译</span>
+                        )}
+                      </div>
+                      {entry.note && (
+                        <div className="text-xs text-gray-400 whitespace-pre-wrap">{entry.note}</div>
+                      )}
+                      <div className="text-sm text-gray-700 whitespace-pre-wrap break-words">{entry.source}</div>
+                      {entry.translatable && (
+                        <textarea
+                          value={translations[entry.id] || ''}
+                          onChange={(e) => setTranslations(previous => ({ ...previous, [entry.id]: e.target.value }))}
+                          placeholder="译文"
+                          rows={2}
+                          className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                      )}
+                      {entryWarnings.length > 0 && (
+                        <div className="text-xs text-yellow-700">
+                          {entryWarnings.join('；')}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,317 @@
+import React, { useRef, useState } from 'react';
+import { ArrowLeft, BookOpen, Plus, Trash2, Upload } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { useTranslationStore } from '../store/translationStore';
+import type { GlossaryTerm } from '../services/glossaryService';
+import { parseGlossaryCsv, parseGlossaryTbx, type ImportedTerm } from '../utils/glossaryImport';
+import { getLanguagePairLabel } from '../config/languages';
+import { Button, Card, Input, Switch } from '../components/ui';
+import { LanguagePairSelector } from '../components/LanguageSelector';
+import { toast } from 'sonner';
+
+const createTermId = () => `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+const emptyTerm = (): GlossaryTerm => ({
+  id: createTermId(),
+  sourceTerm: '',
+  targetTerm: '',
+  caseSensitive: false,
+  doNotTranslate: false
+});
+
+export default function Glossary() {
+  const navigate = useNavigate();
+  const { glossaries, addGlossary, updateGlossary, removeGlossary } = useTranslationStore();
+
+  const [selectedId, setSelectedId] = useState<string | null>(glossaries[0]?.id ?? null);
+  const [showCreate, setShowCreate] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [newSourceLang, setNewSourceLang] = useState('auto');
+  const [newTargetLang, setNewTargetLang] = useState('zh');
+  const [filter, setFilter] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const selected = glossaries.find(g => g.id === selectedId);
+
+  const handleCreate = () => {
+    if (!newName.trim()) {
+      toast.error('请输入术语表名称');
+      return;
+    }
+    const id = addGlossary({
+      name: newName.trim(),
+      sourceLang: newSourceLang,
+      targetLang: newTargetLang,
+      enabled: true,
+      terms: []
+    });
+    setSelectedId(id);
+    setShowCreate(false);
+    setNewName('');
+    toast.success('术语表已创建');
+  };
+
+  const handleDelete = (id: string) => {
+    removeGlossary(id);
+    if (selectedId === id) {
+      setSelectedId(null);
+    }
+    toast.success('术语表已删除');
+  };
+
+  const updateTerms = (terms: GlossaryTerm[]) => {
+    if (selected) {
+      updateGlossary(selected.id, { terms });
+    }
+  };
+
+  const handleTermChange = (id: string, changes: Partial<GlossaryTerm>) => {
+    if (!selected) return;
+    updateTerms(selected.terms.map(term => term.id === id ? { ...term, ...changes } : term));
+  };
+
+  // 导入的术语与已有术语同名时覆盖已有术语
+  const mergeTerms = (imported: ImportedTerm[]) => {
+    if (!selected) return;
+    const keyOf = (term: ImportedTerm) => term.sourceTerm.trim().toLowerCase();
+    const importedKeys = new Set(imported.map(keyOf));
+    updateTerms([
+      ...selected.terms.filter(term => !importedKeys.has(keyOf(term))),
+      ...imported.map(term => ({ ...term, id: createTermId() }))
+    ]);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || !selected) return;
+
+    try {
+      const content = await file.text();
+      const isTbx = /\.(tbx|xml)$/i.test(file.name) || content.trimStart().startsWith('<');
+      const imported = isTbx
+        ? parseGlossaryTbx(content, selected.sourceLang, selected.targetLang)
+        : parseGlossaryCsv(content);
+
+      if (imported.length === 0) {
+        toast.error('文件中没有适用于该语言对的术语');
+        return;
+      }
+      mergeTerms(imported);
+      toast.success(`已导入 ${imported.length} 条术语`);
+    } catch (error) {
+      console.error('术语表导入失败:', error);
+      toast.error(error instanceof Error ? error.message : '术语表导入失败');
+    }
+  };
+
+  const visibleTerms = selected?.terms.filter(term => {
+    const query = filter.trim().toLowerCase();
+    return !query ||
+      term.sourceTerm.toLowerCase().includes(query) ||
+      term.targetTerm.toLowerCase().includes(query);
+  }) ?? [];
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-md mx-auto px-4 py-3 flex items-center">
+          <button
+            onClick={() => navigate('/settings')}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5 text-gray-600" />
+          </button>
+          <h1 className="flex-1 text-center text-lg font-semibold text-gray-900">
+            术语表
+          </h1>
+          <div className="w-9" />
+        </div>
+      </div>
+
+      <div className="max-w-md mx-auto p-4 space-y-4">
+        {/* Glossary List */}
+        <Card>
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-gray-900">我的术语表</h3>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowCreate(!showCreate)}
+              icon={<Plus className="w-4 h-4" />}
+            >
+              新建
+            </Button>
+          </div>
+
+          {showCreate && (
+            <div className="border-b pb-4 mb-4 space-y-3">
+              <Input
+                placeholder="术语表名称，例如：产品名"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+              />
+              <LanguagePairSelector
+                sourceLang={newSourceLang}
+                targetLang={newTargetLang}
+                onSourceChange={setNewSourceLang}
+                onTargetChange={setNewTargetLang}
+              />
+              <div className="flex space-x-2">
+                <Button size="sm" onClick={handleCreate}>
+                  创建
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => setShowCreate(false)}>
+                  取消
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {glossaries.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">
+              <BookOpen className="w-12 h-12 mx-auto mb-3 text-gray-300" />
+              <p>暂无术语表</p>
+              <p className="text-sm mt-1">术语在文本、图片和界面翻译中都会按指定译法翻译</p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {glossaries.map(glossary => (
+                <div
+                  key={glossary.id}
+                  onClick={() => setSelectedId(glossary.id)}
+                  className={`flex items-center justify-between p-3 rounded-lg cursor-pointer transition-colors ${
+                    glossary.id === selectedId ? 'bg-blue-50 border border-blue-200' : 'bg-gray-50 hover:bg-gray-100'
+                  }`}
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium text-gray-900 truncate">{glossary.name}</div>
+                    <div className="text-xs text-gray-500 mt-0.5">
+                      {getLanguagePairLabel(glossary.sourceLang, glossary.targetLang)} · {glossary.terms.length} 条术语
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-2" onClick={(e) => e.stopPropagation()}>
+                    <Switch
+                      size="sm"
+                      checked={glossary.enabled}
+                      onChange={(enabled) => updateGlossary(glossary.id, { enabled })}
+                    />
+                    <button
+                      onClick={() => handleDelete(glossary.id)}
+                      className="p-1 text-gray-400 hover:text-red-500 transition-colors"
+                      title="删除术语表"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </Card>
+
+        {/* Term Editor */}
+        {selected && (
+          <Card>
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold text-gray-900 truncate">{selected.name}</h3>
+              <div className="flex space-x-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => fileInputRef.current?.click()}
+                  icon={<Upload className="w-4 h-4" />}
+                >
+                  导入
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={() => updateTerms([...selected.terms, emptyTerm()])}
+                  icon={<Plus className="w-4 h-4" />}
+                >
+                  添加
+                </Button>
+              </div>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,.tsv,.txt,.tbx,.xml"
+                onChange={handleImport}
+                className="hidden"
+              />
+            </div>
+
+            <p className="text-xs text-gray-500 mb-3">
+              CSV 列顺序：源术语, 目标术语, 区分大小写, 不翻译（后两列可省略，填 1 / true 表示是）
+            </p>
+
+            {selected.terms.length > 5 && (
+              <div className="mb-3">
+                <Input
+                  placeholder="搜索术语"
+                  value={filter}
+                  onChange={(e) => setFilter(e.target.value)}
+                />
+              </div>
+            )}
+
+            {visibleTerms.length === 0 ? (
+              <div className="text-center py-6 text-sm text-gray-500">
+                {selected.terms.length === 0 ? '还没有术语，点击「添加」或导入 CSV / TBX 文件' : '没有匹配的术语'}
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {visibleTerms.map(term => (
+                  <div key={term.id} className="p-3 bg-gray-50 rounded-lg space-y-2">
+                    <div className="flex items-center space-x-2">
+                      <input
+                        value={term.sourceTerm}
+                        onChange={(e) => handleTermChange(term.id, { sourceTerm: e.target.value })}
+                        placeholder="源术语"
+                        className="flex-1 min-w-0 px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                      <span className="text-gray-400">→</span>
+                      <input
+                        value={term.doNotTranslate ? term.sourceTerm : term.targetTerm}
+                        onChange={(e) => handleTermChange(term.id, { targetTerm: e.target.value })}
+                        placeholder="目标术语"
+                        disabled={term.doNotTranslate}
+                        className="flex-1 min-w-0 px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 disabled:text-gray-400"
+                      />
+                      <button
+                        onClick={() => updateTerms(selected.terms.filter(t => t.id !== term.id))}
+                        className="p-1 text-gray-400 hover:text-red-500 transition-colors"
+                        title="删除术语"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                    <div className="flex items-center space-x-4 text-xs text-gray-600">
+                      <label className="flex items-center space-x-1 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={term.caseSensitive}
+                          onChange={(e) => handleTermChange(term.id, { caseSensitive: e.target.checked })}
+                        />
+                        <span>区分大小写</span>
+                      </label>
+                      <label className="flex items-center space-x-1 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={term.doNotTranslate}
+                          onChange={(e) => handleTermChange(term.id, { doNotTranslate: e.target.checked })}
+                        />
+                        <span>不翻译</span>
+                      </label>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
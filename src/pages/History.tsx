@@ -19,6 +19,8 @@ import { useTranslationStore, type TranslationRecord } from '../store/translatio
 import { getLanguageByCode } from '../config/languages';
 import { Button, Card, Select } from '../components/ui';
 import { toast } from 'sonner';
+import type { QualityIssue } from '../services/qualityCheckService';
+import { downloadBlob } from '../utils/download';
 
 export default function History() {
   const navigate = useNavigate();
@@ -148,11 +150,10 @@ export default function History() {
       ])
     ].map(row => row.map(cell => `"${cell}"`).join(',')).join('\n');
     
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement('a');
-    link.href = URL.createObjectURL(blob);
-    link.download = `translation-history-${new Date().toISOString().split('T')[0]}.csv`;
-    link.click();
+    downloadBlob(
+      new Blob([csvContent], { type: 'text/csv;charset=utf-8;' }),
+      `translation-history-${new Date().toISOString().split('T')[0]}.csv`
+    );
     
     toast.success('历史记录已导出');
   };
@@ -496,9 +497,21 @@ export default function History() {
                       {record.confidence && (
                         <div className="text-xs text-gray-500">
                           置信度: {Math.round(record.confidence * 100)}%
+                          {record.metadata?.quality?.issues?.length > 0 && (
+                            <span className="ml-1 text-orange-600">
+                              · {record.metadata.quality.issues.length} 个质量问题
+                            </span>
+                          )}
                         </div>
                       )}
                     </div>
+                    {record.metadata?.quality?.issues?.length > 0 && (
+                      <div className="mt-2 text-xs text-orange-700 space-y-0.5">
+                        {record.metadata.quality.issues.map((issue: QualityIssue, index: number) => (
+                          <div key={index}>• {issue.message}</div>
+                        ))}
+                      </div>
+                    )}
                   </div>
 
                   {/* Actions */}
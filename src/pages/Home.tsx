@@ -5,7 +5,10 @@ import {
   Camera, 
   Mic, 
   Smartphone, 
+  FileText,
+  BookOpen,
   History, 
+  BarChart3,
   Settings, 
   User,
   Globe,
@@ -57,6 +60,22 @@ export default function Home() {
       color: 'from-orange-500 to-orange-600',
       route: '/overlay',
       featured: true
+    },
+    {
+      id: 'file',
+      title: '文件翻译',
+      description: '翻译应用的本地化资源文件',
+      icon: <FileText className="w-8 h-8" />,
+      color: 'from-teal-500 to-teal-600',
+      route: '/file-translate'
+    },
+    {
+      id: 'document',
+      title: '文档翻译',
+      description: '翻译 DOCX 和 PDF 文档并保留排版',
+      icon: <BookOpen className="w-8 h-8" />,
+      color: 'from-indigo-500 to-indigo-600',
+      route: '/document-translate'
     }
   ];
 
@@ -66,6 +85,11 @@ export default function Home() {
       icon: <History className="w-6 h-6" />,
       route: '/history'
     },
+    {
+      title: '用量统计',
+      icon: <BarChart3 className="w-6 h-6" />,
+      route: '/usage'
+    },
     {
       title: '设置',
       icon: <Settings className="w-6 h-6" />,
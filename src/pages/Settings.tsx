@@ -1,17 +1,78 @@
-import React, { useState } from 'react';
-import { ArrowLeft, ChevronRight, Globe, Zap, Eye, Bell, Shield, HelpCircle } from 'lucide-react';
+import React, { useRef, useState } from 'react';
+import { ArrowLeft, ChevronRight, Globe, Zap, Eye, Bell, Shield, HelpCircle, Database } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
+import { useTranslationStore } from '../store/translationStore';
+import { translationService } from '../services/translationService';
+import { translationMemoryService } from '../services/translationMemoryService';
+import { parseTmx } from '../utils/tmxImport';
+import type { PerceptualHashAlgorithm } from '../utils/perceptualHash';
+import { DEFAULT_IMAGE_MATCHING } from '../services/cacheService';
+import { toast } from 'sonner';
 
 export default function Settings() {
   const navigate = useNavigate();
   const [autoDetect, setAutoDetect] = useState(true);
   const [notifications, setNotifications] = useState(true);
   const [overlayEnabled, setOverlayEnabled] = useState(true);
-  const [preferredModel, setPreferredModel] = useState('baidu');
+  const { settings, updateSettings } = useTranslationStore();
   const [defaultSourceLang, setDefaultSourceLang] = useState('auto');
   const [defaultTargetLang, setDefaultTargetLang] = useState('en');
   const [overlayOpacity, setOverlayOpacity] = useState(0.8);
 
+  const [memoryStats, setMemoryStats] = useState(() => translationMemoryService.getStats());
+  const tmxInputRef = useRef<HTMLInputElement>(null);
+
+  const providers = translationService.getProviders('text');
+  const preferredProvider = providers.find(p => p.id === settings.preferredModel);
+
+  const handlePreferredModelChange = (model: string) => {
+    updateSettings({ preferredModel: model });
+  };
+
+  // 备用提供方按勾选顺序追加到故障转移链路
+  const failoverChain = settings.failoverChain || [];
+  const handleFailoverToggle = (model: string, enabled: boolean) => {
+    updateSettings({
+      failoverChain: enabled
+        ? [...failoverChain.filter(id => id !== model), model]
+        : failoverChain.filter(id => id !== model)
+    });
+  };
+
+  const handleTmxImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const entries = parseTmx(await file.text());
+      if (entries.length === 0) {
+        toast.error('TMX 文件中没有可用的翻译单元');
+        return;
+      }
+      translationMemoryService.importEntries(entries);
+      setMemoryStats(translationMemoryService.getStats());
+      toast.success(`已导入 ${entries.length} 条翻译记忆`);
+    } catch (error) {
+      console.error('TMX 导入失败:', error);
+      toast.error(error instanceof Error ? error.message : 'TMX 导入失败');
+    }
+  };
+
+  const describeCapabilities = (capabilities: Record<string, boolean>) => {
+    const labels: Record<string, string> = {
+      text: '文本',
+      image: '图片',
+      speech: '语音',
+      detection: '语言检测',
+      batch: '批量'
+    };
+    return Object.entries(capabilities)
+      .filter(([, enabled]) => enabled)
+      .map(([key]) => labels[key] || key)
+      .join(' / ');
+  };
+
   const settingSections = [
     {
       title: '翻译设置',
@@ -23,6 +84,24 @@ export default function Settings() {
           description: '管理默认语言、语言对和翻译偏好',
           onClick: () => navigate('/language-settings')
         },
+        {
+          label: '术语表',
+          type: 'navigation',
+          description: '统一产品名和界面用语的译法，支持 CSV / TBX 导入',
+          onClick: () => navigate('/glossary')
+        },
+        {
+          label: '用量与预算',
+          type: 'navigation',
+          description: '查看每日用量和月末账单预测，设置费用和字符上限',
+          onClick: () => navigate('/usage')
+        },
+        {
+          label: '导入翻译记忆 (TMX)',
+          type: 'navigation',
+          description: `历史记录 ${memoryStats.history} 条 · 已导入 ${memoryStats.tmx} 条，完全匹配时不再调用翻译接口`,
+          onClick: () => tmxInputRef.current?.click()
+        },
         {
           label: '自动检测语言',
           type: 'toggle',
@@ -39,14 +118,78 @@ export default function Settings() {
         {
           label: '首选翻译模型',
           type: 'select',
-          value: preferredModel,
-          onChange: setPreferredModel,
+          value: settings.preferredModel,
+          onChange: handlePreferredModelChange,
+          options: providers.map(provider => ({
+            value: provider.id,
+            label: provider.displayName
+          })),
+          description: preferredProvider
+            ? `支持: ${describeCapabilities({ ...preferredProvider.capabilities })}` +
+              (preferredProvider.clientSideCredentials ? '。API 密钥随前端打包、不经过翻译代理，仅适合本地或内网部署' : '')
+            : undefined
+        },
+        {
+          label: '故障转移',
+          type: 'checklist',
+          value: failoverChain,
+          onChange: handleFailoverToggle,
+          options: providers
+            .filter(provider => provider.id !== settings.preferredModel)
+            .map(provider => ({ value: provider.id, label: provider.displayName })),
+          description: failoverChain.length > 0
+            ? `顺序: ${[settings.preferredModel, ...failoverChain.filter(id => id !== settings.preferredModel)].join(' → ')}`
+            : '首选模型不可用时不自动切换'
+        },
+        {
+          label: '离线模式',
+          type: 'toggle',
+          value: settings.offlineMode,
+          onChange: (enabled: boolean) => updateSettings({ offlineMode: enabled }),
+          description: '不联网，仅使用翻译缓存、历史记录、术语表和常用短语，结果为近似译文'
+        },
+        {
+          label: '回译质量检查',
+          type: 'toggle',
+          value: settings.qualityCheck,
+          onChange: (enabled: boolean) => updateSettings({ qualityCheck: enabled }),
+          description: '翻译后把译文翻回原语言，与原文比较得出置信度；每次翻译多调用一次翻译接口'
+        }
+      ]
+    },
+    {
+      title: '翻译缓存',
+      icon: <Database className="w-5 h-5" />,
+      items: [
+        {
+          label: '缓存管理',
+          type: 'navigation',
+          description: '查看、搜索、固定和删除缓存的译文，导出或导入文本缓存',
+          onClick: () => navigate('/cache')
+        },
+        {
+          label: '相似图片复用',
+          type: 'select',
+          value: String(settings.imageMatchDistance ?? DEFAULT_IMAGE_MATCHING.maxDistance),
+          onChange: (value: string) => updateSettings({ imageMatchDistance: Number(value) }),
           options: [
-            { value: 'baidu', label: 'Baidu 翻译' },
-            { value: 'google', label: 'Google 翻译' },
-            { value: 'openai', label: 'OpenAI GPT' },
-            { value: 'azure', label: 'Azure 翻译' }
-          ]
+            { value: '0', label: '仅相同图片' },
+            { value: '3', label: '标准' },
+            { value: '6', label: '宽松' },
+            { value: '10', label: '很宽松' }
+          ],
+          description: '重新压缩、缩放或再拍一次的图片与翻译过的图片足够相似时，直接复用识别和翻译结果；越宽松越省费用，但越可能误用其他图片的结果。文字较多的图片（菜单、文档截图）不建议放宽'
+        },
+        {
+          label: '图片指纹算法',
+          type: 'select',
+          value: settings.imageHashAlgorithm || DEFAULT_IMAGE_MATCHING.algorithm,
+          onChange: (value: string) => updateSettings({ imageHashAlgorithm: value as PerceptualHashAlgorithm }),
+          options: [
+            { value: 'dhash', label: '差值哈希 (dHash)' },
+            { value: 'phash', label: 'DCT 哈希 (pHash)' }
+          ],
+          description: 'dHash 计算快；pHash 对亮度和对比度变化更稳定。更换后，之前缓存的图片只在内容完全相同时复用'
         }
       ]
     },
@@ -149,6 +292,32 @@ export default function Settings() {
                 </option>
               ))}
             </select>
+            {item.description && (
+              <div className="text-sm text-gray-500 mt-1">{item.description}</div>
+            )}
+          </div>
+        );
+
+      case 'checklist':
+        return (
+          <div>
+            <div className="font-medium text-gray-900 mb-2">{item.label}</div>
+            <div className="space-y-2">
+              {item.options.map((option: { value: string; label: string }) => (
+                <label key={option.value} className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={item.value.includes(option.value)}
+                    onChange={(e) => item.onChange(option.value, e.target.checked)}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span>{option.label}</span>
+                </label>
+              ))}
+            </div>
+            {item.description && (
+              <div className="text-sm text-gray-500 mt-1">{item.description}</div>
+            )}
           </div>
         );
 
@@ -195,6 +364,14 @@ export default function Settings() {
       </div>
 
       <div className="max-w-md mx-auto p-4 space-y-4">
+        <input
+          ref={tmxInputRef}
+          type="file"
+          accept=".tmx,.xml"
+          onChange={handleTmxImport}
+          className="hidden"
+        />
+
         {/* Settings Sections */}
         {settingSections.map((section, sectionIndex) => (
           <div key={sectionIndex} className="bg-white rounded-xl shadow-sm overflow-hidden">
@@ -1,11 +1,24 @@
-import React, { useState, useEffect } from 'react';
-import { ArrowLeft, Copy, Share2, Languages, Volume2, RotateCcw } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { ArrowLeft, Copy, Share2, Languages, Volume2, RotateCcw, Columns, Check, BookOpen } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { useTranslationStore } from '../store/translationStore';
-import { translationService, TranslationRequest } from '../services/translationService';
+import {
+  translationService,
+  DocumentProgress,
+  LONG_TEXT_THRESHOLD,
+  ProviderComparison,
+  TranslationRequest,
+  TranslationResponse,
+  TranslationTone,
+  TranslationType
+} from '../services/translationService';
+import { translationMemoryService, MemoryMatch, MEMORY_MODEL } from '../services/translationMemoryService';
+import { TEXT_FORMATS, TextFormat } from '../services/markupService';
+import { qualityCheckService, QualityIssue } from '../services/qualityCheckService';
 import { Button, Textarea, Loading } from '../components/ui';
 import { LanguagePairSelector } from '../components/LanguageSelector';
 import { toast } from 'sonner';
+import { getErrorRemediation } from '../services/translationErrors';
 
 export default function TextTranslate() {
   const navigate = useNavigate();
@@ -24,7 +37,31 @@ export default function TextTranslate() {
   const [targetLang, setTargetLang] = useState(currentTranslation.targetLang || settings.defaultTargetLang);
   const [isTranslating, setIsTranslating] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [errorRemediation, setErrorRemediation] = useState<string | null>(null);
   const [confidence, setConfidence] = useState<number>(0);
+  const [isOfflineResult, setIsOfflineResult] = useState(false);
+  const [translationType, setTranslationType] = useState<TranslationType>('general');
+  const [tone, setTone] = useState<TranslationTone>('neutral');
+  const [format, setFormat] = useState<TextFormat>('plain');
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [qualityIssues, setQualityIssues] = useState<QualityIssue[]>([]);
+  const [isCheckingQuality, setIsCheckingQuality] = useState(false);
+  const [compareMode, setCompareMode] = useState(false);
+  const [comparisons, setComparisons] = useState<ProviderComparison[]>([]);
+  const [selectedModel, setSelectedModel] = useState<string | null>(null);
+  const [memoryMatches, setMemoryMatches] = useState<MemoryMatch[]>([]);
+  const [progress, setProgress] = useState<DocumentProgress | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // 离开页面或切换语言时取消进行中的翻译，已翻译的部分保留
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  useEffect(() => {
+    abortControllerRef.current?.abort();
+  }, [sourceLang, targetLang]);
+
+  // 提示词模板和语气只对 LLM 提供方生效（对比模式下同样会发给 LLM）
+  const supportsPromptOptions = settings.preferredModel === 'openai' || compareMode;
 
 
 
@@ -40,6 +77,100 @@ export default function TextTranslate() {
     });
   }, [sourceText, translatedText, sourceLang, targetLang, isTranslating, error, setCurrentTranslation]);
 
+  // 对比模式：同一请求发给所有可用提供方，由用户选定最终译文
+  const handleCompare = async () => {
+    if (!sourceText.trim()) {
+      setError('请输入要翻译的文本');
+      setErrorRemediation(null);
+      return;
+    }
+
+    setIsTranslating(true);
+    setError(null);
+    setErrorRemediation(null);
+    setTranslatedText('');
+    setConfidence(0);
+    setQualityIssues([]);
+    setComparisons([]);
+    setSelectedModel(null);
+
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    try {
+      const results = await translationService.compare(
+        { text: sourceText, sourceLang, targetLang, translationType, tone, format },
+        undefined,
+        { priority: 'interactive', signal: controller.signal }
+      );
+
+      // 取消时保留已经返回的结果
+      if (controller.signal.aborted) {
+        setComparisons(results.filter(result => result.error?.code !== 'CANCELLED'));
+        toast('已取消对比翻译');
+        return;
+      }
+      setComparisons(results);
+
+      if (results.every(result => !result.response)) {
+        setError('所有翻译服务均失败，请稍后重试');
+        setErrorRemediation(getErrorRemediation(results.find(result => result.error)?.error) || null);
+        toast.error('对比翻译失败');
+      }
+    } catch (err) {
+      console.error('❌ 对比翻译失败:', err);
+      setError(err instanceof Error ? err.message : '对比翻译失败，请重试');
+      setErrorRemediation(getErrorRemediation(err) || null);
+      toast.error('对比翻译失败');
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
+      setIsTranslating(false);
+    }
+  };
+
+  // 选定的结果才写入历史记录
+  const handlePickWinner = (comparison: ProviderComparison) => {
+    if (!comparison.response) return;
+
+    const { response } = comparison;
+    // 对比结果已经可以互相参照，只做本地检查
+    const quality = qualityCheckService.inspect(
+      sourceText,
+      response.translatedText,
+      response.detectedLanguage || sourceLang,
+      targetLang,
+      response.confidence
+    );
+    setSelectedModel(comparison.model);
+    setTranslatedText(response.translatedText);
+    setWarnings(response.warnings || []);
+    setConfidence(quality.score);
+    setQualityIssues(quality.issues);
+    setIsOfflineResult(!!response.offline);
+
+    addTranslation({
+      sourceText,
+      translatedText: response.translatedText,
+      sourceLang: response.detectedLanguage || sourceLang,
+      targetLang,
+      type: 'text',
+      model: response.model,
+      confidence: quality.score,
+      isFavorite: false,
+      metadata: { quality }
+    });
+    addRecentLanguagePair({ source: sourceLang, target: targetLang });
+    toast.success(`已选用 ${comparison.displayName} 的译文`);
+  };
+
+  const formatEstimatedCost = (cost?: number) => {
+    if (cost === undefined) return '未知';
+    return `¥${(cost / 100).toFixed(4)}`;
+  };
+
   const handleTranslate = async () => {
     console.log('🔥 用户点击翻译按钮');
     console.log('- 输入文本:', sourceText);
@@ -49,11 +180,20 @@ export default function TextTranslate() {
     if (!sourceText.trim()) {
       console.log('❌ 输入文本为空');
       setError('请输入要翻译的文本');
+      setErrorRemediation(null);
       return;
     }
     
     setIsTranslating(true);
     setError(null);
+    setErrorRemediation(null);
+    setTranslatedText('');
+    setIsOfflineResult(false);
+    setProgress(null);
+    setWarnings([]);
+    setQualityIssues([]);
+    // 翻译记忆的模糊匹配与机器译文一起展示
+    setMemoryMatches(translationMemoryService.findMatches(sourceText, sourceLang, targetLang));
     console.log('⏳ 开始翻译流程');
     
     try {
@@ -61,17 +201,57 @@ export default function TextTranslate() {
         text: sourceText,
         sourceLang,
         targetLang,
-        model: settings.preferredModel
+        model: settings.preferredModel,
+        translationType,
+        tone,
+        format
       };
       
       console.log('📋 翻译请求对象:', request);
       console.log('🔧 翻译服务对象:', translationService);
       
-      const response = await translationService.translate(request);
+      // 长文本按句分批翻译，可以中途取消；流式提供方和已完成的句子边生成边显示
+      abortControllerRef.current?.abort();
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      let response: TranslationResponse | null = null;
+      for await (const event of translationService.translateStream(request, {
+        signal: controller.signal,
+        // 用户正在等待，插队到后台请求之前
+        priority: 'interactive'
+      })) {
+        if (event.type === 'partial') {
+          setTranslatedText(event.text);
+        } else if (event.type === 'progress') {
+          setProgress(event.progress);
+        } else if (event.type === 'complete') {
+          response = event.response;
+        }
+      }
+      if (!response) return;
       console.log('🎉 翻译完成，结果:', response);
       
       setTranslatedText(response.translatedText);
       setConfidence(response.confidence);
+      setIsOfflineResult(!!response.offline);
+      setWarnings(response.warnings || []);
+
+      // 质量检查：本地检查每次都做，开启回译时再翻回原语言比较；翻译记忆完全匹配的译文不回译
+      setIsCheckingQuality(settings.qualityCheck);
+      const quality = await qualityCheckService.check(
+        sourceText,
+        response.translatedText,
+        response.detectedLanguage || sourceLang,
+        targetLang,
+        {
+          backTranslate: settings.qualityCheck && response.model !== MEMORY_MODEL,
+          baseConfidence: response.confidence,
+          model: settings.preferredModel,
+          signal: controller.signal
+        }
+      );
+      setConfidence(quality.score);
+      setQualityIssues(quality.issues);
       
       // Add to translation history
       addTranslation({
@@ -81,25 +261,52 @@ export default function TextTranslate() {
         targetLang,
         type: 'text',
         model: response.model,
-        confidence: response.confidence,
-        isFavorite: false
+        confidence: quality.score,
+        isFavorite: false,
+        metadata: { quality }
       });
       
       // Add to recent language pairs
       addRecentLanguagePair({ source: sourceLang, target: targetLang });
       console.log('📚 已添加到历史记录');
       
-      toast.success('翻译完成');
+      if (response.warnings?.length) {
+        toast.warning('译文中的标签或占位符与原文不一致，请检查');
+      } else if (response.model === MEMORY_MODEL) {
+        toast.success('翻译记忆完全匹配，未调用翻译接口');
+      } else if (response.offline) {
+        toast.success(response.approximate ? '离线翻译完成（部分内容未找到译文）' : '离线翻译完成（近似结果）');
+      } else if (response.fallbackFrom?.length) {
+        toast.success(`翻译完成（${response.fallbackFrom.join('、')} 不可用，已由 ${response.model} 翻译）`);
+      } else {
+        toast.success('翻译完成');
+      }
     } catch (err: any) {
+      if (err?.code === 'CANCELLED') {
+        // 保留已翻译的部分（长文本带在错误里，流式输出已经显示），不写入历史记录
+        if (typeof err.details?.partialText === 'string') {
+          setTranslatedText(err.details.partialText);
+        }
+        toast('已取消翻译');
+        return;
+      }
       console.error('❌ 翻译失败:', err);
       setError(err.message || '翻译失败，请重试');
+      setErrorRemediation(getErrorRemediation(err) || null);
       toast.error('翻译失败');
     } finally {
+      abortControllerRef.current = null;
       setIsTranslating(false);
+      setIsCheckingQuality(false);
+      setProgress(null);
       console.log('🏁 翻译流程结束');
     }
   };
 
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleCopy = async () => {
     try {
       await navigator.clipboard.writeText(translatedText);
@@ -138,10 +345,18 @@ export default function TextTranslate() {
   };
 
   const handleClear = () => {
+    abortControllerRef.current?.abort();
     setSourceText('');
     setTranslatedText('');
     setError(null);
+    setErrorRemediation(null);
     setConfidence(0);
+    setIsOfflineResult(false);
+    setComparisons([]);
+    setSelectedModel(null);
+    setMemoryMatches([]);
+    setWarnings([]);
+    setQualityIssues([]);
     resetCurrentTranslation();
   };
 
@@ -182,9 +397,43 @@ export default function TextTranslate() {
             onSourceChange={setSourceLang}
             onTargetChange={setTargetLang}
             onSwap={handleSwapLanguages}
+            detectionText={sourceText}
           />
         </div>
 
+        {/* LLM Prompt Options */}
+        {supportsPromptOptions && (
+          <div className="bg-white rounded-xl p-4 shadow-sm">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">翻译类型</label>
+                <select
+                  value={translationType}
+                  onChange={(e) => setTranslationType(e.target.value as TranslationType)}
+                  className="w-full p-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="general">通用</option>
+                  <option value="ui">界面文案</option>
+                  <option value="casual">日常聊天</option>
+                  <option value="legal">法律文本</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">语气</label>
+                <select
+                  value={tone}
+                  onChange={(e) => setTone(e.target.value as TranslationTone)}
+                  className="w-full p-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="neutral">默认</option>
+                  <option value="formal">正式</option>
+                  <option value="informal">随意</option>
+                </select>
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Input Section */}
         <div className="bg-white rounded-xl shadow-sm">
           <div className="p-4 border-b border-gray-100">
@@ -219,42 +468,191 @@ export default function TextTranslate() {
           {error && (
             <div className="px-4 py-2 bg-red-50 border-b border-red-100">
               <p className="text-sm text-red-600">{error}</p>
+              {errorRemediation && (
+                <p className="text-xs text-red-500 mt-1">{errorRemediation}</p>
+              )}
             </div>
           )}
           
-          <div className="p-4">
+          <div className="p-4 space-y-3">
+            <label className="flex items-center justify-between text-sm text-gray-600">
+              <span>文本格式（标签和占位符不翻译）</span>
+              <select
+                value={format}
+                onChange={(e) => setFormat(e.target.value as TextFormat)}
+                className="p-1 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {TEXT_FORMATS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center justify-between text-sm text-gray-600">
+              <span className="flex items-center">
+                <Columns className="w-4 h-4 mr-2 text-gray-500" />
+                对比模式（同时使用所有翻译服务）
+              </span>
+              <input
+                type="checkbox"
+                checked={compareMode}
+                onChange={(e) => {
+                  setCompareMode(e.target.checked);
+                  setComparisons([]);
+                  setSelectedModel(null);
+                }}
+                className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+              />
+            </label>
+            {!compareMode && sourceText.length > LONG_TEXT_THRESHOLD && (
+              <div className="text-xs text-gray-400">
+                长文本将按句分批翻译（{sourceText.length} 字）
+              </div>
+            )}
             <Button
-              onClick={handleTranslate}
+              onClick={compareMode ? handleCompare : handleTranslate}
               disabled={!sourceText.trim() || isTranslating}
               loading={isTranslating}
               className="w-full"
               size="lg"
             >
-              翻译
+              {compareMode ? '对比翻译' : '翻译'}
             </Button>
+            {isTranslating && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between text-xs text-gray-500">
+                  <span>
+                    {progress
+                      ? `已翻译 ${progress.completed}/${progress.total} 句`
+                      : isCheckingQuality ? '正在检查译文质量…' : '正在翻译…'}
+                  </span>
+                  <button
+                    onClick={handleCancel}
+                    className="text-red-500 hover:text-red-600"
+                  >
+                    取消
+                  </button>
+                </div>
+                {progress && (
+                  <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-blue-500 transition-all"
+                      style={{ width: `${progress.total > 0 ? (progress.completed / progress.total) * 100 : 0}%` }}
+                    />
+                  </div>
+                )}
+              </div>
+            )}
           </div>
         </div>
 
+        {/* Compare Section */}
+        {compareMode && (comparisons.length > 0 || isTranslating) && (
+          <div className="bg-white rounded-xl shadow-sm p-4">
+            <div className="text-sm text-gray-500 mb-3">各服务译文（选择最佳结果保存到历史记录）</div>
+            {isTranslating ? (
+              <div className="flex items-center justify-center py-8">
+                <Loading text="正在对比翻译..." />
+              </div>
+            ) : (
+              <div className="flex space-x-3 overflow-x-auto pb-2">
+                {comparisons.map(comparison => {
+                  const isSelected = selectedModel === comparison.model;
+                  return (
+                    <div
+                      key={comparison.model}
+                      className={`flex-shrink-0 w-56 rounded-lg border p-3 flex flex-col ${
+                        isSelected ? 'border-blue-500 bg-blue-50' : 'border-gray-200'
+                      }`}
+                    >
+                      <div className="font-medium text-sm text-gray-900 mb-1">{comparison.displayName}</div>
+                      <div className="text-xs text-gray-400 space-y-0.5 mb-2">
+                        <div>耗时: {comparison.latency}ms</div>
+                        {comparison.response && (
+                          <>
+                            <div>置信度: {Math.round(comparison.response.confidence * 100)}%</div>
+                            <div>预估费用: {formatEstimatedCost(comparison.estimatedCost)}</div>
+                          </>
+                        )}
+                      </div>
+                      {comparison.response ? (
+                        <div className="flex-1 text-sm text-gray-900 leading-relaxed whitespace-pre-wrap mb-3">
+                          {comparison.response.translatedText}
+                        </div>
+                      ) : (
+                        <div className="flex-1 text-sm text-red-600 mb-3">
+                          {comparison.error?.message || '翻译失败'}
+                        </div>
+                      )}
+                      <Button
+                        variant={isSelected ? 'primary' : 'outline'}
+                        size="sm"
+                        onClick={() => handlePickWinner(comparison)}
+                        disabled={!comparison.response || isSelected}
+                        icon={isSelected ? <Check className="w-4 h-4" /> : undefined}
+                      >
+                        {isSelected ? '已选用' : '选用'}
+                      </Button>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Output Section */}
-        {(translatedText || isTranslating) && (
+        {(translatedText || (isTranslating && !compareMode)) && (
           <div className="bg-white rounded-xl shadow-sm">
             <div className="p-4 border-b border-gray-100">
               <div className="flex items-center justify-between mb-2">
                 <div className="text-sm text-gray-500">翻译结果</div>
-                {confidence > 0 && (
-                  <div className="text-xs text-gray-400">
-                    置信度: {Math.round(confidence * 100)}%
-                  </div>
-                )}
+                <div className="flex items-center space-x-2">
+                  {isOfflineResult && !isTranslating && (
+                    <span className="px-2 py-0.5 text-xs rounded-full bg-yellow-100 text-yellow-700">
+                      离线 · 近似结果
+                    </span>
+                  )}
+                  {isCheckingQuality ? (
+                    <div className="text-xs text-gray-400">正在回译检查...</div>
+                  ) : confidence > 0 && (
+                    <div className="text-xs text-gray-400">
+                      置信度: {Math.round(confidence * 100)}%
+                    </div>
+                  )}
+                </div>
               </div>
               
-              {isTranslating ? (
+              {warnings.length > 0 && !isTranslating && (
+                <div className="mb-3 p-2 rounded-lg bg-yellow-50 border border-yellow-100 text-xs text-yellow-700 space-y-0.5">
+                  {warnings.map((warning, index) => (
+                    <div key={index}>{warning}</div>
+                  ))}
+                </div>
+              )}
+
+              {qualityIssues.length > 0 && !isTranslating && (
+                <div className="mb-3 p-2 rounded-lg bg-orange-50 border border-orange-100 text-xs text-orange-700 space-y-1">
+                  {qualityIssues.map((issue, index) => (
+                    <div key={index}>
+                      {issue.message}
+                      {issue.type === 'untranslated' && issue.spans && (
+                        <span className="text-orange-500">：{issue.spans.join(' / ')}</span>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {isTranslating && !translatedText ? (
                 <div className="flex items-center justify-center py-8">
                   <Loading text="正在翻译..." />
                 </div>
               ) : (
-                <div className="text-gray-900 leading-relaxed">
+                <div className="text-gray-900 leading-relaxed whitespace-pre-wrap">
                   {translatedText}
+                  {isTranslating && (
+                    <span className="inline-block w-2 h-4 ml-0.5 bg-blue-500 animate-pulse align-middle" />
+                  )}
                 </div>
               )}
             </div>
@@ -291,6 +689,45 @@ export default function TextTranslate() {
             )}
           </div>
         )}
+
+        {/* Translation Memory Suggestions */}
+        {memoryMatches.length > 0 && !compareMode && (
+          <div className="bg-white rounded-xl shadow-sm p-4">
+            <div className="flex items-center text-sm text-gray-500 mb-3">
+              <BookOpen className="w-4 h-4 mr-1" />
+              翻译记忆
+            </div>
+            <div className="space-y-2">
+              {memoryMatches.map((match, index) => (
+                <div key={index} className="p-3 bg-gray-50 rounded-lg">
+                  <div className="flex items-center justify-between mb-1">
+                    <span className={`px-2 py-0.5 text-xs rounded-full ${
+                      match.score === 1 ? 'bg-green-100 text-green-700' : 'bg-blue-100 text-blue-700'
+                    }`}>
+                      {Math.round(match.score * 100)}% 匹配 · {match.origin === 'tmx' ? 'TMX' : '历史记录'}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => {
+                        setTranslatedText(match.entry.translatedText);
+                        setConfidence(match.score);
+                        setIsOfflineResult(false);
+                        setWarnings([]);
+                        setQualityIssues([]);
+                      }}
+                      disabled={isTranslating || translatedText === match.entry.translatedText}
+                    >
+                      使用
+                    </Button>
+                  </div>
+                  <div className="text-xs text-gray-500 mb-1 whitespace-pre-wrap">{match.entry.sourceText}</div>
+                  <div className="text-sm text-gray-900 whitespace-pre-wrap">{match.entry.translatedText}</div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
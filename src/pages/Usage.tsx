@@ -0,0 +1,473 @@
+import { useEffect, useState } from 'react';
+import { ArrowLeft, BarChart3, Download, Plus, Trash2, Wallet } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { useTranslationStore } from '../store/translationStore';
+import { translationService } from '../services/translationService';
+import { OFFLINE_PROVIDER_ID } from '../services/providerRegistry';
+import { UsageStatsManager, type UsageBucket, type UsageType } from '../services/apiUtils';
+import { pricingService, BILLING_UNIT_LABELS, type BillingUnit } from '../services/pricingService';
+import {
+  budgetService,
+  describeBudgetRule,
+  formatBudgetAmount,
+  type BudgetRule
+} from '../services/budgetService';
+import { Button, Card, Input, Select, Switch } from '../components/ui';
+import { toast } from 'sonner';
+import { downloadBlob } from '../utils/download';
+
+// 图表显示最近的天数
+const CHART_DAYS = 30;
+
+const MODE_LABELS: Record<UsageType, string> = {
+  text: '文本',
+  image: '图片',
+  speech: '语音'
+};
+
+// 各翻译方式的计费单位
+const MODE_UNITS: Record<UsageType, BillingUnit> = {
+  text: 'character',
+  image: 'image',
+  speech: 'minute'
+};
+
+const createRuleId = () => `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+// 与 dailyUsage 的日期键一致（UTC 日期）
+const dateKey = (daysAgo: number) =>
+  new Date(Date.now() - daysAgo * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+const formatCharacters = (value: number) => `${Math.round(value).toLocaleString()} 字符`;
+
+export default function Usage() {
+  const navigate = useNavigate();
+  const { settings, updateSettings } = useTranslationStore();
+  const budgets = settings.budgets || [];
+
+  // 用量变化时重新渲染，统计在渲染时从本地存储读取
+  const [, setVersion] = useState(0);
+  useEffect(() => UsageStatsManager.subscribe(() => setVersion(v => v + 1)), []);
+
+  const [chartMetric, setChartMetric] = useState<'cost' | 'characters'>('cost');
+  const months = UsageStatsManager.getUsageMonths();
+  const [reportMonth, setReportMonth] = useState(months[0] || '');
+  const [showCreate, setShowCreate] = useState(false);
+  const [draft, setDraft] = useState({
+    provider: 'all',
+    mode: 'all' as BudgetRule['mode'],
+    period: 'monthly' as BudgetRule['period'],
+    metric: 'cost' as BudgetRule['metric'],
+    limit: '',
+    warnAt: '80',
+    action: 'block' as BudgetRule['action']
+  });
+
+  const providers = translationService.getProviders().filter(provider => provider.id !== OFFLINE_PROVIDER_ID);
+  const providerName = (id: string) => providers.find(provider => provider.id === id)?.displayName || id;
+
+  const stats = UsageStatsManager.getStats();
+  const today = UsageStatsManager.getTodayStats();
+  const month = UsageStatsManager.getMonthlyStats();
+  const projection = UsageStatsManager.projectMonthlyCost();
+  const days = Array.from({ length: CHART_DAYS }, (_, index) => {
+    const date = dateKey(CHART_DAYS - 1 - index);
+    return { date, usage: stats.dailyUsage[date] };
+  });
+
+  // 本月按 "提供方:方式" 汇总；没有细分的旧记录归入"未细分"
+  const currentMonth = dateKey(0).slice(0, 7);
+  const totals: Record<string, UsageBucket> = {};
+  Object.entries(stats.dailyUsage).forEach(([date, usage]) => {
+    if (!date.startsWith(currentMonth)) return;
+    const entries = usage.breakdown ? Object.entries(usage.breakdown) : [['', usage] as [string, UsageBucket]];
+    entries.forEach(([key, bucket]) => {
+      const total = totals[key] || { requests: 0, characters: 0, cost: 0 };
+      totals[key] = {
+        requests: total.requests + bucket.requests,
+        characters: total.characters + bucket.characters,
+        cost: total.cost + bucket.cost
+      };
+    });
+  });
+  const breakdown = Object.entries(totals).sort(([, a], [, b]) => b.cost - a.cost || b.characters - a.characters);
+
+  const chartValue = (usage?: UsageBucket) => usage ? (chartMetric === 'cost' ? usage.cost : usage.characters) : 0;
+  const chartMax = Math.max(...days.map(day => chartValue(day.usage)), 0);
+
+  const handleCreate = () => {
+    const limit = Number(draft.limit);
+    const warnAt = Number(draft.warnAt);
+    if (!(limit > 0)) {
+      toast.error('请输入大于 0 的上限');
+      return;
+    }
+    if (!(warnAt > 0 && warnAt <= 100)) {
+      toast.error('提醒比例应在 1% 到 100% 之间');
+      return;
+    }
+
+    const rule: BudgetRule = {
+      id: createRuleId(),
+      provider: draft.provider,
+      mode: draft.mode,
+      period: draft.period,
+      metric: draft.metric,
+      // 费用按元输入，按分保存
+      limit: draft.metric === 'cost' ? Math.round(limit * 100) : Math.round(limit),
+      warnAt: warnAt / 100,
+      action: draft.action,
+      enabled: true
+    };
+    updateSettings({ budgets: [...budgets, rule] });
+    setShowCreate(false);
+    setDraft(previous => ({ ...previous, limit: '' }));
+    toast.success('预算已添加');
+  };
+
+  const updateRule = (id: string, changes: Partial<BudgetRule>) => {
+    updateSettings({ budgets: budgets.map(rule => rule.id === id ? { ...rule, ...changes } : rule) });
+  };
+
+  const removeRule = (id: string) => {
+    updateSettings({ budgets: budgets.filter(rule => rule.id !== id) });
+    toast.success('预算已删除');
+  };
+
+  const handlePlanChange = (provider: string, planId: string) => {
+    updateSettings({ pricingPlans: { ...settings.pricingPlans, [provider]: planId } });
+    toast.success('计费方案已更新，之后的用量按新方案计价');
+  };
+
+  const exportReport = () => {
+    const rows = UsageStatsManager.getMonthlyCostReport(reportMonth);
+    if (rows.length === 0) {
+      toast.error('该月没有用量记录');
+      return;
+    }
+
+    const total = rows.reduce((sum, row) => sum + row.cost, 0);
+    const csvContent = [
+      ['日期', '提供方', '翻译方式', '请求数', '字符数', '计费量', '计费单位', '费用（元）'],
+      ...rows.map(row => [
+        row.date,
+        row.provider === 'unknown' ? '未细分' : providerName(row.provider),
+        row.provider === 'unknown' ? '' : MODE_LABELS[row.type],
+        row.requests,
+        row.characters,
+        row.billedUnits === undefined ? '' : Number(row.billedUnits.toFixed(2)),
+        row.billedUnits === undefined ? '' : BILLING_UNIT_LABELS[MODE_UNITS[row.type]],
+        (row.cost / 100).toFixed(2)
+      ]),
+      ['合计', '', '', '', '', '', '', (total / 100).toFixed(2)]
+    ].map(row => row.map(cell => `"${cell}"`).join(',')).join('\n');
+
+    downloadBlob(new Blob([csvContent], { type: 'text/csv;charset=utf-8;' }), `translation-cost-${reportMonth}.csv`);
+
+    toast.success('费用报表已导出');
+  };
+
+  const describeKey = (key: string) => {
+    if (!key) return '未细分（旧记录）';
+    const [provider, mode] = key.split(':');
+    return `${providerName(provider)} · ${MODE_LABELS[mode as UsageType] || mode}`;
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-md mx-auto px-4 py-3 flex items-center">
+          <button
+            onClick={() => navigate('/')}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5 text-gray-600" />
+          </button>
+          <h1 className="flex-1 text-center text-lg font-semibold text-gray-900">
+            用量统计
+          </h1>
+          <div className="w-9" />
+        </div>
+      </div>
+
+      <div className="max-w-md mx-auto p-4 space-y-4">
+        {/* Summary */}
+        <div className="grid grid-cols-3 gap-3">
+          <div className="bg-white rounded-xl p-3 shadow-sm">
+            <div className="text-xs text-gray-500">今日</div>
+            <div className="text-lg font-semibold text-gray-900">{UsageStatsManager.formatCost(today.cost)}</div>
+            <div className="text-xs text-gray-400">{today.requests} 次请求</div>
+          </div>
+          <div className="bg-white rounded-xl p-3 shadow-sm">
+            <div className="text-xs text-gray-500">本月</div>
+            <div className="text-lg font-semibold text-gray-900">{UsageStatsManager.formatCost(month.cost)}</div>
+            <div className="text-xs text-gray-400">{formatCharacters(month.characters)}</div>
+          </div>
+          <div className="bg-white rounded-xl p-3 shadow-sm">
+            <div className="text-xs text-gray-500">预计月末</div>
+            <div className="text-lg font-semibold text-blue-600">{UsageStatsManager.formatCost(projection.projected)}</div>
+            <div className="text-xs text-gray-400">
+              日均 {UsageStatsManager.formatCost(projection.dailyAverage)}
+            </div>
+          </div>
+        </div>
+        <p className="text-xs text-gray-500 px-1">
+          按最近 7 天的日均费用预测本月剩余 {projection.daysInMonth - projection.daysElapsed} 天；费用为按公开单价的估算值，以服务商账单为准
+        </p>
+
+        {/* Daily Chart */}
+        <Card>
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-lg font-semibold text-gray-900">最近 {CHART_DAYS} 天</h3>
+            <div className="flex bg-gray-100 rounded-lg p-0.5 text-xs">
+              {(['cost', 'characters'] as const).map(metric => (
+                <button
+                  key={metric}
+                  onClick={() => setChartMetric(metric)}
+                  className={`px-2 py-1 rounded-md ${chartMetric === metric ? 'bg-white shadow-sm text-gray-900' : 'text-gray-500'}`}
+                >
+                  {metric === 'cost' ? '费用' : '字符'}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {chartMax === 0 ? (
+            <div className="text-center py-8 text-sm text-gray-500">
+              <BarChart3 className="w-8 h-8 mx-auto mb-2 text-gray-300" />
+              暂无用量记录
+            </div>
+          ) : (
+            <>
+              <div className="flex items-end h-32 space-x-0.5">
+                {days.map(({ date, usage }) => {
+                  const value = chartValue(usage);
+                  return (
+                    <div
+                      key={date}
+                      title={`${date}：${chartMetric === 'cost' ? UsageStatsManager.formatCost(value) : formatCharacters(value)}，${usage?.requests || 0} 次请求`}
+                      className="flex-1 bg-blue-500 rounded-t hover:bg-blue-600 transition-colors"
+                      style={{ height: `${(value / chartMax) * 100}%`, minHeight: value > 0 ? 2 : 0 }}
+                    />
+                  );
+                })}
+              </div>
+              <div className="flex justify-between mt-1 text-xs text-gray-400">
+                <span>{days[0].date.slice(5)}</span>
+                <span>
+                  最高 {chartMetric === 'cost' ? UsageStatsManager.formatCost(chartMax) : formatCharacters(chartMax)}
+                </span>
+                <span>{days[days.length - 1].date.slice(5)}</span>
+              </div>
+            </>
+          )}
+        </Card>
+
+        {/* Monthly Breakdown */}
+        {breakdown.length > 0 && (
+          <Card>
+            <h3 className="text-lg font-semibold text-gray-900 mb-3">本月明细</h3>
+            <div className="space-y-2">
+              {breakdown.map(([key, bucket]) => (
+                <div key={key} className="flex items-center justify-between text-sm">
+                  <span className="text-gray-700">{describeKey(key)}</span>
+                  <span className="text-gray-500">
+                    {bucket.requests} 次 · {formatCharacters(bucket.characters)} · {UsageStatsManager.formatCost(bucket.cost)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </Card>
+        )}
+
+        {/* Pricing Plans */}
+        <Card>
+          <h3 className="text-lg font-semibold text-gray-900 mb-3">计费方案</h3>
+          <div className="space-y-3">
+            {providers.filter(provider => pricingService.getPlans(provider.id).length > 0).map(provider => {
+              const plan = pricingService.getPlan(provider.id);
+              return (
+                <div key={provider.id}>
+                  <Select
+                    label={provider.displayName}
+                    value={plan?.id}
+                    onChange={(planId) => handlePlanChange(provider.id, planId)}
+                    options={pricingService.getPlans(provider.id).map(item => ({ value: item.id, label: item.name }))}
+                  />
+                  {plan?.description && (
+                    <p className="mt-1 text-xs text-gray-500">{plan.description}</p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </Card>
+
+        {/* Cost Report */}
+        <Card>
+          <h3 className="text-lg font-semibold text-gray-900 mb-3">费用报表</h3>
+          {months.length === 0 ? (
+            <div className="text-center py-4 text-sm text-gray-500">暂无用量记录</div>
+          ) : (
+            <div className="flex items-end space-x-2">
+              <div className="flex-1">
+                <Select
+                  value={reportMonth}
+                  onChange={setReportMonth}
+                  options={months.map(month => ({ value: month, label: month }))}
+                />
+              </div>
+              <Button
+                variant="outline"
+                onClick={exportReport}
+                icon={<Download className="w-4 h-4" />}
+              >
+                导出 CSV
+              </Button>
+            </div>
+          )}
+          <p className="mt-2 text-xs text-gray-500">按日期、提供方和翻译方式列出请求数、计费量和费用</p>
+        </Card>
+
+        {/* Budgets */}
+        <Card>
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-lg font-semibold text-gray-900">预算</h3>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setShowCreate(!showCreate)}
+              icon={<Plus className="w-4 h-4" />}
+            >
+              添加
+            </Button>
+          </div>
+
+          {showCreate && (
+            <div className="p-3 mb-3 bg-gray-50 rounded-lg space-y-3">
+              <div className="grid grid-cols-2 gap-2">
+                <Select
+                  label="提供方"
+                  value={draft.provider}
+                  onChange={(provider) => setDraft({ ...draft, provider })}
+                  options={[
+                    { value: 'all', label: '全部提供方' },
+                    ...providers.map(provider => ({ value: provider.id, label: provider.displayName }))
+                  ]}
+                />
+                <Select
+                  label="翻译方式"
+                  value={draft.mode}
+                  onChange={(mode) => setDraft({ ...draft, mode: mode as BudgetRule['mode'] })}
+                  options={[
+                    { value: 'all', label: '全部方式' },
+                    ...Object.entries(MODE_LABELS).map(([value, label]) => ({ value, label }))
+                  ]}
+                />
+                <Select
+                  label="周期"
+                  value={draft.period}
+                  onChange={(period) => setDraft({ ...draft, period: period as BudgetRule['period'] })}
+                  options={[
+                    { value: 'daily', label: '每日' },
+                    { value: 'monthly', label: '每月' }
+                  ]}
+                />
+                <Select
+                  label="限制"
+                  value={draft.metric}
+                  onChange={(metric) => setDraft({ ...draft, metric: metric as BudgetRule['metric'] })}
+                  options={[
+                    { value: 'cost', label: '费用（元）' },
+                    { value: 'characters', label: '字符数' }
+                  ]}
+                />
+                <Input
+                  label={draft.metric === 'cost' ? '上限（元）' : '上限（字符）'}
+                  type="number"
+                  min="0"
+                  value={draft.limit}
+                  onChange={(e) => setDraft({ ...draft, limit: e.target.value })}
+                />
+                <Input
+                  label="提醒比例（%）"
+                  type="number"
+                  min="1"
+                  max="100"
+                  value={draft.warnAt}
+                  onChange={(e) => setDraft({ ...draft, warnAt: e.target.value })}
+                />
+              </div>
+              <Select
+                label="超出上限后"
+                value={draft.action}
+                onChange={(action) => setDraft({ ...draft, action: action as BudgetRule['action'] })}
+                options={[
+                  { value: 'block', label: '拦截请求' },
+                  { value: 'downgrade', label: '改用缓存和离线翻译' }
+                ]}
+              />
+              <div className="flex space-x-2">
+                <Button onClick={handleCreate} className="flex-1">保存</Button>
+                <Button variant="outline" onClick={() => setShowCreate(false)} className="flex-1">取消</Button>
+              </div>
+            </div>
+          )}
+
+          {budgets.length === 0 ? (
+            <div className="text-center py-6 text-sm text-gray-500">
+              <Wallet className="w-8 h-8 mx-auto mb-2 text-gray-300" />
+              未设置预算，翻译请求不受限制
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {budgets.map(rule => {
+                const status = rule.enabled ? budgetService.getStatus(rule) : undefined;
+                const ratio = Math.min(status?.ratio ?? 0, 1);
+                const barColor = status?.level === 'exceeded'
+                  ? 'bg-red-500'
+                  : status?.level === 'warning' ? 'bg-orange-500' : 'bg-green-500';
+                return (
+                  <div key={rule.id} className={`p-3 rounded-lg ${rule.enabled ? 'bg-gray-50' : 'bg-gray-50 opacity-60'}`}>
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-medium text-gray-900">
+                        {describeBudgetRule(rule, providerName(rule.provider))}
+                      </span>
+                      <div className="flex items-center space-x-2">
+                        <Switch
+                          size="sm"
+                          checked={rule.enabled}
+                          onChange={(enabled) => updateRule(rule.id, { enabled })}
+                        />
+                        <button
+                          onClick={() => removeRule(rule.id)}
+                          className="p-1 text-gray-400 hover:text-red-500"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+                    {status && (
+                      <div className="mt-2 h-1.5 bg-gray-200 rounded-full overflow-hidden">
+                        <div className={`h-full ${barColor} transition-all`} style={{ width: `${ratio * 100}%` }} />
+                      </div>
+                    )}
+                    <div className="mt-1 flex justify-between text-xs text-gray-500">
+                      <span>
+                        {status ? formatBudgetAmount(rule.metric, status.used) : '已停用'} / {formatBudgetAmount(rule.metric, rule.limit)}
+                      </span>
+                      <span>
+                        {Math.round(rule.warnAt * 100)}% 提醒 · 超出后{rule.action === 'block' ? '拦截' : '降级离线'}
+                      </span>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
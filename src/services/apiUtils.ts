@@ -1,4 +1,16 @@
 // API工具类：错误处理、重试机制和使用统计
+import { abortableDelay, createCancelledError, isCancelledError, throwIfAborted } from '../utils/abort';
+import {
+  AuthError,
+  InvalidInputError,
+  NetworkError,
+  ProviderBugError,
+  QuotaError,
+  RateLimitError,
+  TimeoutError,
+  UnsupportedLanguageError
+} from './translationErrors';
+import { pricingService } from './pricingService';
 
 // API错误类型定义
 export interface ApiError {
@@ -8,6 +20,16 @@ export interface ApiError {
   details?: any;
 }
 
+// 翻译方式：文本、图片、语音分别计费
+export type UsageType = 'text' | 'image' | 'speech';
+
+export interface UsageBucket {
+  requests: number;
+  characters: number;
+  cost: number;
+  billedUnits?: number; // 计费量（字符、张或分钟，取决于所选方案），旧数据没有该字段
+}
+
 // 使用统计接口
 export interface UsageStats {
   totalRequests: number;
@@ -16,19 +38,34 @@ export interface UsageStats {
   totalCharacters: number;
   totalCost: number; // 估算费用（人民币分）
   lastResetDate: string;
-  dailyUsage: Record<string, {
-    requests: number;
-    characters: number;
-    cost: number;
+  dailyUsage: Record<string, UsageBucket & {
+    breakdown?: Record<string, UsageBucket>; // 按 "提供方:翻译方式" 细分，旧数据没有该字段
   }>;
 }
 
+// 月度费用报表的一行：某天某提供方某种翻译方式的用量
+export interface CostReportRow extends UsageBucket {
+  date: string;
+  provider: string;
+  type: UsageType;
+}
+
+// 月末账单预测
+export interface MonthlyProjection {
+  spent: number; // 本月已产生费用（分）
+  projected: number; // 预计月末费用（分）
+  dailyAverage: number; // 用于预测剩余天数的日均费用（分）
+  daysElapsed: number;
+  daysInMonth: number;
+}
+
 // 重试配置
 export interface RetryConfig {
   maxRetries: number;
   baseDelay: number; // 基础延迟（毫秒）
   maxDelay: number; // 最大延迟（毫秒）
   backoffFactor: number; // 退避因子
+  signal?: AbortSignal; // 取消后不再重试，退避等待也立即结束
 }
 
 // 默认重试配置
@@ -39,129 +76,149 @@ const DEFAULT_RETRY_CONFIG: RetryConfig = {
   backoffFactor: 2
 };
 
-// 百度API费用配置（人民币分/字符）
-const BAIDU_PRICING = {
-  text: 0.049, // ¥49/百万字符 = 0.049分/字符
-  image: 0.15, // ¥1.5/千次 = 150分/千次，按平均50字符计算
-  speech: 0.12 // ¥1.2/小时，按平均500字符/分钟计算
-};
-
 // API错误分类
 export class ApiErrorHandler {
   static categorizeError(error: any): ApiError {
+    // 已经分类过的错误（RetryHandler 抛出的 TranslationError、取消错误）直接返回
+    if (typeof error?.retryable === 'boolean' && typeof error?.code === 'string') {
+      return error as ApiError;
+    }
+
+    // 请求被取消（axios / fetch 中止），不可重试，也不计入提供方故障
+    if (isCancelledError(error)) {
+      return createCancelledError(error);
+    }
+
     // 网络错误
     if (error.code === 'NETWORK_ERROR' || error.message?.includes('Network Error')) {
-      return {
-        code: 'NETWORK_ERROR',
-        message: '网络连接失败，请检查网络设置',
-        retryable: true,
-        details: error
-      };
+      return new NetworkError('网络连接失败，请检查网络设置', { cause: error });
     }
 
     // 超时错误
     if (error.code === 'TIMEOUT' || error.message?.includes('timeout')) {
-      return {
-        code: 'TIMEOUT',
-        message: '请求超时，请稍后重试',
-        retryable: true,
-        details: error
-      };
+      return new TimeoutError('请求超时，请稍后重试', { cause: error });
     }
 
     // 百度API特定错误
     if (error.response?.data?.error_code) {
       const errorCode = String(error.response.data.error_code);
       const errorMsg = error.response.data.error_msg || '未知错误';
+      const options = { provider: 'baidu', providerCode: errorCode, cause: error };
 
       switch (errorCode) {
         case '52001':
-          return {
-            code: 'TIMEOUT',
-            message: '请求超时，请重试',
-            retryable: true,
-            details: error
-          };
+          return new TimeoutError('请求超时，请重试', options);
         case '52002':
-          return {
-            code: 'SYSTEM_ERROR',
-            message: '系统错误，请稍后重试',
-            retryable: true,
-            details: error
-          };
+          return new ProviderBugError('系统错误，请稍后重试', { ...options, retryable: true });
         case '52003':
-          return {
-            code: 'UNAUTHORIZED',
-            message: 'API密钥无效，请检查配置',
-            retryable: false,
-            details: error
-          };
+          return new AuthError('API密钥无效，请检查配置', options);
         case '54000':
-          return {
-            code: 'MISSING_PARAMS',
-            message: '请求参数缺失',
-            retryable: false,
-            details: error
-          };
+          return new InvalidInputError('请求参数缺失', options);
         case '54001':
-          return {
-            code: 'INVALID_SIGNATURE',
-            message: '签名错误，请检查API配置',
-            retryable: false,
-            details: error
-          };
+          return new AuthError('签名错误，请检查API配置', { ...options, code: 'INVALID_SIGNATURE' });
         case '54003':
-          return {
-            code: 'ACCESS_FREQUENCY_LIMITED',
-            message: '访问频率受限，请稍后重试',
-            retryable: true,
-            details: error
-          };
+          return new RateLimitError('访问频率受限，请稍后重试', options);
         case '54004':
-          return {
-            code: 'ACCOUNT_NOT_EXISTS',
-            message: '账户不存在，请检查API配置',
-            retryable: false,
-            details: error
-          };
+          return new AuthError('账户不存在，请检查API配置', { ...options, code: 'ACCOUNT_NOT_EXISTS' });
         case '54005':
-          return {
-            code: 'INSUFFICIENT_BALANCE',
-            message: '账户余额不足',
-            retryable: false,
-            details: error
-          };
+          return new QuotaError('账户余额不足', { ...options, code: 'INSUFFICIENT_BALANCE' });
         case '58000':
-          return {
-            code: 'CLIENT_IP_ILLEGAL',
-            message: 'IP地址不在白名单中',
-            retryable: false,
-            details: error
-          };
+          return new AuthError('IP地址不在白名单中', { ...options, code: 'CLIENT_IP_ILLEGAL' });
+        case '58001':
+          return new UnsupportedLanguageError('译文语言方向不支持', options);
         case '90107':
-          return {
-            code: 'CERTIFICATION_NOT_PASSED',
-            message: '认证未通过或未生效',
-            retryable: false,
-            details: error
-          };
+          return new AuthError('认证未通过或未生效', { ...options, code: 'CERTIFICATION_NOT_PASSED' });
         default:
-          return {
+          return new ProviderBugError(`API错误: ${errorMsg} (${errorCode})`, {
+            ...options,
             code: 'API_ERROR',
-            message: `API错误: ${errorMsg} (${errorCode})`,
-            retryable: errorCode.startsWith('52'), // 52xxx错误通常可重试
-            details: error
-          };
+            retryable: errorCode.startsWith('52') // 52xxx错误通常可重试
+          });
+      }
+    }
+
+    // 翻译代理自身的错误（{ error: { type: 'proxy_error', code, message } }）
+    if (error.response?.data?.error?.type === 'proxy_error') {
+      const proxyError = error.response.data.error;
+      const options = { provider: 'baidu', providerCode: proxyError.code, cause: error };
+      switch (proxyError.code) {
+        case 'user_quota_exceeded':
+          return new QuotaError(proxyError.message || '今日翻译额度已用完', options);
+        case 'not_configured':
+          return new AuthError('翻译代理未配置百度凭据，请联系管理员', options);
+        case 'upstream_timeout':
+          return new TimeoutError('请求超时，请稍后重试', options);
+        case 'upstream_unreachable':
+          return new NetworkError('翻译代理无法连接百度翻译接口', options);
+        default:
+          return new InvalidInputError(`请求参数错误: ${proxyError.message || proxyError.code}`, options);
+      }
+    }
+
+    // OpenAI 兼容接口错误（{ error: { type, code, message } }，Ollama 等为 { error: '...' }）
+    if (error.response?.data?.error?.type || typeof error.response?.data?.error === 'string') {
+      const llmError = error.response.data.error;
+      const httpCode = Number(error.response.status);
+      const errorCode = typeof llmError === 'string' ? '' : String(llmError.code || '');
+      const errorMsg = typeof llmError === 'string' ? llmError : llmError.message || '未知错误';
+      const options = { provider: 'openai', providerCode: errorCode || String(httpCode), cause: error };
+
+      if (errorCode === 'insufficient_quota') {
+        return new QuotaError('账户额度不足，请检查 LLM 服务账单', options);
+      }
+      if (httpCode === 429) {
+        return new RateLimitError('访问频率受限，请稍后重试', options);
+      }
+      if (httpCode === 401 || httpCode === 403) {
+        return new AuthError('API密钥无效，请检查配置', options);
+      }
+      if (httpCode >= 500) {
+        return new ProviderBugError('系统错误，请稍后重试', { ...options, retryable: true });
+      }
+      return new ProviderBugError(`API错误: ${errorMsg} (${errorCode || httpCode})`, { ...options, code: 'API_ERROR' });
+    }
+
+    // Google Cloud API 错误（{ error: { code, status, errors: [{ reason }] } }）
+    if (error.response?.data?.error?.status || error.response?.data?.error?.code) {
+      const googleError = error.response.data.error;
+      const status = String(googleError.status || '');
+      const httpCode = Number(googleError.code || error.response.status);
+      const reason = googleError.errors?.[0]?.reason || googleError.details?.[0]?.reason || '';
+      const errorMsg = googleError.message || '未知错误';
+      const options = { provider: 'google', providerCode: reason || status || String(httpCode), cause: error };
+
+      if (reason === 'dailyLimitExceeded' || reason === 'quotaExceeded') {
+        return new QuotaError('配额已用完，请检查 Google Cloud 配额', options);
+      }
+      if (status === 'RESOURCE_EXHAUSTED' || httpCode === 429 || reason === 'rateLimitExceeded' || reason === 'userRateLimitExceeded') {
+        return new RateLimitError('访问频率受限，请稍后重试', options);
+      }
+      if (status === 'UNAUTHENTICATED' || status === 'PERMISSION_DENIED' || httpCode === 401 || httpCode === 403) {
+        return new AuthError('API密钥无效或无权限，请检查配置', options);
+      }
+      if (status === 'INVALID_ARGUMENT' || httpCode === 400) {
+        // v2 为 "Bad language pair"，v3 为 "Target language is invalid" 等
+        if (/language/i.test(errorMsg)) {
+          return new UnsupportedLanguageError(`语言不受支持: ${errorMsg}`, options);
+        }
+        return new InvalidInputError(`请求参数错误: ${errorMsg}`, options);
+      }
+      if (status === 'DEADLINE_EXCEEDED' || httpCode === 504) {
+        return new TimeoutError('请求超时，请重试', options);
       }
+      if (status === 'UNAVAILABLE' || status === 'INTERNAL' || httpCode >= 500) {
+        return new ProviderBugError('系统错误，请稍后重试', { ...options, retryable: true });
+      }
+      return new ProviderBugError(`API错误: ${errorMsg} (${status || httpCode})`, { ...options, code: 'API_ERROR' });
+    }
+
+    // 包装过的错误按原始原因分类
+    if (error?.cause) {
+      return ApiErrorHandler.categorizeError(error.cause);
     }
 
     // 其他错误
-    return {
-      code: 'UNKNOWN_ERROR',
-      message: error.message || '未知错误',
-      retryable: false,
-      details: error
-    };
+    return new ProviderBugError(error.message || '未知错误', { code: 'UNKNOWN_ERROR', cause: error });
   }
 }
 
@@ -176,6 +233,7 @@ export class RetryHandler {
 
     for (let attempt = 0; attempt <= retryConfig.maxRetries; attempt++) {
       try {
+        throwIfAborted(retryConfig.signal);
         return await operation();
       } catch (error) {
         lastError = error;
@@ -193,7 +251,7 @@ export class RetryHandler {
         );
 
         console.warn(`API请求失败，${delay}ms后重试 (${attempt + 1}/${retryConfig.maxRetries}):`, apiError.message);
-        await new Promise(resolve => setTimeout(resolve, delay));
+        await abortableDelay(delay, retryConfig.signal);
       }
     }
 
@@ -201,9 +259,38 @@ export class RetryHandler {
   }
 }
 
+// 细分统计的键
+export const usageBreakdownKey = (provider: string, type: UsageType) => `${provider}:${type}`;
+
+// 保留最近两个月的日统计，月度预算和图表需要完整的月份
+const USAGE_RETENTION_DAYS = 62;
+
+// 预测剩余天数时参考最近几天的日均费用
+const PROJECTION_WINDOW_DAYS = 7;
+
 // 使用统计管理
 export class UsageStatsManager {
   private static readonly STORAGE_KEY = 'translation_usage_stats';
+  private static listeners = new Set<() => void>();
+
+  // 每次记录用量后通知（预算检查、用量页面刷新）
+  static subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // 本月某提供方某种翻译方式已计费的用量，用于扣除免费额度和确定阶梯
+  private static getMonthlyBilledUnits(stats: UsageStats, provider: string, type: UsageType): number {
+    const currentMonth = new Date().toISOString().slice(0, 7);
+    const key = usageBreakdownKey(provider, type);
+
+    return Object.entries(stats.dailyUsage).reduce((sum, [date, usage]) => {
+      const bucket = date.startsWith(currentMonth) ? usage.breakdown?.[key] : undefined;
+      return sum + (bucket ? bucket.billedUnits ?? pricingService.defaultBilledUnits(type, bucket.characters) : 0);
+    }, 0);
+  }
 
   static getStats(): UsageStats {
     try {
@@ -228,9 +315,11 @@ export class UsageStatsManager {
   }
 
   static updateStats(
-    type: 'text' | 'image' | 'speech',
+    type: UsageType,
     characters: number,
-    success: boolean
+    success: boolean,
+    provider: string = 'baidu',
+    billedUnits: number = pricingService.defaultBilledUnits(type, characters) // 提供方实际计费的用量
   ): void {
     try {
       const stats = this.getStats();
@@ -239,10 +328,9 @@ export class UsageStatsManager {
       // 检查是否需要重置日统计
       if (stats.lastResetDate !== today) {
         stats.lastResetDate = today;
-        // 保留最近30天的数据
-        const thirtyDaysAgo = new Date();
-        thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
-        const cutoffDate = thirtyDaysAgo.toISOString().split('T')[0];
+        const retentionStart = new Date();
+        retentionStart.setDate(retentionStart.getDate() - USAGE_RETENTION_DAYS);
+        const cutoffDate = retentionStart.toISOString().split('T')[0];
         
         Object.keys(stats.dailyUsage).forEach(date => {
           if (date < cutoffDate) {
@@ -257,8 +345,8 @@ export class UsageStatsManager {
         stats.successfulRequests++;
         stats.totalCharacters += characters;
         
-        // 计算费用
-        const cost = characters * BAIDU_PRICING[type];
+        // 按所选方案计算费用，本月此前的用量决定免费额度余量和阶梯
+        const cost = pricingService.quote(provider, type, billedUnits, this.getMonthlyBilledUnits(stats, provider, type));
         stats.totalCost += cost;
 
         // 更新日统计
@@ -272,6 +360,17 @@ export class UsageStatsManager {
         stats.dailyUsage[today].requests++;
         stats.dailyUsage[today].characters += characters;
         stats.dailyUsage[today].cost += cost;
+
+        const breakdown = stats.dailyUsage[today].breakdown || {};
+        const key = usageBreakdownKey(provider, type);
+        const bucket = breakdown[key] || { requests: 0, characters: 0, cost: 0, billedUnits: 0 };
+        breakdown[key] = {
+          requests: bucket.requests + 1,
+          characters: bucket.characters + characters,
+          cost: bucket.cost + cost,
+          billedUnits: (bucket.billedUnits ?? pricingService.defaultBilledUnits(type, bucket.characters)) + billedUnits
+        };
+        stats.dailyUsage[today].breakdown = breakdown;
       } else {
         stats.failedRequests++;
       }
@@ -280,6 +379,8 @@ export class UsageStatsManager {
     } catch (error) {
       console.error('更新使用统计失败:', error);
     }
+
+    this.listeners.forEach(listener => listener());
   }
 
   static resetStats(): void {
@@ -288,6 +389,8 @@ export class UsageStatsManager {
     } catch (error) {
       console.error('重置使用统计失败:', error);
     }
+
+    this.listeners.forEach(listener => listener());
   }
 
   static getMonthlyStats(): {
@@ -334,6 +437,104 @@ export class UsageStatsManager {
     };
   }
 
+  // 估算文本翻译费用（分），没有计费方案的提供方返回 undefined
+  static estimateTextCost(characters: number, provider: string = 'baidu'): number | undefined {
+    return pricingService.getPlan(provider) ? this.estimateCost(characters, 'text', provider) : undefined;
+  }
+
+  // 估算一次请求的费用（分），按本月已用量扣除免费额度，用于预算检查和对比模式
+  static estimateCost(
+    characters: number,
+    type: UsageType,
+    provider: string = 'baidu',
+    billedUnits: number = pricingService.defaultBilledUnits(type, characters)
+  ): number {
+    return pricingService.quote(provider, type, billedUnits, this.getMonthlyBilledUnits(this.getStats(), provider, type));
+  }
+
+  // 预测月末账单：各提供方和翻译方式按最近几天的日均计费量外推，再按方案计价（免费额度和阶梯会影响结果）
+  static projectMonthlyCost(): MonthlyProjection {
+    const stats = this.getStats();
+    const now = new Date();
+    const today = now.toISOString().split('T')[0];
+    const currentMonth = today.slice(0, 7);
+    const daysInMonth = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 0)).getUTCDate();
+    const daysElapsed = now.getUTCDate();
+    const remainingDays = daysInMonth - daysElapsed;
+
+    let spent = 0;
+    Object.entries(stats.dailyUsage).forEach(([date, usage]) => {
+      if (date.startsWith(currentMonth)) {
+        spent += usage.cost;
+      }
+    });
+
+    let recentCost = 0;
+    let unclassifiedCost = 0; // 没有细分数据的旧记录按费用线性外推
+    const recentUnits: Record<string, number> = {};
+    for (let offset = 0; offset < PROJECTION_WINDOW_DAYS; offset++) {
+      const day = new Date(now.getTime() - offset * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+      const usage = stats.dailyUsage[day];
+      if (!usage) continue;
+
+      recentCost += usage.cost;
+      if (!usage.breakdown) {
+        unclassifiedCost += usage.cost;
+        continue;
+      }
+      Object.entries(usage.breakdown).forEach(([key, bucket]) => {
+        const type = key.split(':')[1] as UsageType;
+        recentUnits[key] = (recentUnits[key] || 0) + (bucket.billedUnits ?? pricingService.defaultBilledUnits(type, bucket.characters));
+      });
+    }
+
+    let projected = spent + (unclassifiedCost / PROJECTION_WINDOW_DAYS) * remainingDays;
+    Object.entries(recentUnits).forEach(([key, units]) => {
+      const [provider, type] = key.split(':') as [string, UsageType];
+      projected += pricingService.quote(
+        provider,
+        type,
+        (units / PROJECTION_WINDOW_DAYS) * remainingDays,
+        this.getMonthlyBilledUnits(stats, provider, type)
+      );
+    });
+
+    return {
+      spent,
+      projected,
+      dailyAverage: recentCost / PROJECTION_WINDOW_DAYS,
+      daysElapsed,
+      daysInMonth
+    };
+  }
+
+  // 有用量记录的月份（YYYY-MM），最近的在前
+  static getUsageMonths(): string[] {
+    const months = Object.keys(this.getStats().dailyUsage).map(date => date.slice(0, 7));
+    return [...new Set(months)].sort().reverse();
+  }
+
+  // 月度费用报表：按日期、提供方和翻译方式逐行列出；没有细分数据的旧记录提供方记为 unknown
+  static getMonthlyCostReport(month: string): CostReportRow[] {
+    const rows: CostReportRow[] = [];
+
+    Object.entries(this.getStats().dailyUsage)
+      .filter(([date]) => date.startsWith(month))
+      .sort(([a], [b]) => a.localeCompare(b))
+      .forEach(([date, usage]) => {
+        if (!usage.breakdown) {
+          rows.push({ date, provider: 'unknown', type: 'text', requests: usage.requests, characters: usage.characters, cost: usage.cost });
+          return;
+        }
+        Object.entries(usage.breakdown).forEach(([key, bucket]) => {
+          const [provider, type] = key.split(':') as [string, UsageType];
+          rows.push({ date, provider, type, ...bucket });
+        });
+      });
+
+    return rows;
+  }
+
   static formatCost(costInCents: number): string {
     return `¥${(costInCents / 100).toFixed(2)}`;
   }
@@ -0,0 +1,93 @@
+// 百度批量翻译：按字节上限分块，超长的单行按句切开后再拼回
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { UsageStatsManager } from './apiUtils';
+import { baiduTranslationService } from './baiduTranslationService';
+
+// 代理接口替身：逐行返回“译文”，记录每次请求的 q
+const post = vi.hoisted(() => vi.fn());
+vi.mock('axios', () => ({ default: { post } }));
+
+vi.mock('./cacheService', () => ({
+  translationCacheService: {
+    getCachedTextTranslation: async () => null,
+    setCachedTextTranslation: () => undefined
+  }
+}));
+
+vi.mock('../utils/browserDetection', () => ({
+  browserEnvironment: { isEmbedded: false },
+  environmentConfig: { timeout: 2000, maxRetries: 0, retryDelay: 1, headers: {} },
+  getDebugInfo: () => ({})
+}));
+
+// 不排队，直接发送
+vi.mock('./rateLimiter', () => ({
+  baiduRequestScheduler: { schedule: (_endpoint: string, task: () => Promise<unknown>) => task() }
+}));
+
+const bytes = (text: string) => new TextEncoder().encode(text).length;
+
+describe('BaiduTranslationService.translateBatch', () => {
+  let updateStats: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    updateStats = vi.spyOn(UsageStatsManager, 'updateStats').mockImplementation(() => undefined);
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    post.mockImplementation(async (_url: string, body: { text: string }) => {
+      const lines = body.text.split('\n');
+      return {
+        data: {
+          from: 'en',
+          to: 'zh',
+          translations: lines.map(line => ({ source: line, translated: `[${line.length}]` })),
+          billedCharacters: body.text.length,
+          quota: { text: null, image: null, speech: null }
+        }
+      };
+    });
+  });
+
+  afterEach(() => {
+    post.mockReset();
+    vi.restoreAllMocks();
+  });
+
+  it('多个片段按字节上限分块，每块不超过 6000 字节', async () => {
+    const line = '字'.repeat(1000); // 3000 字节
+    const results = await baiduTranslationService.translateBatch([line, `${line}\n${line}`, 'short'], 'zh', 'en');
+
+    const queries = post.mock.calls.map(call => call[1].text as string);
+    expect(queries.map(query => query.split('\n').length)).toEqual([1, 1, 2]);
+    queries.forEach(query => expect(bytes(query)).toBeLessThanOrEqual(6000));
+    expect(results.map(result => result.translatedText)).toEqual(['[1000]', '[1000]\n[1000]', '[5]']);
+  });
+
+  it('超过上限的单行按句切开分别发送，译文按原来的句间空白拼回', async () => {
+    const sentence = `${'字'.repeat(700)}。`;
+    const longLine = sentence.repeat(4); // 约 8400 字节
+    const results = await baiduTranslationService.translateBatch([`开头\n${longLine}\n结尾`], 'zh', 'en');
+
+    const queries = post.mock.calls.map(call => call[1].text as string);
+    queries.forEach(query => expect(bytes(query)).toBeLessThanOrEqual(6000));
+    expect(queries.join('\n').split('\n')).toEqual(['开头', sentence, sentence, sentence, sentence, '结尾']);
+    expect(results[0].translatedText).toBe('[2]\n[701] [701] [701] [701]\n[2]');
+  });
+
+  it('没有句末标点的超长行按字符上限硬切', async () => {
+    const longLine = 'a'.repeat(7000);
+    const results = await baiduTranslationService.translateBatch([longLine], 'en', 'zh');
+
+    const sent = post.mock.calls.flatMap(call => (call[1].text as string).split('\n'));
+    expect(sent.join('')).toBe(longLine);
+    sent.forEach(part => expect(bytes(part)).toBeLessThan(6000));
+    expect(results[0].translatedText).toBe(sent.map(part => `[${part.length}]`).join(''));
+  });
+
+  it('请求失败时按百度记一次失败', async () => {
+    post.mockRejectedValue({ code: 'NETWORK_ERROR', message: 'Network Error' });
+
+    await expect(baiduTranslationService.translateBatch(['hello'], 'en', 'zh')).rejects.toMatchObject({ code: 'NETWORK_ERROR' });
+    expect(updateStats).toHaveBeenCalledWith('text', 5, false, 'baidu');
+  });
+});
@@ -1,77 +1,36 @@
 import axios from 'axios';
-import CryptoJS from 'crypto-js';
-import { apiUtils, RetryHandler, UsageStatsManager } from './apiUtils';
+import { ApiErrorHandler, apiUtils, RetryHandler, UsageStatsManager } from './apiUtils';
+import { ProviderBugError, recordError } from './translationErrors';
+import { budgetService } from './budgetService';
 import { translationCacheService } from './cacheService';
 import { browserEnvironment, environmentConfig, getDebugInfo } from '../utils/browserDetection';
-
-// 检测是否在浏览器环境中
-const isBrowser = typeof window !== 'undefined';
-
-// 百度翻译API配置
-const BAIDU_API_CONFIG = {
-  appId: import.meta.env.VITE_BAIDU_APP_ID || '20250816002432414',
-  apiKey: import.meta.env.VITE_BAIDU_API_KEY || 'b3a1JQGV7LUYIEVti14j',
-  // 在浏览器环境中使用代理，在Node.js环境中直接访问
-  textApiUrl: isBrowser ? '/api/baidu/api/trans/vip/translate' : 'https://fanyi-api.baidu.com/api/trans/vip/translate',
-  // 图片/语音翻译使用 sdk 路径
-  imageApiUrl: isBrowser ? '/api/baidu/api/trans/sdk/picture' : 'https://fanyi-api.baidu.com/api/trans/sdk/picture',
-  speechApiUrl: isBrowser ? '/api/baidu/api/trans/sdk/speech' : 'https://fanyi-api.baidu.com/api/trans/sdk/speech',
-};
-
-// 百度翻译语言代码映射
-const BAIDU_LANGUAGE_MAP: Record<string, string> = {
-  'auto': 'auto',
-  'zh': 'zh',
-  'en': 'en',
-  'ja': 'jp',
-  'ko': 'kor',
-  'fr': 'fra',
-  'de': 'de',
-  'es': 'spa',
-  'it': 'it',
-  'pt': 'pt',
-  'ru': 'ru',
-  'ar': 'ara',
-  'hi': 'hi',
-  'th': 'th',
-  'vi': 'vie'
-};
-
-// 反向映射：百度语言代码到我们的语言代码
-const REVERSE_LANGUAGE_MAP: Record<string, string> = {
-  'auto': 'auto',
-  'zh': 'zh',
-  'en': 'en',
-  'jp': 'ja',
-  'kor': 'ko',
-  'fra': 'fr',
-  'de': 'de',
-  'spa': 'es',
-  'it': 'it',
-  'pt': 'pt',
-  'ru': 'ru',
-  'ara': 'ar',
-  'hi': 'hi',
-  'th': 'th',
-  'vie': 'vi'
-};
+import { baiduRequestScheduler, type RequestPriority } from './rateLimiter';
+import { resolveDetectedLanguage } from '../utils/languageDetection';
+import { isCancelledError, throwIfAborted } from '../utils/abort';
+import { reassembleText, splitSentences, type TextSegment } from '../utils/textSegmentation';
+import {
+  PROXY_ENDPOINTS,
+  getProxyHeaders,
+  type ProxyTextResponse,
+  type ProxyImageResponse,
+  type ProxySpeechResponse
+} from './translationProxy';
+
+// 单次请求 q 的大小上限（百度建议不超过 6000 字节）
+const MAX_BATCH_BYTES = 6000;
+// 超长行按句切分时每句的字符上限：UTF-8 每个字符最多 4 字节，加上换行仍不超过 MAX_BATCH_BYTES
+const MAX_LINE_CHARS = Math.floor((MAX_BATCH_BYTES - 1) / 4);
+
+// 百度翻译支持的语言（语言代码映射和签名在翻译代理中完成）
+const BAIDU_SUPPORTED_LANGUAGES = ['auto', 'zh', 'en', 'ja', 'ko', 'fr', 'de', 'es', 'it', 'pt', 'ru', 'ar', 'hi', 'th', 'vi'];
 
 // 百度翻译API接口类型
 export interface BaiduTranslationRequest {
   text: string;
   sourceLang: string;
   targetLang: string;
-}
-
-export interface BaiduTranslationResponse {
-  from: string;
-  to: string;
-  trans_result: Array<{
-    src: string;
-    dst: string;
-  }>;
-  error_code?: string;
-  error_msg?: string;
+  priority?: RequestPriority; // 排队优先级，默认 normal
+  signal?: AbortSignal; // 取消排队中或进行中的请求
 }
 
 export interface BaiduImageTranslationRequest {
@@ -79,27 +38,8 @@ export interface BaiduImageTranslationRequest {
   sourceLang: string;
   targetLang: string;
   paste?: number; // 是否贴合原文
-}
-
-export interface BaiduImageTranslationResponse {
-  log_id: number;
-  data: {
-    sumSrc: string;
-    sumDst: string;
-    pasteImg?: string; // 贴合翻译的图片
-    content: Array<{
-      src: string;
-      dst: string;
-      rect: {
-        left: number;
-        top: number;
-        width: number;
-        height: number;
-      };
-    }>;
-  };
-  error_code?: string;
-  error_msg?: string;
+  priority?: RequestPriority;
+  signal?: AbortSignal;
 }
 
 export interface BaiduSpeechTranslationRequest {
@@ -109,46 +49,32 @@ export interface BaiduSpeechTranslationRequest {
   channel: number; // 声道数
   sourceLang: string;
   targetLang: string;
+  priority?: RequestPriority;
+  signal?: AbortSignal;
 }
 
-export interface BaiduSpeechTranslationResponse {
-  log_id: number;
-  result: {
-    src: string;
-    dst: string;
-    voice: string; // 合成的语音base64
-  };
-  error_code?: string;
-  error_msg?: string;
+// WAV 文件头长度
+const WAV_HEADER_BYTES = 44;
+// 压缩格式（amr、m4a 等）无法直接得到时长，按 16kbps 估算
+const COMPRESSED_AUDIO_BYTES_PER_SECOND = 2000;
+
+// 从 base64 音频计算时长（分钟），pcm / wav 按采样率和声道数精确计算
+function getAudioMinutes(request: BaiduSpeechTranslationRequest): number {
+  const padding = request.voice.endsWith('==') ? 2 : request.voice.endsWith('=') ? 1 : 0;
+  const bytes = Math.floor(request.voice.length * 3 / 4) - padding;
+
+  const format = request.format.toLowerCase();
+  const seconds = format === 'pcm' || format === 'wav'
+    ? Math.max(0, bytes - (format === 'wav' ? WAV_HEADER_BYTES : 0)) / ((request.rate || 16000) * (request.channel || 1) * 2)
+    : bytes / COMPRESSED_AUDIO_BYTES_PER_SECOND;
+  return seconds / 60;
 }
 
-// 生成百度API签名
-function generateSign(query: string, appId: string, salt: string, apiKey: string): string {
-  const str = appId + query + salt + apiKey;
-  return CryptoJS.MD5(str).toString();
-}
-
-// 百度翻译服务类
+// 百度翻译服务类：通过翻译代理调用，浏览器端不持有任何凭据
 export class BaiduTranslationService {
-  private appId: string;
-  private apiKey: string;
-
   constructor() {
-    this.appId = BAIDU_API_CONFIG.appId || '20250816002432414';
-    this.apiKey = BAIDU_API_CONFIG.apiKey || 'b3a1JQGV7LUYIEVti14j';
-    
     console.log('🔧 百度翻译服务初始化');
-    console.log('- APP ID:', this.appId);
-    console.log('- API Key:', this.apiKey ? this.apiKey.substring(0, 8) + '***' : '未设置');
-    console.log('- 环境变量 VITE_BAIDU_APP_ID:', import.meta.env.VITE_BAIDU_APP_ID);
-    console.log('- 环境变量 VITE_BAIDU_API_KEY:', import.meta.env.VITE_BAIDU_API_KEY ? import.meta.env.VITE_BAIDU_API_KEY.substring(0, 8) + '***' : '未设置');
-    
-    // 不在构造函数中抛出错误，而是在实际调用时检查
-    if (!this.appId || !this.apiKey) {
-      console.warn('⚠️ 百度翻译API配置缺失，将在调用时检查');
-    } else {
-      console.log('✅ 百度翻译服务初始化成功');
-    }
+    console.log('- 翻译代理:', PROXY_ENDPOINTS.text);
   }
 
   // 文本翻译
@@ -165,24 +91,8 @@ export class BaiduTranslationService {
       }
     }
     
-    // 运行时检查API配置
-    if (!this.appId || !this.apiKey) {
-      console.error('❌ 百度翻译API配置缺失');
-      console.error('- APP ID:', this.appId || '未设置');
-      console.error('- API Key:', this.apiKey ? '已设置' : '未设置');
-      console.error('- 浏览器环境:', browserEnvironment.isEmbedded ? '嵌入式' : '独立');
-      
-      // 在嵌入式环境中提供更详细的错误信息
-      if (browserEnvironment.isEmbedded) {
-        console.error('- 嵌入式浏览器可能存在环境变量访问限制');
-        console.error('- 请确保在 Trae 中正确配置了环境变量');
-      }
-      
-      throw new Error('百度翻译API配置缺失，请检查环境变量 VITE_BAIDU_APP_ID 和 VITE_BAIDU_API_KEY');
-    }
-    
     // 检查缓存
-    const cachedResult = translationCacheService.getCachedTextTranslation(
+    const cachedResult = await translationCacheService.getCachedTextTranslation(
       request.text,
       request.sourceLang,
       request.targetLang,
@@ -195,76 +105,57 @@ export class BaiduTranslationService {
     }
 
     const operation = async () => {
-      const salt = Date.now().toString();
-      const from = BAIDU_LANGUAGE_MAP[request.sourceLang] || 'auto';
-      const to = BAIDU_LANGUAGE_MAP[request.targetLang] || 'en';
-      const sign = generateSign(request.text, this.appId, salt, this.apiKey);
-
-      const params = {
-        q: request.text,
-        from,
-        to,
-        appid: this.appId,
-        salt,
-        sign
-      };
-
-      // 根据环境选择API端点
-      const apiUrl = browserEnvironment.isEmbedded 
-        ? '/api/baidu/api/trans/vip/translate'  // 使用代理
-        : BAIDU_API_CONFIG.textApiUrl;  // 直接调用
-
       console.log('🚀 开始百度翻译API调用');
       console.log('- 原文:', request.text);
       console.log('- 源语言:', request.sourceLang);
       console.log('- 目标语言:', request.targetLang);
-      console.log('- 环境:', browserEnvironment.isEmbedded ? '嵌入式(代理)' : '独立(直接)');
-      
-      console.log('📤 百度翻译API调用参数:');
-      console.log('- URL:', apiUrl);
-      console.log('- 参数:', { ...params, sign: sign.substring(0, 8) + '***' });
+      console.log('- 代理接口:', PROXY_ENDPOINTS.text);
 
-      const response = await axios.post<BaiduTranslationResponse>(
-        apiUrl,
-        new URLSearchParams(params),
+      // 经共享队列限流，重试时重新排队
+      const response = await baiduRequestScheduler.schedule('text', () => axios.post<ProxyTextResponse>(
+        PROXY_ENDPOINTS.text,
+        {
+          text: request.text,
+          sourceLang: request.sourceLang,
+          targetLang: request.targetLang
+        },
         {
           headers: {
-            'Content-Type': 'application/x-www-form-urlencoded',
+            ...getProxyHeaders(),
             ...environmentConfig.headers
           },
-          timeout: environmentConfig.timeout
+          timeout: environmentConfig.timeout,
+          signal: request.signal
         }
-      );
+      ), request.priority, request.signal);
       
       console.log('📥 百度翻译API响应:');
       console.log('- 状态码:', response.status);
       console.log('- 响应数据:', response.data);
 
-      if (response.data.error_code) {
-        const error = new Error(`百度翻译API错误: ${response.data.error_msg} (${response.data.error_code})`);
-        (error as any).response = { data: response.data };
-        throw error;
-      }
-
-      const result = response.data.trans_result[0];
-      const detectedLanguage = REVERSE_LANGUAGE_MAP[response.data.from] || response.data.from;
+      // 百度的 from 与本地检测明显冲突时（如把日文汉字判为中文）以本地结果为准
+      const detectedLanguage = resolveDetectedLanguage(response.data.from, request.text);
 
       return {
-        translatedText: result.dst,
-        confidence: 0.95, // 百度API不返回置信度，使用固定值
-        detectedLanguage: request.sourceLang === 'auto' ? detectedLanguage : undefined
+        result: {
+          translatedText: response.data.translations.map(item => item.translated).join('\n'),
+          confidence: 0.95, // 百度API不返回置信度，使用固定值
+          detectedLanguage: request.sourceLang === 'auto' ? detectedLanguage : undefined
+        },
+        billedCharacters: response.data.billedCharacters ?? request.text.length
       };
     };
 
     try {
-      const result = await RetryHandler.executeWithRetry(operation, {
+      const { result, billedCharacters } = await RetryHandler.executeWithRetry(operation, {
         maxRetries: environmentConfig.maxRetries,
         baseDelay: environmentConfig.retryDelay,
-        maxDelay: environmentConfig.retryDelay * 4
+        maxDelay: environmentConfig.retryDelay * 4,
+        signal: request.signal
       });
       
-      // 更新使用统计
-      UsageStatsManager.updateStats('text', request.text.length, true);
+      // 更新使用统计，按代理返回的实际计费字符数计价
+      UsageStatsManager.updateStats('text', request.text.length, true, 'baidu', billedCharacters);
       
       // 缓存结果
       translationCacheService.setCachedTextTranslation(
@@ -277,6 +168,10 @@ export class BaiduTranslationService {
       
       return result;
     } catch (error: any) {
+      // 取消不算失败，原样抛出
+      if (isCancelledError(error)) {
+        throw error;
+      }
       console.error('❌ 百度翻译API调用失败:', error);
       
       // 环境特定的错误处理
@@ -304,29 +199,164 @@ export class BaiduTranslationService {
       }
       
       // 更新使用统计
-      UsageStatsManager.updateStats('text', request.text.length, false);
-      
-      // 构造详细的错误消息
-      let errorMessage = '翻译失败';
+      UsageStatsManager.updateStats('text', request.text.length, false, 'baidu');
       
-      if (browserEnvironment.isEmbedded) {
-        errorMessage += ' (嵌入式浏览器环境)';
-        
-        if (error.message?.includes('CORS')) {
-          errorMessage += ': CORS策略限制，请检查代理配置';
-        } else if (error.message?.includes('timeout')) {
-          errorMessage += ': 请求超时，网络可能较慢';
-        } else if (error.message?.includes('Network')) {
-          errorMessage += ': 网络连接问题';
-        } else {
-          errorMessage += `: ${error.message || '未知错误'}`;
+      // 按错误类别抛出，原始错误保留在 cause 中，便于上层做熔断、降级和展示处理建议
+      throw ApiErrorHandler.categorizeError(error);
+    }
+  }
+
+  // 批量文本翻译：多个片段以换行拼接到同一个请求中，按 trans_result 逐行拆回
+  async translateBatch(
+    segments: string[],
+    sourceLang: string,
+    targetLang: string,
+    priority: RequestPriority = 'normal',
+    signal?: AbortSignal
+  ): Promise<Array<{
+    translatedText: string;
+    confidence: number;
+    detectedLanguage?: string;
+  }>> {
+    const results: Array<{ translatedText: string; confidence: number; detectedLanguage?: string } | null> =
+      await Promise.all(segments.map(segment => {
+        if (!segment.trim()) {
+          return { translatedText: segment, confidence: 1 };
+        }
+        return translationCacheService.getCachedTextTranslation(segment, sourceLang, targetLang, 'baidu');
+      }));
+
+    // 片段自身可能包含换行，按行展开，只发送非空行
+    // 超过单次请求上限的行按句切开分别发送，译文再按原来的句间空白拼回这一行
+    const encoder = new TextEncoder();
+    const lines: Array<{ segmentIndex: number; lineIndex: number; text: string; part?: number }> = [];
+    const segmentLines: string[][] = segments.map(segment => segment.split('\n'));
+    const splitLines = new Map<string, { segmentIndex: number; lineIndex: number; parts: TextSegment[]; translations: string[] }>();
+    segmentLines.forEach((segmentLineList, segmentIndex) => {
+      if (results[segmentIndex]) return;
+      segmentLineList.forEach((line, lineIndex) => {
+        if (!line.trim()) return;
+        if (encoder.encode(line).length + 1 <= MAX_BATCH_BYTES) {
+          lines.push({ segmentIndex, lineIndex, text: line });
+          return;
         }
-      } else {
-        errorMessage += `: ${error.message || '未知错误'}`;
+
+        const parts = splitSentences(line, MAX_LINE_CHARS);
+        const translatable = parts.filter(part => part.translatable);
+        splitLines.set(`${segmentIndex}:${lineIndex}`, { segmentIndex, lineIndex, parts, translations: [] });
+        translatable.forEach((part, index) => {
+          lines.push({ segmentIndex, lineIndex, text: part.text, part: index });
+        });
+      });
+    });
+
+    if (lines.length === 0 && splitLines.size === 0) {
+      return results.map(result => result!);
+    }
+
+    // 按字节上限分块
+    const chunks: Array<typeof lines> = [];
+    let currentChunk: typeof lines = [];
+    let currentBytes = 0;
+    for (const line of lines) {
+      const lineBytes = encoder.encode(line.text).length + 1;
+      if (currentChunk.length > 0 && currentBytes + lineBytes > MAX_BATCH_BYTES) {
+        chunks.push(currentChunk);
+        currentChunk = [];
+        currentBytes = 0;
+      }
+      currentChunk.push(line);
+      currentBytes += lineBytes;
+    }
+    if (currentChunk.length > 0) {
+      chunks.push(currentChunk);
+    }
+
+    console.log(`📦 百度批量翻译: ${segments.length} 个片段, ${lines.length} 行, ${chunks.length} 个请求`);
+
+    const translatedLines: string[][] = segmentLines.map(list => [...list]);
+    let detectedLanguage: string | undefined;
+
+    for (const chunk of chunks) {
+      throwIfAborted(signal);
+      const query = chunk.map(line => line.text).join('\n');
+
+      const operation = async () => {
+        const response = await baiduRequestScheduler.schedule('text', () => axios.post<ProxyTextResponse>(
+          PROXY_ENDPOINTS.text,
+          { text: query, sourceLang, targetLang },
+          {
+            headers: {
+              ...getProxyHeaders(),
+              ...environmentConfig.headers
+            },
+            timeout: environmentConfig.timeout,
+            signal
+          }
+        ), priority, signal);
+
+        if (response.data.translations.length !== chunk.length) {
+          throw new ProviderBugError(`百度批量翻译结果行数不匹配: 发送 ${chunk.length} 行, 返回 ${response.data.translations.length} 行`, {
+            code: 'BATCH_LINE_MISMATCH',
+            provider: 'baidu'
+          });
+        }
+
+        return response.data;
+      };
+
+      try {
+        const data = await RetryHandler.executeWithRetry(operation, {
+          maxRetries: environmentConfig.maxRetries,
+          baseDelay: environmentConfig.retryDelay,
+          maxDelay: environmentConfig.retryDelay * 4,
+          signal
+        });
+
+        UsageStatsManager.updateStats('text', query.length, true, 'baidu', data.billedCharacters ?? query.length);
+
+        data.translations.forEach((item, index) => {
+          const line = chunk[index];
+          if (line.part === undefined) {
+            translatedLines[line.segmentIndex][line.lineIndex] = item.translated;
+          } else {
+            splitLines.get(`${line.segmentIndex}:${line.lineIndex}`)!.translations[line.part] = item.translated;
+          }
+        });
+        if (sourceLang === 'auto') {
+          detectedLanguage = resolveDetectedLanguage(data.from, query);
+        }
+      } catch (error) {
+        if (isCancelledError(error)) {
+          throw error;
+        }
+        UsageStatsManager.updateStats('text', query.length, false, 'baidu');
+        console.error('❌ 百度批量翻译失败:', error);
+        throw ApiErrorHandler.categorizeError(error);
       }
-      
-      throw new Error(errorMessage);
     }
+
+    splitLines.forEach(({ segmentIndex, lineIndex, parts, translations }) => {
+      translatedLines[segmentIndex][lineIndex] = reassembleText(parts, translations, targetLang);
+    });
+
+    return results.map((cached, segmentIndex) => {
+      if (cached) return cached;
+
+      const result = {
+        translatedText: translatedLines[segmentIndex].join('\n'),
+        confidence: 0.95,
+        detectedLanguage
+      };
+      translationCacheService.setCachedTextTranslation(
+        segments[segmentIndex],
+        sourceLang,
+        targetLang,
+        result,
+        'baidu'
+      );
+      return result;
+    });
   }
 
   // 图片翻译
@@ -341,7 +371,7 @@ export class BaiduTranslationService {
     }>;
   }> {
     // 检查缓存
-    const cachedResult = translationCacheService.getCachedImageTranslation(
+    const cachedResult = await translationCacheService.getCachedImageTranslation(
       request.image,
       request.sourceLang,
       request.targetLang,
@@ -353,102 +383,70 @@ export class BaiduTranslationService {
       return cachedResult;
     }
 
-    const operation = async () => {
-      const salt = Date.now().toString();
-      const from = BAIDU_LANGUAGE_MAP[request.sourceLang] || 'auto';
-      const to = BAIDU_LANGUAGE_MAP[request.targetLang] || 'en';
-      let sign = generateSign(request.image, this.appId, salt, this.apiKey);
-
-      const params = {
-        image: request.image,
-        from,
-        to,
-        appid: this.appId,
-        salt,
-        sign,
-        paste: (request.paste || 0).toString()
-      };
+    // 超出用量预算时不发请求（图片按张计费，识别出的字符数发送前未知）
+    const budget = budgetService.check('baidu', 'image', 0);
+    if (!budget.allowed) {
+      recordError('image:baidu', budget.error);
+      throw budget.error;
+    }
 
-      let response = await axios.post<BaiduImageTranslationResponse>(
-        BAIDU_API_CONFIG.imageApiUrl,
-        new URLSearchParams(params),
+    // 签名（及签名方式回退）由翻译代理完成
+    const operation = async () => {
+      const response = await baiduRequestScheduler.schedule('image', () => axios.post<ProxyImageResponse>(
+        PROXY_ENDPOINTS.image,
         {
-          headers: {
-            'Content-Type': 'application/x-www-form-urlencoded'
-          },
-          timeout: 30000
-        }
-      );
-
-      if (response.data.error_code) {
-        // 针对签名错误做一次回退：对 image 先做 md5 再参与签名（部分 SDK 文档示例如此）
-        const errorCode = String((response.data as any).error_code);
-        if (errorCode === '54001') {
-          const imageMd5 = CryptoJS.MD5(request.image).toString();
-          sign = generateSign(imageMd5, this.appId, salt, this.apiKey);
-          const retryParams = { ...params, sign } as any;
-          response = await axios.post<BaiduImageTranslationResponse>(
-            BAIDU_API_CONFIG.imageApiUrl,
-            new URLSearchParams(retryParams),
-            {
-              headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-              timeout: 30000
-            }
-          );
+          image: request.image,
+          sourceLang: request.sourceLang,
+          targetLang: request.targetLang,
+          paste: request.paste || 0
+        },
+        {
+          headers: getProxyHeaders(),
+          timeout: 30000,
+          signal: request.signal
         }
+      ), request.priority, request.signal);
 
-        if (response.data.error_code) {
-          const error = new Error(`百度图片翻译API错误: ${response.data.error_msg} (${response.data.error_code})`);
-          (error as any).response = { data: response.data };
-          throw error;
-        }
-      }
-
-      const textBlocks = response.data.data.content.map(item => ({
-        original: item.src,
-        translated: item.dst,
-        position: {
-          x: item.rect.left,
-          y: item.rect.top,
-          width: item.rect.width,
-          height: item.rect.height
-        }
-      }));
-
-      return {
-        originalText: response.data.data.sumSrc,
-        translatedText: response.data.data.sumDst,
-        translatedImage: response.data.data.pasteImg,
-        textBlocks
-      };
+      const { originalText, translatedText, translatedImage, textBlocks } = response.data;
+      return { originalText, translatedText, translatedImage, textBlocks };
     };
 
     try {
       const result = await RetryHandler.executeWithRetry(operation, {
         maxRetries: 1, // 图片翻译重试次数较少
         baseDelay: 2000,
-        maxDelay: 8000
+        maxDelay: 8000,
+        signal: request.signal
       });
       
-      // 更新使用统计（按平均50字符计算）
-      const estimatedChars = Math.max(result.originalText.length, 50);
-      UsageStatsManager.updateStats('image', estimatedChars, true);
+      // 更新使用统计：字符数为识别出的原文长度，按张计费
+      UsageStatsManager.updateStats('image', result.originalText.length, true, 'baidu', 1);
       
-      // 缓存结果
-      translationCacheService.setCachedImageTranslation(
+      // 缓存结果；识别出的文字块译文单独缓存，其他图片中出现相同文字时复用
+      await translationCacheService.setCachedImageTranslation(
         request.image,
         request.sourceLang,
         request.targetLang,
         result,
         request.paste || 0
       );
+      result.textBlocks.forEach(block => translationCacheService.setCachedBlockTranslation(
+        block.original,
+        request.sourceLang,
+        request.targetLang,
+        { translatedText: block.translated, confidence: 0.9 }
+      ));
       
       return result;
     } catch (error) {
+      if (isCancelledError(error)) {
+        throw error;
+      }
       // 更新失败统计
-      UsageStatsManager.updateStats('image', 50, false);
+      UsageStatsManager.updateStats('image', 0, false, 'baidu');
       
       console.error('百度图片翻译错误:', error);
+      recordError('image:baidu', error);
       throw error;
     }
   }
@@ -460,7 +458,7 @@ export class BaiduTranslationService {
     translatedAudio: string;
   }> {
     // 检查缓存
-    const cachedResult = translationCacheService.getCachedSpeechTranslation(
+    const cachedResult = await translationCacheService.getCachedSpeechTranslation(
       request.voice,
       request.sourceLang,
       request.targetLang,
@@ -472,75 +470,48 @@ export class BaiduTranslationService {
       return cachedResult;
     }
 
-    const operation = async () => {
-      const salt = Date.now().toString();
-      const from = BAIDU_LANGUAGE_MAP[request.sourceLang] || 'auto';
-      const to = BAIDU_LANGUAGE_MAP[request.targetLang] || 'en';
-      let sign = generateSign(request.voice, this.appId, salt, this.apiKey);
-
-      const params = {
-        voice: request.voice,
-        format: request.format,
-        rate: (request.rate || 16000).toString(),
-        channel: (request.channel || 1).toString(),
-        from,
-        to,
-        appid: this.appId,
-        salt,
-        sign
-      };
-
-      let response = await axios.post<BaiduSpeechTranslationResponse>(
-        BAIDU_API_CONFIG.speechApiUrl,
-        new URLSearchParams(params),
-        {
-          headers: {
-            'Content-Type': 'application/x-www-form-urlencoded'
-          },
-          timeout: 30000
-        }
-      );
+    // 语音按音频时长计费，发送前即可算出
+    const minutes = getAudioMinutes(request);
 
-      if (response.data.error_code) {
-        const errorCode = String((response.data as any).error_code);
-        if (errorCode === '54001') {
-          const voiceMd5 = CryptoJS.MD5(request.voice).toString();
-          sign = generateSign(voiceMd5, this.appId, salt, this.apiKey);
-          const retryParams = { ...params, sign } as any;
-          response = await axios.post<BaiduSpeechTranslationResponse>(
-            BAIDU_API_CONFIG.speechApiUrl,
-            new URLSearchParams(retryParams),
-            {
-              headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-              timeout: 30000
-            }
-          );
-        }
+    // 超出用量预算时不发请求
+    const budget = budgetService.check('baidu', 'speech', 0, minutes);
+    if (!budget.allowed) {
+      recordError('speech:baidu', budget.error);
+      throw budget.error;
+    }
 
-        if (response.data.error_code) {
-          const error = new Error(`百度语音翻译API错误: ${response.data.error_msg} (${response.data.error_code})`);
-          (error as any).response = { data: response.data };
-          throw error;
+    const operation = async () => {
+      const response = await baiduRequestScheduler.schedule('speech', () => axios.post<ProxySpeechResponse>(
+        PROXY_ENDPOINTS.speech,
+        {
+          voice: request.voice,
+          format: request.format,
+          rate: request.rate || 16000,
+          channel: request.channel || 1,
+          sourceLang: request.sourceLang,
+          targetLang: request.targetLang
+        },
+        {
+          headers: getProxyHeaders(),
+          timeout: 30000,
+          signal: request.signal
         }
-      }
+      ), request.priority, request.signal);
 
-      return {
-        originalText: response.data.result.src,
-        translatedText: response.data.result.dst,
-        translatedAudio: response.data.result.voice
-      };
+      const { originalText, translatedText, translatedAudio } = response.data;
+      return { originalText, translatedText, translatedAudio };
     };
 
     try {
       const result = await RetryHandler.executeWithRetry(operation, {
         maxRetries: 1, // 语音翻译重试次数较少
         baseDelay: 2000,
-        maxDelay: 10000
+        maxDelay: 10000,
+        signal: request.signal
       });
       
-      // 更新使用统计
-      const estimatedChars = Math.max(result.originalText.length, 30);
-      UsageStatsManager.updateStats('speech', estimatedChars, true);
+      // 更新使用统计：字符数为识别出的原文长度，按音频时长计费
+      UsageStatsManager.updateStats('speech', result.originalText.length, true, 'baidu', minutes);
       
       // 缓存结果
       translationCacheService.setCachedSpeechTranslation(
@@ -553,10 +524,14 @@ export class BaiduTranslationService {
       
       return result;
     } catch (error) {
+      if (isCancelledError(error)) {
+        throw error;
+      }
       // 更新失败统计
-      UsageStatsManager.updateStats('speech', 30, false);
+      UsageStatsManager.updateStats('speech', 0, false, 'baidu');
       
       console.error('百度语音翻译错误:', error);
+      recordError('speech:baidu', error);
       throw error;
     }
   }
@@ -607,13 +582,13 @@ export class BaiduTranslationService {
   }
 
   // 清理缓存
-  clearCache() {
-    translationCacheService.clearAllCaches();
+  clearCache(): Promise<void> {
+    return translationCacheService.clearAllCaches();
   }
 
   // 获取支持的语言列表
   getSupportedLanguages(): Array<{ code: string; name: string }> {
-    return Object.keys(BAIDU_LANGUAGE_MAP).map(code => ({
+    return BAIDU_SUPPORTED_LANGUAGES.map(code => ({
       code,
       name: this.getLanguageName(code)
     }));
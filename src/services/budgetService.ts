@@ -0,0 +1,221 @@
+// 用量预算：按提供方和翻译方式设置每日/每月的费用或字符上限
+// 接近上限时提醒，超出上限时拦截请求或降级到离线翻译
+import { UsageStatsManager, type UsageBucket, type UsageType } from './apiUtils';
+import { QuotaError } from './translationErrors';
+
+export type BudgetPeriod = 'daily' | 'monthly';
+export type BudgetMetric = 'cost' | 'characters';
+export type BudgetAction = 'block' | 'downgrade'; // 超出后拦截请求，或改用缓存和离线翻译
+export type BudgetLevel = 'ok' | 'warning' | 'exceeded';
+
+export interface BudgetRule {
+  id: string;
+  provider: string; // 提供方 id，'all' 表示所有提供方合计
+  mode: UsageType | 'all';
+  period: BudgetPeriod;
+  metric: BudgetMetric;
+  limit: number; // 费用上限（人民币分）或字符上限
+  warnAt: number; // 达到上限的该比例时提醒，如 0.8
+  action: BudgetAction;
+  enabled: boolean;
+}
+
+export interface BudgetStatus {
+  rule: BudgetRule;
+  used: number;
+  ratio: number;
+  level: BudgetLevel;
+}
+
+export interface BudgetAlert {
+  status: BudgetStatus;
+  message: string;
+}
+
+export interface BudgetCheckResult {
+  allowed: boolean;
+  action?: BudgetAction;
+  status?: BudgetStatus;
+  error?: QuotaError;
+}
+
+const MODE_LABELS: Record<BudgetRule['mode'], string> = {
+  all: '全部方式',
+  text: '文本',
+  image: '图片',
+  speech: '语音'
+};
+
+const PERIOD_LABELS: Record<BudgetPeriod, string> = {
+  daily: '每日',
+  monthly: '每月'
+};
+
+export const formatBudgetAmount = (metric: BudgetMetric, value: number): string =>
+  metric === 'cost' ? UsageStatsManager.formatCost(value) : `${Math.round(value).toLocaleString()} 字符`;
+
+// 规则的简短描述，如 "baidu · 文本 · 每月费用"
+export const describeBudgetRule = (rule: BudgetRule, providerName: string = rule.provider): string =>
+  [
+    rule.provider === 'all' ? '全部提供方' : providerName,
+    MODE_LABELS[rule.mode],
+    `${PERIOD_LABELS[rule.period]}${rule.metric === 'cost' ? '费用' : '字符'}`
+  ].join(' · ');
+
+class BudgetService {
+  private static readonly ALERTS_KEY = 'translation_budget_alerts';
+
+  private rules: BudgetRule[] = [];
+  private listeners = new Set<(alert: BudgetAlert) => void>();
+
+  constructor() {
+    // 每次记录用量后检查是否需要提醒
+    UsageStatsManager.subscribe(() => this.evaluate());
+  }
+
+  setRules(rules: BudgetRule[]): void {
+    this.rules = rules.map(rule => ({ ...rule }));
+    this.evaluate();
+  }
+
+  getRules(): BudgetRule[] {
+    return [...this.rules];
+  }
+
+  // 订阅预算提醒，返回取消订阅函数
+  onAlert(listener: (alert: BudgetAlert) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getStatuses(): BudgetStatus[] {
+    return this.rules.filter(rule => rule.enabled).map(rule => this.getStatus(rule));
+  }
+
+  // 请求前检查：已达上限或加上本次请求后超出上限即不允许，block 规则优先于 downgrade
+  // billedUnits 为本次预计的计费量（如语音的分钟数），默认按字符数推算
+  // pricedAs 为计价方式：图片文字块按 image 方式匹配规则，但由文本接口按字符计费
+  check(
+    provider: string,
+    mode: UsageType,
+    characters: number,
+    billedUnits?: number,
+    pricedAs: UsageType = mode
+  ): BudgetCheckResult {
+    let result: BudgetCheckResult = { allowed: true };
+
+    for (const rule of this.rules) {
+      if (!rule.enabled || !this.matches(rule, provider, mode)) continue;
+
+      const status = this.getStatus(rule);
+      const amount = rule.metric === 'cost'
+        ? UsageStatsManager.estimateCost(characters, pricedAs, provider, billedUnits)
+        : characters;
+      if (status.used < rule.limit && status.used + amount <= rule.limit) continue;
+
+      if (result.allowed || (rule.action === 'block' && result.action !== 'block')) {
+        result = {
+          allowed: false,
+          action: rule.action,
+          status,
+          error: new QuotaError(
+            `已达到用量上限（${describeBudgetRule(rule)}：${formatBudgetAmount(rule.metric, status.used)} / ${formatBudgetAmount(rule.metric, rule.limit)}）`,
+            { code: 'BUDGET_EXCEEDED', provider, retryable: false }
+          )
+        };
+      }
+      this.notify({ ...status, level: 'exceeded' });
+    }
+
+    return result;
+  }
+
+  private matches(rule: BudgetRule, provider: string, mode: UsageType): boolean {
+    return (rule.provider === 'all' || rule.provider === provider) &&
+      (rule.mode === 'all' || rule.mode === mode);
+  }
+
+  getStatus(rule: BudgetRule): BudgetStatus {
+    const used = this.getUsage(rule);
+    const ratio = rule.limit > 0 ? used / rule.limit : (used > 0 ? Infinity : 0);
+    const level: BudgetLevel = ratio >= 1 ? 'exceeded' : ratio >= rule.warnAt ? 'warning' : 'ok';
+    return { rule, used, ratio, level };
+  }
+
+  // 统计规则周期内的用量；没有细分数据的旧记录只计入"全部提供方、全部方式"的规则
+  private getUsage(rule: BudgetRule): number {
+    const { dailyUsage } = UsageStatsManager.getStats();
+    const period = this.getPeriodKey(rule.period);
+    const value = (bucket: UsageBucket) => rule.metric === 'cost' ? bucket.cost : bucket.characters;
+
+    let used = 0;
+    Object.entries(dailyUsage).forEach(([date, usage]) => {
+      if (!date.startsWith(period)) return;
+
+      if (rule.provider === 'all' && rule.mode === 'all') {
+        used += value(usage);
+        return;
+      }
+      Object.entries(usage.breakdown || {}).forEach(([key, bucket]) => {
+        const [provider, mode] = key.split(':');
+        if (this.matches(rule, provider, mode as UsageType)) {
+          used += value(bucket);
+        }
+      });
+    });
+
+    return used;
+  }
+
+  // 与 dailyUsage 的日期键一致：每日为 YYYY-MM-DD，每月为 YYYY-MM
+  private getPeriodKey(period: BudgetPeriod): string {
+    const today = new Date().toISOString().split('T')[0];
+    return period === 'daily' ? today : today.slice(0, 7);
+  }
+
+  private evaluate(): void {
+    this.getStatuses()
+      .filter(status => status.level !== 'ok')
+      .forEach(status => this.notify(status));
+  }
+
+  // 同一规则在同一周期内每个级别只提醒一次，刷新页面后也不重复
+  private notify(status: BudgetStatus): void {
+    const { rule, level } = status;
+    const key = `${rule.id}:${level}:${this.getPeriodKey(rule.period)}`;
+    const notified = this.loadNotified();
+    if (notified.includes(key)) return;
+
+    // 只保留当前周期的记录
+    const current = [this.getPeriodKey('daily'), this.getPeriodKey('monthly')];
+    this.saveNotified([...notified.filter(item => current.some(period => item.endsWith(`:${period}`))), key]);
+
+    const usage = `${formatBudgetAmount(rule.metric, status.used)} / ${formatBudgetAmount(rule.metric, rule.limit)}`;
+    const message = level === 'exceeded'
+      ? `${describeBudgetRule(rule)}已达上限（${usage}），${rule.action === 'block' ? '后续请求将被拦截' : '将改用缓存和离线翻译'}`
+      : `${describeBudgetRule(rule)}已用 ${Math.round(status.ratio * 100)}%（${usage}）`;
+    this.listeners.forEach(listener => listener({ status, message }));
+  }
+
+  private loadNotified(): string[] {
+    try {
+      const stored = localStorage.getItem(BudgetService.ALERTS_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private saveNotified(keys: string[]): void {
+    try {
+      localStorage.setItem(BudgetService.ALERTS_KEY, JSON.stringify(keys));
+    } catch (error) {
+      console.error('保存预算提醒记录失败:', error);
+    }
+  }
+}
+
+// 导出单例实例
+export const budgetService = new BudgetService();
@@ -1,5 +1,22 @@
 // 翻译缓存服务
 import CryptoJS from 'crypto-js';
+import type { EnhancedTextBlock } from './enhancedOcrService';
+import {
+  computePerceptualHash,
+  fingerprintImage,
+  hammingDistance,
+  type ImageFingerprint,
+  type PerceptualHashAlgorithm
+} from '../utils/perceptualHash';
+
+// 缓存项说明：缓存键是哈希值，缓存管理页面靠它展示和搜索
+export interface CacheEntryInfo {
+  model?: string;
+  sourceLang?: string;
+  targetLang?: string;
+  sourceText?: string; // 原文（截断）
+  translatedText?: string; // 译文（截断）
+}
 
 // 缓存项接口
 export interface CacheItem<T> {
@@ -8,14 +25,28 @@ export interface CacheItem<T> {
   expiresAt: number;
   accessCount: number;
   lastAccessed: number;
+  bytes: number; // 设置了 maxBytes 时记录数据大小，否则为 0
+  pinned: boolean; // 固定的项不过期，也不会被淘汰
+  info?: CacheEntryInfo;
 }
 
+// 写入缓存时的附加信息
+export interface CacheEntryOptions {
+  pinned?: boolean; // 不指定时保留原有的固定状态
+  info?: CacheEntryInfo;
+  fingerprint?: CacheFingerprint; // 只记录在 IndexedDB 中
+}
+
+const isExpired = (item: { expiresAt: number; pinned?: boolean }, now: number = Date.now()): boolean =>
+  !item.pinned && now > item.expiresAt;
+
 // 缓存配置
 export interface CacheConfig {
   maxSize: number; // 最大缓存项数
   defaultTTL: number; // 默认过期时间（毫秒）
   cleanupInterval: number; // 清理间隔（毫秒）
   compressionThreshold: number; // 压缩阈值（字节）
+  maxBytes: number; // 总字节数上限，超出时淘汰最久未访问的项；0 表示不限
 }
 
 // 默认缓存配置
@@ -23,9 +54,15 @@ const DEFAULT_CACHE_CONFIG: CacheConfig = {
   maxSize: 1000,
   defaultTTL: 24 * 60 * 60 * 1000, // 24小时
   cleanupInterval: 60 * 60 * 1000, // 1小时
-  compressionThreshold: 1024 // 1KB
+  compressionThreshold: 1024, // 1KB
+  maxBytes: 0
 };
 
+// 数据序列化后的 UTF-8 字节数
+export function estimateBytes(data: unknown): number {
+  return new Blob([JSON.stringify(data)]).size;
+}
+
 // 翻译缓存键生成器
 export class CacheKeyGenerator {
   static generateTextKey(
@@ -48,6 +85,10 @@ export class CacheKeyGenerator {
     return CryptoJS.MD5(content).toString();
   }
 
+  static generateOcrKey(imageHash: string, sourceLang: string): string {
+    return CryptoJS.MD5(`ocr:${sourceLang}:${imageHash}`).toString();
+  }
+
   static generateSpeechKey(
     audioHash: string,
     sourceLang: string,
@@ -80,13 +121,31 @@ export class MemoryCache<T> {
     this.startCleanupTimer();
   }
 
-  set(key: string, data: T, ttl?: number): void {
+  set(key: string, data: T, ttl?: number, options: CacheEntryOptions = {}): void {
     const now = Date.now();
     const expiresAt = now + (ttl || this.config.defaultTTL);
+    const bytes = this.config.maxBytes > 0 ? estimateBytes(data) : 0;
+    const previous = this.cache.get(key);
+    this.cache.delete(key);
+
+    // 单项超过字节上限（除去固定项占用的部分）时不缓存，避免清空整个缓存
+    if (this.config.maxBytes > 0 && bytes > this.config.maxBytes - this.pinnedBytes()) {
+      return;
+    }
 
-    // 如果缓存已满，删除最少使用的项
-    if (this.cache.size >= this.config.maxSize) {
-      this.evictLeastUsed();
+    // 如果缓存已满，删除最少使用的项；全部是固定项时不再缓存
+    if (this.cache.size >= this.config.maxSize && !this.evictLeastUsed()) {
+      return;
+    }
+
+    // 按字节数限制时淘汰最久未访问的项
+    if (this.config.maxBytes > 0) {
+      let totalBytes = this.totalBytes();
+      while (totalBytes + bytes > this.config.maxBytes) {
+        const evicted = this.evictLeastRecentlyUsed();
+        if (!evicted) return;
+        totalBytes -= evicted.bytes;
+      }
     }
 
     this.cache.set(key, {
@@ -94,7 +153,10 @@ export class MemoryCache<T> {
       timestamp: now,
       expiresAt,
       accessCount: 0,
-      lastAccessed: now
+      lastAccessed: now,
+      bytes,
+      pinned: options.pinned ?? previous?.pinned ?? false,
+      info: options.info ?? previous?.info
     });
   }
 
@@ -107,7 +169,7 @@ export class MemoryCache<T> {
     const now = Date.now();
     
     // 检查是否过期
-    if (now > item.expiresAt) {
+    if (isExpired(item, now)) {
       this.cache.delete(key);
       return null;
     }
@@ -126,7 +188,7 @@ export class MemoryCache<T> {
     }
 
     // 检查是否过期
-    if (Date.now() > item.expiresAt) {
+    if (isExpired(item)) {
       this.cache.delete(key);
       return false;
     }
@@ -138,6 +200,19 @@ export class MemoryCache<T> {
     return this.cache.delete(key);
   }
 
+  setPinned(key: string, pinned: boolean): boolean {
+    const item = this.cache.get(key);
+    if (!item) return false;
+    item.pinned = pinned;
+    return true;
+  }
+
+  // 未过期的缓存项（不更新访问统计）
+  entries(): Array<[string, CacheItem<T>]> {
+    const now = Date.now();
+    return Array.from(this.cache.entries()).filter(([, item]) => !isExpired(item, now));
+  }
+
   clear(): void {
     this.cache.clear();
   }
@@ -146,10 +221,28 @@ export class MemoryCache<T> {
     return this.cache.size;
   }
 
+  totalBytes(): number {
+    let total = 0;
+    for (const item of this.cache.values()) {
+      total += item.bytes;
+    }
+    return total;
+  }
+
+  private pinnedBytes(): number {
+    let total = 0;
+    for (const item of this.cache.values()) {
+      if (item.pinned) total += item.bytes;
+    }
+    return total;
+  }
+
   // 获取缓存统计信息
   getStats(): {
     size: number;
     maxSize: number;
+    bytes: number;
+    maxBytes: number;
     hitRate: number;
     totalAccess: number;
     expiredItems: number;
@@ -160,7 +253,7 @@ export class MemoryCache<T> {
 
     for (const item of this.cache.values()) {
       totalAccess += item.accessCount;
-      if (now > item.expiresAt) {
+      if (isExpired(item, now)) {
         expiredItems++;
       }
     }
@@ -168,17 +261,21 @@ export class MemoryCache<T> {
     return {
       size: this.cache.size,
       maxSize: this.config.maxSize,
+      bytes: this.totalBytes(),
+      maxBytes: this.config.maxBytes,
       hitRate: totalAccess > 0 ? (totalAccess / (totalAccess + expiredItems)) * 100 : 0,
       totalAccess,
       expiredItems
     };
   }
 
-  private evictLeastUsed(): void {
+  // 淘汰最少使用的项（跳过固定项），没有可淘汰的项时返回 false
+  private evictLeastUsed(): boolean {
     let leastUsedKey: string | null = null;
     let leastUsedItem: CacheItem<T> | null = null;
 
     for (const [key, item] of this.cache.entries()) {
+      if (item.pinned) continue;
       if (!leastUsedItem || 
           item.accessCount < leastUsedItem.accessCount ||
           (item.accessCount === leastUsedItem.accessCount && item.lastAccessed < leastUsedItem.lastAccessed)) {
@@ -189,7 +286,28 @@ export class MemoryCache<T> {
 
     if (leastUsedKey) {
       this.cache.delete(leastUsedKey);
+      return true;
     }
+    return false;
+  }
+
+  // 淘汰最久未访问的项（跳过固定项），返回被淘汰的项
+  private evictLeastRecentlyUsed(): CacheItem<T> | null {
+    let oldestKey: string | null = null;
+    let oldestItem: CacheItem<T> | null = null;
+
+    for (const [key, item] of this.cache.entries()) {
+      if (item.pinned) continue;
+      if (!oldestItem || item.lastAccessed < oldestItem.lastAccessed) {
+        oldestKey = key;
+        oldestItem = item;
+      }
+    }
+
+    if (oldestKey) {
+      this.cache.delete(oldestKey);
+    }
+    return oldestItem;
   }
 
   private cleanup(): void {
@@ -197,7 +315,7 @@ export class MemoryCache<T> {
     const keysToDelete: string[] = [];
 
     for (const [key, item] of this.cache.entries()) {
-      if (now > item.expiresAt) {
+      if (isExpired(item, now)) {
         keysToDelete.push(key);
       }
     }
@@ -219,164 +337,746 @@ export class MemoryCache<T> {
   }
 }
 
-// 持久化缓存管理器（使用 localStorage）
-export class PersistentCache<T> {
-  private storageKey: string;
-  private memoryCache: MemoryCache<T>;
-  private config: CacheConfig;
 
-  constructor(storageKey: string, config: Partial<CacheConfig> = {}) {
-    this.storageKey = storageKey;
-    this.config = { ...DEFAULT_CACHE_CONFIG, ...config };
-    this.memoryCache = new MemoryCache<T>(config);
-    this.loadFromStorage();
-  }
+// ---- IndexedDB 缓存层 ----
 
-  set(key: string, data: T, ttl?: number): void {
-    this.memoryCache.set(key, data, ttl);
-    this.saveToStorage();
-  }
+const CACHE_DB_NAME = 'translation_cache';
+const CACHE_DB_VERSION = 1;
 
-  get(key: string): T | null {
-    return this.memoryCache.get(key);
+// 每个缓存层两个对象仓库：数据仓库保存缓存内容，元数据仓库保存大小和访问时间，启动时只读取元数据
+export type CacheStoreName = 'text' | 'image' | 'speech' | 'ocr';
+const CACHE_STORE_NAMES: CacheStoreName[] = ['text', 'image', 'speech', 'ocr'];
+const metaStoreName = (name: CacheStoreName) => `${name}_meta`;
+
+// 图片指纹：同一组内（同一算法、语言对等）汉明距离不超过阈值且宽高比相近的图片视为相似
+export interface CacheFingerprint {
+  group: string;
+  hash: string;
+  width: number;
+  height: number;
+}
+
+export interface CacheEntryMeta {
+  key: string;
+  bytes: number;
+  timestamp: number;
+  expiresAt: number;
+  lastAccessed: number;
+  accessCount?: number; // 从 IndexedDB 读取的次数（内存命中不计入）
+  pinned?: boolean;
+  info?: CacheEntryInfo;
+  fingerprint?: CacheFingerprint;
+}
+
+// 内存命中后写回访问时间的最小间隔
+const TOUCH_INTERVAL = 60 * 1000;
+
+// 宽高比相差超过该比例的图片不视为相似（缩小后的指纹不含宽高比信息）
+const ASPECT_RATIO_TOLERANCE = 0.05;
+
+const similarAspectRatio = (a: { width: number; height: number }, b: { width: number; height: number }): boolean => {
+  if (!a.height || !b.height) return false;
+  const ratioA = a.width / a.height;
+  const ratioB = b.width / b.height;
+  return Math.abs(ratioA - ratioB) <= ASPECT_RATIO_TOLERANCE * Math.max(ratioA, ratioB);
+};
+
+export interface IndexedDBCacheConfig {
+  maxBytes: number; // 总字节数上限，超出时淘汰最久未访问的项
+  defaultTTL: number;
+}
+
+let databasePromise: Promise<IDBDatabase | null> | null = null;
+
+// 打开缓存数据库；不支持 IndexedDB（如部分隐私模式）时返回 null，缓存只保留在内存中
+function openCacheDatabase(): Promise<IDBDatabase | null> {
+  if (!databasePromise) {
+    databasePromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+
+      const request = indexedDB.open(CACHE_DB_NAME, CACHE_DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        CACHE_STORE_NAMES.forEach(name => {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name, { keyPath: 'key' });
+          }
+          if (!db.objectStoreNames.contains(metaStoreName(name))) {
+            db.createObjectStore(metaStoreName(name), { keyPath: 'key' });
+          }
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.error('打开缓存数据库失败:', request.error);
+        resolve(null);
+      };
+    });
   }
+  return databasePromise;
+}
 
-  has(key: string): boolean {
-    return this.memoryCache.has(key);
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+// IndexedDB 持久化缓存：按字节数统计容量，超出上限时按最近访问时间（LRU）淘汰
+export class IndexedDBCache<T> {
+  private storeName: CacheStoreName;
+  private config: IndexedDBCacheConfig;
+  private meta = new Map<string, CacheEntryMeta>();
+  private totalBytes = 0;
+  private ready: Promise<IDBDatabase | null>;
+
+  constructor(storeName: CacheStoreName, config: IndexedDBCacheConfig) {
+    this.storeName = storeName;
+    this.config = config;
+    this.ready = this.loadMeta();
   }
 
-  delete(key: string): boolean {
-    const result = this.memoryCache.delete(key);
-    this.saveToStorage();
-    return result;
+  async get(key: string): Promise<T | null> {
+    const db = await this.ready;
+    const meta = this.meta.get(key);
+    if (!db || !meta) return null;
+
+    if (isExpired(meta)) {
+      await this.delete(key);
+      return null;
+    }
+
+    try {
+      const record = await requestToPromise<{ key: string; data: T } | undefined>(
+        db.transaction(this.storeName, 'readonly').objectStore(this.storeName).get(key)
+      );
+      if (!record) {
+        this.forget(key);
+        return null;
+      }
+
+      // 只更新元数据中的访问时间和次数，不重写数据
+      meta.lastAccessed = Date.now();
+      meta.accessCount = (meta.accessCount || 0) + 1;
+      db.transaction(metaStoreName(this.storeName), 'readwrite').objectStore(metaStoreName(this.storeName)).put(meta);
+      return record.data;
+    } catch (error) {
+      console.error('读取持久化缓存失败:', error);
+      return null;
+    }
   }
 
-  clear(): void {
-    this.memoryCache.clear();
-    this.clearStorage();
+  async set(key: string, data: T, ttl?: number, options: CacheEntryOptions = {}): Promise<void> {
+    const db = await this.ready;
+    const bytes = estimateBytes(data);
+    const previous = this.meta.get(key);
+    // 固定项不会被淘汰，剩余空间不够时不写入
+    if (!db || bytes > this.config.maxBytes - this.pinnedBytes(key)) return;
+
+    const now = Date.now();
+    const meta: CacheEntryMeta = {
+      key,
+      bytes,
+      timestamp: now,
+      expiresAt: now + (ttl || this.config.defaultTTL),
+      lastAccessed: now,
+      accessCount: previous?.accessCount || 0,
+      pinned: options.pinned ?? previous?.pinned ?? false,
+      info: options.info ?? previous?.info,
+      fingerprint: options.fingerprint ?? previous?.fingerprint
+    };
+
+    this.forget(key);
+    const evicted = this.selectEvictions(bytes);
+
+    try {
+      const transaction = db.transaction([this.storeName, metaStoreName(this.storeName)], 'readwrite');
+      const dataStore = transaction.objectStore(this.storeName);
+      const metaStore = transaction.objectStore(metaStoreName(this.storeName));
+      evicted.forEach(evictedKey => {
+        dataStore.delete(evictedKey);
+        metaStore.delete(evictedKey);
+      });
+      dataStore.put({ key, data });
+      metaStore.put(meta);
+      await transactionDone(transaction);
+
+      this.meta.set(key, meta);
+      this.totalBytes += bytes;
+    } catch (error) {
+      // 浏览器存储配额不足等情况下放弃写入，内存缓存仍然有效
+      console.error('写入持久化缓存失败:', error);
+    }
   }
 
-  getStats() {
-    return this.memoryCache.getStats();
+  async delete(key: string): Promise<void> {
+    const db = await this.ready;
+    this.forget(key);
+    if (!db) return;
+
+    try {
+      const transaction = db.transaction([this.storeName, metaStoreName(this.storeName)], 'readwrite');
+      transaction.objectStore(this.storeName).delete(key);
+      transaction.objectStore(metaStoreName(this.storeName)).delete(key);
+      await transactionDone(transaction);
+    } catch (error) {
+      console.error('删除持久化缓存失败:', error);
+    }
   }
 
-  private loadFromStorage(): void {
+  // 内存命中时更新元数据中的访问时间，淘汰和预热按实际使用排序；同一项在间隔内只写一次
+  // 访问次数由内存缓存另行统计，这里不累加
+  async touch(key: string): Promise<void> {
+    const db = await this.ready;
+    const meta = this.meta.get(key);
+    const now = Date.now();
+    if (!db || !meta || now - meta.lastAccessed < TOUCH_INTERVAL) return;
+
+    meta.lastAccessed = now;
     try {
-      const stored = localStorage.getItem(this.storageKey);
-      if (stored) {
-        const data = JSON.parse(stored);
-        const now = Date.now();
+      const transaction = db.transaction(metaStoreName(this.storeName), 'readwrite');
+      transaction.objectStore(metaStoreName(this.storeName)).put(meta);
+      await transactionDone(transaction);
+    } catch (error) {
+      console.error('更新持久化缓存失败:', error);
+    }
+  }
 
-        // 只加载未过期的项
-        for (const [key, item] of Object.entries(data)) {
-          const cacheItem = item as CacheItem<T>;
-          if (now <= cacheItem.expiresAt) {
-            this.memoryCache.set(key, cacheItem.data, cacheItem.expiresAt - now);
-          }
-        }
-      }
+  async setPinned(key: string, pinned: boolean): Promise<void> {
+    const db = await this.ready;
+    const meta = this.meta.get(key);
+    if (!db || !meta) return;
+
+    meta.pinned = pinned;
+    try {
+      const transaction = db.transaction(metaStoreName(this.storeName), 'readwrite');
+      transaction.objectStore(metaStoreName(this.storeName)).put(meta);
+      await transactionDone(transaction);
     } catch (error) {
-      console.error('加载缓存失败:', error);
+      console.error('更新持久化缓存失败:', error);
     }
   }
 
-  private saveToStorage(): void {
+  async clear(): Promise<void> {
+    const db = await this.ready;
+    this.meta.clear();
+    this.totalBytes = 0;
+    if (!db) return;
+
     try {
-      const cacheData: Record<string, CacheItem<T>> = {};
-      const cache = (this.memoryCache as any).cache as Map<string, CacheItem<T>>;
-      
-      for (const [key, item] of cache.entries()) {
-        cacheData[key] = item;
-      }
+      const transaction = db.transaction([this.storeName, metaStoreName(this.storeName)], 'readwrite');
+      transaction.objectStore(this.storeName).clear();
+      transaction.objectStore(metaStoreName(this.storeName)).clear();
+      await transactionDone(transaction);
+    } catch (error) {
+      console.error('清理持久化缓存失败:', error);
+    }
+  }
+
+  // 未过期的全部缓存项，最近访问的在前（用于启动时预热内存缓存和导出）
+  async entries(limit?: number): Promise<Array<{ data: T; meta: CacheEntryMeta }>> {
+    const db = await this.ready;
+    if (!db) return [];
 
-      localStorage.setItem(this.storageKey, JSON.stringify(cacheData));
+    const metas = (await this.list()).slice(0, limit);
+
+    try {
+      const store = db.transaction(this.storeName, 'readonly').objectStore(this.storeName);
+      const records = await Promise.all(metas.map(meta =>
+        requestToPromise<{ key: string; data: T } | undefined>(store.get(meta.key))
+      ));
+      return records.flatMap((record, index) => record ? [{ data: record.data, meta: metas[index] }] : []);
     } catch (error) {
-      console.error('保存缓存失败:', error);
-      // 如果存储空间不足，清理一些缓存
-      if (error instanceof Error && error.name === 'QuotaExceededError') {
-        this.clearOldestItems(Math.floor(this.memoryCache.size() * 0.3));
+      console.error('读取持久化缓存失败:', error);
+      return [];
+    }
+  }
+
+  // 未过期缓存项的元数据，最近访问的在前
+  async list(): Promise<CacheEntryMeta[]> {
+    await this.ready;
+    const now = Date.now();
+    return Array.from(this.meta.values())
+      .filter(meta => !isExpired(meta, now))
+      .sort((a, b) => b.lastAccessed - a.lastAccessed)
+      .map(meta => ({ ...meta }));
+  }
+
+  getMeta(key: string): CacheEntryMeta | undefined {
+    return this.meta.get(key);
+  }
+
+  // 指纹最相近的未过期缓存项的键；距离相同时取最近访问的
+  async findSimilar(fingerprint: CacheFingerprint, maxDistance: number): Promise<string | null> {
+    await this.ready;
+
+    const now = Date.now();
+    let best: CacheEntryMeta | null = null;
+    let bestDistance = Infinity;
+    for (const meta of this.meta.values()) {
+      if (!meta.fingerprint || meta.fingerprint.group !== fingerprint.group || isExpired(meta, now)) continue;
+      if (!similarAspectRatio(meta.fingerprint, fingerprint)) continue;
+
+      const distance = hammingDistance(meta.fingerprint.hash, fingerprint.hash);
+      if (distance > maxDistance) continue;
+      if (distance < bestDistance || (distance === bestDistance && best && meta.lastAccessed > best.lastAccessed)) {
+        best = meta;
+        bestDistance = distance;
       }
     }
+    return best?.key ?? null;
+  }
+
+  getStats(): { size: number; bytes: number; maxBytes: number } {
+    return { size: this.meta.size, bytes: this.totalBytes, maxBytes: this.config.maxBytes };
   }
 
-  private clearStorage(): void {
+  // 启动时读取元数据，顺便删除已过期的项
+  private async loadMeta(): Promise<IDBDatabase | null> {
+    const db = await openCacheDatabase();
+    if (!db) return null;
+
     try {
-      localStorage.removeItem(this.storageKey);
+      const transaction = db.transaction([this.storeName, metaStoreName(this.storeName)], 'readwrite');
+      const metas = await requestToPromise(transaction.objectStore(metaStoreName(this.storeName)).getAll()) as CacheEntryMeta[];
+      const now = Date.now();
+
+      metas.forEach(meta => {
+        if (isExpired(meta, now)) {
+          transaction.objectStore(this.storeName).delete(meta.key);
+          transaction.objectStore(metaStoreName(this.storeName)).delete(meta.key);
+        } else {
+          this.meta.set(meta.key, meta);
+          this.totalBytes += meta.bytes;
+        }
+      });
+      await transactionDone(transaction);
     } catch (error) {
-      console.error('清理缓存失败:', error);
+      console.error('读取持久化缓存元数据失败:', error);
+    }
+    return db;
+  }
+
+  private forget(key: string): void {
+    const meta = this.meta.get(key);
+    if (meta) {
+      this.totalBytes -= meta.bytes;
+      this.meta.delete(key);
+    }
+  }
+
+  private pinnedBytes(excludeKey: string): number {
+    let total = 0;
+    for (const meta of this.meta.values()) {
+      if (meta.pinned && meta.key !== excludeKey) total += meta.bytes;
+    }
+    return total;
+  }
+
+  // 为新写入的数据腾出空间：先淘汰过期项，再按最久未访问淘汰，固定项不淘汰
+  private selectEvictions(bytes: number): string[] {
+    const now = Date.now();
+    const candidates = Array.from(this.meta.values())
+      .filter(meta => !meta.pinned)
+      .sort((a, b) => Number(isExpired(b, now)) - Number(isExpired(a, now)) || a.lastAccessed - b.lastAccessed);
+
+    const evicted: string[] = [];
+    for (const meta of candidates) {
+      if (this.totalBytes + bytes <= this.config.maxBytes && !isExpired(meta, now)) break;
+      evicted.push(meta.key);
+      this.forget(meta.key);
+    }
+    return evicted;
+  }
+}
+
+// ---- 翻译缓存服务 ----
+
+export interface CachedTextTranslation {
+  translatedText: string;
+  confidence: number;
+  detectedLanguage?: string;
+}
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+export interface CachedImageTranslation {
+  translatedText: string;
+  originalText: string;
+  translatedImage?: string;
+  textBlocks: Array<{
+    original: string;
+    translated: string;
+    position: { x: number; y: number; width: number; height: number };
+  }>;
+  imageSize?: ImageSize; // 缓存时的图片尺寸，复用到尺寸不同的相似图片时按比例换算文字位置
+}
+
+export interface CachedSpeechTranslation {
+  originalText: string;
+  translatedText: string;
+  translatedAudio: string;
+}
+
+// 本地 OCR 识别出的文字块及样式（不含画布）
+export interface CachedOcrLayout {
+  textBlocks: EnhancedTextBlock[];
+  detectedLanguage?: string;
+  imageSize?: ImageSize;
+}
+
+// 缓存管理页面展示的缓存项
+export interface CacheEntrySummary {
+  key: string;
+  bytes: number;
+  timestamp: number;
+  expiresAt: number;
+  lastAccessed: number;
+  accessCount: number; // 命中次数：内存命中（本次启动以来）加上从 IndexedDB 读取的次数
+  pinned: boolean;
+  inMemory: boolean;
+  persisted: boolean; // 已写入 IndexedDB
+  info?: CacheEntryInfo;
+}
+
+export interface CacheExportEntry<T> {
+  key: string;
+  data: T;
+  expiresAt: number;
+  pinned?: boolean;
+  info?: CacheEntryInfo;
+}
+
+// 文本缓存导出文件，团队成员导入后可直接复用已有译文
+export interface TextCacheExport {
+  format: typeof TEXT_CACHE_EXPORT_FORMAT;
+  version: 1;
+  exportedAt: string;
+  entries: CacheExportEntry<CachedTextTranslation>[];
+}
+
+export const TEXT_CACHE_EXPORT_FORMAT = 'translation-text-cache';
+
+// 相似图片匹配：maxDistance 为允许的最大汉明距离，0 表示只复用内容完全相同的图片
+export interface ImageMatchingConfig {
+  algorithm: PerceptualHashAlgorithm;
+  maxDistance: number;
+}
+
+// 文字较多的图片（菜单、文档截图）之间指纹往往只差几位，默认阈值从严
+export const DEFAULT_IMAGE_MATCHING: ImageMatchingConfig = {
+  algorithm: 'dhash',
+  maxDistance: 3
+};
+
+// 旧版文本缓存保存在 localStorage 的键，启动时迁移到 IndexedDB
+const LEGACY_TEXT_CACHE_KEY = 'translation_text_cache';
+
+// 图片文字块译文在文本缓存中使用的模型标识，不区分提供方
+const BLOCK_CACHE_MODEL = 'block';
+
+// 缓存项说明中原文和译文保留的长度
+const PREVIEW_LENGTH = 200;
+
+const previewText = (text: string): string =>
+  text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH)}…` : text;
+
+// OCR 识别结果的空白和换行不稳定，按规范化后的文字匹配
+const normalizeBlockText = (text: string): string => text.replace(/\s+/g, ' ').trim();
+
+const sameSize = (a: ImageSize, b: ImageSize) => a.width === b.width && a.height === b.height;
+
+// 缓存项来自尺寸不同的相似图片时，按比例换算文字块位置
+function scaleImageTranslation(cached: CachedImageTranslation, size: ImageSize): CachedImageTranslation {
+  if (!cached.imageSize || sameSize(cached.imageSize, size)) return cached;
+
+  const scaleX = size.width / cached.imageSize.width;
+  const scaleY = size.height / cached.imageSize.height;
+  return {
+    ...cached,
+    imageSize: { width: size.width, height: size.height },
+    textBlocks: cached.textBlocks.map(block => ({
+      ...block,
+      position: {
+        x: Math.round(block.position.x * scaleX),
+        y: Math.round(block.position.y * scaleY),
+        width: Math.round(block.position.width * scaleX),
+        height: Math.round(block.position.height * scaleY)
+      }
+    }))
+  };
+}
+
+function scaleOcrLayout(cached: CachedOcrLayout, size: ImageSize): CachedOcrLayout {
+  if (!cached.imageSize || sameSize(cached.imageSize, size)) return cached;
+
+  const scaleX = size.width / cached.imageSize.width;
+  const scaleY = size.height / cached.imageSize.height;
+  return {
+    ...cached,
+    imageSize: { width: size.width, height: size.height },
+    textBlocks: cached.textBlocks.map(block => ({
+      ...block,
+      bbox: {
+        x0: Math.round(block.bbox.x0 * scaleX),
+        y0: Math.round(block.bbox.y0 * scaleY),
+        x1: Math.round(block.bbox.x1 * scaleX),
+        y1: Math.round(block.bbox.y1 * scaleY)
+      },
+      style: { ...block.style, fontSize: block.style.fontSize * scaleY }
+    }))
+  };
+}
+
+// 内存缓存 + IndexedDB 两级缓存：读取先查内存，未命中再查 IndexedDB 并放回内存
+class TieredCache<T> {
+  readonly memory: MemoryCache<T>;
+  readonly persistent: IndexedDBCache<T>;
+
+  constructor(storeName: CacheStoreName, memoryConfig: Partial<CacheConfig>, persistentConfig: IndexedDBCacheConfig) {
+    this.memory = new MemoryCache<T>(memoryConfig);
+    this.persistent = new IndexedDBCache<T>(storeName, persistentConfig);
+  }
+
+  async get(key: string): Promise<T | null> {
+    const cached = this.memory.get(key);
+    if (cached) {
+      void this.persistent.touch(key);
+      return cached;
+    }
+
+    const stored = await this.persistent.get(key);
+    if (stored) {
+      const meta = this.persistent.getMeta(key);
+      this.memory.set(key, stored, undefined, { pinned: meta?.pinned, info: meta?.info });
     }
+    return stored;
   }
 
-  private clearOldestItems(count: number): void {
-    const cache = (this.memoryCache as any).cache as Map<string, CacheItem<T>>;
-    const items = Array.from(cache.entries())
-      .sort(([, a], [, b]) => a.timestamp - b.timestamp)
-      .slice(0, count);
+  // 返回写入 IndexedDB 的 Promise，一般不需要等待
+  set(key: string, data: T, options: CacheEntryOptions = {}, ttl?: number): Promise<void> {
+    this.memory.set(key, data, ttl, options);
+    return this.persistent.set(key, data, ttl, options);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.memory.delete(key);
+    await this.persistent.delete(key);
+  }
+
+  async setPinned(key: string, pinned: boolean): Promise<void> {
+    this.memory.setPinned(key, pinned);
+    await this.persistent.setPinned(key, pinned);
+  }
+
+  // 两级缓存合并后的缓存项，最近访问的在前
+  async list(): Promise<CacheEntrySummary[]> {
+    const memoryItems = new Map(this.memory.entries());
+    const summaries: CacheEntrySummary[] = (await this.persistent.list()).map(meta => {
+      const item = memoryItems.get(meta.key);
+      memoryItems.delete(meta.key);
+      return {
+        key: meta.key,
+        bytes: meta.bytes,
+        timestamp: meta.timestamp,
+        expiresAt: meta.expiresAt,
+        lastAccessed: Math.max(meta.lastAccessed, item?.lastAccessed || 0),
+        accessCount: (meta.accessCount || 0) + (item?.accessCount || 0),
+        pinned: !!meta.pinned,
+        inMemory: !!item,
+        persisted: true,
+        info: meta.info
+      };
+    });
+
+    // 只在内存中的项（不支持 IndexedDB 或写入失败）
+    memoryItems.forEach((item, key) => {
+      summaries.push({
+        key,
+        bytes: item.bytes || estimateBytes(item.data),
+        timestamp: item.timestamp,
+        expiresAt: item.expiresAt,
+        lastAccessed: item.lastAccessed,
+        accessCount: item.accessCount,
+        pinned: item.pinned,
+        inMemory: true,
+        persisted: false,
+        info: item.info
+      });
+    });
+
+    return summaries.sort((a, b) => b.lastAccessed - a.lastAccessed);
+  }
+
+  // 全部未过期的缓存项及数据（用于导出）
+  async exportEntries(): Promise<CacheExportEntry<T>[]> {
+    const memoryItems = new Map(this.memory.entries());
+    const entries: CacheExportEntry<T>[] = (await this.persistent.entries()).map(({ data, meta }) => {
+      memoryItems.delete(meta.key);
+      return { key: meta.key, data, expiresAt: meta.expiresAt, pinned: meta.pinned, info: meta.info };
+    });
+    memoryItems.forEach((item, key) => {
+      entries.push({ key, data: item.data, expiresAt: item.expiresAt, pinned: item.pinned, info: item.info });
+    });
+    return entries;
+  }
 
-    items.forEach(([key]) => this.memoryCache.delete(key));
-    this.saveToStorage();
+  // 按指纹查找相似项；指纹只记录在 IndexedDB 元数据中，不支持 IndexedDB 时只能精确匹配
+  async findSimilar(fingerprint: CacheFingerprint, maxDistance: number): Promise<T | null> {
+    const key = await this.persistent.findSimilar(fingerprint, maxDistance);
+    return key ? this.get(key) : null;
+  }
+
+  async clear(): Promise<void> {
+    this.memory.clear();
+    await this.persistent.clear();
+  }
+
+  getStats() {
+    return { ...this.memory.getStats(), persistent: this.persistent.getStats() };
   }
 
   destroy(): void {
-    this.memoryCache.destroy();
+    this.memory.destroy();
   }
 }
 
 // 翻译缓存服务
 export class TranslationCacheService {
-  private textCache: PersistentCache<{
-    translatedText: string;
-    confidence: number;
-    detectedLanguage?: string;
-  }>;
-  
-  private imageCache: MemoryCache<{
-    translatedText: string;
-    originalText: string;
-    translatedImage?: string;
-    textBlocks: Array<{
-      original: string;
-      translated: string;
-      position: { x: number; y: number; width: number; height: number };
-    }>;
-  }>;
-  
-  private speechCache: MemoryCache<{
-    originalText: string;
-    translatedText: string;
-    translatedAudio: string;
-  }>;
+  // 文本翻译结果较小，内存中保留常用部分，启动时从 IndexedDB 预热
+  private textCache: TieredCache<CachedTextTranslation>;
+  // 图片（含贴合译文的图片）、语音（含合成音频）和 OCR 布局体积大，内存只保留少量最近使用的项
+  private imageCache: TieredCache<CachedImageTranslation>;
+  private speechCache: TieredCache<CachedSpeechTranslation>;
+  private ocrCache: TieredCache<CachedOcrLayout>;
+  private textCacheReady: Promise<void>;
+  private imageMatching: ImageMatchingConfig = { ...DEFAULT_IMAGE_MATCHING };
+  // 同一张图片先查缓存、翻译后再写缓存，只解码一次
+  private lastFingerprint: {
+    image: string;
+    algorithm: PerceptualHashAlgorithm;
+    result: Promise<ImageFingerprint | null>;
+  } | null = null;
 
   constructor() {
-    // 文本翻译使用持久化缓存，保存时间较长
-    this.textCache = new PersistentCache('translation_text_cache', {
+    this.textCache = new TieredCache('text', {
       maxSize: 2000,
       defaultTTL: 7 * 24 * 60 * 60 * 1000, // 7天
       cleanupInterval: 2 * 60 * 60 * 1000 // 2小时
+    }, {
+      maxBytes: 20 * 1024 * 1024,
+      defaultTTL: 7 * 24 * 60 * 60 * 1000
     });
 
-    // 图片翻译使用内存缓存，数据量大但使用频率低
-    this.imageCache = new MemoryCache({
-      maxSize: 100,
+    this.imageCache = new TieredCache('image', {
+      maxSize: 20,
+      maxBytes: 30 * 1024 * 1024,
       defaultTTL: 24 * 60 * 60 * 1000, // 24小时
       cleanupInterval: 60 * 60 * 1000 // 1小时
+    }, {
+      maxBytes: 200 * 1024 * 1024,
+      defaultTTL: 30 * 24 * 60 * 60 * 1000 // 30天，同一张图片不重复付费
     });
 
-    // 语音翻译使用内存缓存，数据量大且时效性强
-    this.speechCache = new MemoryCache({
-      maxSize: 50,
+    this.speechCache = new TieredCache('speech', {
+      maxSize: 20,
+      maxBytes: 20 * 1024 * 1024,
       defaultTTL: 60 * 60 * 1000, // 1小时
       cleanupInterval: 30 * 60 * 1000 // 30分钟
+    }, {
+      maxBytes: 100 * 1024 * 1024,
+      defaultTTL: 7 * 24 * 60 * 60 * 1000 // 7天
+    });
+
+    this.ocrCache = new TieredCache('ocr', {
+      maxSize: 50,
+      maxBytes: 10 * 1024 * 1024,
+      defaultTTL: 24 * 60 * 60 * 1000,
+      cleanupInterval: 60 * 60 * 1000
+    }, {
+      maxBytes: 50 * 1024 * 1024,
+      defaultTTL: 30 * 24 * 60 * 60 * 1000
     });
+
+    this.loadLegacyTextCache();
+    this.textCacheReady = this.warmTextCache();
   }
 
-  // 文本翻译缓存
+  // 旧版 localStorage 文本缓存：先同步载入内存，保证启动后立即可用
+  private loadLegacyTextCache(): void {
+    try {
+      const stored = localStorage.getItem(LEGACY_TEXT_CACHE_KEY);
+      if (!stored) return;
+
+      const now = Date.now();
+      for (const [key, item] of Object.entries(JSON.parse(stored))) {
+        const cacheItem = item as CacheItem<CachedTextTranslation>;
+        if (now <= cacheItem.expiresAt) {
+          this.textCache.memory.set(key, cacheItem.data, cacheItem.expiresAt - now);
+        }
+      }
+    } catch (error) {
+      console.error('加载旧版文本缓存失败:', error);
+    }
+  }
+
+  // 把旧版 localStorage 文本缓存迁移到 IndexedDB，再从 IndexedDB 预热内存缓存
+  private async warmTextCache(): Promise<void> {
+    try {
+      const stored = localStorage.getItem(LEGACY_TEXT_CACHE_KEY);
+      if (stored) {
+        const now = Date.now();
+        const entries = Object.entries(JSON.parse(stored)) as Array<[string, CacheItem<CachedTextTranslation>]>;
+        await Promise.all(entries
+          .filter(([, item]) => now <= item.expiresAt)
+          .map(([key, item]) => this.textCache.persistent.set(key, item.data, item.expiresAt - now)));
+        // 不支持 IndexedDB 时保留旧数据，下次启动仍可载入
+        if (await openCacheDatabase()) {
+          localStorage.removeItem(LEGACY_TEXT_CACHE_KEY);
+          console.log(`已迁移 ${entries.length} 条文本缓存到 IndexedDB`);
+        }
+      }
+    } catch (error) {
+      console.error('迁移旧版文本缓存失败:', error);
+    }
+
+    const now = Date.now();
+    const entries = await this.textCache.persistent.entries(2000);
+    // 最近访问的最后写入，内存满时优先保留
+    entries.reverse().forEach(({ data, meta }) => {
+      if (!this.textCache.memory.has(meta.key)) {
+        this.textCache.memory.set(meta.key, data, meta.expiresAt - now, { pinned: meta.pinned, info: meta.info });
+      }
+    });
+  }
+
+  // 等待文本缓存迁移和预热完成
+  whenReady(): Promise<void> {
+    return this.textCacheReady;
+  }
+
+  // 文本翻译缓存：内存未命中（未预热或预热尚未完成）时再查 IndexedDB
   getCachedTextTranslation(
     text: string,
     sourceLang: string,
     targetLang: string,
     model: string = 'baidu'
-  ) {
+  ): Promise<CachedTextTranslation | null> {
     const key = CacheKeyGenerator.generateTextKey(text, sourceLang, targetLang, model);
     return this.textCache.get(key);
   }
@@ -385,48 +1085,80 @@ export class TranslationCacheService {
     text: string,
     sourceLang: string,
     targetLang: string,
-    result: {
-      translatedText: string;
-      confidence: number;
-      detectedLanguage?: string;
-    },
+    result: CachedTextTranslation,
     model: string = 'baidu'
   ) {
     const key = CacheKeyGenerator.generateTextKey(text, sourceLang, targetLang, model);
-    this.textCache.set(key, result);
+    void this.textCache.set(key, result, {
+      info: { model, sourceLang, targetLang, sourceText: previewText(text), translatedText: previewText(result.translatedText) }
+    });
+  }
+
+  // 图片文字块译文：新图片中出现已翻译过的文字时直接复用，不再请求翻译
+  async getCachedBlockTranslation(text: string, sourceLang: string, targetLang: string): Promise<CachedTextTranslation | null> {
+    const normalized = normalizeBlockText(text);
+    return normalized
+      ? this.getCachedTextTranslation(normalized, sourceLang, targetLang, BLOCK_CACHE_MODEL)
+      : null;
   }
 
-  // 图片翻译缓存
-  getCachedImageTranslation(
+  setCachedBlockTranslation(text: string, sourceLang: string, targetLang: string, result: CachedTextTranslation) {
+    const normalized = normalizeBlockText(text);
+    if (normalized && result.translatedText.trim()) {
+      this.setCachedTextTranslation(normalized, sourceLang, targetLang, result, BLOCK_CACHE_MODEL);
+    }
+  }
+
+  // 相似图片匹配的算法和汉明距离阈值；更换算法后按旧算法缓存的图片不再命中
+  setImageMatching(config: Partial<ImageMatchingConfig>): void {
+    this.imageMatching = { ...this.imageMatching, ...config };
+  }
+
+  getImageMatching(): ImageMatchingConfig {
+    return { ...this.imageMatching };
+  }
+
+  // 图片翻译缓存：相同图片按内容命中，重新压缩、缩放或再拍一次的同一张图片按感知哈希匹配
+  async getCachedImageTranslation(
     imageData: string,
     sourceLang: string,
     targetLang: string,
     paste: number = 0
-  ) {
-    const imageHash = CacheKeyGenerator.generateHashFromData(imageData);
-    const key = CacheKeyGenerator.generateImageKey(imageHash, sourceLang, targetLang, paste);
-    return this.imageCache.get(key);
+  ): Promise<CachedImageTranslation | null> {
+    const { key, fingerprint } = await this.resolveImageKey(
+      imageData,
+      `image:${sourceLang}:${targetLang}:${paste}`,
+      imageHash => CacheKeyGenerator.generateImageKey(imageHash, sourceLang, targetLang, paste)
+    );
+    const cached = await this.findImageEntry(this.imageCache, key, fingerprint);
+    return cached && fingerprint ? scaleImageTranslation(cached, fingerprint) : cached;
   }
 
-  setCachedImageTranslation(
+  async setCachedImageTranslation(
     imageData: string,
     sourceLang: string,
     targetLang: string,
-    result: {
-      translatedText: string;
-      originalText: string;
-      translatedImage?: string;
-      textBlocks: Array<{
-        original: string;
-        translated: string;
-        position: { x: number; y: number; width: number; height: number };
-      }>;
-    },
+    result: CachedImageTranslation,
     paste: number = 0
-  ) {
-    const imageHash = CacheKeyGenerator.generateHashFromData(imageData);
-    const key = CacheKeyGenerator.generateImageKey(imageHash, sourceLang, targetLang, paste);
-    this.imageCache.set(key, result);
+  ): Promise<void> {
+    const { key, fingerprint } = await this.resolveImageKey(
+      imageData,
+      `image:${sourceLang}:${targetLang}:${paste}`,
+      imageHash => CacheKeyGenerator.generateImageKey(imageHash, sourceLang, targetLang, paste)
+    );
+    void this.imageCache.set(
+      key,
+      fingerprint ? { ...result, imageSize: { width: fingerprint.width, height: fingerprint.height } } : result,
+      {
+        fingerprint: fingerprint ?? undefined,
+        info: {
+          sourceLang,
+          targetLang,
+          sourceText: previewText(result.originalText),
+          translatedText: previewText(result.translatedText)
+        }
+      }
+    );
   }
 
   // 语音翻译缓存
@@ -435,7 +1167,7 @@ export class TranslationCacheService {
     sourceLang: string,
     targetLang: string,
     format: string = 'wav'
-  ) {
+  ): Promise<CachedSpeechTranslation | null> {
     const audioHash = CacheKeyGenerator.generateHashFromData(audioData);
     const key = CacheKeyGenerator.generateSpeechKey(audioHash, sourceLang, targetLang, format);
     return this.speechCache.get(key);
@@ -445,16 +1177,181 @@ export class TranslationCacheService {
     audioData: string,
     sourceLang: string,
     targetLang: string,
-    result: {
-      originalText: string;
-      translatedText: string;
-      translatedAudio: string;
-    },
+    result: CachedSpeechTranslation,
     format: string = 'wav'
   ) {
     const audioHash = CacheKeyGenerator.generateHashFromData(audioData);
     const key = CacheKeyGenerator.generateSpeechKey(audioHash, sourceLang, targetLang, format);
-    this.speechCache.set(key, result);
+    void this.speechCache.set(key, result, {
+      info: {
+        sourceLang,
+        targetLang,
+        sourceText: previewText(result.originalText),
+        translatedText: previewText(result.translatedText)
+      }
+    });
+  }
+
+  // OCR 布局缓存：同一张（或相似的）图片不重复做本地识别
+  async getCachedOcrLayout(image: string | HTMLCanvasElement, sourceLang: string): Promise<CachedOcrLayout | null> {
+    const { key, fingerprint } = await this.resolveImageKey(
+      image,
+      `ocr:${sourceLang}`,
+      imageHash => CacheKeyGenerator.generateOcrKey(imageHash, sourceLang)
+    );
+    const cached = await this.findImageEntry(this.ocrCache, key, fingerprint);
+    return cached && fingerprint ? scaleOcrLayout(cached, fingerprint) : cached;
+  }
+
+  async setCachedOcrLayout(image: string | HTMLCanvasElement, sourceLang: string, layout: CachedOcrLayout): Promise<void> {
+    const { key, fingerprint } = await this.resolveImageKey(
+      image,
+      `ocr:${sourceLang}`,
+      imageHash => CacheKeyGenerator.generateOcrKey(imageHash, sourceLang)
+    );
+    void this.ocrCache.set(
+      key,
+      fingerprint ? { ...layout, imageSize: { width: fingerprint.width, height: fingerprint.height } } : layout,
+      {
+        fingerprint: fingerprint ?? undefined,
+        info: {
+          sourceLang: layout.detectedLanguage || sourceLang,
+          sourceText: previewText(layout.textBlocks.map(block => block.text).join(' '))
+        }
+      }
+    );
+  }
+
+  // 缓存键按图片内容的 MD5 生成，只用于精确匹配；感知哈希只用于相似图片查找
+  // 64 位指纹相同不代表是同一张图片，不能作为缓存键
+  private async resolveImageKey(
+    image: string | HTMLCanvasElement,
+    group: string,
+    buildKey: (imageHash: string) => string
+  ): Promise<{ key: string; fingerprint: CacheFingerprint | null }> {
+    const data = typeof image === 'string' ? image : image.toDataURL();
+    const key = buildKey(CacheKeyGenerator.generateHashFromData(data));
+    const fingerprint = await this.fingerprint(image);
+    if (!fingerprint) {
+      return { key, fingerprint: null };
+    }
+
+    return {
+      key,
+      fingerprint: {
+        group: `${fingerprint.algorithm}:${group}`,
+        hash: fingerprint.hash,
+        width: fingerprint.width,
+        height: fingerprint.height
+      }
+    };
+  }
+
+  // 无法解码图片（或不在浏览器中）时返回 null
+  private fingerprint(image: string | HTMLCanvasElement): Promise<ImageFingerprint | null> {
+    const { algorithm } = this.imageMatching;
+    if (typeof image !== 'string') {
+      try {
+        return Promise.resolve(computePerceptualHash(image, algorithm));
+      } catch (error) {
+        console.warn('计算图片指纹失败:', error);
+        return Promise.resolve(null);
+      }
+    }
+
+    if (this.lastFingerprint?.image === image && this.lastFingerprint.algorithm === algorithm) {
+      return this.lastFingerprint.result;
+    }
+    const result = fingerprintImage(image, algorithm).catch(error => {
+      console.warn('计算图片指纹失败:', error);
+      return null;
+    });
+    this.lastFingerprint = { image, algorithm, result };
+    return result;
+  }
+
+  // 先按内容精确查找，再在距离阈值内查找最相似的图片；阈值为 0 时只复用内容相同的图片
+  private async findImageEntry<T>(
+    cache: TieredCache<T>,
+    key: string,
+    fingerprint: CacheFingerprint | null
+  ): Promise<T | null> {
+    const cached = await cache.get(key);
+    if (cached) {
+      return cached;
+    }
+    if (!fingerprint || this.imageMatching.maxDistance <= 0) return null;
+    return cache.findSimilar(fingerprint, this.imageMatching.maxDistance);
+  }
+
+  // ---- 缓存管理 ----
+
+  private getCache(name: CacheStoreName): TieredCache<unknown> {
+    switch (name) {
+      case 'text':
+        return this.textCache;
+      case 'image':
+        return this.imageCache;
+      case 'speech':
+        return this.speechCache;
+      case 'ocr':
+        return this.ocrCache;
+    }
+  }
+
+  listCacheEntries(name: CacheStoreName): Promise<CacheEntrySummary[]> {
+    return this.getCache(name).list();
+  }
+
+  deleteCacheEntry(name: CacheStoreName, key: string): Promise<void> {
+    return this.getCache(name).delete(key);
+  }
+
+  // 固定的缓存项不过期，也不会因容量不足被淘汰
+  setCacheEntryPinned(name: CacheStoreName, key: string, pinned: boolean): Promise<void> {
+    return this.getCache(name).setPinned(key, pinned);
+  }
+
+  clearCache(name: CacheStoreName): Promise<void> {
+    return this.getCache(name).clear();
+  }
+
+  async exportTextCache(): Promise<TextCacheExport> {
+    await this.textCacheReady;
+    return {
+      format: TEXT_CACHE_EXPORT_FORMAT,
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      entries: await this.textCache.exportEntries()
+    };
+  }
+
+  // 导入文本缓存导出文件，跳过格式不对和已过期的项，返回导入的条数
+  async importTextCache(content: unknown): Promise<number> {
+    const file = content as Partial<TextCacheExport> | null;
+    if (!file || file.format !== TEXT_CACHE_EXPORT_FORMAT || !Array.isArray(file.entries)) {
+      throw new Error('不是有效的文本缓存导出文件');
+    }
+    await this.textCacheReady;
+
+    const now = Date.now();
+    const entries = file.entries.filter(entry =>
+      typeof entry?.key === 'string' && /^[0-9a-f]{32}$/.test(entry.key) &&
+      typeof entry.data?.translatedText === 'string' && typeof entry.data.confidence === 'number' &&
+      typeof entry.expiresAt === 'number' && (entry.pinned || entry.expiresAt > now)
+    );
+
+    await Promise.all(entries.map(entry => this.textCache.set(
+      entry.key,
+      {
+        translatedText: entry.data.translatedText,
+        confidence: entry.data.confidence,
+        detectedLanguage: entry.data.detectedLanguage
+      },
+      { pinned: entry.pinned || undefined, info: entry.info },
+      entry.pinned ? undefined : entry.expiresAt - now
+    )));
+    return entries.length;
   }
 
   // 获取缓存统计
@@ -462,15 +1359,19 @@ export class TranslationCacheService {
     return {
       text: this.textCache.getStats(),
       image: this.imageCache.getStats(),
-      speech: this.speechCache.getStats()
+      speech: this.speechCache.getStats(),
+      ocr: this.ocrCache.getStats()
     };
   }
 
-  // 清理所有缓存
-  clearAllCaches() {
-    this.textCache.clear();
-    this.imageCache.clear();
-    this.speechCache.clear();
+  // 清理所有缓存（包括 IndexedDB 中的数据）
+  async clearAllCaches(): Promise<void> {
+    await Promise.all([
+      this.textCache.clear(),
+      this.imageCache.clear(),
+      this.speechCache.clear(),
+      this.ocrCache.clear()
+    ]);
   }
 
   // 销毁缓存服务
@@ -478,8 +1379,9 @@ export class TranslationCacheService {
     this.textCache.destroy();
     this.imageCache.destroy();
     this.speechCache.destroy();
+    this.ocrCache.destroy();
   }
 }
 
 // 导出单例实例
-export const translationCacheService = new TranslationCacheService();
\ No newline at end of file
+export const translationCacheService = new TranslationCacheService();
@@ -0,0 +1,127 @@
+// 熔断器状态机：closed → open → half_open，半开状态只放行一次试探请求
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ApiError } from './apiUtils';
+import { CircuitBreaker } from './circuitBreaker';
+
+const retryable: ApiError = { code: 'NETWORK_ERROR', message: '网络连接失败', retryable: true };
+const fatal: ApiError = { code: 'INVALID_API_KEY', message: 'API密钥无效', retryable: false };
+
+describe('CircuitBreaker', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const trip = (breaker: CircuitBreaker, times = 3) => {
+    for (let i = 0; i < times; i++) {
+      expect(breaker.canRequest()).toBe(true);
+      breaker.recordFailure(retryable);
+    }
+  };
+
+  it('连续可重试失败达到阈值后熔断，冷却期内拒绝请求', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 3, cooldownMs: 1000 });
+
+    trip(breaker, 2);
+    expect(breaker.getSnapshot().state).toBe('closed');
+
+    trip(breaker, 1);
+    expect(breaker.getSnapshot()).toMatchObject({
+      state: 'open',
+      consecutiveFailures: 3,
+      openedAt: Date.now(),
+      lastError: '网络连接失败'
+    });
+    expect(breaker.canRequest()).toBe(false);
+
+    vi.advanceTimersByTime(999);
+    expect(breaker.canRequest()).toBe(false);
+  });
+
+  it('不可重试的失败不计入熔断，成功后计数清零', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2 });
+
+    breaker.recordFailure(fatal);
+    breaker.recordFailure(fatal);
+    expect(breaker.getSnapshot()).toMatchObject({ state: 'closed', consecutiveFailures: 0, lastError: 'API密钥无效' });
+
+    breaker.recordFailure(retryable);
+    breaker.recordSuccess();
+    breaker.recordFailure(retryable);
+    expect(breaker.getSnapshot()).toMatchObject({ state: 'closed', consecutiveFailures: 1 });
+  });
+
+  it('冷却结束后进入半开状态，只放行一次试探请求', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 3, cooldownMs: 1000 });
+    trip(breaker);
+
+    vi.advanceTimersByTime(1000);
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.getSnapshot().state).toBe('half_open');
+    expect(breaker.canRequest()).toBe(false);
+  });
+
+  it('试探成功后恢复闭合', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 3, cooldownMs: 1000 });
+    trip(breaker);
+    vi.advanceTimersByTime(1000);
+
+    expect(breaker.canRequest()).toBe(true);
+    breaker.recordSuccess();
+
+    expect(breaker.getSnapshot()).toEqual({ state: 'closed', consecutiveFailures: 0, openedAt: null, lastError: undefined });
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.canRequest()).toBe(true);
+  });
+
+  it('试探失败（包括不可重试的失败）立即重新熔断，并重新计算冷却时间', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 3, cooldownMs: 1000 });
+    trip(breaker);
+    vi.advanceTimersByTime(1000);
+
+    expect(breaker.canRequest()).toBe(true);
+    breaker.recordFailure(fatal);
+    expect(breaker.getSnapshot()).toMatchObject({ state: 'open', openedAt: Date.now() });
+
+    vi.advanceTimersByTime(500);
+    expect(breaker.canRequest()).toBe(false);
+    vi.advanceTimersByTime(500);
+    expect(breaker.canRequest()).toBe(true);
+  });
+
+  it('试探请求被取消时归还名额，下一个请求继续试探', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 3, cooldownMs: 1000 });
+    trip(breaker);
+    vi.advanceTimersByTime(1000);
+
+    expect(breaker.canRequest()).toBe(true);
+    breaker.releaseTrial();
+    expect(breaker.getSnapshot().state).toBe('half_open');
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.canRequest()).toBe(false);
+  });
+
+  it('闭合或熔断状态下 releaseTrial 不改变状态', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 1000 });
+    breaker.releaseTrial();
+    expect(breaker.getSnapshot().state).toBe('closed');
+
+    breaker.recordFailure(retryable);
+    breaker.releaseTrial();
+    expect(breaker.canRequest()).toBe(false);
+  });
+
+  it('reset 立即恢复闭合', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1 });
+    breaker.recordFailure(retryable);
+    expect(breaker.canRequest()).toBe(false);
+
+    breaker.reset();
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.getSnapshot().openedAt).toBeNull();
+  });
+});
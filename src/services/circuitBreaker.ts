@@ -0,0 +1,108 @@
+// 熔断器：连续多次可重试失败后暂停调用某个提供方，冷却后放行一次试探请求
+import type { ApiError } from './apiUtils';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+// 熔断配置
+export interface CircuitBreakerConfig {
+  failureThreshold: number; // 连续可重试失败次数达到该值时熔断
+  cooldownMs: number; // 熔断后多久进入半开状态（毫秒）
+}
+
+// 熔断器状态快照（供调试面板展示）
+export interface CircuitSnapshot {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: number | null;
+  lastError?: string;
+}
+
+const DEFAULT_CIRCUIT_CONFIG: CircuitBreakerConfig = {
+  failureThreshold: 3,
+  cooldownMs: 30 * 1000
+};
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private halfOpenTrialInFlight = false;
+  private lastError?: string;
+  private config: CircuitBreakerConfig;
+
+  constructor(config: Partial<CircuitBreakerConfig> = {}) {
+    this.config = { ...DEFAULT_CIRCUIT_CONFIG, ...config };
+  }
+
+  // 是否允许发起请求；冷却结束后只放行一次试探请求
+  canRequest(): boolean {
+    if (this.state === 'closed') {
+      return true;
+    }
+
+    if (this.state === 'open' && this.openedAt !== null && Date.now() - this.openedAt >= this.config.cooldownMs) {
+      this.state = 'half_open';
+      this.halfOpenTrialInFlight = false;
+    }
+
+    if (this.state === 'half_open' && !this.halfOpenTrialInFlight) {
+      this.halfOpenTrialInFlight = true;
+      return true;
+    }
+
+    return false;
+  }
+
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.halfOpenTrialInFlight = false;
+    this.lastError = undefined;
+  }
+
+  // 只有可重试的失败（网络、超时、限频、服务端错误）计入熔断
+  recordFailure(error: ApiError): void {
+    this.lastError = error.message;
+
+    if (this.state === 'half_open') {
+      this.trip();
+      return;
+    }
+
+    if (!error.retryable) {
+      return;
+    }
+
+    this.consecutiveFailures++;
+    if (this.consecutiveFailures >= this.config.failureThreshold) {
+      this.trip();
+    }
+  }
+
+  // 试探请求被取消时既不算成功也不算失败，归还名额让下一个请求继续试探
+  releaseTrial(): void {
+    if (this.state === 'half_open') {
+      this.halfOpenTrialInFlight = false;
+    }
+  }
+
+  reset(): void {
+    this.recordSuccess();
+  }
+
+  getSnapshot(): CircuitSnapshot {
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAt,
+      lastError: this.lastError
+    };
+  }
+
+  private trip(): void {
+    this.state = 'open';
+    this.openedAt = Date.now();
+    this.halfOpenTrialInFlight = false;
+  }
+}
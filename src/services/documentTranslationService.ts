@@ -0,0 +1,502 @@
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import { translationService } from './translationService';
+import { imageTranslationFilter, FilterOptions } from './imageTranslationFilter';
+import type { ProviderId } from './providerRegistry';
+import { ZipArchive } from '../utils/zipArchive';
+import { buildImagePdf, dataUrlToBytes, PdfPageImage, PdfTextLine } from '../utils/imagePdf';
+import { isCancelledError, throwIfAborted } from '../utils/abort';
+
+// 文档翻译：DOCX 逐段替换文字保留原有结构和格式；PDF 有文字层的页面按行覆盖译文并保留可选中的译文文字层，扫描页走图片翻译滤镜
+
+export type DocumentKind = 'docx' | 'pdf';
+
+export type DocumentPartStatus = 'pending' | 'processing' | 'done' | 'failed';
+
+// DOCX 按部件（正文、页眉、页脚、脚注）、PDF 按页报告进度
+export interface DocumentPartProgress {
+  label: string;
+  status: DocumentPartStatus;
+  progress: number; // 0-100
+  stage: string;
+}
+
+export interface DocumentTranslationOptions {
+  sourceLang: string;
+  targetLang: string;
+  model?: ProviderId;
+  onProgress?: (parts: DocumentPartProgress[]) => void;
+  signal?: AbortSignal;
+}
+
+export interface DocumentTranslationResult {
+  blob: Blob;
+  fileName: string;
+  kind: DocumentKind;
+  segmentCount: number;
+  scannedPages: number; // 没有文字层、按图片翻译的 PDF 页数
+  warnings: string[];
+}
+
+export const DOCUMENT_FILE_ACCEPT = '.docx,.pdf';
+
+const DOCX_MIME = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const WORD_NAMESPACE = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const XML_NAMESPACE = 'http://www.w3.org/XML/1998/namespace';
+
+// 每批发送的段落数和字符数上限，批次之间更新进度、响应取消
+const SEGMENTS_PER_BATCH = 40;
+const BATCH_CHARS = 1800;
+
+// PDF 渲染倍率：2 倍在清晰度和内存占用之间折中
+const PDF_RENDER_SCALE = 2;
+const PDF_JPEG_QUALITY = 0.9;
+
+// 扫描页使用与拍照翻译相同的默认滤镜参数
+const SCANNED_PAGE_FILTER: Omit<FilterOptions, 'sourceLang' | 'targetLang'> = {
+  qualityLevel: 'balanced',
+  preserveStyle: true,
+  overflowHandling: {
+    strategy: 'adaptive_scaling',
+    maxScaleDown: 0.6,
+    maxScaleUp: 1.2,
+    allowLineBreaking: true,
+    allowAbbreviation: false,
+    prioritizeReadability: true,
+    expandBounds: true,
+    maxExpansion: 20
+  },
+  renderingOptions: {
+    preserveOriginalStyle: true,
+    adaptiveScaling: true,
+    qualityLevel: 'high',
+    antialiasing: true,
+    subpixelRendering: true
+  },
+  enablePreview: false
+};
+
+const HAS_LETTER = /\p{L}/u;
+
+const escapeXml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+const unescapeXml = (text: string) =>
+  text.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&#39;/g, "'").replace(/&amp;/g, '&');
+
+
+export const detectDocumentKind = (fileName: string): DocumentKind | null => {
+  const extension = fileName.toLowerCase().split('.').pop();
+  return extension === 'docx' || extension === 'pdf' ? extension : null;
+};
+
+// report.docx → report.zh.docx
+export const translatedDocumentName = (fileName: string, targetLang: string) => {
+  const dot = fileName.lastIndexOf('.');
+  return dot > 0 ? `${fileName.slice(0, dot)}.${targetLang}${fileName.slice(dot)}` : `${fileName}.${targetLang}`;
+};
+
+// DOCX 中一个段落及其文字节点（每个 w:t 对应一个格式相同的文字片段）
+interface DocxParagraph {
+  texts: Element[];
+  source: string; // 发送给提供方的文本，多个片段时用 <rN> 标签标明边界
+}
+
+// PDF 页面上的一行文字（画布坐标）
+interface PdfLine {
+  text: string;
+  x: number;
+  baseline: number;
+  width: number;
+  fontSize: number;
+}
+
+// 单次翻译的部件进度；每次调用各用一份，同时翻译多个文档时互不覆盖
+class PartProgress {
+  private parts: DocumentPartProgress[] = [];
+
+  constructor(private onProgress?: (parts: DocumentPartProgress[]) => void) {}
+
+  start(labels: string[]) {
+    this.parts = labels.map(label => ({ label, status: 'pending', progress: 0, stage: '等待中' }));
+    this.onProgress?.([...this.parts]);
+  }
+
+  update(index: number, update: Partial<DocumentPartProgress>) {
+    this.parts[index] = { ...this.parts[index], ...update };
+    this.onProgress?.([...this.parts]);
+  }
+
+  label(index: number): string {
+    return this.parts[index].label;
+  }
+}
+
+export class DocumentTranslationService {
+  async translateFile(file: File, options: DocumentTranslationOptions): Promise<DocumentTranslationResult> {
+    const kind = detectDocumentKind(file.name);
+    if (!kind) {
+      throw new Error('只支持 DOCX 和 PDF 文件');
+    }
+
+    const progress = new PartProgress(options.onProgress);
+    const data = await file.arrayBuffer();
+    const result = kind === 'docx'
+      ? await this.translateDocx(data, options, progress)
+      : await this.translatePdf(data, options, progress);
+
+    return { ...result, kind, fileName: translatedDocumentName(file.name, options.targetLang) };
+  }
+
+  // 分批翻译，返回与输入一一对应的译文和占位符警告
+  private async translateSegments(
+    segments: string[],
+    options: DocumentTranslationOptions,
+    onBatch: (completed: number) => void
+  ): Promise<{ translations: string[]; warnings: string[] }> {
+    const translations: string[] = [];
+    const warnings: string[] = [];
+
+    let start = 0;
+    while (start < segments.length) {
+      throwIfAborted(options.signal);
+
+      let end = start;
+      let chars = 0;
+      while (end < segments.length && end - start < SEGMENTS_PER_BATCH && (end === start || chars + segments[end].length <= BATCH_CHARS)) {
+        chars += segments[end].length;
+        end++;
+      }
+
+      // 段内标签和实体按 HTML 保护，还原后再拆回各个文字片段
+      const responses = await translationService.translateBatch(
+        segments.slice(start, end),
+        options.sourceLang,
+        options.targetLang,
+        options.model,
+        { format: 'html', priority: 'interactive', signal: options.signal }
+      );
+      responses.forEach(response => {
+        translations.push(response.translatedText);
+        warnings.push(...(response.warnings || []));
+      });
+      start = end;
+      onBatch(start);
+    }
+
+    return { translations, warnings };
+  }
+
+  private async translateDocx(
+    data: ArrayBuffer,
+    options: DocumentTranslationOptions,
+    progress: PartProgress
+  ): Promise<Omit<DocumentTranslationResult, 'kind' | 'fileName'>> {
+    const archive = await ZipArchive.load(data);
+    if (!archive.has('word/document.xml')) {
+      throw new Error('不是有效的 DOCX 文件');
+    }
+
+    const partNames = [
+      'word/document.xml',
+      ...archive.getNames().filter(name => /^word\/header\d*\.xml$/.test(name)).sort(),
+      ...archive.getNames().filter(name => /^word\/footer\d*\.xml$/.test(name)).sort(),
+      ...['word/footnotes.xml', 'word/endnotes.xml'].filter(name => archive.has(name))
+    ];
+    const labelOf = (name: string) => {
+      const number = name.match(/(\d+)\.xml$/)?.[1];
+      if (name.includes('header')) return `页眉${number ? ` ${number}` : ''}`;
+      if (name.includes('footer')) return `页脚${number ? ` ${number}` : ''}`;
+      if (name.includes('footnotes')) return '脚注';
+      if (name.includes('endnotes')) return '尾注';
+      return '正文';
+    };
+
+    progress.start(partNames.map(labelOf));
+
+    let segmentCount = 0;
+    const warnings: string[] = [];
+
+    for (let index = 0; index < partNames.length; index++) {
+      throwIfAborted(options.signal);
+      progress.update(index, { status: 'processing', stage: '读取段落...' });
+
+      try {
+        const xml = await archive.readText(partNames[index]);
+        const doc = new DOMParser().parseFromString(xml, 'application/xml');
+        if (doc.getElementsByTagName('parsererror').length > 0) {
+          throw new Error(`${partNames[index]} 解析失败`);
+        }
+
+        const paragraphs = this.collectDocxParagraphs(doc);
+        if (paragraphs.length === 0) {
+          progress.update(index, { status: 'done', progress: 100, stage: '没有需要翻译的文字' });
+          continue;
+        }
+
+        const { translations, warnings: partWarnings } = await this.translateSegments(
+          paragraphs.map(paragraph => paragraph.source),
+          options,
+          completed => progress.update(index, {
+            progress: Math.round((completed / paragraphs.length) * 100),
+            stage: `已翻译 ${completed}/${paragraphs.length} 段`
+          })
+        );
+
+        paragraphs.forEach((paragraph, paragraphIndex) => this.applyDocxTranslation(paragraph, translations[paragraphIndex]));
+
+        // XMLSerializer 不输出 XML 声明，沿用原文件的声明
+        const declaration = xml.match(/^\s*<\?xml[^>]*\?>/)?.[0] ?? '';
+        const serialized = new XMLSerializer().serializeToString(doc);
+        await archive.writeText(partNames[index], serialized.startsWith('<?xml') ? serialized : `${declaration.trim()}\n${serialized}`.trimStart());
+
+        segmentCount += paragraphs.length;
+        warnings.push(...partWarnings.map(warning => `${progress.label(index)}: ${warning}`));
+        progress.update(index, { status: 'done', progress: 100, stage: `已翻译 ${paragraphs.length} 段` });
+      } catch (error) {
+        if (!isCancelledError(error)) {
+          progress.update(index, { status: 'failed', stage: (error as { message?: string })?.message || '翻译失败' });
+        }
+        throw error;
+      }
+    }
+
+    return { blob: archive.toBlob(DOCX_MIME), segmentCount, scannedPages: 0, warnings };
+  }
+
+  // 收集含文字的段落；文本框里的段落嵌套在外层段落中，只取直属于当前段落的文字节点
+  private collectDocxParagraphs(doc: Document): DocxParagraph[] {
+    const paragraphs: DocxParagraph[] = [];
+
+    for (const paragraph of Array.from(doc.getElementsByTagNameNS(WORD_NAMESPACE, 'p'))) {
+      const texts = Array.from(paragraph.getElementsByTagNameNS(WORD_NAMESPACE, 't')).filter(text => {
+        let parent = text.parentElement;
+        while (parent && !(parent.namespaceURI === WORD_NAMESPACE && parent.localName === 'p')) {
+          parent = parent.parentElement;
+        }
+        return parent === paragraph;
+      });
+
+      const plain = texts.map(text => text.textContent || '').join('');
+      if (!HAS_LETTER.test(plain)) continue;
+
+      const source = texts.length === 1
+        ? escapeXml(plain)
+        : texts.map((text, index) => `<r${index}>${escapeXml(text.textContent || '')}</r${index}>`).join('');
+      paragraphs.push({ texts, source });
+    }
+
+    return paragraphs;
+  }
+
+  // 各片段标签齐全时按片段写回，保留逐段格式；否则整段译文放入第一个片段，其余清空
+  private applyDocxTranslation(paragraph: DocxParagraph, translated: string) {
+    const { texts } = paragraph;
+    let values: string[] | null = null;
+
+    if (texts.length === 1) {
+      values = [unescapeXml(translated)];
+    } else {
+      const found = new Map<number, string>();
+      for (const match of translated.matchAll(/<r(\d+)>([\s\S]*?)<\/r\1>/g)) {
+        found.set(Number(match[1]), unescapeXml(match[2]));
+      }
+      if (found.size === texts.length && texts.every((_, index) => found.has(index))) {
+        values = texts.map((_, index) => found.get(index)!);
+      } else {
+        values = [unescapeXml(translated.replace(/<\/?r\d+>/g, '')), ...texts.slice(1).map(() => '')];
+      }
+    }
+
+    texts.forEach((text, index) => {
+      text.textContent = values![index];
+      // 首尾空格需要 xml:space="preserve" 才不会被 Word 忽略
+      if (/^\s|\s$/.test(values![index])) {
+        text.setAttributeNS(XML_NAMESPACE, 'xml:space', 'preserve');
+      }
+    });
+  }
+
+  private async translatePdf(
+    data: ArrayBuffer,
+    options: DocumentTranslationOptions,
+    progress: PartProgress
+  ): Promise<Omit<DocumentTranslationResult, 'kind' | 'fileName'>> {
+    // pdf.js 体积较大，只在翻译 PDF 时加载
+    const pdfjs = await import('pdfjs-dist');
+    pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+    const pdf = await pdfjs.getDocument({ data }).promise;
+    progress.start(Array.from({ length: pdf.numPages }, (_, index) => `第 ${index + 1} 页`));
+
+    const pages: PdfPageImage[] = [];
+    const warnings: string[] = [];
+    let segmentCount = 0;
+    let scannedPages = 0;
+
+    try {
+      for (let index = 0; index < pdf.numPages; index++) {
+        throwIfAborted(options.signal);
+        progress.update(index, { status: 'processing', stage: '渲染页面...' });
+
+        try {
+          const page = await pdf.getPage(index + 1);
+          const viewport = page.getViewport({ scale: PDF_RENDER_SCALE });
+          let canvas = document.createElement('canvas');
+          canvas.width = Math.ceil(viewport.width);
+          canvas.height = Math.ceil(viewport.height);
+          const context = canvas.getContext('2d')!;
+          await page.render({ canvasContext: context, viewport }).promise;
+
+          progress.update(index, { progress: 20, stage: '提取文字层...' });
+          const content = await page.getTextContent();
+          const lines = this.groupPdfLines(
+            content.items.filter((item): item is TextItem => 'str' in item && item.str.trim().length > 0),
+            viewport.transform,
+            pdfjs.Util.transform
+          );
+
+          // 有文字层的页面在输出中保留译文文字层，扫描页只有图像
+          let textLines: PdfTextLine[] = [];
+          if (lines.length === 0) {
+            // 没有文字层的扫描页按图片处理
+            scannedPages++;
+            const result = await imageTranslationFilter.applyFilter(canvas.toDataURL('image/png'), {
+              ...SCANNED_PAGE_FILTER,
+              sourceLang: options.sourceLang,
+              targetLang: options.targetLang,
+              signal: options.signal,
+              progressCallback: (percent, stage) => progress.update(index, {
+                progress: 20 + Math.round(percent * 0.75),
+                stage: `扫描页 · ${stage}`
+              })
+            });
+            if (result.success) {
+              canvas = result.translatedCanvas;
+            } else {
+              warnings.push(`第 ${index + 1} 页: 扫描页未识别到文字，保留原页面`);
+            }
+          } else {
+            const { translations, warnings: pageWarnings } = await this.translateSegments(
+              lines.map(line => escapeXml(line.text)),
+              options,
+              completed => progress.update(index, {
+                progress: 20 + Math.round((completed / lines.length) * 70),
+                stage: `已翻译 ${completed}/${lines.length} 行`
+              })
+            );
+            progress.update(index, { progress: 92, stage: '绘制译文...' });
+            textLines = lines.map((line, lineIndex) => ({ ...line, text: unescapeXml(translations[lineIndex]) }));
+            textLines.forEach((line, lineIndex) => this.paintPdfLine(context, lines[lineIndex], line.text));
+            segmentCount += lines.length;
+            warnings.push(...pageWarnings.map(warning => `第 ${index + 1} 页: ${warning}`));
+          }
+
+          // 输出 PDF 的页面尺寸沿用原文档
+          const pageSize = page.getViewport({ scale: 1 });
+          pages.push({
+            jpeg: dataUrlToBytes(canvas.toDataURL('image/jpeg', PDF_JPEG_QUALITY)),
+            pixelWidth: canvas.width,
+            pixelHeight: canvas.height,
+            width: pageSize.width,
+            height: pageSize.height,
+            textLines
+          });
+          page.cleanup();
+          progress.update(index, { status: 'done', progress: 100, stage: lines.length > 0 ? `已翻译 ${lines.length} 行` : '扫描页已翻译' });
+        } catch (error) {
+          if (!isCancelledError(error)) {
+            progress.update(index, { status: 'failed', stage: (error as { message?: string })?.message || '翻译失败' });
+          }
+          throw error;
+        }
+      }
+    } finally {
+      await pdf.destroy();
+    }
+
+    // 译文绘制在页面图像上，另有不可见的文字层供选中和搜索
+    return { blob: buildImagePdf(pages), segmentCount, scannedPages, warnings };
+  }
+
+  // 文字项按基线合并成行；同一基线上间隔过大的视为不同栏，不合并
+  private groupPdfLines(
+    items: TextItem[],
+    viewportTransform: number[],
+    transform: (a: number[], b: number[]) => number[]
+  ): PdfLine[] {
+    const positioned = items
+      .map(item => {
+        const matrix = transform(viewportTransform, item.transform);
+        return {
+          text: item.str,
+          x: matrix[4],
+          baseline: matrix[5],
+          width: item.width * PDF_RENDER_SCALE,
+          fontSize: Math.hypot(matrix[2], matrix[3]),
+          rotated: Math.abs(matrix[1]) > 0.01 || Math.abs(matrix[2]) > 0.01
+        };
+      })
+      // 旋转的文字不覆盖，保留原样
+      .filter(item => !item.rotated && item.fontSize > 0)
+      .sort((a, b) => a.baseline - b.baseline || a.x - b.x);
+
+    const lines: PdfLine[] = [];
+    for (const item of positioned) {
+      const line = lines.find(candidate =>
+        Math.abs(candidate.baseline - item.baseline) < candidate.fontSize * 0.4 &&
+        item.x - (candidate.x + candidate.width) < candidate.fontSize * 1.5 &&
+        item.x >= candidate.x
+      );
+      if (!line) {
+        lines.push({ text: item.text, x: item.x, baseline: item.baseline, width: item.width, fontSize: item.fontSize });
+        continue;
+      }
+
+      const gap = item.x - (line.x + line.width);
+      const needsSpace = gap > line.fontSize * 0.15 && !/\s$/.test(line.text) && !/^\s/.test(item.text);
+      line.text += (needsSpace ? ' ' : '') + item.text;
+      line.width = Math.max(line.width, item.x + item.width - line.x);
+      line.fontSize = Math.max(line.fontSize, item.fontSize);
+    }
+
+    return lines.filter(line => HAS_LETTER.test(line.text));
+  }
+
+  // 用行框周围的底色盖住原文，再以框内与底色反差最大的颜色绘制译文，字号按宽度缩小
+  private paintPdfLine(context: CanvasRenderingContext2D, line: PdfLine, text: string) {
+    const top = Math.floor(line.baseline - line.fontSize * 0.9);
+    const height = Math.ceil(line.fontSize * 1.2);
+    const left = Math.floor(line.x) - 1;
+    const width = Math.ceil(line.width) + 2;
+    if (width <= 0 || height <= 0) return;
+
+    const pixels = context.getImageData(left, top, width, height).data;
+    const background = [pixels[0], pixels[1], pixels[2]];
+    let foreground = [0, 0, 0];
+    let maxDistance = -1;
+    for (let i = 0; i < pixels.length; i += 4) {
+      const distance = Math.abs(pixels[i] - background[0]) + Math.abs(pixels[i + 1] - background[1]) + Math.abs(pixels[i + 2] - background[2]);
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        foreground = [pixels[i], pixels[i + 1], pixels[i + 2]];
+      }
+    }
+
+    context.fillStyle = `rgb(${background.join(',')})`;
+    context.fillRect(left, top, width, height);
+
+    let fontSize = line.fontSize;
+    context.font = `${fontSize}px sans-serif`;
+    const measured = context.measureText(text).width;
+    if (measured > width) {
+      fontSize = Math.max(fontSize * (width / measured), line.fontSize * 0.5);
+      context.font = `${fontSize}px sans-serif`;
+    }
+    context.fillStyle = `rgb(${foreground.join(',')})`;
+    context.textBaseline = 'alphabetic';
+    // 缩到最小字号仍放不下时横向压缩
+    context.fillText(text, line.x, line.baseline, width);
+  }
+}
+
+// 导出单例实例
+export const documentTranslationService = new DocumentTranslationService();
@@ -1,5 +1,46 @@
 import Tesseract from 'tesseract.js';
-import { baiduTranslationService } from './baiduTranslationService';
+import { translationService, type TranslationResponse } from './translationService';
+import { translationCacheService } from './cacheService';
+import { detectLanguageCandidates } from '../utils/languageDetection';
+import { isCancelledError, raceWithAbort, throwIfAborted } from '../utils/abort';
+
+// 语言代码到 Tesseract 语言包的映射
+const TESSERACT_LANGUAGES: Record<string, string> = {
+  zh: 'chi_sim',
+  en: 'eng',
+  ja: 'jpn',
+  ko: 'kor',
+  fr: 'fra',
+  de: 'deu',
+  es: 'spa',
+  it: 'ita',
+  pt: 'por',
+  ru: 'rus',
+  uk: 'ukr',
+  ar: 'ara',
+  fa: 'fas',
+  hi: 'hin',
+  th: 'tha',
+  vi: 'vie',
+  tr: 'tur',
+  pl: 'pol',
+  nl: 'nld',
+  sv: 'swe',
+  da: 'dan',
+  no: 'nor',
+  fi: 'fin',
+  cs: 'ces',
+  hu: 'hun',
+  he: 'heb',
+  id: 'ind',
+  ms: 'msa'
+};
+
+// 自动检测时首轮识别使用的语言包
+const AUTO_TESSERACT_LANGUAGES = ['eng', 'chi_sim', 'jpn', 'kor'];
+
+// 本地检测分数达到该值的语言才参与二次识别
+const OCR_DETECTION_MIN_SCORE = 0.2;
 
 // Enhanced text block interface with style information
 export interface EnhancedTextBlock {
@@ -28,6 +69,7 @@ export interface EnhancedTextBlock {
 
 export interface ImageAnalysisResult {
   textBlocks: EnhancedTextBlock[];
+  detectedLanguage?: string; // 源语言为 auto 时根据识别文字检测出的语言
   imageData: {
     width: number;
     height: number;
@@ -48,9 +90,10 @@ export class EnhancedOcrService {
   /**
    * Analyze image and extract text with style information
    */
-  async analyzeImage(imageUrl: string, sourceLang: string = 'auto'): Promise<ImageAnalysisResult> {
+  async analyzeImage(imageUrl: string, sourceLang: string = 'auto', signal?: AbortSignal): Promise<ImageAnalysisResult> {
     // Load image
     const img = await this.loadImage(imageUrl);
+    throwIfAborted(signal);
     
     // Setup canvas
     this.canvas.width = img.width;
@@ -59,15 +102,37 @@ export class EnhancedOcrService {
     
     // Get image data for analysis
     const imageData = this.ctx.getImageData(0, 0, img.width, img.height);
+
+    // 同一张或相似的图片（按画面的感知哈希，不按 URL）直接复用缓存的识别布局
+    const cached = await translationCacheService.getCachedOcrLayout(this.canvas, sourceLang);
+    throwIfAborted(signal);
+    if (cached) {
+      return {
+        textBlocks: structuredClone(cached.textBlocks),
+        detectedLanguage: cached.detectedLanguage,
+        imageData: {
+          width: img.width,
+          height: img.height,
+          canvas: this.canvas,
+          context: this.ctx
+        }
+      };
+    }
     
     // Perform OCR with Tesseract
-    const ocrResult = await this.performOCR(imageUrl, sourceLang);
+    const { data: ocrResult, detectedLanguage } = await this.performOCR(imageUrl, sourceLang, signal);
+    throwIfAborted(signal);
     
     // Enhance OCR results with style detection
     const enhancedBlocks = await this.enhanceWithStyleDetection(ocrResult, imageData, img);
+    await translationCacheService.setCachedOcrLayout(this.canvas, sourceLang, {
+      textBlocks: structuredClone(enhancedBlocks),
+      detectedLanguage
+    });
     
     return {
       textBlocks: enhancedBlocks,
+      detectedLanguage,
       imageData: {
         width: img.width,
         height: img.height,
@@ -91,30 +156,57 @@ export class EnhancedOcrService {
   }
 
   /**
-   * Perform OCR using Tesseract.js
+   * Perform OCR using Tesseract.js.
+   * For 'auto', run a first pass with common language packs, detect the language
+   * of the recognized text locally, and re-run with the detected packs when they
+   * were not part of the first pass.
    */
-  private async performOCR(imageUrl: string, sourceLang: string) {
-    const langMap: Record<string, string> = {
-      'auto': 'eng+chi_sim+jpn+kor',
-      'zh': 'chi_sim',
-      'en': 'eng',
-      'ja': 'jpn',
-      'ko': 'kor',
-      'fr': 'fra',
-      'de': 'deu',
-      'es': 'spa',
-      'it': 'ita',
-      'pt': 'por',
-      'ru': 'rus'
-    };
+  private async performOCR(imageUrl: string, sourceLang: string, signal?: AbortSignal): Promise<{
+    data: Tesseract.Page;
+    detectedLanguage?: string;
+  }> {
+    if (sourceLang !== 'auto') {
+      const tesseractLang = TESSERACT_LANGUAGES[sourceLang] || 'eng+chi_sim';
+      return { data: await this.recognize(imageUrl, tesseractLang, signal) };
+    }
 
-    const tesseractLang = langMap[sourceLang] || 'eng+chi_sim';
-    
-    const { data } = await Tesseract.recognize(imageUrl, tesseractLang, {
+    const firstPass = await this.recognize(imageUrl, AUTO_TESSERACT_LANGUAGES.join('+'), signal);
+    const candidates = detectLanguageCandidates(firstPass.text || '', 3);
+    const detectedLanguage = candidates[0]?.code;
+
+    const detectedPacks = Array.from(new Set(
+      candidates
+        .filter(candidate => candidate.score >= OCR_DETECTION_MIN_SCORE)
+        .map(candidate => TESSERACT_LANGUAGES[candidate.code])
+        .filter(Boolean)
+    ));
+    console.log('OCR 语言检测:', candidates);
+
+    if (!detectedPacks.some(pack => !AUTO_TESSERACT_LANGUAGES.includes(pack))) {
+      return { data: firstPass, detectedLanguage };
+    }
+
+    const secondPassLang = Array.from(new Set([...detectedPacks, 'eng'])).join('+');
+    console.log('OCR 使用检测到的语言包重新识别:', secondPassLang);
+    return { data: await this.recognize(imageUrl, secondPassLang, signal), detectedLanguage };
+  }
+
+  /**
+   * Recognize with a dedicated worker so that cancelling can terminate it mid-job
+   */
+  private async recognize(imageUrl: string, tesseractLang: string, signal?: AbortSignal): Promise<Tesseract.Page> {
+    throwIfAborted(signal);
+    const worker = await Tesseract.createWorker(tesseractLang, undefined, {
       logger: m => console.log('OCR Progress:', m)
     });
 
-    return data;
+    try {
+      const { data } = await raceWithAbort(worker.recognize(imageUrl), signal);
+      return data;
+    } finally {
+      // 取消时终止 worker，正在进行的识别随之停止
+      await worker.terminate();
+    }
   }
 
   /**
@@ -381,39 +473,112 @@ export class EnhancedOcrService {
   }
 
   /**
-   * Translate text blocks using Baidu API
+   * Translate text blocks in one batched request
    */
   async translateTextBlocks(
     blocks: EnhancedTextBlock[],
     sourceLang: string,
     targetLang: string
   ): Promise<EnhancedTextBlock[]> {
-    const translatedBlocks = [...blocks];
-    
-    for (let i = 0; i < translatedBlocks.length; i++) {
-      const block = translatedBlocks[i];
-      
+    if (blocks.length === 0) return [];
+
+    // 之前翻译过的文字直接复用，只翻译剩下的文本块
+    const cached = await Promise.all(
+      blocks.map(block => translationCacheService.getCachedBlockTranslation(block.text, sourceLang, targetLang))
+    );
+    const pending = blocks.flatMap((_, index) => cached[index] ? [] : [index]);
+    const translated = new Map<number, string>();
+
+    if (pending.length > 0) {
       try {
-        const result = await baiduTranslationService.translateText({
-          text: block.text,
+        // 文本块翻译在后台排队，让用户发起的文本翻译先走
+        const results = await translationService.translateBatch(
+          pending.map(index => blocks[index].text),
           sourceLang,
-          targetLang
+          targetLang,
+          undefined,
+          { priority: 'background', usageType: 'image' }
+        );
+
+        results.forEach((response, i) => {
+          translated.set(pending[i], response.translatedText);
+          this.cacheBlockTranslation(blocks[pending[i]], response, sourceLang, targetLang);
         });
-        
-        translatedBlocks[i] = {
-          ...block,
-          translatedText: result.translatedText
-        };
       } catch (error) {
-        console.error(`Translation failed for block ${block.id}:`, error);
-        translatedBlocks[i] = {
-          ...block,
-          translatedText: block.text // Fallback to original text
-        };
+        console.error('Batch translation failed for text blocks:', error);
       }
     }
-    
-    return translatedBlocks;
+
+    return blocks.map((block, i) => ({
+      ...block,
+      translatedText: cached[i]?.translatedText || translated.get(i) || block.text // Fallback to original text
+    }));
+  }
+
+  /**
+   * Translate text blocks in small batches, yielding each block as soon as its batch finishes
+   */
+  async *translateTextBlocksStream(
+    blocks: EnhancedTextBlock[],
+    sourceLang: string,
+    targetLang: string,
+    signal?: AbortSignal
+  ): AsyncGenerator<{ index: number; block: EnhancedTextBlock }> {
+    const done = new Set<number>();
+
+    // 之前翻译过的文字先给出，剩下的再分批翻译
+    const pending: number[] = [];
+    for (let index = 0; index < blocks.length; index++) {
+      const cached = await translationCacheService.getCachedBlockTranslation(blocks[index].text, sourceLang, targetLang);
+      if (cached) {
+        done.add(index);
+        yield { index, block: { ...blocks[index], translatedText: cached.translatedText } };
+      } else {
+        pending.push(index);
+      }
+    }
+    if (pending.length === 0) return;
+
+    try {
+      for await (const { index: pendingIndex, response } of translationService.translateBatchStream(
+        pending.map(index => blocks[index].text),
+        sourceLang,
+        targetLang,
+        undefined,
+        { priority: 'background', signal, usageType: 'image' }
+      )) {
+        const index = pending[pendingIndex];
+        done.add(index);
+        this.cacheBlockTranslation(blocks[index], response, sourceLang, targetLang);
+        yield { index, block: { ...blocks[index], translatedText: response.translatedText || blocks[index].text } };
+      }
+    } catch (error) {
+      if (isCancelledError(error)) {
+        throw error;
+      }
+      console.error('Streaming translation failed for text blocks:', error);
+      // 剩余的文本块保留原文
+      for (let index = 0; index < blocks.length; index++) {
+        if (!done.has(index)) {
+          yield { index, block: { ...blocks[index], translatedText: blocks[index].text } };
+        }
+      }
+    }
+  }
+
+  // 只缓存在线翻译的完整结果，离线或近似译文不作为文字块译文复用
+  private cacheBlockTranslation(
+    block: EnhancedTextBlock,
+    response: TranslationResponse,
+    sourceLang: string,
+    targetLang: string
+  ): void {
+    if (response.offline || response.approximate || !response.translatedText) return;
+    translationCacheService.setCachedBlockTranslation(block.text, sourceLang, targetLang, {
+      translatedText: response.translatedText,
+      confidence: response.confidence,
+      detectedLanguage: response.detectedLanguage
+    });
   }
 }
 
@@ -0,0 +1,121 @@
+// 术语表：术语替换为 {{Gn}} 占位符，译文回来后替换为指定译文
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GlossaryService, type Glossary, type GlossaryTerm } from './glossaryService';
+
+const term = (sourceTerm: string, targetTerm: string, options: Partial<GlossaryTerm> = {}): GlossaryTerm => ({
+  id: sourceTerm,
+  sourceTerm,
+  targetTerm,
+  caseSensitive: false,
+  doNotTranslate: false,
+  ...options
+});
+
+const glossary = (terms: GlossaryTerm[], options: Partial<Glossary> = {}): Glossary => ({
+  id: 'g1',
+  name: '产品术语',
+  sourceLang: 'en',
+  targetLang: 'zh',
+  enabled: true,
+  terms,
+  ...options
+});
+
+describe('GlossaryService', () => {
+  let service: GlossaryService;
+  let warn: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    service = new GlossaryService();
+    warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('术语替换为占位符，还原为指定译文；不翻译的术语保留原文的大小写', () => {
+    service.setGlossaries([glossary([
+      term('Cloud Drive', '云盘'),
+      term('acme', '', { doNotTranslate: true })
+    ])]);
+
+    const protectedText = service.protect('Open cloud drive in ACME app', 'en', 'zh');
+    expect(protectedText.text).toBe('Open {{G0}} in {{G1}} app');
+    expect(protectedText.terms).toEqual([
+      { placeholder: '{{G0}}', sourceText: 'cloud drive', replacement: '云盘' },
+      { placeholder: '{{G1}}', sourceText: 'ACME', replacement: 'ACME' }
+    ]);
+    expect(protectedText.fullyProtected).toBe(false);
+
+    expect(service.restore('在 {{G1}} 应用中打开{{G0}}', protectedText)).toBe('在 ACME 应用中打开云盘');
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it('长术语优先，已匹配的位置不再被短术语占用', () => {
+    service.setGlossaries([glossary([term('Drive', '驱动器'), term('Cloud Drive', '云盘')])]);
+
+    const protectedText = service.protect('Cloud Drive and Drive', 'en', 'zh');
+    expect(protectedText.text).toBe('{{G0}} and {{G1}}');
+    expect(protectedText.terms.map(item => item.replacement)).toEqual(['云盘', '驱动器']);
+  });
+
+  it('西文术语按词边界匹配，中日韩术语不需要边界；区分大小写的术语只匹配原样', () => {
+    service.setGlossaries([glossary([
+      term('app', '应用'),
+      term('API', '接口', { caseSensitive: true })
+    ], { sourceLang: 'auto' })]);
+
+    expect(service.protect('apply the app via api and API', 'en', 'zh').text).toBe('apply the {{G0}} via api and {{G1}}');
+
+    service.setGlossaries([glossary([term('云盘', 'Cloud Drive')], { sourceLang: 'zh', targetLang: 'en' })]);
+    expect(service.protect('打开云盘设置', 'zh', 'en').text).toBe('打开{{G0}}设置');
+  });
+
+  it('只使用启用的、语言对匹配的术语表', () => {
+    service.setGlossaries([
+      glossary([term('one', '一')], { enabled: false }),
+      glossary([term('two', '二')], { targetLang: 'ja' }),
+      glossary([term('three', '三')], { sourceLang: 'fr' }),
+      glossary([term('four', '四')], { sourceLang: 'auto' }),
+      glossary([term('five', '')])
+    ]);
+
+    expect(service.getTerms('en', 'zh').map(item => item.sourceTerm)).toEqual(['four']);
+    expect(service.getTerms('auto', 'zh').map(item => item.sourceTerm)).toEqual(['three', 'four']);
+  });
+
+  it('整段只有术语和标点时标记为 fullyProtected', () => {
+    service.setGlossaries([glossary([term('Settings', '设置')])]);
+
+    const protectedText = service.protect(' Settings! ', 'en', 'zh');
+    expect(protectedText.fullyProtected).toBe(true);
+    expect(service.restore(protectedText.text, protectedText)).toBe(' 设置! ');
+  });
+
+  it('没有命中术语时原样返回', () => {
+    service.setGlossaries([glossary([term('Settings', '设置')])]);
+    expect(service.protect('Nothing here', 'en', 'zh')).toEqual({ text: 'Nothing here', terms: [], fullyProtected: false });
+    expect(service.restore('这里没有', { text: 'Nothing here', terms: [], fullyProtected: false })).toBe('这里没有');
+  });
+
+  it('容忍提供方改写的占位符：插入空格、全角括号、小写字母', () => {
+    service.setGlossaries([glossary([term('Cloud Drive', '云盘'), term('Acme', '艾克美')])]);
+
+    const protectedText = service.protect('Acme Cloud Drive', 'en', 'zh');
+    expect(service.restore('｛｛ g0 ｝｝的{{ G1 }}', protectedText)).toBe('艾克美的云盘');
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it('丢失的占位符打印警告，越界的占位符原样保留；部分结果不检查', () => {
+    service.setGlossaries([glossary([term('Cloud Drive', '云盘'), term('Acme', '艾克美')])]);
+    const protectedText = service.protect('Acme Cloud Drive', 'en', 'zh');
+
+    expect(service.restore('{{G0}} 的 {{G5}}', protectedText)).toBe('艾克美 的 {{G5}}');
+    expect(warn).toHaveBeenCalledWith(expect.any(String), ['Cloud Drive']);
+
+    warn.mockClear();
+    expect(service.restore('{{G0}} 的', protectedText, true)).toBe('艾克美 的');
+    expect(warn).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,143 @@
+// 术语表服务：翻译前把术语替换为占位符，翻译后再替换为指定译文，保证产品名和界面用语前后一致
+// 文本翻译、图片 OCR 文本块和界面覆盖层都经过 TranslationService，因此统一在这里处理
+
+export interface GlossaryTerm {
+  id: string;
+  sourceTerm: string;
+  targetTerm: string; // 勾选不翻译时忽略，保留原文
+  caseSensitive: boolean;
+  doNotTranslate: boolean;
+}
+
+export interface Glossary {
+  id: string;
+  name: string;
+  sourceLang: string; // 'auto' 表示适用于任意源语言
+  targetLang: string;
+  enabled: boolean;
+  terms: GlossaryTerm[];
+}
+
+// 一次保护得到的占位符和对应的最终译文
+export interface ProtectedTerm {
+  placeholder: string;
+  sourceText: string; // 原文中实际匹配到的文本
+  replacement: string;
+}
+
+export interface ProtectedText {
+  text: string;
+  terms: ProtectedTerm[];
+  fullyProtected: boolean; // 整段都是术语，无需调用提供方
+}
+
+// 整段命中术语、未调用提供方时响应中的 model 标识
+export const GLOSSARY_MODEL = 'glossary';
+
+const placeholderOf = (index: number) => `{{G${index}}}`;
+
+// 提供方可能插入空格或转为全角括号
+const PLACEHOLDER_PATTERN = /[{｛]{2}\s*G\s*(\d+)\s*[}｝]{2}/gi;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// 以字母或数字开头/结尾的术语需要词边界，中日韩文本没有空格分词，不加边界
+const WORD_CHAR = /[\p{L}\p{N}]/u;
+const CJK_CHAR = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+
+const buildTermPattern = (term: GlossaryTerm): RegExp => {
+  const source = term.sourceTerm.trim();
+  const first = source.charAt(0);
+  const last = source.charAt(source.length - 1);
+  const before = WORD_CHAR.test(first) && !CJK_CHAR.test(first) ? '(?<![\\p{L}\\p{N}])' : '';
+  const after = WORD_CHAR.test(last) && !CJK_CHAR.test(last) ? '(?![\\p{L}\\p{N}])' : '';
+  return new RegExp(`${before}${escapeRegExp(source)}${after}`, term.caseSensitive ? 'gu' : 'giu');
+};
+
+export class GlossaryService {
+  private glossaries: Glossary[] = [];
+
+  setGlossaries(glossaries: Glossary[]): void {
+    this.glossaries = glossaries;
+  }
+
+  // 适用于该语言对的术语，长术语优先匹配
+  getTerms(sourceLang: string, targetLang: string): GlossaryTerm[] {
+    return this.glossaries
+      .filter(glossary =>
+        glossary.enabled &&
+        glossary.targetLang === targetLang &&
+        (glossary.sourceLang === 'auto' || sourceLang === 'auto' || glossary.sourceLang === sourceLang)
+      )
+      .flatMap(glossary => glossary.terms)
+      .filter(term => term.sourceTerm.trim() && (term.doNotTranslate || term.targetTerm.trim()))
+      .sort((a, b) => b.sourceTerm.trim().length - a.sourceTerm.trim().length);
+  }
+
+  protect(text: string, sourceLang: string, targetLang: string): ProtectedText {
+    const terms = this.getTerms(sourceLang, targetLang);
+    if (terms.length === 0 || !text.trim()) {
+      return { text, terms: [], fullyProtected: false };
+    }
+
+    // 先收集所有匹配区间，已被更长术语占用的位置不再匹配
+    const spans: Array<{ start: number; end: number; term: GlossaryTerm }> = [];
+    for (const term of terms) {
+      for (const match of text.matchAll(buildTermPattern(term))) {
+        const start = match.index ?? 0;
+        const end = start + match[0].length;
+        if (!spans.some(span => start < span.end && end > span.start)) {
+          spans.push({ start, end, term });
+        }
+      }
+    }
+
+    if (spans.length === 0) {
+      return { text, terms: [], fullyProtected: false };
+    }
+
+    spans.sort((a, b) => a.start - b.start);
+
+    const protectedTerms: ProtectedTerm[] = [];
+    let result = '';
+    let cursor = 0;
+    spans.forEach((span, index) => {
+      const sourceText = text.slice(span.start, span.end);
+      const placeholder = placeholderOf(index);
+      protectedTerms.push({
+        placeholder,
+        sourceText,
+        replacement: span.term.doNotTranslate ? sourceText : span.term.targetTerm.trim()
+      });
+      result += text.slice(cursor, span.start) + placeholder;
+      cursor = span.end;
+    });
+    result += text.slice(cursor);
+
+    const remainder = result.replace(PLACEHOLDER_PATTERN, '').replace(/[\s\p{P}]/gu, '');
+    return { text: result, terms: protectedTerms, fullyProtected: remainder.length === 0 };
+  }
+
+  // 把译文中的占位符替换为术语译文；partial 为流式输出的中间结果，不检查占位符是否齐全
+  restore(translatedText: string, protectedText: ProtectedText, partial: boolean = false): string {
+    if (protectedText.terms.length === 0) return translatedText;
+
+    const restored = new Set<number>();
+    const result = translatedText.replace(PLACEHOLDER_PATTERN, (placeholder, index: string) => {
+      const term = protectedText.terms[Number(index)];
+      if (!term) return placeholder;
+      restored.add(Number(index));
+      return term.replacement;
+    });
+
+    if (!partial && restored.size < protectedText.terms.length) {
+      const missing = protectedText.terms.filter((_, index) => !restored.has(index));
+      console.warn('⚠️ 译文中丢失了术语占位符:', missing.map(term => term.sourceText));
+    }
+
+    return result;
+  }
+}
+
+// 导出单例实例
+export const glossaryService = new GlossaryService();
@@ -0,0 +1,298 @@
+// Google 翻译服务：用本地 HTTP 替身模拟 Cloud Translation REST 接口（v2 / v3）
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { GoogleTranslationService } from './googleTranslationService';
+import type { TranslationError } from './translationErrors';
+
+// 缓存走 IndexedDB，这里只验证接口调用，每次都请求替身服务
+vi.mock('./cacheService', () => ({
+  translationCacheService: {
+    getCachedTextTranslation: async () => null,
+    setCachedTextTranslation: () => undefined
+  }
+}));
+
+// 缩短重试间隔，可重试的错误也能很快结束
+vi.mock('../utils/browserDetection', () => ({
+  environmentConfig: { timeout: 2000, maxRetries: 1, retryDelay: 1 }
+}));
+
+interface RecordedRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  headers: IncomingMessage['headers'];
+  body: Record<string, unknown>;
+}
+
+type Route = (request: RecordedRequest) => { status?: number; body: unknown };
+
+let server: Server;
+let baseUrl: string;
+let requests: RecordedRequest[] = [];
+let routes: Record<string, Route> = {};
+
+const readBody = (req: IncomingMessage): Promise<string> => new Promise((resolve, reject) => {
+  let data = '';
+  req.setEncoding('utf8');
+  req.on('data', chunk => { data += chunk; });
+  req.on('end', () => resolve(data));
+  req.on('error', reject);
+});
+
+const handle = async (req: IncomingMessage, res: ServerResponse) => {
+  const url = new URL(req.url || '/', baseUrl);
+  const raw = await readBody(req);
+  const recorded: RecordedRequest = {
+    method: req.method || 'GET',
+    path: url.pathname,
+    query: url.searchParams,
+    headers: req.headers,
+    body: raw ? JSON.parse(raw) : {}
+  };
+  requests.push(recorded);
+
+  const route = routes[`${recorded.method} ${recorded.path}`];
+  const { status = 200, body } = route
+    ? route(recorded)
+    : { status: 404, body: { error: { code: 404, status: 'NOT_FOUND', message: 'Not found' } } };
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+// Google 的错误响应格式：{ error: { code, status, message, errors: [{ reason }] } }
+const googleError = (code: number, status: string, message: string, reason?: string) => ({
+  status: code,
+  body: { error: { code, status, message, ...(reason ? { errors: [{ reason, message }] } : {}) } }
+});
+
+// 配置在模块加载时读取，按版本重新加载服务模块（错误类随之重新加载，断言时比较 name）
+const loadService = async (env: Record<string, string>): Promise<GoogleTranslationService> => {
+  vi.resetModules();
+  vi.unstubAllEnvs();
+  vi.stubEnv('VITE_GOOGLE_TRANSLATE_API_BASE', baseUrl);
+  Object.entries(env).forEach(([key, value]) => vi.stubEnv(key, value));
+  const { GoogleTranslationService } = await import('./googleTranslationService');
+  return new GoogleTranslationService();
+};
+
+const captureError = async (promise: Promise<unknown>): Promise<TranslationError> => {
+  try {
+    await promise;
+  } catch (error) {
+    return error as TranslationError;
+  }
+  throw new Error('预期请求失败');
+};
+
+beforeAll(async () => {
+  vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+  server = createServer((req, res) => {
+    handle(req, res).catch(() => {
+      res.writeHead(500);
+      res.end();
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterEach(() => {
+  requests = [];
+  routes = {};
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  await new Promise<void>(resolve => server.close(() => resolve()));
+});
+
+describe('GoogleTranslationService v2（API Key）', () => {
+  it('翻译时转换语言代码并把 API Key 放在查询参数里', async () => {
+    const service = await loadService({ VITE_GOOGLE_TRANSLATE_API_KEY: 'test-key' });
+    routes['POST /language/translate/v2'] = () => ({
+      body: { data: { translations: [{ translatedText: '你好，世界', detectedSourceLanguage: 'en' }] } }
+    });
+
+    const result = await service.translateText({ text: 'Hello, world', sourceLang: 'auto', targetLang: 'zh' });
+
+    expect(result).toEqual({ translatedText: '你好，世界', confidence: 0.95, detectedLanguage: 'en' });
+    expect(requests).toHaveLength(1);
+    expect(requests[0].query.get('key')).toBe('test-key');
+    expect(requests[0].headers.authorization).toBeUndefined();
+    expect(requests[0].body).toEqual({ q: 'Hello, world', target: 'zh-CN', format: 'text' });
+  });
+
+  it('v2 不支持术语表，术语表 ID 被忽略', async () => {
+    const service = await loadService({ VITE_GOOGLE_TRANSLATE_API_KEY: 'test-key' });
+    routes['POST /language/translate/v2'] = () => ({
+      body: { data: { translations: [{ translatedText: 'Bonjour' }] } }
+    });
+
+    const result = await service.translateText({ text: 'Hello', sourceLang: 'en', targetLang: 'fr', glossaryId: 'terms' });
+
+    expect(result.translatedText).toBe('Bonjour');
+    expect(requests[0].body).toEqual({ q: 'Hello', target: 'fr', source: 'en', format: 'text' });
+  });
+
+  it('检测语言并按置信度返回候选', async () => {
+    const service = await loadService({ VITE_GOOGLE_TRANSLATE_API_KEY: 'test-key' });
+    routes['POST /language/translate/v2/detect'] = () => ({
+      body: { data: { detections: [[{ language: 'zh-TW', confidence: 0.9, isReliable: true }]] } }
+    });
+
+    await expect(service.detectLanguage('你好')).resolves.toBe('zh');
+    expect(requests[0].body).toEqual({ q: '你好' });
+  });
+
+  it('获取支持的语言列表并缓存在内存中', async () => {
+    const service = await loadService({ VITE_GOOGLE_TRANSLATE_API_KEY: 'test-key' });
+    routes['GET /language/translate/v2/languages'] = () => ({
+      body: { data: { languages: [{ language: 'en', name: '英语' }, { language: 'ja' }] } }
+    });
+
+    const languages = await service.getSupportedLanguages('zh');
+    await service.getSupportedLanguages('zh');
+
+    expect(languages).toEqual([{ code: 'en', name: '英语' }, { code: 'ja', name: 'ja' }]);
+    expect(requests).toHaveLength(1);
+    expect(requests[0].query.get('target')).toBe('zh-CN');
+  });
+
+  it('未配置凭据时不发请求', async () => {
+    const service = await loadService({});
+
+    const error = await captureError(service.translateText({ text: 'Hello', sourceLang: 'en', targetLang: 'zh' }));
+
+    expect(error.name).toBe('AuthError');
+    expect(error.code).toBe('NOT_CONFIGURED');
+    expect(requests).toHaveLength(0);
+  });
+});
+
+describe('GoogleTranslationService v3（项目 ID + 访问令牌）', () => {
+  const v3Env = {
+    VITE_GOOGLE_CLOUD_PROJECT_ID: 'demo-project',
+    VITE_GOOGLE_TRANSLATE_ACCESS_TOKEN: 'test-token',
+    VITE_GOOGLE_TRANSLATE_LOCATION: 'us-central1'
+  };
+  const parent = 'projects/demo-project/locations/us-central1';
+
+  it('术语表透传到 glossaryConfig，并优先使用术语表译文', async () => {
+    const service = await loadService(v3Env);
+    routes[`POST /v3/${parent}:translateText`] = () => ({
+      body: {
+        translations: [{ translatedText: '机器学习模型' }],
+        glossaryTranslations: [{ translatedText: 'ML 模型' }]
+      }
+    });
+
+    const result = await service.translateText({
+      text: 'machine learning model',
+      sourceLang: 'en',
+      targetLang: 'zh',
+      glossaryId: 'ai-terms'
+    });
+
+    expect(result.translatedText).toBe('ML 模型');
+    expect(requests[0].headers.authorization).toBe('Bearer test-token');
+    expect(requests[0].headers['x-goog-user-project']).toBe('demo-project');
+    expect(requests[0].query.has('key')).toBe(false);
+    expect(requests[0].body).toEqual({
+      contents: ['machine learning model'],
+      mimeType: 'text/plain',
+      targetLanguageCode: 'zh-CN',
+      sourceLanguageCode: 'en',
+      glossaryConfig: { glossary: `${parent}/glossaries/ai-terms` }
+    });
+  });
+
+  it('检测语言', async () => {
+    const service = await loadService(v3Env);
+    routes[`POST /v3/${parent}:detectLanguage`] = () => ({
+      body: { languages: [{ languageCode: 'ja', confidence: 0.98 }] }
+    });
+
+    await expect(service.detectLanguageCandidates('こんにちは')).resolves.toEqual([{ language: 'ja', confidence: 0.98 }]);
+    expect(requests[0].body).toEqual({ content: 'こんにちは', mimeType: 'text/plain' });
+  });
+
+  it('获取支持的语言列表', async () => {
+    const service = await loadService(v3Env);
+    routes[`GET /v3/${parent}/supportedLanguages`] = () => ({
+      body: { languages: [{ languageCode: 'de', displayName: '德语', supportSource: true, supportTarget: true }] }
+    });
+
+    await expect(service.getSupportedLanguages('zh')).resolves.toEqual([{ code: 'de', name: '德语' }]);
+    expect(requests[0].query.get('displayLanguageCode')).toBe('zh-CN');
+  });
+});
+
+describe('Google 错误响应映射', () => {
+  const translateWithError = async (error: { status: number; body: unknown }) => {
+    const service = await loadService({ VITE_GOOGLE_TRANSLATE_API_KEY: 'test-key' });
+    routes['POST /language/translate/v2'] = () => error;
+    return captureError(service.translateText({ text: 'Hello', sourceLang: 'en', targetLang: 'zh' }));
+  };
+
+  it('API Key 无效映射为 AuthError，不重试', async () => {
+    const error = await translateWithError(googleError(403, 'PERMISSION_DENIED', 'API key not valid.', 'forbidden'));
+
+    expect(error.name).toBe('AuthError');
+    expect(error.provider).toBe('google');
+    expect(error.providerCode).toBe('forbidden');
+    expect(error.retryable).toBe(false);
+    expect(requests).toHaveLength(1);
+  });
+
+  it('每日配额用完映射为 QuotaError', async () => {
+    const error = await translateWithError(googleError(403, 'PERMISSION_DENIED', 'Daily Limit Exceeded', 'dailyLimitExceeded'));
+
+    expect(error.name).toBe('QuotaError');
+    expect(error.providerCode).toBe('dailyLimitExceeded');
+  });
+
+  it('限频映射为 RateLimitError，并按配置重试', async () => {
+    const error = await translateWithError(googleError(429, 'RESOURCE_EXHAUSTED', 'Rate limit exceeded.'));
+
+    expect(error.name).toBe('RateLimitError');
+    expect(error.retryable).toBe(true);
+    expect(requests).toHaveLength(2);
+  });
+
+  it('语言对不支持映射为 UnsupportedLanguageError', async () => {
+    const error = await translateWithError(googleError(400, 'INVALID_ARGUMENT', 'Bad language pair: en|xx', 'invalid'));
+
+    expect(error.name).toBe('UnsupportedLanguageError');
+  });
+
+  it('其他参数错误映射为 InvalidInputError', async () => {
+    const error = await translateWithError(googleError(400, 'INVALID_ARGUMENT', 'Text too long.', 'invalid'));
+
+    expect(error.name).toBe('InvalidInputError');
+  });
+
+  it('服务端错误映射为可重试的 ProviderBugError，重试成功后返回译文', async () => {
+    const service = await loadService({ VITE_GOOGLE_TRANSLATE_API_KEY: 'test-key' });
+    routes['POST /language/translate/v2'] = () => requests.length === 1
+      ? googleError(503, 'UNAVAILABLE', 'The service is currently unavailable.')
+      : { body: { data: { translations: [{ translatedText: '你好' }] } } };
+
+    const result = await service.translateText({ text: 'Hi', sourceLang: 'en', targetLang: 'zh' });
+
+    expect(result.translatedText).toBe('你好');
+    expect(requests).toHaveLength(2);
+  });
+
+  it('服务端持续出错时抛出 ProviderBugError', async () => {
+    const error = await translateWithError(googleError(500, 'INTERNAL', 'Internal error encountered.'));
+
+    expect(error.name).toBe('ProviderBugError');
+    expect(error.retryable).toBe(true);
+  });
+});
@@ -0,0 +1,331 @@
+import axios from 'axios';
+import { RetryHandler, UsageStatsManager } from './apiUtils';
+import { translationCacheService } from './cacheService';
+import { AuthError } from './translationErrors';
+import { environmentConfig } from '../utils/browserDetection';
+import { isCancelledError } from '../utils/abort';
+
+// Google Cloud Translation 配置
+// 配置了项目 ID 时使用 v3（Advanced，支持术语表），否则使用 v2（Basic）
+const GOOGLE_API_CONFIG = {
+  apiKey: import.meta.env.VITE_GOOGLE_TRANSLATE_API_KEY || '',
+  // v3 也可使用 OAuth 访问令牌代替 API Key
+  accessToken: import.meta.env.VITE_GOOGLE_TRANSLATE_ACCESS_TOKEN || '',
+  projectId: import.meta.env.VITE_GOOGLE_CLOUD_PROJECT_ID || '',
+  location: import.meta.env.VITE_GOOGLE_TRANSLATE_LOCATION || 'global',
+  // 可指向本地替身服务用于联调
+  apiBaseUrl: import.meta.env.VITE_GOOGLE_TRANSLATE_API_BASE || 'https://translation.googleapis.com'
+};
+
+// 我们的语言代码到 Google 语言代码
+const GOOGLE_LANGUAGE_MAP: Record<string, string> = {
+  'zh': 'zh-CN'
+};
+
+// Google 语言代码到我们的语言代码
+function fromGoogleLanguage(code: string): string {
+  if (!code) return code;
+  if (code.toLowerCase().startsWith('zh')) return 'zh';
+  return code.split('-')[0];
+}
+
+function toGoogleLanguage(code: string): string {
+  return GOOGLE_LANGUAGE_MAP[code] || code;
+}
+
+// Google 翻译请求
+export interface GoogleTranslationRequest {
+  text: string;
+  sourceLang: string;
+  targetLang: string;
+  glossaryId?: string; // 仅 v3 支持
+  signal?: AbortSignal;
+}
+
+// v2 响应
+export interface GoogleV2TranslateResponse {
+  data: {
+    translations: Array<{
+      translatedText: string;
+      detectedSourceLanguage?: string;
+    }>;
+  };
+}
+
+export interface GoogleV2DetectResponse {
+  data: {
+    detections: Array<Array<{
+      language: string;
+      confidence: number;
+      isReliable: boolean;
+    }>>;
+  };
+}
+
+export interface GoogleV2LanguagesResponse {
+  data: {
+    languages: Array<{ language: string; name?: string }>;
+  };
+}
+
+// v3 响应
+export interface GoogleV3TranslateResponse {
+  translations: Array<{
+    translatedText: string;
+    detectedLanguageCode?: string;
+  }>;
+  glossaryTranslations?: Array<{
+    translatedText: string;
+    detectedLanguageCode?: string;
+  }>;
+}
+
+export interface GoogleV3DetectResponse {
+  languages: Array<{ languageCode: string; confidence: number }>;
+}
+
+export interface GoogleV3LanguagesResponse {
+  languages: Array<{
+    languageCode: string;
+    displayName?: string;
+    supportSource: boolean;
+    supportTarget: boolean;
+  }>;
+}
+
+// Google 翻译服务类
+export class GoogleTranslationService {
+  private supportedLanguages: Array<{ code: string; name: string }> | null = null;
+
+  isConfigured(): boolean {
+    return !!(GOOGLE_API_CONFIG.apiKey || (GOOGLE_API_CONFIG.projectId && GOOGLE_API_CONFIG.accessToken));
+  }
+
+  private get useV3(): boolean {
+    return !!GOOGLE_API_CONFIG.projectId;
+  }
+
+  private get v3Parent(): string {
+    return `projects/${GOOGLE_API_CONFIG.projectId}/locations/${GOOGLE_API_CONFIG.location}`;
+  }
+
+  private buildUrl(path: string): string {
+    const url = `${GOOGLE_API_CONFIG.apiBaseUrl}${path}`;
+    // 有访问令牌时走 Authorization 头，否则把 API Key 放在查询参数里
+    if (GOOGLE_API_CONFIG.accessToken || !GOOGLE_API_CONFIG.apiKey) {
+      return url;
+    }
+    return `${url}${url.includes('?') ? '&' : '?'}key=${encodeURIComponent(GOOGLE_API_CONFIG.apiKey)}`;
+  }
+
+  private buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (GOOGLE_API_CONFIG.accessToken) {
+      headers['Authorization'] = `Bearer ${GOOGLE_API_CONFIG.accessToken}`;
+      if (GOOGLE_API_CONFIG.projectId) {
+        headers['x-goog-user-project'] = GOOGLE_API_CONFIG.projectId;
+      }
+    }
+    return headers;
+  }
+
+  private ensureConfigured(): void {
+    if (!this.isConfigured()) {
+      throw new AuthError('Google 翻译API配置缺失，请检查环境变量 VITE_GOOGLE_TRANSLATE_API_KEY 或 VITE_GOOGLE_CLOUD_PROJECT_ID', { code: 'NOT_CONFIGURED', provider: 'google' });
+    }
+  }
+
+  // 文本翻译
+  async translateText(request: GoogleTranslationRequest): Promise<{
+    translatedText: string;
+    confidence: number;
+    detectedLanguage?: string;
+  }> {
+    this.ensureConfigured();
+
+    if (request.glossaryId && !this.useV3) {
+      console.warn('⚠️ 术语表仅在 Cloud Translation v3 中可用，已忽略:', request.glossaryId);
+    }
+
+    // 术语表会改变译文，单独作为缓存维度
+    const cacheModel = request.glossaryId && this.useV3 ? `google:${request.glossaryId}` : 'google';
+    const cachedResult = await translationCacheService.getCachedTextTranslation(
+      request.text,
+      request.sourceLang,
+      request.targetLang,
+      cacheModel
+    );
+
+    if (cachedResult) {
+      console.log('使用缓存的翻译结果');
+      return cachedResult;
+    }
+
+    const operation = () => this.useV3 ? this.translateV3(request) : this.translateV2(request);
+
+    try {
+      const result = await RetryHandler.executeWithRetry(operation, {
+        maxRetries: environmentConfig.maxRetries,
+        baseDelay: environmentConfig.retryDelay,
+        maxDelay: environmentConfig.retryDelay * 4,
+        signal: request.signal
+      });
+
+      UsageStatsManager.updateStats('text', request.text.length, true, 'google');
+
+      translationCacheService.setCachedTextTranslation(
+        request.text,
+        request.sourceLang,
+        request.targetLang,
+        result,
+        cacheModel
+      );
+
+      return result;
+    } catch (error) {
+      if (isCancelledError(error)) {
+        throw error;
+      }
+      console.error('❌ Google翻译API调用失败:', error);
+      UsageStatsManager.updateStats('text', request.text.length, false, 'google');
+      throw error;
+    }
+  }
+
+  private async translateV2(request: GoogleTranslationRequest) {
+    const body: Record<string, string> = {
+      q: request.text,
+      target: toGoogleLanguage(request.targetLang),
+      format: 'text'
+    };
+    if (request.sourceLang !== 'auto') {
+      body.source = toGoogleLanguage(request.sourceLang);
+    }
+
+    const response = await axios.post<GoogleV2TranslateResponse>(
+      this.buildUrl('/language/translate/v2'),
+      body,
+      { headers: this.buildHeaders(), timeout: environmentConfig.timeout, signal: request.signal }
+    );
+
+    const translation = response.data.data.translations[0];
+    return {
+      translatedText: translation.translatedText,
+      confidence: 0.95, // v2 不返回置信度
+      detectedLanguage: request.sourceLang === 'auto'
+        ? fromGoogleLanguage(translation.detectedSourceLanguage || '')
+        : undefined
+    };
+  }
+
+  private async translateV3(request: GoogleTranslationRequest) {
+    const body: Record<string, unknown> = {
+      contents: [request.text],
+      mimeType: 'text/plain',
+      targetLanguageCode: toGoogleLanguage(request.targetLang)
+    };
+    if (request.sourceLang !== 'auto') {
+      body.sourceLanguageCode = toGoogleLanguage(request.sourceLang);
+    }
+    if (request.glossaryId) {
+      body.glossaryConfig = {
+        glossary: `${this.v3Parent}/glossaries/${request.glossaryId}`
+      };
+    }
+
+    const response = await axios.post<GoogleV3TranslateResponse>(
+      this.buildUrl(`/v3/${this.v3Parent}:translateText`),
+      body,
+      { headers: this.buildHeaders(), timeout: environmentConfig.timeout, signal: request.signal }
+    );
+
+    // 使用术语表时优先取术语表译文
+    const translation = response.data.glossaryTranslations?.[0] || response.data.translations[0];
+    return {
+      translatedText: translation.translatedText,
+      confidence: 0.95,
+      detectedLanguage: request.sourceLang === 'auto'
+        ? fromGoogleLanguage(translation.detectedLanguageCode || '')
+        : undefined
+    };
+  }
+
+  // 语言检测
+  async detectLanguage(text: string): Promise<string> {
+    const candidates = await this.detectLanguageCandidates(text);
+    return candidates[0]?.language || 'en';
+  }
+
+  async detectLanguageCandidates(text: string): Promise<Array<{ language: string; confidence: number }>> {
+    this.ensureConfigured();
+
+    const operation = async () => {
+      if (this.useV3) {
+        const response = await axios.post<GoogleV3DetectResponse>(
+          this.buildUrl(`/v3/${this.v3Parent}:detectLanguage`),
+          { content: text, mimeType: 'text/plain' },
+          { headers: this.buildHeaders(), timeout: environmentConfig.timeout }
+        );
+        return response.data.languages.map(l => ({
+          language: fromGoogleLanguage(l.languageCode),
+          confidence: l.confidence
+        }));
+      }
+
+      const response = await axios.post<GoogleV2DetectResponse>(
+        this.buildUrl('/language/translate/v2/detect'),
+        { q: text },
+        { headers: this.buildHeaders(), timeout: environmentConfig.timeout }
+      );
+      return (response.data.data.detections[0] || []).map(d => ({
+        language: fromGoogleLanguage(d.language),
+        confidence: d.confidence
+      }));
+    };
+
+    return RetryHandler.executeWithRetry(operation, {
+      maxRetries: environmentConfig.maxRetries,
+      baseDelay: environmentConfig.retryDelay
+    });
+  }
+
+  // 获取支持的语言列表（结果在内存中缓存）
+  async getSupportedLanguages(displayLang: string = 'zh'): Promise<Array<{ code: string; name: string }>> {
+    if (this.supportedLanguages) {
+      return this.supportedLanguages;
+    }
+    this.ensureConfigured();
+
+    const operation = async () => {
+      const display = toGoogleLanguage(displayLang);
+      if (this.useV3) {
+        const response = await axios.get<GoogleV3LanguagesResponse>(
+          this.buildUrl(`/v3/${this.v3Parent}/supportedLanguages?displayLanguageCode=${display}`),
+          { headers: this.buildHeaders(), timeout: environmentConfig.timeout }
+        );
+        return response.data.languages.map(l => ({
+          code: l.languageCode,
+          name: l.displayName || l.languageCode
+        }));
+      }
+
+      const response = await axios.get<GoogleV2LanguagesResponse>(
+        this.buildUrl(`/language/translate/v2/languages?target=${display}`),
+        { headers: this.buildHeaders(), timeout: environmentConfig.timeout }
+      );
+      return response.data.data.languages.map(l => ({
+        code: l.language,
+        name: l.name || l.language
+      }));
+    };
+
+    this.supportedLanguages = await RetryHandler.executeWithRetry(operation, {
+      maxRetries: environmentConfig.maxRetries,
+      baseDelay: environmentConfig.retryDelay
+    });
+    return this.supportedLanguages;
+  }
+}
+
+// 导出单例实例
+export const googleTranslationService = new GoogleTranslationService();
@@ -3,6 +3,7 @@ import { visualStyleAnalyzer, StyleAnalysis } from './visualStyleAnalyzer';
 import { smartTextReplacer, OverflowHandling, ReplacementResult } from './smartTextReplacer';
 import { textRenderingEngine, RenderingOptions } from './textRenderingEngine';
 import { baiduTranslationService } from './baiduTranslationService';
+import { isCancelledError, throwIfAborted } from '../utils/abort';
 
 // Filter processing options
 export interface FilterOptions {
@@ -14,6 +15,10 @@ export interface FilterOptions {
   renderingOptions: RenderingOptions;
   enablePreview: boolean;
   progressCallback?: (progress: number, stage: string) => void;
+  // 每绘制完一个文本块回调当前画布，用于边翻译边预览
+  onBlockRendered?: (canvas: HTMLCanvasElement, completed: number, total: number) => void;
+  // 取消后 OCR worker 被终止、翻译请求中止，applyFilter 抛出 code 为 CANCELLED 的错误
+  signal?: AbortSignal;
 }
 
 // Processing stages
@@ -63,6 +68,7 @@ export class ImageTranslationFilter {
   private processingStages: ProcessingStageResult[] = [];
   private currentStage: ProcessingStage = 'loading';
   private progressCallback?: (progress: number, stage: string) => void;
+  private signal?: AbortSignal;
 
   /**
    * Apply translation filter to image
@@ -74,6 +80,7 @@ export class ImageTranslationFilter {
     const startTime = performance.now();
     this.processingStages = [];
     this.progressCallback = options.progressCallback;
+    this.signal = options.signal;
     
     try {
       // Stage 1: Load and analyze image
@@ -82,7 +89,7 @@ export class ImageTranslationFilter {
         const img = await this.loadImage(imageUrl);
         
         this.updateProgress(15, 'Analyzing image structure...');
-        return await enhancedOcrService.analyzeImage(imageUrl, options.sourceLang);
+        return await enhancedOcrService.analyzeImage(imageUrl, options.sourceLang, options.signal);
       });
       
       if (!imageAnalysis.textBlocks.length) {
@@ -101,6 +108,7 @@ export class ImageTranslationFilter {
         const analyses: StyleAnalysis[] = [];
         
         for (let i = 0; i < enhancedBlocks.length; i++) {
+          throwIfAborted(options.signal);
           const block = enhancedBlocks[i];
           const analysis = await visualStyleAnalyzer.analyzeTextBlockStyle(
             block,
@@ -122,27 +130,43 @@ export class ImageTranslationFilter {
         return analyses;
       });
       
-      // Stage 4: Translation
-      const translatedBlocks = await this.executeStage('translation', async () => {
+      // Stage 4 + 5: Translation and rendering
+      // 原文先整体擦除，文本块按批次翻译完成后立即绘制，不必等全部译文返回
+      const translatedBlocks = [...enhancedBlocks];
+      const replacementResult = await this.executeStage('translation', async () => {
         this.updateProgress(50, 'Translating text...');
-        return await enhancedOcrService.translateTextBlocks(
+        // 源语言为 auto 时使用 OCR 阶段本地检测出的语言
+        const sourceLang = options.sourceLang === 'auto'
+          ? imageAnalysis.detectedLanguage || 'auto'
+          : options.sourceLang;
+        const stream = enhancedOcrService.translateTextBlocksStream(
           enhancedBlocks,
-          options.sourceLang,
-          options.targetLang
+          sourceLang,
+          options.targetLang,
+          options.signal
         );
-      });
-      
-      // Stage 5: Text replacement and rendering
-      const replacementResult = await this.executeStage('text_rendering', async () => {
-        this.updateProgress(70, 'Rendering translated text...');
-        const originalImage = await this.loadImage(imageUrl);
+        const trackedStream = (async function* () {
+          for await (const item of stream) {
+            translatedBlocks[item.index] = item.block;
+            yield item;
+          }
+        })();
         
-        return await smartTextReplacer.replaceTextInImage(
+        const originalImage = await this.loadImage(imageUrl);
+        return await smartTextReplacer.replaceTextInImageStream(
           originalImage,
-          translatedBlocks,
+          enhancedBlocks,
           styleAnalyses,
+          trackedStream,
           options.overflowHandling,
-          options.renderingOptions
+          options.renderingOptions,
+          (canvas, completed, total) => {
+            this.updateProgress(
+              50 + (total > 0 ? (completed / total) * 40 : 40),
+              `Rendering translated text ${completed}/${total}...`
+            );
+            options.onBlockRendered?.(canvas, completed, total);
+          }
         );
       });
       
@@ -188,6 +212,10 @@ export class ImageTranslationFilter {
       };
       
     } catch (error) {
+      // 取消交给调用方区分处理，不返回失败结果
+      if (isCancelledError(error)) {
+        throw error;
+      }
       console.error('Filter processing failed:', error);
       
       return {
@@ -328,6 +356,8 @@ export class ImageTranslationFilter {
     this.currentStage = stage;
     
     try {
+      // 每个阶段开始前检查是否已取消
+      throwIfAborted(this.signal);
       const result = await operation();
       const duration = performance.now() - startTime;
       
@@ -1,3 +1,5 @@
+import type { TranslationService } from './translationService';
+
 // Interface Translation Service Types
 export interface UIElement {
   id: string;
@@ -428,32 +430,29 @@ export class InterfaceTranslationService {
     elements: UIElement[],
     sourceLang: string,
     targetLang: string,
-    translationService: any
+    translationService: TranslationService
   ): Promise<UIElement[]> {
-    const translatedElements = await Promise.all(
-      elements.map(async (element) => {
-        try {
-          const response = await translationService.translate({
-            text: element.text,
-            sourceLang,
-            targetLang
-          });
-          
-          return {
-            ...element,
-            translatedText: response.translatedText
-          };
-        } catch (error) {
-          console.error(`Failed to translate element ${element.id}:`, error);
-          return {
-            ...element,
-            translatedText: element.text // Fallback to original text
-          };
-        }
-      })
-    );
+    if (elements.length === 0) return [];
 
-    return translatedElements;
+    try {
+      // 所有元素合并为一次批量请求，避免触发限频
+      const responses = await translationService.translateBatch(
+        elements.map(element => element.text),
+        sourceLang,
+        targetLang
+      );
+
+      return elements.map((element, i) => ({
+        ...element,
+        translatedText: responses[i]?.translatedText || element.text
+      }));
+    } catch (error) {
+      console.error('Failed to translate interface elements:', error);
+      return elements.map(element => ({
+        ...element,
+        translatedText: element.text // Fallback to original text
+      }));
+    }
   }
 
   createTranslationOverlay(
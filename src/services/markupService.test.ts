@@ -0,0 +1,104 @@
+// 标记保护：各格式的标记替换为 {{Mn}} 占位符，译文回来后还原并检查占位符是否齐全
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { markupService, type TextFormat } from './markupService';
+
+// 不经过提供方，直接把占位符文本原样还原
+const roundTrip = (text: string, format: TextFormat) => {
+  const markup = markupService.protect(text, format);
+  return { markup, restored: markupService.restore(markup.text, markup) };
+};
+
+describe('MarkupService', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('纯文本不做处理', () => {
+    const markup = markupService.protect('Hello <b>world</b> %s {name}');
+    expect(markup).toEqual({ text: 'Hello <b>world</b> %s {name}', tokens: [], onlyMarkup: false });
+    expect(markupService.restore('你好', markup)).toEqual({ text: '你好', warnings: [] });
+  });
+
+  it('HTML：标签、实体和注释替换为占位符，不翻译的元素整体保护', () => {
+    const text = 'Click <a href="/x">here</a> &amp; <code>npm run</code> now<!-- note -->';
+    const { markup, restored } = roundTrip(text, 'html');
+
+    expect(markup.text).toBe('Click {{M0}}here{{M1}} now{{M2}}');
+    expect(markup.tokens.map(token => token.source)).toEqual(['<a href="/x">', '</a> &amp; <code>npm run</code>', '<!-- note -->']);
+    expect(restored).toEqual({ text, warnings: [] });
+  });
+
+  it('只隔着空白的相邻标记合并为一个占位符', () => {
+    const markup = markupService.protect('<p> <b>Bold</b> </p>', 'html');
+    expect(markup.text).toBe('{{M0}}Bold{{M1}}');
+    expect(markup.tokens.map(token => token.source)).toEqual(['<p> <b>', '</b> </p>']);
+  });
+
+  it('整段只有标记时标记为 onlyMarkup', () => {
+    expect(markupService.protect('<br/> &nbsp; <hr>', 'html').onlyMarkup).toBe(true);
+    expect(markupService.protect('%1$s: %2$d', 'printf').onlyMarkup).toBe(true);
+    expect(markupService.protect('%s files', 'printf').onlyMarkup).toBe(false);
+  });
+
+  it('Markdown：代码、链接地址、列表符号和强调保护，链接文字照常翻译', () => {
+    const text = '- See [the docs](https://example.com/a_b) and `run_me` for **bold** _text_ in snake_case';
+    const { markup, restored } = roundTrip(text, 'markdown');
+
+    expect(markup.text).toBe('{{M0}}See {{M1}}the docs{{M2}} and {{M3}} for {{M4}}bold{{M5}}text{{M6}} in snake_case');
+    expect(restored.text).toBe(text);
+  });
+
+  it('Markdown：围栏代码块整体保护', () => {
+    const text = 'Intro\n```js\nconst a = "text";\n```\nOutro';
+    const markup = markupService.protect(text, 'markdown');
+    expect(markup.text).toBe('Intro\n{{M0}}\nOutro');
+    expect(markupService.restore(markup.text, markup).text).toBe(text);
+  });
+
+  it('ICU：简单参数整体保护，plural 选项内的文字可翻译，# 受保护', () => {
+    const text = 'Hi {name}, you have {count, plural, =0 {no messages} one {# message} other {# messages}}. It\'\'s {when, date, short}.';
+    const { markup, restored } = roundTrip(text, 'icu-messageformat');
+
+    expect(markup.text).toBe('Hi {{M0}}, you have {{M1}}no messages{{M2}} message{{M3}} messages{{M4}}. It\'\'s {{M5}}.');
+    expect(markup.tokens[1].source).toBe('{count, plural, =0 {');
+    expect(markup.tokens[2].source).toBe('} one {#');
+    expect(restored.text).toBe(text);
+  });
+
+  it('ICU：引号转义的括号是普通文字', () => {
+    const markup = markupService.protect("Use '{braces}' with {x}", 'icu-messageformat');
+    expect(markup.text).toBe("Use '{braces}' with {{M0}}");
+  });
+
+  it('printf、i18next 和 Android 的占位符', () => {
+    expect(markupService.protect('%1$s has %d%% of %(total)s\\n', 'printf').text).toBe('{{M0}} has {{M1}} of {{M2}}');
+    expect(markupService.protect('Hello {{name}}, see $t(common.more) <b>now</b>', 'i18next').text)
+      .toBe('Hello {{M0}}, see {{M1}}now{{M2}}');
+    expect(markupService.protect('Hi <xliff:g id="user">%1$s</xliff:g>, don\\\'t wait', 'android').text)
+      .toBe('Hi {{M0}}, don{{M1}}t wait');
+  });
+
+  it('容忍提供方改写的占位符：插入空格、全角括号、小写字母', () => {
+    const markup = markupService.protect('Click <b>here</b>', 'html');
+    const restored = markupService.restore('点击 ｛｛ m0 ｝｝这里{{ M1 }}', markup);
+    expect(restored).toEqual({ text: '点击 <b>这里</b>', warnings: [] });
+  });
+
+  it('丢失或重复的占位符记入 warnings', () => {
+    const markup = markupService.protect('<b>Bold</b> and <i>italic</i>', 'html');
+    const restored = markupService.restore('{{M0}}粗体{{M0}}和{{M2}}斜体{{M3}}', markup);
+
+    expect(restored.text).toBe('<b>粗体<b>和<i>斜体</i>');
+    expect(restored.warnings).toEqual(['占位符重复: <b>', '占位符丢失: </b>']);
+  });
+
+  it('编号越界的占位符原样保留；部分结果不检查占位符', () => {
+    const markup = markupService.protect('<b>Bold</b>', 'html');
+    expect(markupService.restore('{{M0}}粗体{{M1}}{{M9}}', markup).text).toBe('<b>粗体</b>{{M9}}');
+    expect(markupService.restore('{{M0}}粗', markup, true)).toEqual({ text: '<b>粗', warnings: [] });
+  });
+});
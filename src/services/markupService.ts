@@ -0,0 +1,285 @@
+// 标记保护：按文本格式把 HTML 标签、Markdown 标记和 ICU / printf 占位符替换为受保护的占位符，
+// 只翻译其间的文字，译文回来后还原结构并检查每个占位符是否都保留了下来
+
+export type TextFormat = 'plain' | 'html' | 'markdown' | 'icu-messageformat' | 'printf' | 'i18next' | 'android';
+
+export const TEXT_FORMATS: Array<{ value: TextFormat; label: string }> = [
+  { value: 'plain', label: '纯文本' },
+  { value: 'html', label: 'HTML' },
+  { value: 'markdown', label: 'Markdown' },
+  { value: 'icu-messageformat', label: 'ICU 消息' },
+  { value: 'printf', label: 'printf 格式' },
+  { value: 'i18next', label: 'i18next' },
+  { value: 'android', label: 'Android 字符串' }
+];
+
+export interface MarkupToken {
+  placeholder: string;
+  source: string; // 原文中被保护的标记
+}
+
+export interface ProtectedMarkup {
+  text: string;
+  tokens: MarkupToken[];
+  onlyMarkup: boolean; // 除标记外没有可翻译的文字，无需调用提供方
+}
+
+export interface RestoredMarkup {
+  text: string;
+  warnings: string[]; // 丢失或重复的占位符
+}
+
+// 整段只有标记、未调用提供方时响应中的 model 标识
+export const MARKUP_MODEL = 'markup';
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+const placeholderOf = (index: number) => `{{M${index}}}`;
+
+// 与术语表占位符相同，容忍提供方插入空格或转为全角括号
+const PLACEHOLDER_PATTERN = /[{｛]{2}\s*M\s*(\d+)\s*[}｝]{2}/gi;
+
+const HTML_PATTERNS = [
+  /<(script|style|code|pre)\b[^>]*>[\s\S]*?<\/\1\s*>/gi, // 内容不翻译的元素整体保护
+  /<!--[\s\S]*?-->/g,
+  /<\/?[a-zA-Z][^>]*>/g,
+  /&(?:[a-zA-Z]+|#\d+|#x[0-9a-fA-F]+);/g
+];
+
+const MARKDOWN_PATTERNS = [
+  /^(`{3,}|~{3,}).*\n[\s\S]*?^\1.*$/gm, // 围栏代码块
+  /(`+)[^`\n]+?\1/g, // 行内代码
+  /!\[[^\]\n]*\]\([^)\n]*\)/g, // 图片
+  /\[(?=[^\]\n]*\]\()/g, // 链接文字翻译，括号和地址保护
+  /\]\([^)\n]*\)/g,
+  /<https?:\/\/[^>\s]+>|https?:\/\/[^\s)>\]]+/g,
+  /^[ \t]*([-*_])(?:[ \t]*\1){2,}[ \t]*$/gm, // 分隔线
+  /^[ \t]*\|?(?:[ \t]*:?-+:?[ \t]*\|)+[ \t]*(?::?-+:?[ \t]*)?$/gm, // 表格分隔行
+  /^[ \t]*(?:#{1,6}|[-*+]|\d+[.)]|>)[ \t]+/gm, // 标题、列表、引用
+  /\*\*|__|~~|\|/g,
+  /(?<![\p{L}\p{N}*])[*_](?=\S)|(?<=\S)[*_](?![\p{L}\p{N}*])/gu, // 单个 * 或 _ 强调，不匹配 snake_case
+  ...HTML_PATTERNS.slice(1)
+];
+
+const PRINTF_PATTERNS = [
+  /%(?:\d+\$)?[-+ 0#']*(?:\d+|\*)?(?:\.(?:\d+|\*))?(?:hh|h|ll|l|L|q|j|z|t)?[diouxXeEfFgGaAcspn@%]/g,
+  /%\([A-Za-z_]\w*\)[-+ 0#]*\d*(?:\.\d+)?[diouxXeEfFgGcrsa%]/g, // Python 命名占位符
+  /\\[ntr"'\\]/g // 字面转义序列
+];
+
+// i18next 插值、嵌套引用和行内 HTML
+const I18NEXT_PATTERNS = [
+  /\{\{[^{}]*\}\}/g,
+  /\$t\([^()]*\)/g,
+  ...HTML_PATTERNS
+];
+
+// Android 字符串资源：<xliff:g> 内容不翻译，另有 CDATA 包裹和反斜杠转义
+const ANDROID_PATTERNS = [
+  /<xliff:g\b[^>]*>[\s\S]*?<\/xliff:g>/g,
+  /<!\[CDATA\[|\]\]>/g,
+  ...HTML_PATTERNS,
+  ...PRINTF_PATTERNS,
+  /\\u[0-9a-fA-F]{4}|\\[@?]/g
+];
+
+// 按顺序收集匹配区间，已被前面的规则占用的位置不再匹配
+const collectSpans = (text: string, patterns: RegExp[]): Span[] => {
+  const spans: Span[] = [];
+  for (const pattern of patterns) {
+    for (const match of text.matchAll(pattern)) {
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      if (end > start && !spans.some(span => start < span.end && end > span.start)) {
+        spans.push({ start, end });
+      }
+    }
+  }
+  return spans;
+};
+
+// ICU MessageFormat：简单参数整体保护；plural / select 只保护参数头、选项和括号，选项内的文字照常翻译
+const collectIcuSpans = (text: string): Span[] => {
+  const spans: Span[] = [];
+  let i = 0;
+
+  const skipQuoted = (): boolean => {
+    // '' 表示单引号，'{...}' 为转义的字面文本
+    if (text[i + 1] === "'") {
+      i += 2;
+      return true;
+    }
+    if (text[i + 1] === '{' || text[i + 1] === '}' || text[i + 1] === '#') {
+      const close = text.indexOf("'", i + 1);
+      i = close < 0 ? text.length : close + 1;
+      return true;
+    }
+    return false;
+  };
+
+  const parseArgument = () => {
+    const start = i;
+    const header = /^\{\s*[^\s,{}]+\s*(?:,\s*(\w+)\s*)?/.exec(text.slice(i));
+    if (!header) {
+      i++;
+      return;
+    }
+
+    const type = header[1];
+    if (type !== 'plural' && type !== 'select' && type !== 'selectordinal') {
+      // number / date 等参数的样式里可能还有括号
+      let depth = 0;
+      while (i < text.length) {
+        if (text[i] === '{') depth++;
+        if (text[i] === '}' && --depth === 0) break;
+        i++;
+      }
+      i = Math.min(i + 1, text.length);
+      spans.push({ start, end: i });
+      return;
+    }
+
+    i += header[0].length;
+    if (text[i] === ',') i++;
+    spans.push({ start, end: i });
+
+    while (i < text.length) {
+      const option = /^\s*(?:offset:\s*\d+\s*)?[=\w-]+\s*\{/.exec(text.slice(i));
+      if (!option) break;
+      spans.push({ start: i, end: i + option[0].length });
+      i += option[0].length;
+      parseMessage(type !== 'select');
+      if (text[i] === '}') {
+        spans.push({ start: i, end: i + 1 });
+        i++;
+      }
+    }
+
+    const close = /^\s*\}/.exec(text.slice(i));
+    if (close) {
+      spans.push({ start: i, end: i + close[0].length });
+      i += close[0].length;
+    }
+  };
+
+  // 解析到未配对的 '}' 为止，由调用方处理；plural 选项内的 # 表示数字
+  const parseMessage = (inPlural: boolean) => {
+    while (i < text.length) {
+      const char = text[i];
+      if (char === "'" && skipQuoted()) continue;
+      if (char === '}') return;
+      if (char === '{') {
+        parseArgument();
+        continue;
+      }
+      if (char === '#' && inPlural) {
+        spans.push({ start: i, end: i + 1 });
+      }
+      i++;
+    }
+  };
+
+  while (i < text.length) {
+    parseMessage(false);
+    // 顶层多余的右括号当作普通文字
+    i++;
+  }
+  return spans;
+};
+
+export class MarkupService {
+  private collect(text: string, format: TextFormat): Span[] {
+    switch (format) {
+      case 'html':
+        return collectSpans(text, HTML_PATTERNS);
+      case 'markdown':
+        return collectSpans(text, MARKDOWN_PATTERNS);
+      case 'icu-messageformat':
+        return collectIcuSpans(text);
+      case 'printf':
+        return collectSpans(text, PRINTF_PATTERNS);
+      case 'i18next':
+        return collectSpans(text, I18NEXT_PATTERNS);
+      case 'android':
+        return collectSpans(text, ANDROID_PATTERNS);
+      default:
+        return [];
+    }
+  }
+
+  protect(text: string, format: TextFormat = 'plain'): ProtectedMarkup {
+    const spans = this.collect(text, format).sort((a, b) => a.start - b.start);
+    if (spans.length === 0) {
+      return { text, tokens: [], onlyMarkup: false };
+    }
+
+    // 只隔着空白的相邻标记合并为一个占位符，减少提供方需要保留的占位符数量
+    const merged: Span[] = [];
+    for (const span of spans) {
+      const last = merged[merged.length - 1];
+      if (last && !text.slice(last.end, span.start).trim()) {
+        last.end = Math.max(last.end, span.end);
+      } else {
+        merged.push({ ...span });
+      }
+    }
+
+    const tokens: MarkupToken[] = [];
+    let result = '';
+    let cursor = 0;
+    merged.forEach((span, index) => {
+      const placeholder = placeholderOf(index);
+      tokens.push({ placeholder, source: text.slice(span.start, span.end) });
+      result += text.slice(cursor, span.start) + placeholder;
+      cursor = span.end;
+    });
+    result += text.slice(cursor);
+
+    return { text: result, tokens, onlyMarkup: !this.hasTranslatableText(result) };
+  }
+
+  // 去掉占位符后是否还有文字需要翻译
+  hasTranslatableText(text: string): boolean {
+    return /\p{L}/u.test(text.replace(PLACEHOLDER_PATTERN, ''));
+  }
+
+  // partial 为流式输出或分批翻译的中间结果，不检查占位符是否齐全
+  restore(translatedText: string, markup: ProtectedMarkup, partial: boolean = false): RestoredMarkup {
+    if (markup.tokens.length === 0) {
+      return { text: translatedText, warnings: [] };
+    }
+
+    const counts = new Map<number, number>();
+    const text = translatedText.replace(PLACEHOLDER_PATTERN, (placeholder, index: string) => {
+      const token = markup.tokens[Number(index)];
+      if (!token) return placeholder;
+      counts.set(Number(index), (counts.get(Number(index)) || 0) + 1);
+      return token.source;
+    });
+
+    if (partial) {
+      return { text, warnings: [] };
+    }
+
+    const warnings: string[] = [];
+    markup.tokens.forEach((token, index) => {
+      const count = counts.get(index) || 0;
+      if (count === 0) {
+        warnings.push(`占位符丢失: ${token.source.trim()}`);
+      } else if (count > 1) {
+        warnings.push(`占位符重复: ${token.source.trim()}`);
+      }
+    });
+    if (warnings.length > 0) {
+      console.warn('⚠️ 译文中的标记与原文不一致:', warnings);
+    }
+
+    return { text, warnings };
+  }
+}
+
+// 导出单例实例
+export const markupService = new MarkupService();
@@ -0,0 +1,210 @@
+// 离线翻译服务：不发起任何网络请求，只从本地缓存、历史记录、术语表和内置短语本中查找译文
+import { translationCacheService } from './cacheService';
+import { openaiTranslationService } from './openaiTranslationService';
+import { PHRASEBOOK } from '../config/phrasebook';
+import { detectLanguage } from '../utils/languageDetection';
+import { NetworkError } from './translationErrors';
+
+// 用户数据（历史记录、术语表）统一转换为离线词条
+export interface OfflineEntry {
+  sourceText: string;
+  translatedText: string;
+  sourceLang: string;
+  targetLang: string;
+}
+
+export type OfflineEntrySource = 'glossary' | 'history';
+export type OfflineMatchSource = OfflineEntrySource | 'cache' | 'phrasebook';
+
+export interface OfflineTranslationResult {
+  translatedText: string;
+  confidence: number;
+  detectedLanguage?: string;
+  source: OfflineMatchSource; // 逐行拼接时为置信度最低的一行的来源
+  approximate: boolean; // 逐行拼接得到的结果（可能有未翻译的行）
+}
+
+// 各来源的置信度，均低于在线引擎
+const SOURCE_CONFIDENCE: Record<OfflineMatchSource, number> = {
+  glossary: 0.8,
+  history: 0.75,
+  cache: 0.7,
+  phrasebook: 0.6
+};
+
+// 查找顺序：用户维护的术语表优先，内置短语本最后
+const ENTRY_SOURCES: OfflineEntrySource[] = ['glossary', 'history'];
+
+// 在线提供方写入文本缓存时使用的模型标识
+const CACHE_MODELS = (): string[] => [
+  'baidu',
+  'google',
+  `openai:${openaiTranslationService.getModelName()}:general:neutral`
+];
+
+// 忽略大小写、多余空白和句末标点
+const normalize = (text: string): string =>
+  text.trim().toLowerCase().replace(/\s+/g, ' ').replace(/[.!?。！？]+$/u, '').trim();
+
+const indexKey = (targetLang: string, text: string) => `${targetLang}\u0000${normalize(text)}`;
+
+export class OfflineTranslationService {
+  private indexes = new Map<OfflineEntrySource, Map<string, OfflineEntry[]>>();
+
+  // 替换某一来源的全部词条
+  setEntries(source: OfflineEntrySource, entries: OfflineEntry[]): void {
+    const index = new Map<string, OfflineEntry[]>();
+    entries.forEach(entry => {
+      if (!entry.sourceText.trim() || !entry.translatedText.trim()) return;
+      const key = indexKey(entry.targetLang, entry.sourceText);
+      const list = index.get(key);
+      if (list) {
+        list.push(entry);
+      } else {
+        index.set(key, [entry]);
+      }
+    });
+    this.indexes.set(source, index);
+  }
+
+  async translateText(text: string, sourceLang: string, targetLang: string): Promise<OfflineTranslationResult> {
+    const whole = await this.lookup(text, sourceLang, targetLang);
+    if (whole) {
+      return { ...whole, approximate: false };
+    }
+
+    // 整段找不到时逐行查找，未命中的行保留原文
+    const lines = text.split('\n');
+    let matchedLines = 0;
+    let totalLines = 0;
+    let lowestConfidence = 1;
+    let weakestSource: OfflineMatchSource = 'phrasebook';
+    let detectedLanguage: string | undefined;
+
+    const translatedLines: string[] = [];
+    for (const line of lines) {
+      if (!line.trim()) {
+        translatedLines.push(line);
+        continue;
+      }
+      totalLines++;
+
+      const match = await this.lookup(line, sourceLang, targetLang);
+      if (!match) {
+        translatedLines.push(line);
+        continue;
+      }
+
+      matchedLines++;
+      if (match.confidence <= lowestConfidence) {
+        lowestConfidence = match.confidence;
+        weakestSource = match.source;
+      }
+      detectedLanguage = detectedLanguage || match.detectedLanguage;
+      translatedLines.push(match.translatedText);
+    }
+
+    if (matchedLines === 0) {
+      throw new NetworkError('离线模式下未找到该文本的译文（仅支持翻译过的文本、术语表和常用短语）', {
+        code: 'OFFLINE_NO_MATCH',
+        provider: 'offline',
+        retryable: false
+      });
+    }
+
+    return {
+      translatedText: translatedLines.join('\n'),
+      confidence: Math.round(lowestConfidence * (matchedLines / totalLines) * 0.8 * 100) / 100,
+      detectedLanguage,
+      source: weakestSource,
+      approximate: true
+    };
+  }
+
+  // 本地检测，无法识别时按英语处理
+  detectLanguage(text: string): string {
+    return detectLanguage(text, 'en');
+  }
+
+  private async lookup(
+    text: string,
+    sourceLang: string,
+    targetLang: string
+  ): Promise<Omit<OfflineTranslationResult, 'approximate'> | null> {
+    if (!text.trim()) return null;
+
+    for (const source of ENTRY_SOURCES) {
+      const candidates = this.indexes.get(source)?.get(indexKey(targetLang, text)) || [];
+      const entry = candidates.find(candidate => sourceLang === 'auto' || candidate.sourceLang === sourceLang);
+      if (entry) {
+        return {
+          translatedText: entry.translatedText,
+          confidence: SOURCE_CONFIDENCE[source],
+          detectedLanguage: sourceLang === 'auto' ? entry.sourceLang : undefined,
+          source
+        };
+      }
+    }
+
+    const cached = await this.lookupCache(text, sourceLang, targetLang);
+    if (cached) return cached;
+
+    return this.lookupPhrasebook(text, sourceLang, targetLang);
+  }
+
+  private async lookupCache(
+    text: string,
+    sourceLang: string,
+    targetLang: string
+  ): Promise<Omit<OfflineTranslationResult, 'approximate'> | null> {
+    const sourceLangs = sourceLang === 'auto'
+      ? Array.from(new Set(['auto', this.detectLanguage(text)]))
+      : [sourceLang];
+    const texts = Array.from(new Set([text, text.trim()]));
+
+    for (const model of CACHE_MODELS()) {
+      for (const lang of sourceLangs) {
+        for (const candidate of texts) {
+          const cached = await translationCacheService.getCachedTextTranslation(candidate, lang, targetLang, model);
+          if (cached) {
+            return {
+              translatedText: cached.translatedText,
+              confidence: Math.min(cached.confidence, SOURCE_CONFIDENCE.cache),
+              detectedLanguage: cached.detectedLanguage || (lang !== 'auto' ? lang : undefined),
+              source: 'cache'
+            };
+          }
+        }
+      }
+    }
+    return null;
+  }
+
+  private lookupPhrasebook(
+    text: string,
+    sourceLang: string,
+    targetLang: string
+  ): Omit<OfflineTranslationResult, 'approximate'> | null {
+    const key = normalize(text);
+
+    for (const entry of PHRASEBOOK) {
+      const target = entry[targetLang];
+      if (!target) continue;
+
+      const langs = sourceLang === 'auto' ? Object.keys(entry) : [sourceLang];
+      const matchedLang = langs.find(lang => lang !== targetLang && normalize(entry[lang] || '') === key);
+      if (matchedLang) {
+        return {
+          translatedText: target,
+          confidence: SOURCE_CONFIDENCE.phrasebook,
+          detectedLanguage: sourceLang === 'auto' ? matchedLang : undefined,
+          source: 'phrasebook'
+        };
+      }
+    }
+    return null;
+  }
+}
+
+// 导出单例实例
+export const offlineTranslationService = new OfflineTranslationService();
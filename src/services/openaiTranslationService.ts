@@ -0,0 +1,295 @@
+import axios from 'axios';
+import { RetryHandler, UsageStatsManager } from './apiUtils';
+import { translationCacheService } from './cacheService';
+import { AuthError } from './translationErrors';
+import { environmentConfig } from '../utils/browserDetection';
+import { createCancelledError, isCancelledError } from '../utils/abort';
+import { getLanguageByCode } from '../config/languages';
+import type { TranslationTone, TranslationType } from './translationService';
+
+// OpenAI 兼容接口配置（也可指向本地 llama.cpp / Ollama 等服务）
+const OPENAI_API_CONFIG = {
+  apiKey: import.meta.env.VITE_OPENAI_API_KEY || '',
+  baseUrl: (import.meta.env.VITE_OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/+$/, ''),
+  model: import.meta.env.VITE_OPENAI_MODEL || 'gpt-4o-mini',
+  temperature: 0.2,
+  // LLM 生成较慢，超时时间比普通接口长
+  timeout: 60000
+};
+
+// 各翻译类型的系统提示词模板，{source} / {target} 在运行时替换
+export const PROMPT_TEMPLATES: Record<TranslationType, string> = {
+  general:
+    'You are a professional translator. Translate the user message from {source} to {target}. ' +
+    'Output only the translation, without explanations, quotes or notes.',
+  ui:
+    'You are a software localization expert. Translate the user message, which is a user interface string, from {source} to {target}. ' +
+    'Keep it concise and consistent with common UI conventions. Preserve placeholders such as {name}, {{count}}, %s, %d and HTML tags exactly as they are. ' +
+    'Do not add trailing punctuation that is not in the source. Output only the translated string.',
+  casual:
+    'You are translating a casual chat message from {source} to {target}. ' +
+    'Use natural, colloquial phrasing a native speaker would use in conversation, keep emoji and slang meaning intact. ' +
+    'Output only the translation.',
+  legal:
+    'You are a legal translator. Translate the user message, which is legal text, from {source} to {target}. ' +
+    'Use precise, established legal terminology, do not paraphrase or summarize, and preserve clause numbering, defined terms and structure. ' +
+    'Output only the translation.'
+};
+
+const TONE_INSTRUCTIONS: Record<TranslationTone, string> = {
+  neutral: '',
+  formal: 'Use a formal, polite register (for example vous / Sie / usted / 您 / です・ます).',
+  informal: 'Use an informal, friendly register (for example tu / du / tú / 你 / plain form).'
+};
+
+export interface LlmTranslationRequest {
+  text: string;
+  sourceLang: string;
+  targetLang: string;
+  translationType?: TranslationType;
+  tone?: TranslationTone;
+  signal?: AbortSignal; // 取消时中止请求或正在读取的流
+}
+
+interface ChatMessage {
+  role: 'system' | 'user';
+  content: string;
+}
+
+interface ChatCompletionResponse {
+  choices: Array<{
+    message?: { content: string };
+    delta?: { content?: string };
+  }>;
+  usage?: { prompt_tokens: number; completion_tokens: number };
+}
+
+function describeLanguage(code: string): string {
+  if (code === 'auto') return 'the detected source language';
+  return getLanguageByCode(code)?.name || code;
+}
+
+// 构造与 axios 一致的错误结构，便于 ApiErrorHandler 分类
+function createHttpError(status: number, data: unknown): Error {
+  return Object.assign(new Error(`LLM翻译API错误 (${status})`), {
+    response: { status, data }
+  });
+}
+
+// OpenAI 兼容 LLM 翻译服务类
+export class OpenAITranslationService {
+  isConfigured(): boolean {
+    // 官方接口必须提供 API Key，本地兼容服务通常不需要
+    return !!OPENAI_API_CONFIG.apiKey || !OPENAI_API_CONFIG.baseUrl.includes('api.openai.com');
+  }
+
+  getModelName(): string {
+    return OPENAI_API_CONFIG.model;
+  }
+
+  buildMessages(request: LlmTranslationRequest): ChatMessage[] {
+    const template = PROMPT_TEMPLATES[request.translationType || 'general'];
+    const toneInstruction = TONE_INSTRUCTIONS[request.tone || 'neutral'];
+    const systemPrompt = template
+      .replace('{source}', describeLanguage(request.sourceLang))
+      .replace('{target}', describeLanguage(request.targetLang));
+
+    return [
+      { role: 'system', content: toneInstruction ? `${systemPrompt} ${toneInstruction}` : systemPrompt },
+      { role: 'user', content: request.text }
+    ];
+  }
+
+  private buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (OPENAI_API_CONFIG.apiKey) {
+      headers['Authorization'] = `Bearer ${OPENAI_API_CONFIG.apiKey}`;
+    }
+    return headers;
+  }
+
+  // 文本翻译；提供 onPartial 时使用流式输出
+  async translateText(
+    request: LlmTranslationRequest,
+    onPartial?: (partialText: string) => void
+  ): Promise<{
+    translatedText: string;
+    confidence: number;
+    detectedLanguage?: string;
+  }> {
+    if (!this.isConfigured()) {
+      throw new AuthError('OpenAI翻译API配置缺失，请检查环境变量 VITE_OPENAI_API_KEY 或 VITE_OPENAI_BASE_URL', { code: 'NOT_CONFIGURED', provider: 'openai' });
+    }
+
+    // 提示词模板和语气都会影响译文，作为缓存维度
+    const cacheModel = `openai:${OPENAI_API_CONFIG.model}:${request.translationType || 'general'}:${request.tone || 'neutral'}`;
+    const cachedResult = await translationCacheService.getCachedTextTranslation(
+      request.text,
+      request.sourceLang,
+      request.targetLang,
+      cacheModel
+    );
+
+    if (cachedResult) {
+      console.log('使用缓存的翻译结果');
+      onPartial?.(cachedResult.translatedText);
+      return cachedResult;
+    }
+
+    const messages = this.buildMessages(request);
+    const operation = async () => {
+      const content = onPartial
+        ? await this.streamCompletion(messages, onPartial, request.signal)
+        : await this.completion(messages, request.signal);
+
+      return {
+        translatedText: content.trim(),
+        confidence: 0.9 // LLM 不返回置信度，使用固定值
+      };
+    };
+
+    try {
+      const result = await RetryHandler.executeWithRetry(operation, {
+        maxRetries: environmentConfig.maxRetries,
+        baseDelay: environmentConfig.retryDelay,
+        maxDelay: environmentConfig.retryDelay * 4,
+        signal: request.signal
+      });
+
+      // 提示词和译文都计费，按两者的字符数折算
+      const billedCharacters = messages.reduce((sum, message) => sum + message.content.length, 0) + result.translatedText.length;
+      UsageStatsManager.updateStats('text', request.text.length, true, 'openai', billedCharacters);
+
+      translationCacheService.setCachedTextTranslation(
+        request.text,
+        request.sourceLang,
+        request.targetLang,
+        result,
+        cacheModel
+      );
+
+      return result;
+    } catch (error) {
+      if (isCancelledError(error)) {
+        throw error;
+      }
+      console.error('❌ LLM翻译API调用失败:', error);
+      UsageStatsManager.updateStats('text', request.text.length, false, 'openai');
+      throw error;
+    }
+  }
+
+  private async completion(messages: ChatMessage[], signal?: AbortSignal): Promise<string> {
+    const response = await axios.post<ChatCompletionResponse>(
+      `${OPENAI_API_CONFIG.baseUrl}/chat/completions`,
+      {
+        model: OPENAI_API_CONFIG.model,
+        messages,
+        temperature: OPENAI_API_CONFIG.temperature
+      },
+      { headers: this.buildHeaders(), timeout: OPENAI_API_CONFIG.timeout, signal }
+    );
+
+    return response.data.choices[0]?.message?.content || '';
+  }
+
+  // 以 SSE 方式读取 chat completions 流，逐步回调累计的译文
+  private async streamCompletion(
+    messages: ChatMessage[],
+    onPartial: (partialText: string) => void,
+    signal?: AbortSignal
+  ): Promise<string> {
+    let response: Response;
+    try {
+      response = await fetch(`${OPENAI_API_CONFIG.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: this.buildHeaders(),
+        signal,
+        body: JSON.stringify({
+          model: OPENAI_API_CONFIG.model,
+          messages,
+          temperature: OPENAI_API_CONFIG.temperature,
+          stream: true
+        })
+      });
+    } catch (error) {
+      if (isCancelledError(error)) {
+        throw createCancelledError(error);
+      }
+      // fetch 的网络错误是 TypeError，统一成 ApiErrorHandler 能识别的网络错误
+      throw Object.assign(new Error('Network Error'), { code: 'NETWORK_ERROR', cause: error });
+    }
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw createHttpError(response.status, data);
+    }
+
+    // 不支持流式的兼容服务会直接返回完整 JSON
+    if (!response.body || !response.headers.get('content-type')?.includes('text/event-stream')) {
+      const data = await response.json() as ChatCompletionResponse;
+      const content = data.choices[0]?.message?.content || '';
+      onPartial(content);
+      return content;
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let text = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('data:')) continue;
+
+        const payload = trimmed.slice(5).trim();
+        if (payload === '[DONE]') {
+          return text;
+        }
+
+        try {
+          const chunk = JSON.parse(payload) as ChatCompletionResponse;
+          const delta = chunk.choices[0]?.delta?.content;
+          if (delta) {
+            text += delta;
+            onPartial(text);
+          }
+        } catch {
+          console.warn('忽略无法解析的流数据块:', payload);
+        }
+      }
+    }
+
+    return text;
+  }
+
+  // 语言检测：让模型只返回 ISO 639-1 代码
+  async detectLanguage(text: string): Promise<string> {
+    const messages: ChatMessage[] = [
+      {
+        role: 'system',
+        content: 'Identify the language of the user message. Reply with only its lowercase ISO 639-1 code (for example en, zh, ja) and nothing else.'
+      },
+      { role: 'user', content: text.slice(0, 500) }
+    ];
+
+    const content = await RetryHandler.executeWithRetry(() => this.completion(messages), {
+      maxRetries: environmentConfig.maxRetries,
+      baseDelay: environmentConfig.retryDelay
+    });
+
+    const code = content.trim().toLowerCase().match(/[a-z]{2}/)?.[0];
+    return code || 'en';
+  }
+}
+
+// 导出单例实例
+export const openaiTranslationService = new OpenAITranslationService();
@@ -0,0 +1,191 @@
+// 计费方案：各提供方的套餐（免费额度、阶梯单价、按张/按分钟计费、币种）
+// 用量统计按所选套餐和实际计费量计算费用，统一折算为人民币分
+import type { UsageType } from './apiUtils';
+
+export type Currency = 'CNY' | 'USD';
+export type BillingUnit = 'character' | 'image' | 'minute';
+
+// 阶梯按本月累计计费量划分，upTo 为该档上限（不含免费额度），最后一档不设上限
+export interface PricingTier {
+  upTo?: number;
+  price: number; // 每 per 个计费单位的价格（套餐币种）
+}
+
+export interface PricingRate {
+  unit: BillingUnit;
+  per: number; // 计价单位数量，如每百万字符、每千张
+  freeQuota: number; // 每月免费额度（计费单位）
+  tiers: PricingTier[];
+}
+
+export interface PricingPlan {
+  id: string;
+  provider: string;
+  name: string;
+  description?: string;
+  currency: Currency;
+  rates: Partial<Record<UsageType, PricingRate>>; // 没有的翻译方式不计费
+}
+
+// 折算为人民币的汇率
+export const EXCHANGE_RATES: Record<Currency, number> = {
+  CNY: 1,
+  USD: 7.2
+};
+
+export const BILLING_UNIT_LABELS: Record<BillingUnit, string> = {
+  character: '字符',
+  image: '张',
+  minute: '分钟'
+};
+
+// 语音按分钟计费时，没有音频时长可用的情况下按该语速从字符数估算
+const SPEECH_CHARACTERS_PER_MINUTE = 200;
+
+const BAIDU_IMAGE_RATE: PricingRate = { unit: 'image', per: 1000, freeQuota: 0, tiers: [{ price: 1.5 }] };
+const BAIDU_SPEECH_RATE: PricingRate = { unit: 'minute', per: 60, freeQuota: 0, tiers: [{ price: 1.2 }] };
+
+// 参考各服务商公开价格，实际以服务商账单为准；每个提供方的第一个方案为默认方案
+export const PRICING_PLANS: PricingPlan[] = [
+  {
+    id: 'baidu-standard',
+    provider: 'baidu',
+    name: '百度 标准版',
+    description: '每月免费 5 万字符',
+    currency: 'CNY',
+    rates: {
+      text: { unit: 'character', per: 1000000, freeQuota: 50000, tiers: [{ price: 49 }] },
+      image: BAIDU_IMAGE_RATE,
+      speech: BAIDU_SPEECH_RATE
+    }
+  },
+  {
+    id: 'baidu-premium',
+    provider: 'baidu',
+    name: '百度 高级版',
+    description: '每月免费 100 万字符，超出 ¥49/百万字符',
+    currency: 'CNY',
+    rates: {
+      text: { unit: 'character', per: 1000000, freeQuota: 1000000, tiers: [{ price: 49 }] },
+      image: BAIDU_IMAGE_RATE,
+      speech: BAIDU_SPEECH_RATE
+    }
+  },
+  {
+    id: 'baidu-ultimate',
+    provider: 'baidu',
+    name: '百度 尊享版',
+    description: '每月免费 200 万字符，超出 1 亿字符后 ¥42/百万字符',
+    currency: 'CNY',
+    rates: {
+      text: {
+        unit: 'character',
+        per: 1000000,
+        freeQuota: 2000000,
+        tiers: [{ upTo: 100000000, price: 49 }, { price: 42 }]
+      },
+      image: BAIDU_IMAGE_RATE,
+      speech: BAIDU_SPEECH_RATE
+    }
+  },
+  {
+    id: 'google-basic',
+    provider: 'google',
+    name: 'Google Cloud Translation Basic',
+    description: '每月免费 50 万字符，超出 $20/百万字符',
+    currency: 'USD',
+    rates: {
+      text: { unit: 'character', per: 1000000, freeQuota: 500000, tiers: [{ price: 20 }] }
+    }
+  },
+  {
+    id: 'openai-hosted',
+    provider: 'openai',
+    name: 'OpenAI 托管模型',
+    description: '按 token 计费，按提示词和译文的字符数粗略折算',
+    currency: 'USD',
+    rates: {
+      text: { unit: 'character', per: 1000000, freeQuota: 0, tiers: [{ price: 0.3 }] }
+    }
+  },
+  {
+    id: 'openai-self-hosted',
+    provider: 'openai',
+    name: '自建模型（llama.cpp / Ollama）',
+    description: '本地或自建的兼容接口，不产生费用',
+    currency: 'CNY',
+    rates: {}
+  },
+  {
+    id: 'mock-free',
+    provider: 'mock',
+    name: '模拟翻译',
+    currency: 'CNY',
+    rates: {}
+  }
+];
+
+class PricingService {
+  private selectedPlans: Record<string, string> = {};
+
+  // 用户为各提供方选择的方案（提供方 id → 方案 id）
+  setSelectedPlans(plans: Record<string, string>): void {
+    this.selectedPlans = { ...plans };
+  }
+
+  getPlans(provider?: string): PricingPlan[] {
+    return provider ? PRICING_PLANS.filter(plan => plan.provider === provider) : [...PRICING_PLANS];
+  }
+
+  // 所选方案，未选择或已失效时取该提供方的默认方案；未知提供方返回 undefined
+  getPlan(provider: string): PricingPlan | undefined {
+    const plans = this.getPlans(provider);
+    return plans.find(plan => plan.id === this.selectedPlans[provider]) || plans[0];
+  }
+
+  getRate(provider: string, type: UsageType): PricingRate | undefined {
+    return this.getPlan(provider)?.rates[type];
+  }
+
+  // 没有实际计费量时的默认值：文本按字符，图片按张，语音按字符数估算分钟
+  defaultBilledUnits(type: UsageType, characters: number): number {
+    switch (type) {
+      case 'text':
+        return characters;
+      case 'image':
+        return 1;
+      case 'speech':
+        return characters / SPEECH_CHARACTERS_PER_MINUTE;
+    }
+  }
+
+  // 本次用量的费用（人民币分）；monthlyUnitsBefore 为本月此前的计费量，用于扣除免费额度和确定阶梯
+  quote(provider: string, type: UsageType, units: number, monthlyUnitsBefore: number = 0): number {
+    const plan = this.getPlan(provider);
+    const rate = plan?.rates[type];
+    if (!plan || !rate || units <= 0) return 0;
+
+    const amount = this.cumulativeCost(rate, monthlyUnitsBefore + units) - this.cumulativeCost(rate, monthlyUnitsBefore);
+    return amount * EXCHANGE_RATES[plan.currency] * 100;
+  }
+
+  // 本月累计计费量对应的总费用（套餐币种）
+  private cumulativeCost(rate: PricingRate, totalUnits: number): number {
+    let remaining = Math.max(0, totalUnits - rate.freeQuota);
+    let tierStart = 0;
+    let cost = 0;
+
+    for (const tier of rate.tiers) {
+      if (remaining <= 0) break;
+      const size = tier.upTo === undefined ? remaining : Math.min(remaining, tier.upTo - tierStart);
+      cost += (size / rate.per) * tier.price;
+      remaining -= size;
+      tierStart = tier.upTo ?? tierStart;
+    }
+
+    return cost;
+  }
+}
+
+// 导出单例实例
+export const pricingService = new PricingService();
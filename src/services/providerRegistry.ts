@@ -0,0 +1,183 @@
+// 翻译服务提供方注册表：所有翻译引擎在此登记，设置页、主翻译服务和状态存储共用这一份数据
+import type { TranslationRequest, TranslationResponse, TranslateOptions } from './translationService';
+
+// 提供方标识（内置: baidu / google / openai / offline / mock，团队可注册自定义引擎）
+export type ProviderId = string;
+
+// 未指定或指定了未注册的提供方时使用的默认值
+export const DEFAULT_PROVIDER_ID: ProviderId = 'baidu';
+
+// 离线模式下唯一使用的提供方
+export const OFFLINE_PROVIDER_ID: ProviderId = 'offline';
+
+// 能力标记
+export interface ProviderCapabilities {
+  text: boolean;
+  image: boolean;
+  speech: boolean;
+  detection: boolean;
+  batch: boolean;
+}
+
+// 支持的语言（'*' 表示不限制）
+export interface ProviderLanguageSupport {
+  source: string[] | '*';
+  target: string[] | '*';
+  // 额外排除的语言对，例如某引擎不支持 ja -> ko
+  excludedPairs?: Array<{ source: string; target: string }>;
+}
+
+// 翻译引擎实例需要实现的最小接口
+export interface TranslationEngine {
+  translate(request: TranslationRequest, options?: TranslateOptions): Promise<TranslationResponse>;
+  detectLanguage(text: string): Promise<string>;
+  // 声明 batch 能力的提供方实现，按输入顺序返回每个片段的译文
+  translateBatch?(
+    segments: string[],
+    sourceLang: string,
+    targetLang: string,
+    options?: TranslateOptions
+  ): Promise<TranslationResponse[]>;
+}
+
+// 健康检查结果
+export interface ProviderHealth {
+  healthy: boolean;
+  latency: number; // 毫秒
+  checkedAt: number;
+  message?: string;
+}
+
+// 提供方定义
+export interface TranslationProviderDefinition {
+  id: ProviderId;
+  displayName: string;
+  description?: string;
+  // 凭据来自 VITE_ 环境变量、随前端打包，不经过翻译代理
+  clientSideCredentials?: boolean;
+  capabilities: ProviderCapabilities;
+  languages: ProviderLanguageSupport;
+  create: () => TranslationEngine;
+  // 返回 true 表示可用；未提供时使用一次短文本翻译作为探测
+  healthCheck?: (engine: TranslationEngine) => Promise<boolean>;
+}
+
+export type ProviderCapability = keyof ProviderCapabilities;
+
+export class ProviderRegistry {
+  private providers = new Map<ProviderId, TranslationProviderDefinition>();
+  private engines = new Map<ProviderId, TranslationEngine>();
+  private health = new Map<ProviderId, ProviderHealth>();
+
+  register(definition: TranslationProviderDefinition): void {
+    if (this.providers.has(definition.id)) {
+      console.warn('⚠️ 翻译提供方已存在，将被覆盖:', definition.id);
+      this.engines.delete(definition.id);
+      this.health.delete(definition.id);
+    }
+    this.providers.set(definition.id, definition);
+  }
+
+  unregister(id: ProviderId): boolean {
+    this.engines.delete(id);
+    this.health.delete(id);
+    return this.providers.delete(id);
+  }
+
+  has(id: ProviderId): boolean {
+    return this.providers.has(id);
+  }
+
+  get(id: ProviderId): TranslationProviderDefinition | undefined {
+    return this.providers.get(id);
+  }
+
+  list(): TranslationProviderDefinition[] {
+    return Array.from(this.providers.values());
+  }
+
+  // 按能力和语言对筛选提供方
+  find(filter: {
+    capability?: ProviderCapability;
+    sourceLang?: string;
+    targetLang?: string;
+  } = {}): TranslationProviderDefinition[] {
+    return this.list().filter(provider => {
+      if (filter.capability && !provider.capabilities[filter.capability]) {
+        return false;
+      }
+      if (filter.sourceLang && filter.targetLang) {
+        return this.supportsPair(provider.id, filter.sourceLang, filter.targetLang);
+      }
+      return true;
+    });
+  }
+
+  supportsPair(id: ProviderId, sourceLang: string, targetLang: string): boolean {
+    const provider = this.providers.get(id);
+    if (!provider) return false;
+
+    const { source, target, excludedPairs } = provider.languages;
+    const sourceOk = source === '*' || source.includes(sourceLang);
+    const targetOk = target === '*' || target.includes(targetLang);
+    const excluded = excludedPairs?.some(p => p.source === sourceLang && p.target === targetLang);
+
+    return sourceOk && targetOk && !excluded;
+  }
+
+  // 获取（懒创建）引擎实例
+  getEngine(id: ProviderId): TranslationEngine {
+    const provider = this.providers.get(id);
+    if (!provider) {
+      throw new Error(`未注册的翻译提供方: ${id}`);
+    }
+
+    let engine = this.engines.get(id);
+    if (!engine) {
+      console.log('- 创建新的服务实例:', id);
+      engine = provider.create();
+      this.engines.set(id, engine);
+    }
+    return engine;
+  }
+
+  async checkHealth(id: ProviderId): Promise<ProviderHealth> {
+    const provider = this.providers.get(id);
+    const startTime = Date.now();
+    let healthy = false;
+    let message: string | undefined;
+
+    try {
+      if (!provider) {
+        throw new Error(`未注册的翻译提供方: ${id}`);
+      }
+      const engine = this.getEngine(id);
+      if (provider.healthCheck) {
+        healthy = await provider.healthCheck(engine);
+      } else {
+        const result = await engine.translate({ text: 'test', sourceLang: 'en', targetLang: 'zh', model: id });
+        healthy = !!result.translatedText;
+      }
+    } catch (error) {
+      healthy = false;
+      message = error instanceof Error ? error.message : String(error);
+    }
+
+    const health: ProviderHealth = {
+      healthy,
+      latency: Date.now() - startTime,
+      checkedAt: Date.now(),
+      message
+    };
+    this.health.set(id, health);
+    return health;
+  }
+
+  // 获取最近一次健康检查结果
+  getHealth(id: ProviderId): ProviderHealth | undefined {
+    return this.health.get(id);
+  }
+}
+
+// 导出单例实例
+export const providerRegistry = new ProviderRegistry();
@@ -0,0 +1,350 @@
+// 译文质量检查：回译后与原文比较相似度，并检查漏译片段、数字 / 日期 / 占位符不一致和长度异常
+// 本地检查不发请求，每次翻译都会做；回译需要再调用一次翻译接口，在设置中开启
+import { translationService, type TranslationRequest } from './translationService';
+import type { ProviderId } from './providerRegistry';
+import { detectLanguage } from '../utils/languageDetection';
+import { isCancelledError } from '../utils/abort';
+
+export type QualityIssueType =
+  | 'untranslated'
+  | 'number-mismatch'
+  | 'date-mismatch'
+  | 'placeholder-mismatch'
+  | 'length-anomaly'
+  | 'low-similarity';
+
+export interface QualityIssue {
+  type: QualityIssueType;
+  message: string;
+  spans?: string[]; // 涉及的原文片段、数字或占位符
+}
+
+export interface QualityReport {
+  score: number; // 0-1，写入历史记录的 confidence
+  similarity?: number; // 回译与原文的相似度，未回译时为空
+  backTranslation?: string;
+  issues: QualityIssue[];
+}
+
+export interface QualityCheckOptions {
+  backTranslate?: boolean;
+  baseConfidence?: number; // 未回译时的基础分，通常是提供方给出的置信度
+  model?: ProviderId;
+  signal?: AbortSignal;
+}
+
+// 每类问题对分数的折扣
+const ISSUE_PENALTIES: Record<QualityIssueType, number> = {
+  untranslated: 0.7,
+  'number-mismatch': 0.8,
+  'date-mismatch': 0.8,
+  'placeholder-mismatch': 0.7,
+  'length-anomaly': 0.85,
+  'low-similarity': 1 // 已体现在相似度中
+};
+
+const LOW_SIMILARITY_THRESHOLD = 0.35;
+
+// 短文本长度波动大，不做长度检查
+const MIN_LENGTH_CHECK_CHARS = 20;
+const LENGTH_RATIO_RANGE: [number, number] = [0.4, 2.5];
+
+// 漏译判定：连续这么多个词（或 CJK 字符）原样出现在译文中
+const MIN_UNTRANSLATED_WORDS = 4;
+const MIN_UNTRANSLATED_CJK_CHARS = 6;
+
+// 超过该长度只做整体检查，避免逐词查找过慢
+const MAX_SPAN_CHECK_CHARS = 5000;
+
+// 表达同样内容所需的相对字符数（以英语为 1）
+const CHARACTER_DENSITY: Record<string, number> = {
+  zh: 0.3,
+  ja: 0.45,
+  ko: 0.45,
+  th: 0.9,
+  ar: 0.85
+};
+
+const CJK_LANGUAGES = ['zh', 'ja', 'ko'];
+
+const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6, jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12
+};
+
+const DATE_PATTERNS: Array<{ pattern: RegExp; parse: (match: RegExpMatchArray) => [number, number, number] | null }> = [
+  { pattern: /(\d{4})\s*年\s*(\d{1,2})\s*月\s*(\d{1,2})\s*[日号]/g, parse: m => [+m[1], +m[2], +m[3]] },
+  { pattern: /(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/g, parse: m => [+m[1], +m[2], +m[3]] },
+  { pattern: /(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})/g, parse: m => [+m[3], +m[1], +m[2]] },
+  {
+    pattern: /\b([A-Za-z]{3,9})\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})/g,
+    parse: m => (MONTHS[m[1].slice(0, 3).toLowerCase()] ? [+m[3], MONTHS[m[1].slice(0, 3).toLowerCase()], +m[2]] : null)
+  },
+  {
+    pattern: /\b(\d{1,2})(?:st|nd|rd|th)?\.?\s+([A-Za-z]{3,9})\.?\s+(\d{4})/g,
+    parse: m => (MONTHS[m[2].slice(0, 3).toLowerCase()] ? [+m[3], MONTHS[m[2].slice(0, 3).toLowerCase()], +m[1]] : null)
+  }
+];
+
+const PLACEHOLDER_PATTERN = new RegExp([
+  /\{\{[^{}]*\}\}/.source, // {{name}}
+  /\$\{[^{}]*\}/.source, // ${name}
+  /\{[\w.]+\}/.source, // {0} {name}
+  /%(?:\d+\$)?[-+ 0#]*\d*(?:\.\d+)?[sdifuxXeEgGc@]/.source, // printf
+  /<\/?[a-zA-Z][^<>]*>/.source // HTML 标签
+].join('|'), 'g');
+
+const URL_PATTERN = /https?:\/\/\S+|[\w.+-]+@[\w-]+\.[\w.]+/g;
+
+const isCjk = (char: string) => /[぀-ヿ㐀-鿿가-힯]/.test(char);
+
+// 单个 CJK 字符，或不含 CJK 的连续字母
+const WORD_OR_CJK_PATTERN = /[぀-ヿ㐀-鿿가-힯]|(?:(?![぀-ヿ㐀-鿿가-힯])\p{L})+/gu;
+const WORD_PATTERN = /(?:(?![぀-ヿ㐀-鿿가-힯])\p{L})+/gu;
+
+const primaryLanguage = (code: string) => code.split('-')[0].toLowerCase();
+
+// 多重集合的差：a 中有、b 中没有（或次数不够）的元素
+const multisetDifference = (a: string[], b: string[]): string[] => {
+  const remaining = new Map<string, number>();
+  b.forEach(item => remaining.set(item, (remaining.get(item) || 0) + 1));
+  return a.filter(item => {
+    const count = remaining.get(item) || 0;
+    if (count === 0) return true;
+    remaining.set(item, count - 1);
+    return false;
+  });
+};
+
+// 日期统一为 年-较小数-较大数，容忍月日顺序不同的写法
+const extractDates = (text: string): { keys: string[]; rest: string } => {
+  const keys: string[] = [];
+  let rest = text;
+  for (const { pattern, parse } of DATE_PATTERNS) {
+    rest = rest.replace(pattern, (...args) => {
+      const parsed = parse(args.slice(0, -2) as unknown as RegExpMatchArray);
+      if (!parsed) return args[0];
+      const [year, a, b] = parsed;
+      keys.push(`${year}-${Math.min(a, b)}-${Math.max(a, b)}`);
+      return ' ';
+    });
+  }
+  return { keys, rest };
+};
+
+// 去掉千分位和小数点后比较数字本身，忽略前导零（01 与 1 相同）
+const extractNumbers = (text: string): string[] =>
+  (text.match(/\d+(?:[.,]\d+)*/g) || []).map(value => value.replace(/[.,]/g, '').replace(/^0+(?=\d)/, ''));
+
+// 词（小写）和 CJK 字符二元组，用于相似度计算
+const similarityTokens = (text: string): string[] => {
+  const tokens: string[] = [];
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+  for (const word of words) {
+    const chars = [...word];
+    if (chars.some(isCjk)) {
+      if (chars.length === 1) tokens.push(word);
+      for (let i = 0; i < chars.length - 1; i++) {
+        tokens.push(chars[i] + chars[i + 1]);
+      }
+    } else {
+      tokens.push(word);
+    }
+  }
+  return tokens;
+};
+
+// Dice 系数：2 × 共同元素数 / 两边元素总数
+export const textSimilarity = (a: string, b: string): number => {
+  const tokensA = similarityTokens(a);
+  const tokensB = similarityTokens(b);
+  if (tokensA.length === 0 && tokensB.length === 0) return 1;
+  if (tokensA.length === 0 || tokensB.length === 0) return 0;
+  const shared = tokensA.length - multisetDifference(tokensA, tokensB).length;
+  return (2 * shared) / (tokensA.length + tokensB.length);
+};
+
+export class QualityCheckService {
+  /**
+   * 本地检查：不发请求，返回问题列表和按问题折扣后的分数
+   */
+  inspect(
+    sourceText: string,
+    translatedText: string,
+    sourceLang: string,
+    targetLang: string,
+    baseConfidence: number = 1
+  ): QualityReport {
+    const source = sourceLang === 'auto' ? detectLanguage(sourceText) : primaryLanguage(sourceLang);
+    const target = primaryLanguage(targetLang);
+    const issues = [
+      ...this.findUntranslated(sourceText, translatedText, source, target),
+      ...this.compareNumbersAndDates(sourceText, translatedText, source, target),
+      ...this.comparePlaceholders(sourceText, translatedText),
+      ...this.checkLength(sourceText, translatedText, source, target)
+    ];
+    return { score: this.score(baseConfidence, issues), issues };
+  }
+
+  /**
+   * 本地检查，开启回译时再把译文翻回源语言，以回译相似度作为基础分
+   */
+  async check(
+    sourceText: string,
+    translatedText: string,
+    sourceLang: string,
+    targetLang: string,
+    options: QualityCheckOptions = {}
+  ): Promise<QualityReport> {
+    const report = this.inspect(sourceText, translatedText, sourceLang, targetLang, options.baseConfidence);
+    if (!options.backTranslate || !translatedText.trim()) {
+      return report;
+    }
+
+    const backRequest: TranslationRequest = {
+      text: translatedText,
+      sourceLang: targetLang,
+      targetLang: sourceLang === 'auto' ? detectLanguage(sourceText) : sourceLang,
+      model: options.model
+    };
+
+    try {
+      // 回译不是用户在等的结果，排在交互请求之后
+      const back = await translationService.translate(backRequest, { priority: 'background', signal: options.signal });
+      const similarity = textSimilarity(sourceText, back.translatedText);
+      const issues = [...report.issues];
+      if (similarity < LOW_SIMILARITY_THRESHOLD) {
+        issues.push({
+          type: 'low-similarity',
+          message: `回译与原文差异较大（相似度 ${Math.round(similarity * 100)}%），译文可能有误`
+        });
+      }
+      // 回译难免改写措辞，开方后作为基础分
+      return {
+        score: this.score(Math.sqrt(similarity), issues),
+        similarity,
+        backTranslation: back.translatedText,
+        issues
+      };
+    } catch (error) {
+      if (isCancelledError(error)) {
+        throw error;
+      }
+      console.warn('回译失败，只保留本地检查结果:', error);
+      return report;
+    }
+  }
+
+  private score(base: number, issues: QualityIssue[]): number {
+    const types = new Set(issues.map(issue => issue.type));
+    let score = base;
+    types.forEach(type => {
+      score *= ISSUE_PENALTIES[type];
+    });
+    return Math.round(Math.max(0, Math.min(1, score)) * 100) / 100;
+  }
+
+  // 原文中连续多个词原样出现在译文里，视为漏译
+  private findUntranslated(sourceText: string, translatedText: string, source: string, target: string): QualityIssue[] {
+    if (source === target || !sourceText.trim() || !translatedText.trim()) return [];
+
+    if (sourceText.trim() === translatedText.trim()) {
+      return [{ type: 'untranslated', message: '译文与原文相同，可能未翻译', spans: [sourceText.trim().slice(0, 80)] }];
+    }
+    if (sourceText.length > MAX_SPAN_CHECK_CHARS) return [];
+
+    const clean = (text: string) => text.replace(PLACEHOLDER_PATTERN, ' ').replace(URL_PATTERN, ' ');
+    const tokens = clean(sourceText).match(WORD_OR_CJK_PATTERN) || [];
+    const translatedWords = ` ${(clean(translatedText).toLowerCase().match(WORD_PATTERN) || []).join(' ')} `;
+    const translatedCompact = clean(translatedText).replace(/\s+/g, '');
+
+    const spans: string[] = [];
+    let i = 0;
+    while (i < tokens.length) {
+      const cjk = isCjk(tokens[i]);
+      const contains = (end: number) => cjk
+        ? translatedCompact.includes(tokens.slice(i, end).join(''))
+        : translatedWords.includes(` ${tokens.slice(i, end).join(' ').toLowerCase()} `);
+
+      let end = i;
+      while (end < tokens.length && isCjk(tokens[end]) === cjk && contains(end + 1)) {
+        end++;
+      }
+
+      const minLength = cjk ? MIN_UNTRANSLATED_CJK_CHARS : MIN_UNTRANSLATED_WORDS;
+      if (end - i >= minLength) {
+        spans.push(tokens.slice(i, end).join(cjk ? '' : ' '));
+        i = end;
+      } else {
+        i++;
+      }
+    }
+
+    return spans.length > 0
+      ? [{ type: 'untranslated', message: `${spans.length} 处原文未翻译`, spans }]
+      : [];
+  }
+
+  private compareNumbersAndDates(sourceText: string, translatedText: string, source: string, target: string): QualityIssue[] {
+    const issues: QualityIssue[] = [];
+    const sourceDates = extractDates(sourceText);
+    const translatedDates = extractDates(translatedText);
+
+    const missingDates = multisetDifference(sourceDates.keys, translatedDates.keys);
+    if (missingDates.length > 0) {
+      issues.push({ type: 'date-mismatch', message: '译文中的日期与原文不一致', spans: missingDates });
+    }
+
+    // 中日韩译文常把个位数写成汉字，只比较两位以上的数字
+    const ignoreDigits = CJK_LANGUAGES.includes(source) || CJK_LANGUAGES.includes(target);
+    const keep = (value: string) => !ignoreDigits || value.length > 1;
+    const sourceNumbers = extractNumbers(sourceDates.rest).filter(keep);
+    const translatedNumbers = extractNumbers(translatedDates.rest).filter(keep);
+
+    const missing = multisetDifference(sourceNumbers, translatedNumbers);
+    const extra = multisetDifference(translatedNumbers, sourceNumbers);
+    if (missing.length > 0 || extra.length > 0) {
+      const parts = [
+        missing.length > 0 ? `缺少 ${missing.join('、')}` : '',
+        extra.length > 0 ? `多出 ${extra.join('、')}` : ''
+      ].filter(Boolean);
+      issues.push({ type: 'number-mismatch', message: `数字与原文不一致：${parts.join('，')}`, spans: [...missing, ...extra] });
+    }
+
+    return issues;
+  }
+
+  private comparePlaceholders(sourceText: string, translatedText: string): QualityIssue[] {
+    const sourcePlaceholders = sourceText.match(PLACEHOLDER_PATTERN) || [];
+    const translatedPlaceholders = translatedText.match(PLACEHOLDER_PATTERN) || [];
+    const missing = multisetDifference(sourcePlaceholders, translatedPlaceholders);
+    const extra = multisetDifference(translatedPlaceholders, sourcePlaceholders);
+    if (missing.length === 0 && extra.length === 0) return [];
+
+    const parts = [
+      missing.length > 0 ? `缺少 ${missing.join(' ')}` : '',
+      extra.length > 0 ? `多出 ${extra.join(' ')}` : ''
+    ].filter(Boolean);
+    return [{ type: 'placeholder-mismatch', message: `占位符或标签与原文不一致：${parts.join('，')}`, spans: [...missing, ...extra] }];
+  }
+
+  // 按语言的字符密度估算译文应有的长度，偏差过大时提示
+  private checkLength(sourceText: string, translatedText: string, source: string, target: string): QualityIssue[] {
+    const sourceChars = sourceText.replace(/\s+/g, '').length;
+    const translatedChars = translatedText.replace(/\s+/g, '').length;
+    if (sourceChars < MIN_LENGTH_CHECK_CHARS) return [];
+
+    const expected = sourceChars * (CHARACTER_DENSITY[target] ?? 1) / (CHARACTER_DENSITY[source] ?? 1);
+    const ratio = translatedChars / expected;
+    if (ratio >= LENGTH_RATIO_RANGE[0] && ratio <= LENGTH_RATIO_RANGE[1]) return [];
+
+    return [{
+      type: 'length-anomaly',
+      message: ratio < LENGTH_RATIO_RANGE[0]
+        ? `译文明显偏短（约为预期的 ${Math.round(ratio * 100)}%），可能有遗漏`
+        : `译文明显偏长（约为预期的 ${Math.round(ratio * 100)}%），可能有多余内容`
+    }];
+  }
+}
+
+// 导出单例实例
+export const qualityCheckService = new QualityCheckService();
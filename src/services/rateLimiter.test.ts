@@ -0,0 +1,211 @@
+// 客户端限流：令牌桶补充速度、请求队列的优先级、并发数和排队中取消
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BaiduRequestScheduler, PriorityRequestQueue, TokenBucket, type EndpointLimitConfig } from './rateLimiter';
+
+// 手动结束的任务，用来控制请求何时完成
+const deferred = () => {
+  let resolve!: (value: string) => void;
+  let reject!: (reason: unknown) => void;
+  const promise = new Promise<string>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('TokenBucket', () => {
+  it('初始为满桶，按每秒补充速度恢复，不超过容量', () => {
+    const bucket = new TokenBucket({ capacity: 2, refillPerSecond: 4 });
+
+    expect(bucket.tryTake()).toBe(true);
+    expect(bucket.tryTake()).toBe(true);
+    expect(bucket.tryTake()).toBe(false);
+
+    vi.advanceTimersByTime(200);
+    expect(bucket.getAvailableTokens()).toBeCloseTo(0.8);
+    expect(bucket.tryTake()).toBe(false);
+
+    vi.advanceTimersByTime(50);
+    expect(bucket.tryTake()).toBe(true);
+
+    vi.advanceTimersByTime(10 * 1000);
+    expect(bucket.getAvailableTokens()).toBe(2);
+  });
+
+  it('take 在没有令牌时等到补充出一个令牌', async () => {
+    const bucket = new TokenBucket({ capacity: 1, refillPerSecond: 2 });
+    await bucket.take();
+
+    let taken = false;
+    const pending = bucket.take().then(() => {
+      taken = true;
+    });
+
+    await vi.advanceTimersByTimeAsync(499);
+    expect(taken).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(1);
+    await pending;
+    expect(taken).toBe(true);
+    expect(bucket.getAvailableTokens()).toBe(0);
+  });
+});
+
+describe('PriorityRequestQueue', () => {
+  const config: EndpointLimitConfig = { qps: 1, burst: 1, concurrency: 1 };
+
+  it('按优先级出队，同优先级先进先出', async () => {
+    const queue = new PriorityRequestQueue(config);
+    const order: string[] = [];
+    const task = (name: string) => async () => {
+      order.push(name);
+      return name;
+    };
+
+    // 第一个请求立即用掉令牌，其余请求排队
+    const results = [
+      queue.schedule(task('first'), 'background'),
+      queue.schedule(task('background'), 'background'),
+      queue.schedule(task('normal-1')),
+      queue.schedule(task('interactive'), 'interactive'),
+      queue.schedule(task('normal-2'), 'normal')
+    ];
+    expect(queue.getStats().queuedByPriority).toEqual({ interactive: 1, normal: 2, background: 1 });
+
+    await vi.advanceTimersByTimeAsync(4000);
+    await Promise.all(results);
+
+    expect(order).toEqual(['first', 'interactive', 'normal-1', 'normal-2', 'background']);
+  });
+
+  it('按 QPS 出队，并记录排队等待时间', async () => {
+    const queue = new PriorityRequestQueue({ qps: 2, burst: 1, concurrency: 5 });
+    const startedAt: number[] = [];
+    const task = async () => {
+      startedAt.push(Date.now());
+    };
+    const start = Date.now();
+
+    const results = [queue.schedule(task), queue.schedule(task), queue.schedule(task)];
+    await vi.advanceTimersByTimeAsync(1000);
+    await Promise.all(results);
+
+    expect(startedAt.map(time => time - start)).toEqual([0, 500, 1000]);
+    expect(queue.getStats()).toMatchObject({ processed: 3, lastWaitMs: 1000, maxWaitMs: 1000, averageWaitMs: 500 });
+  });
+
+  it('同时进行中的请求不超过并发数，完成一个后再放行下一个', async () => {
+    const queue = new PriorityRequestQueue({ qps: 100, burst: 10, concurrency: 2 });
+    const tasks = [deferred(), deferred(), deferred()];
+    const started: number[] = [];
+
+    const results = tasks.map((item, index) => queue.schedule(() => {
+      started.push(index);
+      return item.promise;
+    }));
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(started).toEqual([0, 1]);
+    expect(queue.getStats()).toMatchObject({ running: 2, queued: 1 });
+
+    tasks[1].reject(new Error('失败也释放并发名额'));
+    await expect(results[1]).rejects.toThrow('失败也释放并发名额');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toEqual([0, 1, 2]);
+
+    tasks[0].resolve('a');
+    tasks[2].resolve('c');
+    await expect(Promise.all([results[0], results[2]])).resolves.toEqual(['a', 'c']);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(queue.getStats()).toMatchObject({ running: 0, queued: 0, processed: 3 });
+  });
+
+  it('排队中被取消的请求直接出队，不占用令牌', async () => {
+    const queue = new PriorityRequestQueue(config);
+    const controller = new AbortController();
+    const run = vi.fn(async () => 'cancelled');
+
+    const first = queue.schedule(async () => 'first');
+    const cancelled = queue.schedule(run, 'interactive', controller.signal);
+    const last = queue.schedule(async () => 'last');
+
+    controller.abort();
+    await expect(cancelled).rejects.toMatchObject({ code: 'CANCELLED' });
+    expect(queue.getStats().queued).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await expect(Promise.all([first, last])).resolves.toEqual(['first', 'last']);
+    expect(run).not.toHaveBeenCalled();
+    expect(queue.getStats().processed).toBe(2);
+  });
+
+  it('已经取消的 signal 不入队；已开始的请求不受之后的取消影响', async () => {
+    const queue = new PriorityRequestQueue(config);
+    const aborted = new AbortController();
+    aborted.abort();
+    await expect(queue.schedule(async () => 'never', 'normal', aborted.signal)).rejects.toMatchObject({ code: 'CANCELLED' });
+    expect(queue.getStats().queued).toBe(0);
+
+    const controller = new AbortController();
+    const running = deferred();
+    const result = queue.schedule(() => running.promise, 'normal', controller.signal);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(queue.getStats().running).toBe(1);
+
+    controller.abort();
+    running.resolve('done');
+    await expect(result).resolves.toBe('done');
+  });
+
+  it('修改配置后已排队的请求按新配置出队', async () => {
+    const queue = new PriorityRequestQueue({ qps: 0.1, burst: 1, concurrency: 1 });
+    const order: string[] = [];
+    const task = (name: string) => async () => {
+      order.push(name);
+    };
+
+    const results = [queue.schedule(task('a')), queue.schedule(task('b')), queue.schedule(task('c'))];
+    await vi.advanceTimersByTimeAsync(0);
+    expect(order).toEqual(['a']);
+
+    queue.configure({ qps: 10, burst: 2, concurrency: 2 });
+    await vi.advanceTimersByTimeAsync(0);
+    await Promise.all(results);
+    expect(order).toEqual(['a', 'b', 'c']);
+    expect(queue.getStats().config).toEqual({ qps: 10, burst: 2, concurrency: 2 });
+  });
+});
+
+describe('BaiduRequestScheduler', () => {
+  it('各端点使用独立的队列', async () => {
+    const scheduler = new BaiduRequestScheduler({
+      text: { qps: 1, burst: 1, concurrency: 1 },
+      image: { qps: 1, burst: 1, concurrency: 1 },
+      speech: { qps: 1, burst: 1, concurrency: 1 }
+    });
+
+    const results = [
+      scheduler.schedule('text', async () => 'text-1'),
+      scheduler.schedule('text', async () => 'text-2'),
+      scheduler.schedule('image', async () => 'image')
+    ];
+    await vi.advanceTimersByTimeAsync(0);
+
+    const stats = scheduler.getStats();
+    expect(stats.text).toMatchObject({ processed: 1, queued: 1 });
+    expect(stats.image).toMatchObject({ processed: 1, queued: 0 });
+    expect(stats.speech.processed).toBe(0);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await expect(Promise.all(results)).resolves.toEqual(['text-1', 'text-2', 'image']);
+  });
+});
@@ -0,0 +1,286 @@
+// 客户端限流：令牌桶 + 优先级请求队列，避免触发百度 54003（访问频率受限）
+import { createCancelledError } from '../utils/abort';
+
+// 令牌桶配置
+export interface TokenBucketConfig {
+  capacity: number; // 桶容量（允许的突发请求数）
+  refillPerSecond: number; // 每秒补充的令牌数（即 QPS）
+}
+
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+  private config: TokenBucketConfig;
+
+  constructor(config: TokenBucketConfig) {
+    this.config = config;
+    this.tokens = config.capacity;
+    this.lastRefill = Date.now();
+  }
+
+  // 获取一个令牌，没有可用令牌时等待
+  async take(): Promise<void> {
+    while (true) {
+      this.refill();
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+
+      const waitMs = Math.ceil(((1 - this.tokens) / this.config.refillPerSecond) * 1000);
+      await new Promise(resolve => setTimeout(resolve, waitMs));
+    }
+  }
+
+  // 不等待，能拿到令牌返回 true
+  tryTake(): boolean {
+    this.refill();
+    if (this.tokens >= 1) {
+      this.tokens -= 1;
+      return true;
+    }
+    return false;
+  }
+
+  getAvailableTokens(): number {
+    this.refill();
+    return this.tokens;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsedSeconds = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.config.capacity, this.tokens + elapsedSeconds * this.config.refillPerSecond);
+    this.lastRefill = now;
+  }
+}
+
+// 请求优先级：交互请求（用户正在等待）优先于后台请求（如 OCR 文本块批量翻译）
+export type RequestPriority = 'interactive' | 'normal' | 'background';
+
+const PRIORITY_ORDER: Record<RequestPriority, number> = {
+  interactive: 0,
+  normal: 1,
+  background: 2
+};
+
+// 单个端点的限流配置
+export interface EndpointLimitConfig {
+  qps: number; // 每秒请求数
+  burst: number; // 允许的突发请求数
+  concurrency: number; // 同时进行中的最大请求数
+}
+
+// 队列状态（供调试面板展示）
+export interface RequestQueueStats {
+  queued: number;
+  queuedByPriority: Record<RequestPriority, number>;
+  running: number;
+  processed: number;
+  lastWaitMs: number;
+  averageWaitMs: number;
+  maxWaitMs: number;
+  config: EndpointLimitConfig;
+}
+
+interface QueuedTask {
+  run: () => Promise<unknown>;
+  resolve: (value: unknown) => void;
+  reject: (reason: unknown) => void;
+  priority: RequestPriority;
+  sequence: number;
+  enqueuedAt: number;
+}
+
+// 带优先级的请求队列：按优先级出队，同优先级先进先出，受 QPS 和并发数共同限制
+export class PriorityRequestQueue {
+  private queue: QueuedTask[] = [];
+  private running = 0;
+  private sequence = 0;
+  private bucket: TokenBucket;
+  private config: EndpointLimitConfig;
+  private pumpTimer: ReturnType<typeof setTimeout> | null = null;
+  private processed = 0;
+  private totalWaitMs = 0;
+  private lastWaitMs = 0;
+  private maxWaitMs = 0;
+
+  constructor(config: EndpointLimitConfig) {
+    this.config = config;
+    this.bucket = new TokenBucket({ capacity: config.burst, refillPerSecond: config.qps });
+  }
+
+  // 排队中被取消的请求直接出队，不占用令牌；已开始的请求由 task 自己响应 signal
+  schedule<T>(task: () => Promise<T>, priority: RequestPriority = 'normal', signal?: AbortSignal): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(createCancelledError());
+        return;
+      }
+
+      const queued: QueuedTask = {
+        run: task,
+        resolve: value => resolve(value as T),
+        reject,
+        priority,
+        sequence: this.sequence++,
+        enqueuedAt: Date.now()
+      };
+      if (signal) {
+        const onAbort = () => {
+          const index = this.queue.indexOf(queued);
+          if (index >= 0) {
+            this.queue.splice(index, 1);
+            reject(createCancelledError());
+          }
+        };
+        signal.addEventListener('abort', onAbort, { once: true });
+        queued.run = () => {
+          signal.removeEventListener('abort', onAbort);
+          return task();
+        };
+      }
+
+      this.queue.push(queued);
+      this.pump();
+    });
+  }
+
+  // 修改配置后重建令牌桶，已排队的请求按新配置继续出队（按旧 QPS 安排的等待作废）
+  configure(config: Partial<EndpointLimitConfig>): void {
+    this.config = { ...this.config, ...config };
+    this.bucket = new TokenBucket({ capacity: this.config.burst, refillPerSecond: this.config.qps });
+    if (this.pumpTimer) {
+      clearTimeout(this.pumpTimer);
+      this.pumpTimer = null;
+    }
+    this.pump();
+  }
+
+  getStats(): RequestQueueStats {
+    const queuedByPriority: Record<RequestPriority, number> = { interactive: 0, normal: 0, background: 0 };
+    this.queue.forEach(task => {
+      queuedByPriority[task.priority]++;
+    });
+
+    return {
+      queued: this.queue.length,
+      queuedByPriority,
+      running: this.running,
+      processed: this.processed,
+      lastWaitMs: this.lastWaitMs,
+      averageWaitMs: this.processed > 0 ? Math.round(this.totalWaitMs / this.processed) : 0,
+      maxWaitMs: this.maxWaitMs,
+      config: { ...this.config }
+    };
+  }
+
+  private pump(): void {
+    if (this.pumpTimer) {
+      return;
+    }
+
+    while (this.queue.length > 0 && this.running < this.config.concurrency) {
+      if (!this.bucket.tryTake()) {
+        const missing = 1 - this.bucket.getAvailableTokens();
+        const waitMs = Math.max(1, Math.ceil((missing / this.config.qps) * 1000));
+        this.pumpTimer = setTimeout(() => {
+          this.pumpTimer = null;
+          this.pump();
+        }, waitMs);
+        return;
+      }
+
+      const task = this.dequeue();
+      const waitMs = Date.now() - task.enqueuedAt;
+      this.processed++;
+      this.totalWaitMs += waitMs;
+      this.lastWaitMs = waitMs;
+      this.maxWaitMs = Math.max(this.maxWaitMs, waitMs);
+      this.running++;
+
+      task.run()
+        .then(task.resolve, task.reject)
+        .finally(() => {
+          this.running--;
+          this.pump();
+        });
+    }
+  }
+
+  private dequeue(): QueuedTask {
+    let bestIndex = 0;
+    for (let i = 1; i < this.queue.length; i++) {
+      const candidate = this.queue[i];
+      const best = this.queue[bestIndex];
+      const byPriority = PRIORITY_ORDER[candidate.priority] - PRIORITY_ORDER[best.priority];
+      if (byPriority < 0 || (byPriority === 0 && candidate.sequence < best.sequence)) {
+        bestIndex = i;
+      }
+    }
+    return this.queue.splice(bestIndex, 1)[0];
+  }
+}
+
+// 百度各端点共用的请求队列
+export type BaiduEndpoint = 'text' | 'image' | 'speech';
+
+const readLimit = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+// 标准版约 1 QPS，高级版可通过环境变量调高
+const BAIDU_ENDPOINT_LIMITS: Record<BaiduEndpoint, EndpointLimitConfig> = {
+  text: {
+    qps: readLimit(import.meta.env.VITE_BAIDU_TEXT_QPS, 1),
+    burst: 1,
+    concurrency: readLimit(import.meta.env.VITE_BAIDU_TEXT_CONCURRENCY, 1)
+  },
+  image: {
+    qps: readLimit(import.meta.env.VITE_BAIDU_IMAGE_QPS, 1),
+    burst: 1,
+    concurrency: readLimit(import.meta.env.VITE_BAIDU_IMAGE_CONCURRENCY, 1)
+  },
+  speech: {
+    qps: readLimit(import.meta.env.VITE_BAIDU_SPEECH_QPS, 1),
+    burst: 1,
+    concurrency: readLimit(import.meta.env.VITE_BAIDU_SPEECH_CONCURRENCY, 1)
+  }
+};
+
+export class BaiduRequestScheduler {
+  private queues: Record<BaiduEndpoint, PriorityRequestQueue>;
+
+  constructor(limits: Record<BaiduEndpoint, EndpointLimitConfig> = BAIDU_ENDPOINT_LIMITS) {
+    this.queues = {
+      text: new PriorityRequestQueue(limits.text),
+      image: new PriorityRequestQueue(limits.image),
+      speech: new PriorityRequestQueue(limits.speech)
+    };
+  }
+
+  schedule<T>(
+    endpoint: BaiduEndpoint,
+    task: () => Promise<T>,
+    priority: RequestPriority = 'normal',
+    signal?: AbortSignal
+  ): Promise<T> {
+    return this.queues[endpoint].schedule(task, priority, signal);
+  }
+
+  configure(endpoint: BaiduEndpoint, config: Partial<EndpointLimitConfig>): void {
+    this.queues[endpoint].configure(config);
+  }
+
+  getStats(): Record<BaiduEndpoint, RequestQueueStats> {
+    return {
+      text: this.queues.text.getStats(),
+      image: this.queues.image.getStats(),
+      speech: this.queues.speech.getStats()
+    };
+  }
+}
+
+// 导出单例实例
+export const baiduRequestScheduler = new BaiduRequestScheduler();
@@ -2,6 +2,7 @@ import { EnhancedTextBlock } from './enhancedOcrService';
 import { StyleAnalysis } from './visualStyleAnalyzer';
 import { textRenderingEngine, RenderingOptions, TextLayout } from './textRenderingEngine';
 import { backgroundReconstructor, ReconstructionOptions } from './backgroundReconstructor';
+import { isCancelledError } from '../utils/abort';
 
 // Text replacement strategies
 export type ReplacementStrategy = 
@@ -71,78 +72,166 @@ export class SmartTextReplacer {
   ): Promise<ReplacementResult> {
     const startTime = performance.now();
     
-    // Setup canvas
-    this.canvas.width = originalImage.width;
-    this.canvas.height = originalImage.height;
-    this.ctx.drawImage(originalImage, 0, 0);
-    
     const replacements: Array<{
       original: EnhancedTextBlock;
       replacement: TextFittingResult;
     }> = [];
     
     try {
-      // First pass: Remove original text using background reconstruction
-      const reconstructionResult = await backgroundReconstructor.reconstructBackground(
-        originalImage,
-        textBlocks,
-        this.getReconstructionOptions()
-      );
-      
-      if (reconstructionResult.success) {
-        this.ctx.drawImage(reconstructionResult.reconstructedCanvas, 0, 0);
-      }
+      await this.prepareCanvas(originalImage, textBlocks);
       
       // Second pass: Fit and render translated text
       for (let i = 0; i < textBlocks.length; i++) {
         const block = textBlocks[i];
-        const styleAnalysis = styleAnalyses[i];
-        
         if (!block.translatedText) continue;
         
-        const fittingResult = await this.fitTextToBounds(
-          block,
-          styleAnalysis,
-          overflowOptions
-        );
-        
-        if (fittingResult.success) {
-          await this.renderFittedText(
-            fittingResult,
-            block,
-            styleAnalysis,
-            renderingOptions
-          );
-        }
-        
         replacements.push({
           original: block,
-          replacement: fittingResult
+          replacement: await this.replaceBlock(block, styleAnalyses[i], overflowOptions, renderingOptions)
         });
       }
       
-      const processingTime = performance.now() - startTime;
-      const overallConfidence = this.calculateOverallConfidence(replacements);
-      
-      return {
-        canvas: this.canvas,
-        success: true,
-        textBlocks: replacements,
-        processingTime,
-        overallConfidence
-      };
+      return this.createReplacementResult(replacements, startTime);
       
     } catch (error) {
       console.error('Text replacement failed:', error);
+      return this.createFailedReplacementResult(startTime);
+    }
+  }
+
+  /**
+   * Replace text in image while translations are still arriving: original text is
+   * removed up front and each block is rendered as soon as its translation is yielded
+   */
+  async replaceTextInImageStream(
+    originalImage: HTMLImageElement,
+    textBlocks: EnhancedTextBlock[],
+    styleAnalyses: StyleAnalysis[],
+    translatedBlocks: AsyncIterable<{ index: number; block: EnhancedTextBlock }>,
+    overflowOptions: OverflowHandling = this.getDefaultOverflowOptions(),
+    renderingOptions: RenderingOptions = this.getDefaultRenderingOptions(),
+    onBlockRendered?: (canvas: HTMLCanvasElement, completed: number, total: number) => void
+  ): Promise<ReplacementResult> {
+    const startTime = performance.now();
+    
+    const replacements: Array<{
+      index: number;
+      original: EnhancedTextBlock;
+      replacement: TextFittingResult;
+    }> = [];
+    
+    try {
+      await this.prepareCanvas(originalImage, textBlocks);
+      onBlockRendered?.(this.canvas, 0, textBlocks.length);
       
-      return {
-        canvas: this.canvas,
-        success: false,
-        textBlocks: [],
-        processingTime: performance.now() - startTime,
-        overallConfidence: 0
-      };
+      let completed = 0;
+      for await (const { index, block } of translatedBlocks) {
+        completed++;
+        if (block.translatedText) {
+          replacements.push({
+            index,
+            original: block,
+            replacement: await this.replaceBlock(block, styleAnalyses[index], overflowOptions, renderingOptions)
+          });
+        }
+        onBlockRendered?.(this.canvas, completed, textBlocks.length);
+      }
+      
+      // 结果按文本块原顺序排列，与一次性替换一致
+      replacements.sort((a, b) => a.index - b.index);
+      return this.createReplacementResult(
+        replacements.map(({ original, replacement }) => ({ original, replacement })),
+        startTime
+      );
+      
+    } catch (error) {
+      // 取消由调用方处理，不当作绘制失败
+      if (isCancelledError(error)) {
+        throw error;
+      }
+      console.error('Streaming text replacement failed:', error);
+      return this.createFailedReplacementResult(startTime);
+    }
+  }
+
+  /**
+   * Draw the original image and remove original text using background reconstruction
+   */
+  private async prepareCanvas(
+    originalImage: HTMLImageElement,
+    textBlocks: EnhancedTextBlock[]
+  ): Promise<void> {
+    // Setup canvas
+    this.canvas.width = originalImage.width;
+    this.canvas.height = originalImage.height;
+    this.ctx.drawImage(originalImage, 0, 0);
+    
+    // First pass: Remove original text using background reconstruction
+    const reconstructionResult = await backgroundReconstructor.reconstructBackground(
+      originalImage,
+      textBlocks,
+      this.getReconstructionOptions()
+    );
+    
+    if (reconstructionResult.success) {
+      this.ctx.drawImage(reconstructionResult.reconstructedCanvas, 0, 0);
+    }
+  }
+
+  /**
+   * Fit and render a single translated block
+   */
+  private async replaceBlock(
+    block: EnhancedTextBlock,
+    styleAnalysis: StyleAnalysis,
+    overflowOptions: OverflowHandling,
+    renderingOptions: RenderingOptions
+  ): Promise<TextFittingResult> {
+    const fittingResult = await this.fitTextToBounds(
+      block,
+      styleAnalysis,
+      overflowOptions
+    );
+    
+    if (fittingResult.success) {
+      await this.renderFittedText(
+        fittingResult,
+        block,
+        styleAnalysis,
+        renderingOptions
+      );
     }
+    
+    return fittingResult;
+  }
+
+  /**
+   * Build successful replacement result
+   */
+  private createReplacementResult(
+    replacements: ReplacementResult['textBlocks'],
+    startTime: number
+  ): ReplacementResult {
+    return {
+      canvas: this.canvas,
+      success: true,
+      textBlocks: replacements,
+      processingTime: performance.now() - startTime,
+      overallConfidence: this.calculateOverallConfidence(replacements)
+    };
+  }
+
+  /**
+   * Build failed replacement result (canvas keeps whatever was drawn so far)
+   */
+  private createFailedReplacementResult(startTime: number): ReplacementResult {
+    return {
+      canvas: this.canvas,
+      success: false,
+      textBlocks: [],
+      processingTime: performance.now() - startTime,
+      overallConfidence: 0
+    };
   }
 
   /**
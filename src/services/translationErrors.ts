@@ -0,0 +1,232 @@
+// 翻译错误分类：各提供方的错误统一转换为以下 Error 子类，页面按类别展示处理建议
+// 原始错误（axios 错误、提供方响应等）沿 cause 链保留，调试面板可以展开查看
+import type { ApiError } from './apiUtils';
+
+export type TranslationErrorKind =
+  | 'auth'
+  | 'quota'
+  | 'rate-limit'
+  | 'unsupported-language'
+  | 'network'
+  | 'timeout'
+  | 'invalid-input'
+  | 'provider-bug';
+
+export interface TranslationErrorOptions {
+  code?: string; // 细分错误码，默认取类别对应的错误码
+  retryable?: boolean;
+  provider?: string;
+  providerCode?: string; // 提供方原始错误码（百度 error_code、Google reason 等）
+  cause?: unknown;
+  details?: unknown;
+}
+
+const DEFAULT_CODES: Record<TranslationErrorKind, string> = {
+  auth: 'UNAUTHORIZED',
+  quota: 'QUOTA_EXCEEDED',
+  'rate-limit': 'ACCESS_FREQUENCY_LIMITED',
+  'unsupported-language': 'UNSUPPORTED_LANGUAGE',
+  network: 'NETWORK_ERROR',
+  timeout: 'TIMEOUT',
+  'invalid-input': 'MISSING_PARAMS',
+  'provider-bug': 'SYSTEM_ERROR'
+};
+
+const RETRYABLE_KINDS: TranslationErrorKind[] = ['rate-limit', 'network', 'timeout'];
+
+// 各类别的处理建议，显示在页面的错误提示下方
+export const ERROR_REMEDIATION: Record<TranslationErrorKind, string> = {
+  auth: '请检查 API 密钥或翻译代理的凭据配置，并确认已开通对应的翻译服务',
+  quota: '翻译额度已用完，请充值或提高配额，也可以切换到其他翻译服务或离线模式',
+  'rate-limit': '请求过于频繁，请稍等片刻再试',
+  'unsupported-language': '当前翻译服务不支持该语言，请更换语言或切换到其他翻译服务',
+  network: '请检查网络连接后重试；离线模式下只能翻译翻译过的文本、术语表和常用短语',
+  timeout: '翻译服务响应超时，请稍后重试，长文本可以分段翻译',
+  'invalid-input': '请检查输入内容是否为空、过长或格式不正确',
+  'provider-bug': '翻译服务返回了异常结果，请稍后重试或切换翻译服务；问题持续出现时请附上调试信息反馈'
+};
+
+export class TranslationError extends Error implements ApiError {
+  readonly kind: TranslationErrorKind;
+  readonly code: string;
+  readonly retryable: boolean;
+  readonly provider?: string;
+  readonly providerCode?: string;
+  readonly cause?: unknown;
+  readonly details?: unknown;
+
+  constructor(kind: TranslationErrorKind, message: string, options: TranslationErrorOptions = {}) {
+    super(message);
+    this.name = 'TranslationError';
+    this.kind = kind;
+    this.code = options.code || DEFAULT_CODES[kind];
+    this.retryable = options.retryable ?? RETRYABLE_KINDS.includes(kind);
+    this.provider = options.provider;
+    this.providerCode = options.providerCode;
+    this.cause = options.cause;
+    this.details = options.details ?? options.cause;
+  }
+
+  get remediation(): string {
+    return ERROR_REMEDIATION[this.kind];
+  }
+}
+
+export class AuthError extends TranslationError {
+  constructor(message: string, options?: TranslationErrorOptions) {
+    super('auth', message, options);
+    this.name = 'AuthError';
+  }
+}
+
+export class QuotaError extends TranslationError {
+  constructor(message: string, options?: TranslationErrorOptions) {
+    super('quota', message, options);
+    this.name = 'QuotaError';
+  }
+}
+
+export class RateLimitError extends TranslationError {
+  constructor(message: string, options?: TranslationErrorOptions) {
+    super('rate-limit', message, options);
+    this.name = 'RateLimitError';
+  }
+}
+
+export class UnsupportedLanguageError extends TranslationError {
+  constructor(message: string, options?: TranslationErrorOptions) {
+    super('unsupported-language', message, options);
+    this.name = 'UnsupportedLanguageError';
+  }
+}
+
+export class NetworkError extends TranslationError {
+  constructor(message: string, options?: TranslationErrorOptions) {
+    super('network', message, options);
+    this.name = 'NetworkError';
+  }
+}
+
+export class TimeoutError extends TranslationError {
+  constructor(message: string, options?: TranslationErrorOptions) {
+    super('timeout', message, options);
+    this.name = 'TimeoutError';
+  }
+}
+
+export class InvalidInputError extends TranslationError {
+  constructor(message: string, options?: TranslationErrorOptions) {
+    super('invalid-input', message, options);
+    this.name = 'InvalidInputError';
+  }
+}
+
+export class ProviderBugError extends TranslationError {
+  constructor(message: string, options?: TranslationErrorOptions) {
+    super('provider-bug', message, options);
+    this.name = 'ProviderBugError';
+  }
+}
+
+// 页面错误提示用：只有分类过的错误才有处理建议
+export const getErrorRemediation = (error: unknown): string | undefined =>
+  error instanceof TranslationError ? error.remediation : undefined;
+
+// ---- 错误链 ----
+
+export interface ErrorChainLink {
+  name: string;
+  message: string;
+  code?: string;
+  providerCode?: string;
+  status?: number; // HTTP 状态码
+  data?: string; // 提供方响应内容（截断）
+}
+
+// 链上各环节可能是 Error、axios 错误或普通对象
+interface ErrorLike {
+  name?: string;
+  message?: string;
+  code?: unknown;
+  providerCode?: string;
+  cause?: unknown;
+  details?: unknown;
+  response?: { status?: number; data?: unknown };
+}
+
+const MAX_CHAIN_DEPTH = 8;
+const MAX_DATA_LENGTH = 500;
+
+// 沿 cause（没有时沿 details）展开错误链，最外层在前
+export function getErrorChain(error: unknown): ErrorChainLink[] {
+  const chain: ErrorChainLink[] = [];
+  const seen = new Set<unknown>();
+  let next: unknown = error;
+
+  while (next !== undefined && next !== null && !seen.has(next) && chain.length < MAX_CHAIN_DEPTH) {
+    seen.add(next);
+
+    if (typeof next !== 'object') {
+      chain.push({ name: typeof next, message: String(next) });
+      break;
+    }
+
+    const current = next as ErrorLike;
+    const responseData = current.response?.data;
+    let data: string | undefined;
+    if (responseData !== undefined) {
+      try {
+        data = (typeof responseData === 'string' ? responseData : JSON.stringify(responseData)).slice(0, MAX_DATA_LENGTH);
+      } catch {
+        data = String(responseData);
+      }
+    }
+
+    chain.push({
+      name: current.name || current.constructor?.name || 'Object',
+      message: current.message || '',
+      code: current.code !== undefined ? String(current.code) : undefined,
+      providerCode: current.providerCode,
+      status: current.response?.status,
+      data
+    });
+
+    next = current.cause ?? current.details;
+  }
+
+  return chain;
+}
+
+// ---- 最近的错误（供调试面板展示） ----
+
+export interface ErrorLogEntry {
+  id: string;
+  timestamp: number;
+  source: string; // 出错位置，如 "translate:baidu"
+  kind?: TranslationErrorKind;
+  message: string;
+  chain: ErrorChainLink[];
+}
+
+const MAX_ERROR_LOG = 20;
+const errorLog: ErrorLogEntry[] = [];
+
+export function recordError(source: string, error: unknown): void {
+  errorLog.unshift({
+    id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    timestamp: Date.now(),
+    source,
+    kind: error instanceof TranslationError ? error.kind : undefined,
+    message: (error as { message?: string } | null)?.message || String(error),
+    chain: getErrorChain(error)
+  });
+  errorLog.length = Math.min(errorLog.length, MAX_ERROR_LOG);
+}
+
+export function getRecentErrors(): ErrorLogEntry[] {
+  return [...errorLog];
+}
+
+export function clearRecentErrors(): void {
+  errorLog.length = 0;
+}
@@ -0,0 +1,171 @@
+// 翻译记忆：以历史记录和导入的 TMX 为语料，按语言对索引，翻译前给出模糊匹配建议
+// 与 TranslationCacheService 的精确哈希缓存不同，这里按编辑距离计算相似度
+
+export type MemoryOrigin = 'history' | 'tmx';
+
+export interface MemoryEntry {
+  sourceText: string;
+  translatedText: string;
+  sourceLang: string;
+  targetLang: string;
+}
+
+export interface MemoryMatch {
+  entry: MemoryEntry;
+  origin: MemoryOrigin;
+  score: number; // 0-1，1 表示完全匹配
+}
+
+// 完全匹配、未调用提供方时响应中的 model 标识
+export const MEMORY_MODEL = 'memory';
+
+// 默认只返回相似度不低于 75% 的匹配
+export const DEFAULT_MIN_SCORE = 0.75;
+
+const TMX_STORAGE_KEY = 'translation_memory_tmx';
+
+// 超过该长度的文本只做完全匹配，避免编辑距离计算过慢
+const MAX_FUZZY_LENGTH = 2000;
+
+// 忽略首尾空白和多余空白
+const normalize = (text: string): string => text.trim().replace(/\s+/g, ' ');
+
+const pairKey = (sourceLang: string, targetLang: string) => `${sourceLang}\u0000${targetLang}`;
+
+// 按字符计算的编辑距离，超过 maxDistance 时提前返回
+const levenshtein = (a: string, b: string, maxDistance: number): number => {
+  if (a === b) return 0;
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > maxDistance) return maxDistance + 1;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+export class TranslationMemoryService {
+  private entries = new Map<MemoryOrigin, MemoryEntry[]>();
+  private index = new Map<string, Array<{ entry: MemoryEntry; origin: MemoryOrigin; normalized: string }>>();
+
+  constructor() {
+    this.entries.set('tmx', this.loadImported());
+    this.rebuildIndex();
+  }
+
+  // 替换某一来源的全部条目
+  setEntries(origin: MemoryOrigin, entries: MemoryEntry[]): void {
+    this.entries.set(origin, entries.filter(entry => entry.sourceText.trim() && entry.translatedText.trim()));
+    this.rebuildIndex();
+  }
+
+  // 导入 TMX 条目并持久化，原文和语言对相同的条目以新导入的为准
+  importEntries(entries: MemoryEntry[]): number {
+    const keyOf = (entry: MemoryEntry) => `${pairKey(entry.sourceLang, entry.targetLang)}\u0000${normalize(entry.sourceText)}`;
+    const imported = new Map((this.entries.get('tmx') || []).map(entry => [keyOf(entry), entry]));
+    entries.forEach(entry => imported.set(keyOf(entry), entry));
+
+    this.setEntries('tmx', Array.from(imported.values()));
+    this.saveImported();
+    return entries.length;
+  }
+
+  clearImported(): void {
+    this.setEntries('tmx', []);
+    localStorage.removeItem(TMX_STORAGE_KEY);
+  }
+
+  getStats(): Record<MemoryOrigin, number> {
+    return {
+      history: this.entries.get('history')?.length || 0,
+      tmx: this.entries.get('tmx')?.length || 0
+    };
+  }
+
+  // 按相似度从高到低返回匹配，源语言为 auto 时在所有目标语言相同的语言对中查找
+  findMatches(
+    text: string,
+    sourceLang: string,
+    targetLang: string,
+    minScore: number = DEFAULT_MIN_SCORE,
+    limit: number = 3
+  ): MemoryMatch[] {
+    const query = normalize(text);
+    if (!query) return [];
+
+    const buckets = sourceLang === 'auto'
+      ? Array.from(this.index.entries())
+        .filter(([key]) => key.endsWith(`\u0000${targetLang}`))
+        .map(([, bucket]) => bucket)
+      : [this.index.get(pairKey(sourceLang, targetLang)), this.index.get(pairKey('auto', targetLang))];
+
+    const fuzzy = query.length <= MAX_FUZZY_LENGTH;
+    const matches = new Map<string, MemoryMatch>();
+
+    buckets.forEach(bucket => bucket?.forEach(({ entry, origin, normalized }) => {
+      const longest = Math.max(query.length, normalized.length);
+      const maxDistance = fuzzy ? Math.floor(longest * (1 - minScore)) : 0;
+      const distance = normalized === query ? 0 : fuzzy ? levenshtein(query, normalized, maxDistance) : 1;
+      if (distance > maxDistance) return;
+
+      const score = Math.round((1 - distance / longest) * 100) / 100;
+      const key = `${normalized}\u0000${entry.translatedText}`;
+      const existing = matches.get(key);
+      // 同一译文只保留一条，导入的 TMX 优先于历史记录
+      if (!existing || score > existing.score || (score === existing.score && origin === 'tmx')) {
+        matches.set(key, { entry, origin, score });
+      }
+    }));
+
+    return Array.from(matches.values())
+      .sort((a, b) => b.score - a.score || Number(b.origin === 'tmx') - Number(a.origin === 'tmx'))
+      .slice(0, limit);
+  }
+
+  // 100% 匹配
+  findExactMatch(text: string, sourceLang: string, targetLang: string): MemoryMatch | null {
+    const [best] = this.findMatches(text, sourceLang, targetLang, 1, 1);
+    return best && best.score === 1 ? best : null;
+  }
+
+  private rebuildIndex(): void {
+    this.index.clear();
+    this.entries.forEach((entries, origin) => {
+      entries.forEach(entry => {
+        const key = pairKey(entry.sourceLang, entry.targetLang);
+        const bucket = this.index.get(key) || [];
+        bucket.push({ entry, origin, normalized: normalize(entry.sourceText) });
+        this.index.set(key, bucket);
+      });
+    });
+  }
+
+  private loadImported(): MemoryEntry[] {
+    try {
+      const stored = localStorage.getItem(TMX_STORAGE_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.warn('Failed to load translation memory:', error);
+      return [];
+    }
+  }
+
+  private saveImported(): void {
+    try {
+      localStorage.setItem(TMX_STORAGE_KEY, JSON.stringify(this.entries.get('tmx') || []));
+    } catch (error) {
+      console.warn('Failed to save translation memory:', error);
+    }
+  }
+}
+
+// 导出单例实例
+export const translationMemoryService = new TranslationMemoryService();
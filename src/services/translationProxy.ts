@@ -0,0 +1,68 @@
+// 翻译代理接口：百度凭据和签名都在服务端（server/index.js），浏览器只调用以下接口
+// 开发时 Vite 把 /api/translate 转发到本地代理；前后端分开部署时设置 VITE_TRANSLATION_PROXY_URL
+import axios from 'axios';
+
+const PROXY_BASE_URL = (import.meta.env.VITE_TRANSLATION_PROXY_URL || '').replace(/\/+$/, '');
+
+export const PROXY_ENDPOINTS = {
+  text: `${PROXY_BASE_URL}/api/translate`,
+  image: `${PROXY_BASE_URL}/api/translate/image`,
+  speech: `${PROXY_BASE_URL}/api/translate/speech`,
+  health: `${PROXY_BASE_URL}/api/health`
+};
+
+// 剩余的每日配额，null 表示不限
+export interface ProxyQuota {
+  text: number | null;
+  image: number | null;
+  speech: number | null;
+}
+
+export interface ProxyTextResponse {
+  from: string;
+  to: string;
+  translations: Array<{ source: string; translated: string }>;
+  billedCharacters: number;
+  quota: ProxyQuota;
+}
+
+export interface ProxyImageResponse {
+  originalText: string;
+  translatedText: string;
+  translatedImage?: string;
+  textBlocks: Array<{
+    original: string;
+    translated: string;
+    position: { x: number; y: number; width: number; height: number };
+  }>;
+  quota: ProxyQuota;
+}
+
+export interface ProxySpeechResponse {
+  originalText: string;
+  translatedText: string;
+  translatedAudio: string;
+  quota: ProxyQuota;
+}
+
+export interface ProxyHealth {
+  ok: boolean;
+  configured: boolean; // 服务端是否配置了百度凭据
+  quota?: ProxyQuota;
+}
+
+export function getProxyHeaders(): Record<string, string> {
+  // 配额由代理按来源 IP 计算，不需要客户端标识
+  return {
+    'Content-Type': 'application/json'
+  };
+}
+
+export async function checkProxyHealth(timeout: number = 5000): Promise<ProxyHealth> {
+  try {
+    const response = await axios.get<ProxyHealth>(PROXY_ENDPOINTS.health, { timeout });
+    return response.data;
+  } catch {
+    return { ok: false, configured: false };
+  }
+}
@@ -0,0 +1,197 @@
+// 主翻译服务的故障转移：按链路顺序尝试提供方，跳过超出预算和熔断中的提供方
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { BudgetCheckResult } from './budgetService';
+import { providerRegistry, type TranslationEngine } from './providerRegistry';
+import { translationService, type TranslationRequest, type TranslationResponse } from './translationService';
+
+// 内置引擎在这里不会被调用，替换掉以免加载它们的缓存和网络依赖
+vi.mock('./googleTranslationService', () => ({ googleTranslationService: {} }));
+vi.mock('./openaiTranslationService', () => ({ openaiTranslationService: {} }));
+vi.mock('./offlineTranslationService', () => ({ offlineTranslationService: {} }));
+
+vi.mock('./translationMemoryService', () => ({
+  MEMORY_MODEL: 'memory',
+  translationMemoryService: { findExactMatch: () => null }
+}));
+
+const budgetCheck = vi.hoisted(() => vi.fn());
+vi.mock('./budgetService', () => ({ budgetService: { check: budgetCheck } }));
+
+type Behaviour = (request: TranslationRequest) => Promise<TranslationResponse>;
+
+const calls: string[] = [];
+const behaviours: Record<string, Behaviour> = {};
+
+// 测试用提供方：记录调用顺序，按 behaviours 中的设定成功或失败
+const register = (id: string) => {
+  const engine: TranslationEngine = {
+    translate: request => {
+      calls.push(id);
+      return behaviours[id](request);
+    },
+    detectLanguage: async () => 'en'
+  };
+  providerRegistry.register({
+    id,
+    displayName: id,
+    capabilities: { text: true, image: false, speech: false, detection: true, batch: false },
+    languages: { source: '*', target: '*' },
+    create: () => engine
+  });
+};
+
+const succeed = (id: string): Behaviour => async request => ({ translatedText: `${id}:${request.text}`, confidence: 1, model: id });
+const fail = (code = 'NETWORK_ERROR', retryable = true): Behaviour => async () => {
+  throw { code, message: code, retryable };
+};
+
+const request: TranslationRequest = { text: 'Hello', sourceLang: 'en', targetLang: 'zh' };
+const allowed: BudgetCheckResult = { allowed: true };
+
+describe('TranslationService 故障转移', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    ['alpha', 'beta', 'offline'].forEach(register);
+    behaviours.alpha = succeed('alpha');
+    behaviours.beta = succeed('beta');
+    behaviours.offline = succeed('offline');
+    budgetCheck.mockReturnValue(allowed);
+
+    translationService.setOfflineMode(false);
+    translationService.setDefaultModel('alpha');
+    translationService.setFailoverChain(['beta']);
+  });
+
+  afterEach(() => {
+    ['alpha', 'beta'].forEach(id => {
+      translationService.resetCircuit(id);
+      providerRegistry.unregister(id);
+    });
+    translationService.resetCircuit('offline');
+    calls.length = 0;
+    budgetCheck.mockReset();
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('主提供方成功时不尝试备用提供方', async () => {
+    const response = await translationService.translate(request);
+
+    expect(calls).toEqual(['alpha']);
+    expect(response).toMatchObject({ translatedText: 'alpha:Hello', model: 'alpha', fallbackFrom: undefined });
+  });
+
+  it('主提供方失败后按链路顺序转到备用提供方', async () => {
+    behaviours.alpha = fail();
+
+    const response = await translationService.translate(request);
+
+    expect(calls).toEqual(['alpha', 'beta']);
+    expect(response).toMatchObject({ translatedText: 'beta:Hello', model: 'beta', fallbackFrom: ['alpha'] });
+  });
+
+  it('全部失败时抛出最后一个提供方的错误', async () => {
+    behaviours.alpha = fail('TIMEOUT');
+    behaviours.beta = fail('RATE_LIMIT');
+
+    await expect(translationService.translate(request)).rejects.toMatchObject({ code: 'RATE_LIMIT' });
+    expect(calls).toEqual(['alpha', 'beta']);
+  });
+
+  it('熔断中的提供方直接跳过，冷却后放行一次试探', async () => {
+    behaviours.alpha = fail();
+    for (let i = 0; i < 3; i++) {
+      await translationService.translate(request);
+    }
+    expect(translationService.getCircuitStates().alpha.state).toBe('open');
+
+    calls.length = 0;
+    const skipped = await translationService.translate(request);
+    expect(calls).toEqual(['beta']);
+    expect(skipped.fallbackFrom).toEqual(['alpha']);
+
+    calls.length = 0;
+    behaviours.alpha = succeed('alpha');
+    vi.advanceTimersByTime(30 * 1000);
+    const recovered = await translationService.translate(request);
+    expect(calls).toEqual(['alpha']);
+    expect(recovered.model).toBe('alpha');
+    expect(translationService.getCircuitStates().alpha.state).toBe('closed');
+  });
+
+  it('超出预算的提供方在熔断检查之前跳过，不占用半开状态的试探名额', async () => {
+    behaviours.alpha = fail();
+    for (let i = 0; i < 3; i++) {
+      await translationService.translate(request);
+    }
+    vi.advanceTimersByTime(30 * 1000);
+
+    calls.length = 0;
+    const quotaError = { code: 'QUOTA_EXCEEDED', message: '超出预算', retryable: false };
+    budgetCheck.mockImplementation(model => model === 'alpha' ? { allowed: false, action: 'block', error: quotaError } : allowed);
+    const blocked = await translationService.translate(request);
+    expect(calls).toEqual(['beta']);
+    expect(blocked.fallbackFrom).toEqual(['alpha']);
+    expect(budgetCheck).toHaveBeenCalledWith('alpha', 'text', request.text.length, undefined, 'text');
+
+    calls.length = 0;
+    budgetCheck.mockReturnValue(allowed);
+    behaviours.alpha = succeed('alpha');
+    await translationService.translate(request);
+    expect(calls).toEqual(['alpha']);
+  });
+
+  it('预算规则为降级时在链路末尾补上离线翻译', async () => {
+    const quotaError = { code: 'QUOTA_EXCEEDED', message: '超出预算', retryable: false };
+    budgetCheck.mockReturnValue({ allowed: false, action: 'downgrade', error: quotaError });
+
+    const response = await translationService.translate(request);
+
+    expect(calls).toEqual(['offline']);
+    expect(response).toMatchObject({ model: 'offline', fallbackFrom: ['alpha', 'beta'] });
+    expect(budgetCheck).not.toHaveBeenCalledWith('offline', expect.anything(), expect.anything(), undefined, 'text');
+  });
+
+  it('预算规则为拦截时所有提供方都被跳过，抛出预算错误', async () => {
+    const quotaError = { code: 'QUOTA_EXCEEDED', message: '超出预算', retryable: false };
+    budgetCheck.mockReturnValue({ allowed: false, action: 'block', error: quotaError });
+
+    await expect(translationService.translate(request)).rejects.toBe(quotaError);
+    expect(calls).toEqual([]);
+  });
+
+  it('用户取消时不尝试下一个提供方，也不计入熔断', async () => {
+    behaviours.alpha = async () => {
+      throw Object.assign(new Error('aborted'), { name: 'AbortError' });
+    };
+
+    await expect(translationService.translate(request)).rejects.toMatchObject({ code: 'CANCELLED', retryable: false });
+    expect(calls).toEqual(['alpha']);
+    expect(translationService.getCircuitStates().alpha).toMatchObject({ state: 'closed', consecutiveFailures: 0 });
+  });
+
+  it('半开状态的试探请求被取消后，下一个请求仍可试探', async () => {
+    behaviours.alpha = fail();
+    for (let i = 0; i < 3; i++) {
+      await translationService.translate(request);
+    }
+    vi.advanceTimersByTime(30 * 1000);
+
+    calls.length = 0;
+    behaviours.alpha = async () => {
+      throw Object.assign(new Error('aborted'), { name: 'AbortError' });
+    };
+    await expect(translationService.translate(request)).rejects.toMatchObject({ code: 'CANCELLED' });
+    expect(translationService.getCircuitStates().alpha.state).toBe('half_open');
+
+    behaviours.alpha = succeed('alpha');
+    const response = await translationService.translate(request);
+    expect(calls).toEqual(['alpha', 'alpha']);
+    expect(response.model).toBe('alpha');
+  });
+});
@@ -1,3 +1,27 @@
+import {
+  providerRegistry,
+  DEFAULT_PROVIDER_ID,
+  OFFLINE_PROVIDER_ID,
+  ProviderId,
+  ProviderCapability,
+  ProviderHealth,
+  TranslationEngine
+} from './providerRegistry';
+import { googleTranslationService } from './googleTranslationService';
+import { openaiTranslationService } from './openaiTranslationService';
+import { offlineTranslationService } from './offlineTranslationService';
+import { glossaryService, GLOSSARY_MODEL, ProtectedText } from './glossaryService';
+import { markupService, MARKUP_MODEL, ProtectedMarkup, TextFormat } from './markupService';
+import { translationMemoryService, MEMORY_MODEL } from './translationMemoryService';
+import { ApiErrorHandler, ApiError, UsageStatsManager, type UsageType } from './apiUtils';
+import { CircuitBreaker, CircuitSnapshot } from './circuitBreaker';
+import type { RequestPriority } from './rateLimiter';
+import { detectLanguage, detectLanguageCandidates, LanguageCandidate } from '../utils/languageDetection';
+import { segmentText, reassembleText } from '../utils/textSegmentation';
+import { createCancelledError, isCancelledError, throwIfAborted } from '../utils/abort';
+import { ProviderBugError, recordError, UnsupportedLanguageError } from './translationErrors';
+import { budgetService } from './budgetService';
+
 // 百度翻译服务动态导入
 let baiduTranslationService: any = null;
 let baiduImportError: Error | null = null;
@@ -108,26 +132,101 @@ async function loadBaiduTranslationService() {
 }
 
 // Translation Service Types
+// 翻译类型（决定 LLM 提供方使用的提示词模板）
+export type TranslationType = 'general' | 'ui' | 'casual' | 'legal';
+
+// 语气 / 正式程度
+export type TranslationTone = 'neutral' | 'formal' | 'informal';
+
 export interface TranslationRequest {
   text: string;
   sourceLang: string;
   targetLang: string;
-  model?: 'baidu' | 'google' | 'openai' | 'azure';
+  model?: ProviderId;
+  glossaryId?: string; // 提供方侧术语表 ID（目前仅 Google v3 使用）
+  translationType?: TranslationType;
+  tone?: TranslationTone;
+  format?: TextFormat; // 非纯文本时标签和占位符不发给提供方，默认 plain
+}
+
+// 单次调用选项
+export interface TranslateOptions {
+  // 支持流式输出的提供方会用累计的部分译文回调
+  onPartial?: (partialText: string) => void;
+  // 客户端排队优先级（百度等有限流队列的提供方使用），用户等待中的请求传 interactive
+  priority?: RequestPriority;
+  // 取消：排队中和进行中的请求都会中止，抛出 code 为 CANCELLED 的错误，不触发故障转移
+  signal?: AbortSignal;
+  // 计入用量预算的翻译方式，默认 text；图片文字块的翻译传 image，受图片方式的预算规则限制
+  usageType?: UsageType;
+}
+
+export interface BatchTranslateOptions extends TranslateOptions {
+  format?: TextFormat; // 每个片段分别保护标签和占位符，默认 plain
+}
+
+// 长文本翻译进度
+export interface DocumentProgress {
+  completed: number; // 已翻译的句子数
+  total: number;
+  partialText: string; // 已翻译部分按原结构拼接的译文
+}
+
+// 长文本取消时 CANCELLED 错误的 details 中带已完成的部分译文
+export interface DocumentTranslateOptions extends TranslateOptions {
+  onProgress?: (progress: DocumentProgress) => void;
+}
+
+// 流式翻译选项：部分译文和进度通过迭代产出，不再使用回调
+export type StreamTranslateOptions = Pick<TranslateOptions, 'priority' | 'signal'>;
+
+// translateStream 产出的事件，最后一个总是 complete
+export type TranslationStreamEvent =
+  | { type: 'partial'; text: string } // 累计的部分译文（流式提供方或长文本已完成的部分）
+  | { type: 'progress'; progress: DocumentProgress } // 长文本分批进度
+  | { type: 'segment'; index: number; translatedText: string } // 长文本中第 index 句翻译完成
+  | { type: 'complete'; response: TranslationResponse };
+
+export interface BatchStreamOptions extends BatchTranslateOptions {
+  chunkSize?: number; // 每次请求的片段数，默认 STREAM_BATCH_SIZE
+}
+
+// translateBatchStream 每完成一个片段产出一次
+export interface BatchStreamItem {
+  index: number;
+  response: TranslationResponse;
 }
 
 export interface TranslationResponse {
   translatedText: string;
   confidence: number;
-  model: string;
+  model: string; // 实际给出译文的提供方
   detectedLanguage?: string;
+  fallbackFrom?: ProviderId[]; // 故障转移前失败或被熔断跳过的提供方
+  offline?: boolean; // 由离线提供方给出，未联网
+  approximate?: boolean; // 近似结果（逐行拼接，可能有未翻译的行）
+  warnings?: string[]; // 译文中丢失或重复的标记占位符
 }
 
-export interface TranslationError {
-  code: string;
-  message: string;
-  details?: any;
+// 对比模式下单个提供方的结果
+export interface ProviderComparison {
+  model: ProviderId;
+  displayName: string;
+  response?: TranslationResponse;
+  error?: ApiError;
+  latency: number; // 毫秒
+  estimatedCost?: number; // 分，未知单价时为空
 }
 
+// 不超过该长度的文本整段翻译，更长的按句切分后分批翻译
+export const LONG_TEXT_THRESHOLD = 1000;
+
+// 长文本每批发送的字符数，批次之间汇报进度、响应取消
+const DOCUMENT_BATCH_CHARS = 1800;
+
+// 流式批量翻译每次请求的片段数：越小越早看到结果，请求次数也越多
+const STREAM_BATCH_SIZE = 8;
+
 // Language definitions
 export const SUPPORTED_LANGUAGES = {
   auto: { code: 'auto', name: '自动检测', flag: '🌐' },
@@ -221,73 +320,69 @@ class MockTranslationService {
     return {
       translatedText,
       confidence: 0.85 + Math.random() * 0.15, // Random confidence between 0.85-1.0
-      model: request.model || 'google',
+      model: request.model || 'mock',
       detectedLanguage
     };
   }
 
   async detectLanguage(text: string): Promise<string> {
     await this.delay(300);
-    
-    // Simple language detection based on character patterns
-    if (/[\u4e00-\u9fff]/.test(text)) return 'zh';
-    if (/[\u3040-\u309f\u30a0-\u30ff]/.test(text)) return 'ja';
-    if (/[\uac00-\ud7af]/.test(text)) return 'ko';
-    if (/[\u0600-\u06ff]/.test(text)) return 'ar';
-    if (/[\u0900-\u097f]/.test(text)) return 'hi';
-    
-    return 'en'; // Default to English
+    return detectLanguage(text);
   }
 }
 
-// Google Translate Service (placeholder for real implementation)
+// Google Translate Service Adapter
 class GoogleTranslateService {
-  private apiKey: string;
-
-  constructor(apiKey: string) {
-    this.apiKey = apiKey;
-  }
+  async translate(request: TranslationRequest, options: TranslateOptions = {}): Promise<TranslationResponse> {
+    const result = await googleTranslationService.translateText({
+      text: request.text,
+      sourceLang: request.sourceLang,
+      targetLang: request.targetLang,
+      glossaryId: request.glossaryId,
+      signal: options.signal
+    });
 
-  async translate(request: TranslationRequest): Promise<TranslationResponse> {
-    // TODO: Implement actual Google Translate API call
-    // For now, fall back to mock service
-    const mockService = new MockTranslationService();
-    return mockService.translate(request);
+    return {
+      translatedText: result.translatedText,
+      confidence: result.confidence,
+      model: 'google',
+      detectedLanguage: result.detectedLanguage
+    };
   }
 
   async detectLanguage(text: string): Promise<string> {
-    // TODO: Implement actual Google Translate language detection
-    const mockService = new MockTranslationService();
-    return mockService.detectLanguage(text);
+    return googleTranslationService.detectLanguage(text);
   }
 }
 
-// OpenAI Translation Service (placeholder for real implementation)
+// OpenAI-compatible LLM Translation Service Adapter
 class OpenAITranslationService {
-  private apiKey: string;
+  async translate(request: TranslationRequest, options: TranslateOptions = {}): Promise<TranslationResponse> {
+    const result = await openaiTranslationService.translateText({
+      text: request.text,
+      sourceLang: request.sourceLang,
+      targetLang: request.targetLang,
+      translationType: request.translationType,
+      tone: request.tone,
+      signal: options.signal
+    }, options.onPartial);
 
-  constructor(apiKey: string) {
-    this.apiKey = apiKey;
-  }
-
-  async translate(request: TranslationRequest): Promise<TranslationResponse> {
-    // TODO: Implement actual OpenAI API call
-    // For now, fall back to mock service
-    const mockService = new MockTranslationService();
-    const result = await mockService.translate(request);
-    return { ...result, model: 'openai' };
+    return {
+      translatedText: result.translatedText,
+      confidence: result.confidence,
+      model: 'openai',
+      detectedLanguage: result.detectedLanguage
+    };
   }
 
   async detectLanguage(text: string): Promise<string> {
-    // TODO: Implement actual OpenAI language detection
-    const mockService = new MockTranslationService();
-    return mockService.detectLanguage(text);
+    return openaiTranslationService.detectLanguage(text);
   }
 }
 
 // Baidu Translation Service Adapter
 class BaiduTranslationServiceAdapter {
-  async translate(request: TranslationRequest): Promise<TranslationResponse> {
+  async translate(request: TranslationRequest, options: TranslateOptions = {}): Promise<TranslationResponse> {
     console.log('🔄 BaiduTranslationServiceAdapter.translate 被调用');
     console.log('- 请求参数:', request);
     
@@ -340,36 +435,32 @@ class BaiduTranslationServiceAdapter {
     
     console.log('- 百度翻译服务实例:', baiduTranslationService);
     
-    // 记录环境变量可见性，但不要阻断，因为服务内部有默认配置回退
-    const appId = import.meta.env.VITE_BAIDU_APP_ID;
-    const apiKey = import.meta.env.VITE_BAIDU_API_KEY;
-    console.log('- 环境变量检查:');
-    console.log('  - VITE_BAIDU_APP_ID:', appId ? '已设置' : '未设置');
-    console.log('  - VITE_BAIDU_API_KEY:', apiKey ? '已设置' : '未设置');
-    
     try {
       console.log('📞 正在调用百度翻译服务...');
 
       // 校验语言支持，避免使用不在映射表内的代码
+      let supported: string[] | null = null;
       try {
-        const supported = baiduTranslationService.getSupportedLanguages().map((l: { code: string }) => l.code);
-        const isSourceSupported = request.sourceLang === 'auto' || supported.includes(request.sourceLang);
-        const isTargetSupported = supported.includes(request.targetLang);
-        if (!isTargetSupported) {
-          throw new Error(`目标语言不受百度翻译支持: ${request.targetLang}`);
+        supported = baiduTranslationService.getSupportedLanguages().map((l: { code: string }) => l.code);
+      } catch (langCheckError) {
+        console.warn('语言支持校验警告:', (langCheckError as Error).message);
+      }
+      if (supported) {
+        if (!supported.includes(request.targetLang)) {
+          throw new UnsupportedLanguageError(`目标语言不受百度翻译支持: ${request.targetLang}`, { provider: 'baidu' });
         }
-        if (!isSourceSupported) {
+        if (request.sourceLang !== 'auto' && !supported.includes(request.sourceLang)) {
           console.warn('源语言不受支持，改为自动检测:', request.sourceLang);
           request = { ...request, sourceLang: 'auto' };
         }
-      } catch (langCheckError) {
-        console.warn('语言支持校验警告:', (langCheckError as Error).message);
       }
 
       const result = await baiduTranslationService.translateText({
         text: request.text,
         sourceLang: request.sourceLang,
-        targetLang: request.targetLang
+        targetLang: request.targetLang,
+        priority: options.priority,
+        signal: options.signal
       });
       
       console.log('📋 百度翻译服务返回结果:', result);
@@ -393,128 +484,613 @@ class BaiduTranslationServiceAdapter {
     }
   }
 
+  async translateBatch(
+    segments: string[],
+    sourceLang: string,
+    targetLang: string,
+    options: TranslateOptions = {}
+  ): Promise<TranslationResponse[]> {
+    await loadBaiduTranslationService();
+
+    const results = await baiduTranslationService.translateBatch(segments, sourceLang, targetLang, options.priority, options.signal);
+    return results.map((result: { translatedText: string; confidence: number; detectedLanguage?: string }) => ({
+      translatedText: result.translatedText,
+      confidence: result.confidence,
+      model: 'baidu',
+      detectedLanguage: result.detectedLanguage
+    }));
+  }
+
   async detectLanguage(text: string): Promise<string> {
     try {
       return await baiduTranslationService.detectLanguage(text);
     } catch (error) {
-      console.error('百度语言检测错误:', error);
-      const mockService = new MockTranslationService();
-      return await mockService.detectLanguage(text);
+      console.error('百度语言检测错误，改用本地检测:', error);
+      return detectLanguage(text);
     }
   }
 }
 
-// Translation Service Factory
-class TranslationServiceFactory {
-  private static instance: TranslationServiceFactory;
-  private services: Map<string, any> = new Map();
+// Offline Translation Service Adapter
+class OfflineTranslationServiceAdapter {
+  async translate(request: TranslationRequest): Promise<TranslationResponse> {
+    const result = await offlineTranslationService.translateText(request.text, request.sourceLang, request.targetLang);
+    console.log('📴 离线翻译命中:', result.source, result.approximate ? '(近似)' : '');
 
-  static getInstance(): TranslationServiceFactory {
-    if (!TranslationServiceFactory.instance) {
-      TranslationServiceFactory.instance = new TranslationServiceFactory();
-    }
-    return TranslationServiceFactory.instance;
+    return {
+      translatedText: result.translatedText,
+      confidence: result.confidence,
+      model: OFFLINE_PROVIDER_ID,
+      detectedLanguage: result.detectedLanguage,
+      offline: true,
+      approximate: result.approximate
+    };
   }
 
-  getService(model: 'baidu' | 'google' | 'openai' | 'mock' = 'baidu') {
-    console.log('🏭 翻译服务工厂获取服务:', model);
-    
-    if (!this.services.has(model)) {
-      console.log('- 创建新的服务实例:', model);
-      switch (model) {
-        case 'baidu':
-          console.log('✅ 创建百度翻译服务');
-          this.services.set(model, new BaiduTranslationServiceAdapter());
-          break;
-        case 'google':
-          console.log('✅ 创建谷歌翻译服务');
-          // In production, get API key from environment variables
-          this.services.set(model, new GoogleTranslateService(import.meta.env.VITE_GOOGLE_TRANSLATE_API_KEY || ''));
-          break;
-        case 'openai':
-          console.log('✅ 创建OpenAI翻译服务');
-          // In production, get API key from environment variables
-          this.services.set(model, new OpenAITranslationService(import.meta.env.VITE_OPENAI_API_KEY || ''));
-          break;
-        default:
-          console.log('✅ 创建模拟翻译服务');
-          this.services.set(model, new MockTranslationService());
-      }
-    } else {
-      console.log('- 使用已存在的服务实例:', model);
-    }
-    
-    const service = this.services.get(model);
-    console.log('- 返回服务实例:', service?.constructor.name);
-    return service;
+  async detectLanguage(text: string): Promise<string> {
+    return offlineTranslationService.detectLanguage(text);
   }
 }
 
+// 内置翻译提供方注册
+const ALL_LANGUAGE_CODES = Object.keys(SUPPORTED_LANGUAGES);
+const TARGET_LANGUAGE_CODES = ALL_LANGUAGE_CODES.filter(code => code !== 'auto');
+
+providerRegistry.register({
+  id: 'baidu',
+  displayName: 'Baidu 翻译',
+  description: '百度通用翻译 API，支持文本、图片和语音',
+  capabilities: { text: true, image: true, speech: true, detection: true, batch: true },
+  languages: { source: ALL_LANGUAGE_CODES, target: TARGET_LANGUAGE_CODES },
+  create: () => new BaiduTranslationServiceAdapter()
+});
+
+providerRegistry.register({
+  id: 'google',
+  displayName: 'Google 翻译',
+  clientSideCredentials: true,
+  capabilities: { text: true, image: false, speech: false, detection: true, batch: false },
+  languages: { source: ALL_LANGUAGE_CODES, target: TARGET_LANGUAGE_CODES },
+  create: () => new GoogleTranslateService()
+});
+
+providerRegistry.register({
+  id: 'openai',
+  displayName: 'OpenAI GPT',
+  description: 'OpenAI 兼容的对话补全接口（可指向本地 llama.cpp / Ollama），支持提示词模板、语气和流式输出',
+  clientSideCredentials: true,
+  capabilities: { text: true, image: false, speech: false, detection: true, batch: false },
+  languages: { source: '*', target: '*' },
+  create: () => new OpenAITranslationService()
+});
+
+providerRegistry.register({
+  id: OFFLINE_PROVIDER_ID,
+  displayName: '离线翻译',
+  description: '不联网，使用翻译缓存、历史记录、术语表和内置短语本，结果为近似译文',
+  capabilities: { text: true, image: false, speech: false, detection: true, batch: false },
+  languages: { source: ALL_LANGUAGE_CODES, target: TARGET_LANGUAGE_CODES },
+  create: () => new OfflineTranslationServiceAdapter(),
+  healthCheck: async () => true
+});
+
+providerRegistry.register({
+  id: 'mock',
+  displayName: '模拟翻译（开发用）',
+  capabilities: { text: true, image: false, speech: false, detection: true, batch: false },
+  languages: { source: ALL_LANGUAGE_CODES, target: TARGET_LANGUAGE_CODES },
+  create: () => new MockTranslationService(),
+  healthCheck: async () => true
+});
+
+// 本地检测分数达到该值时不再询问提供方
+const LOCAL_DETECTION_THRESHOLD = 0.5;
+
 // Main Translation Service
 export class TranslationService {
-  private factory = TranslationServiceFactory.getInstance();
-  private defaultModel: 'baidu' | 'google' | 'openai' | 'mock' = 'baidu';
+  private registry = providerRegistry;
+  private defaultModel: ProviderId = DEFAULT_PROVIDER_ID;
+  private failoverChain: ProviderId[] = [];
+  private circuitBreakers = new Map<ProviderId, CircuitBreaker>();
+  private offlineMode = false;
 
-  async translate(request: TranslationRequest): Promise<TranslationResponse> {
-    try {
-      console.log('🎯 主翻译服务调用开始');
-      console.log('- 请求参数:', request);
-      console.log('- 默认模型:', this.defaultModel);
-      
-      const model = request.model || this.defaultModel;
-      console.log('- 使用模型:', model);
-      
-      const service = this.factory.getService(model as 'baidu' | 'google' | 'openai' | 'mock');
-      console.log('- 获取到服务:', service.constructor.name);
-      
-      // 确保我们不会意外使用模拟服务
-      if (model === 'baidu' && service.constructor.name === 'MockTranslationService') {
-        console.error('⚠️ 警告：请求百度服务但获得了模拟服务！');
-        throw new Error('百度翻译服务初始化失败');
+  async translate(request: TranslationRequest, options: TranslateOptions = {}): Promise<TranslationResponse> {
+    console.log('🎯 主翻译服务调用开始');
+    console.log('- 请求参数:', request);
+    console.log('- 默认模型:', this.defaultModel);
+    throwIfAborted(options.signal);
+
+    // 翻译记忆 100% 匹配时直接使用，节省提供方配额
+    const memoryMatch = translationMemoryService.findExactMatch(request.text, request.sourceLang, request.targetLang);
+    if (memoryMatch) {
+      console.log('- 命中翻译记忆:', memoryMatch.origin);
+      return {
+        translatedText: memoryMatch.entry.translatedText,
+        confidence: 1,
+        model: MEMORY_MODEL,
+        detectedLanguage: request.sourceLang === 'auto' ? memoryMatch.entry.sourceLang : undefined
+      };
+    }
+
+    // 标签和占位符先替换为受保护的占位符，整段只有标记时不调用提供方
+    const markup = markupService.protect(request.text, request.format);
+    if (markup.onlyMarkup) {
+      return { translatedText: request.text, confidence: 1, model: MARKUP_MODEL };
+    }
+
+    // 术语表：术语替换为占位符后再发给提供方，整段都是术语时不调用提供方
+    const glossary = glossaryService.protect(markup.text, request.sourceLang, request.targetLang);
+    if (glossary.fullyProtected) {
+      return this.restoreMarkup(this.glossaryResponse(glossary), markup);
+    }
+
+    const { result, model, failedProviders } = await this.runWithFailover(request, async (service, model) => {
+      // 离线提供方直接按原文查找术语表词条
+      if (model === OFFLINE_PROVIDER_ID) {
+        return service.translate({ ...request, model }, options);
       }
-      
-      const result = await service.translate(request);
-      console.log('✅ 翻译服务调用成功:', result);
-      
-      // 检查返回结果是否为模拟格式
-      if (result.translatedText && result.translatedText.includes('Translation]')) {
-        console.error('⚠️ 警告：检测到模拟翻译结果格式！');
-        console.error('- 结果:', result.translatedText);
-        throw new Error('获得了模拟翻译结果，而非真实API结果');
+
+      const { onPartial } = options;
+      const result = await service.translate({ ...request, text: glossary.text, model }, {
+        ...options,
+        onPartial: onPartial && (partialText => onPartial(
+          markupService.restore(glossaryService.restore(partialText, glossary, true), markup, true).text
+        ))
+      });
+      this.assertNotMockResult(model, result.translatedText);
+      return { ...result, translatedText: glossaryService.restore(result.translatedText, glossary) };
+    }, options.usageType);
+
+    // 记录实际响应的提供方，便于历史记录中的 model 字段准确
+    const response = {
+      ...result,
+      model,
+      fallbackFrom: failedProviders.length > 0 ? failedProviders : undefined
+    };
+    // 离线提供方拿到的是原文，没有占位符可还原
+    return model === OFFLINE_PROVIDER_ID ? response : this.restoreMarkup(response, markup);
+  }
+
+  // 批量翻译：支持批量的提供方一次请求多个片段，其他提供方逐条翻译
+  async translateBatch(
+    segments: string[],
+    sourceLang: string,
+    targetLang: string,
+    model?: ProviderId,
+    options: BatchTranslateOptions = {}
+  ): Promise<TranslationResponse[]> {
+    if (segments.length === 0) return [];
+    throwIfAborted(options.signal);
+
+    const { format, usageType, ...translateOptions } = options;
+    const markups = segments.map(text => markupService.protect(text, format));
+
+    // 整段都是术语或只有标记的片段（常见于界面元素、OCR 文本块和资源文件）不调用提供方
+    const glossaries = markups.map(markup => glossaryService.protect(markup.text, sourceLang, targetLang));
+    const pending = segments
+      .map((_, index) => index)
+      .filter(index => !markups[index].onlyMarkup && !glossaries[index].fullyProtected);
+    const localResponse = (index: number): TranslationResponse => markups[index].onlyMarkup
+      ? { translatedText: segments[index], confidence: 1, model: MARKUP_MODEL }
+      : this.restoreMarkup(this.glossaryResponse(glossaries[index]), markups[index]);
+    if (pending.length === 0) {
+      return segments.map((_, index) => localResponse(index));
+    }
+
+    const request: TranslationRequest = { text: segments.join('\n'), sourceLang, targetLang, model };
+    const { result, model: answeredBy, failedProviders } = await this.runWithFailover(request, async (service, model) => {
+      const offline = model === OFFLINE_PROVIDER_ID;
+      const texts = pending.map(index => offline ? segments[index] : glossaries[index].text);
+
+      let responses: TranslationResponse[] = [];
+      if (this.registry.get(model)?.capabilities.batch && service.translateBatch) {
+        responses = await service.translateBatch(texts, sourceLang, targetLang, translateOptions);
+      } else {
+        for (const text of texts) {
+          responses.push(await service.translate({ text, sourceLang, targetLang, model }, translateOptions));
+        }
       }
-      
-      return result;
-    } catch (error) {
-      console.error('❌ 翻译服务错误:', error);
-      console.error('- 错误详情:', {
-        name: error.name,
-        message: error.message,
-        stack: error.stack
+
+      responses.forEach(response => this.assertNotMockResult(model, response.translatedText));
+      return offline ? responses : responses.map((response, i) => ({
+        ...response,
+        translatedText: glossaryService.restore(response.translatedText, glossaries[pending[i]])
+      }));
+    }, usageType);
+
+    const fallbackFrom = failedProviders.length > 0 ? failedProviders : undefined;
+    return segments.map((_, index) => {
+      const position = pending.indexOf(index);
+      if (position < 0) {
+        return localResponse(index);
+      }
+      const response = { ...result[position], model: answeredBy, fallbackFrom };
+      return answeredBy === OFFLINE_PROVIDER_ID ? response : this.restoreMarkup(response, markups[index]);
+    });
+  }
+
+  // 对比模式：同一请求并行发给多个提供方，不做故障转移，每个提供方单独返回结果或错误
+  async compare(
+    request: TranslationRequest,
+    models?: ProviderId[],
+    options: TranslateOptions = {}
+  ): Promise<ProviderComparison[]> {
+    // 离线模式下只能对比离线结果
+    const targets = this.offlineMode ? [OFFLINE_PROVIDER_ID] : models ?? this.registry
+      .find({ capability: 'text', sourceLang: request.sourceLang, targetLang: request.targetLang })
+      .map(provider => provider.id);
+
+    return Promise.all(targets.map(async model => {
+      const displayName = this.registry.get(model)?.displayName || model;
+      const breaker = this.getCircuitBreaker(model);
+      const startTime = Date.now();
+
+      // 超出用量预算的提供方不发请求
+      const budget = model === OFFLINE_PROVIDER_ID
+        ? undefined
+        : budgetService.check(model, 'text', request.text.length);
+      if (budget && !budget.allowed) {
+        return { model, displayName, error: budget.error, latency: 0 };
+      }
+
+      try {
+        const service = this.registry.getEngine(model);
+        const markup = model === OFFLINE_PROVIDER_ID ? undefined : markupService.protect(request.text, request.format);
+        const glossary = markup && glossaryService.protect(markup.text, request.sourceLang, request.targetLang);
+        const response = await service.translate({ ...request, text: glossary?.text ?? request.text, model }, options);
+        this.assertNotMockResult(model, response.translatedText);
+        breaker.recordSuccess();
+
+        const translated = { ...response, model };
+        return {
+          model,
+          displayName,
+          response: glossary && markup
+            ? this.restoreMarkup({ ...translated, translatedText: glossaryService.restore(response.translatedText, glossary) }, markup)
+            : translated,
+          latency: Date.now() - startTime,
+          estimatedCost: UsageStatsManager.estimateTextCost(request.text.length, model)
+        };
+      } catch (error) {
+        const apiError = ApiErrorHandler.categorizeError(error);
+        if (!isCancelledError(error)) {
+          breaker.recordFailure(apiError);
+          recordError(`compare:${model}`, apiError);
+        }
+        console.error('❌ 对比翻译失败:', model, error);
+
+        return {
+          model,
+          displayName,
+          error: apiError,
+          latency: Date.now() - startTime
+        };
+      }
+    }));
+  }
+
+  // 长文本翻译：按句切分后分批走批量翻译，保留段落、换行、列表符号和代码块，逐批汇报进度
+  // 非流式接口，内部消费 translateStream，把事件转给回调
+  async translateDocument(
+    request: TranslationRequest,
+    options: DocumentTranslateOptions = {}
+  ): Promise<TranslationResponse> {
+    const { onPartial, onProgress, priority, signal } = options;
+    for await (const event of this.translateStream(request, { priority, signal })) {
+      if (event.type === 'partial') onPartial?.(event.text);
+      if (event.type === 'progress') onProgress?.(event.progress);
+      if (event.type === 'complete') return event.response;
+    }
+    throw new ProviderBugError('翻译未返回结果', { code: 'STREAM_ENDED' });
+  }
+
+  // 流式翻译：短文本产出流式提供方的部分译文，长文本按句分批产出进度和每句译文，最后产出完整响应
+  async *translateStream(
+    request: TranslationRequest,
+    options: StreamTranslateOptions = {}
+  ): AsyncGenerator<TranslationStreamEvent, TranslationResponse> {
+    const { priority, signal } = options;
+    return yield* this.streamEvents(emit => request.text.length <= LONG_TEXT_THRESHOLD
+      ? this.translate(request, { priority, signal, onPartial: text => emit({ type: 'partial', text }) })
+      : this.translateSentences(request, { priority, signal }, emit));
+  }
+
+  // 流式批量翻译：按 chunkSize 分批请求，每批完成后逐个产出片段译文；非流式调用仍用 translateBatch
+  async *translateBatchStream(
+    segments: string[],
+    sourceLang: string,
+    targetLang: string,
+    model?: ProviderId,
+    options: BatchStreamOptions = {}
+  ): AsyncGenerator<BatchStreamItem> {
+    const { chunkSize = STREAM_BATCH_SIZE, ...batchOptions } = options;
+    for (let start = 0; start < segments.length; start += chunkSize) {
+      throwIfAborted(batchOptions.signal);
+      const responses = await this.translateBatch(
+        segments.slice(start, start + chunkSize),
+        sourceLang,
+        targetLang,
+        model,
+        batchOptions
+      );
+      for (let i = 0; i < responses.length; i++) {
+        yield { index: start + i, response: responses[i] };
+      }
+    }
+  }
+
+  // 把回调式的翻译过程转为异步迭代：run 中 emit 的事件按顺序产出，run 完成后产出 complete
+  private async *streamEvents(
+    run: (emit: (event: TranslationStreamEvent) => void) => Promise<TranslationResponse>
+  ): AsyncGenerator<TranslationStreamEvent, TranslationResponse> {
+    const queue: TranslationStreamEvent[] = [];
+    let wake: (() => void) | null = null;
+    let outcome: { response: TranslationResponse } | { error: unknown } | null = null;
+
+    run(event => {
+      queue.push(event);
+      wake?.();
+    }).then(
+      response => { outcome = { response }; },
+      error => { outcome = { error }; }
+    ).finally(() => wake?.());
+
+    while (true) {
+      if (queue.length > 0) {
+        yield queue.shift()!;
+        continue;
+      }
+      if (outcome) break;
+      await new Promise<void>(resolve => { wake = resolve; });
+      wake = null;
+    }
+
+    const settled = outcome as { response: TranslationResponse } | { error: unknown };
+    if ('error' in settled) {
+      throw settled.error;
+    }
+    yield { type: 'complete', response: settled.response };
+    return settled.response;
+  }
+
+  // 超过 LONG_TEXT_THRESHOLD 的文本按句切分，分批翻译并逐批产出进度
+  private async translateSentences(
+    request: TranslationRequest,
+    options: StreamTranslateOptions,
+    emit: (event: TranslationStreamEvent) => void
+  ): Promise<TranslationResponse> {
+    const { priority, signal } = options;
+    // 标记在整篇文本上保护，跨行的标签也只占一个占位符；只含占位符的句子不发送
+    const markup = markupService.protect(request.text, request.format);
+    const segments = segmentText(markup.text).map(segment => ({
+      ...segment,
+      translatable: segment.translatable && markupService.hasTranslatableText(segment.text)
+    }));
+    const sentences = segments.filter(segment => segment.translatable).map(segment => segment.text);
+    console.log('📄 长文本分批翻译:', sentences.length, '句');
+
+    const batches: string[][] = [];
+    let currentBatch: string[] = [];
+    let currentChars = 0;
+    for (const sentence of sentences) {
+      if (currentBatch.length > 0 && currentChars + sentence.length > DOCUMENT_BATCH_CHARS) {
+        batches.push(currentBatch);
+        currentBatch = [];
+        currentChars = 0;
+      }
+      currentBatch.push(sentence);
+      currentChars += sentence.length;
+    }
+    if (currentBatch.length > 0) batches.push(currentBatch);
+
+    const translations: string[] = [];
+    const responses: TranslationResponse[] = [];
+    const assemble = (partial: boolean) =>
+      markupService.restore(reassembleText(segments, translations, request.targetLang), markup, partial);
+    const report = () => {
+      const partialText = assemble(true).text;
+      emit({ type: 'progress', progress: { completed: translations.length, total: sentences.length, partialText } });
+      emit({ type: 'partial', text: partialText });
+    };
+    report();
+
+    const cancelled = () => createCancelledError({ partialText: assemble(true).text });
+
+    for (const batch of batches) {
+      if (signal?.aborted) {
+        throw cancelled();
+      }
+
+      // 逐句的流式回调没有意义，只传优先级和取消信号
+      let batchResponses: TranslationResponse[];
+      try {
+        batchResponses = await this.translateBatch(
+          batch,
+          request.sourceLang,
+          request.targetLang,
+          request.model,
+          { priority, signal }
+        );
+      } catch (error) {
+        throw isCancelledError(error) ? cancelled() : error;
+      }
+      batchResponses.forEach(response => {
+        emit({ type: 'segment', index: translations.length, translatedText: response.translatedText });
+        translations.push(response.translatedText);
       });
-      throw {
-        code: 'TRANSLATION_ERROR',
-        message: 'Failed to translate text',
-        details: error
-      } as TranslationError;
+      responses.push(...batchResponses);
+      report();
     }
+
+    const fallbackFrom = [...new Set(responses.flatMap(response => response.fallbackFrom || []))];
+    // 部分句子可能整句命中术语表，以实际调用的提供方为准
+    const answeredBy = responses.find(response => response.model !== GLOSSARY_MODEL) || responses[0];
+    const { text, warnings } = assemble(false);
+    return {
+      translatedText: text,
+      confidence: responses.length > 0
+        ? responses.reduce((sum, response) => sum + response.confidence, 0) / responses.length
+        : 1,
+      model: answeredBy?.model || this.resolveModel(request.model),
+      detectedLanguage: responses.find(response => response.detectedLanguage)?.detectedLanguage,
+      fallbackFrom: fallbackFrom.length > 0 ? fallbackFrom : undefined,
+      offline: responses.some(response => response.offline) || undefined,
+      approximate: responses.some(response => response.approximate) || undefined,
+      warnings: warnings.length > 0 ? warnings : undefined
+    };
   }
 
+  // 依次尝试提供方链路，直到某个提供方成功
+  private async runWithFailover<T>(
+    request: TranslationRequest,
+    attempt: (service: TranslationEngine, model: ProviderId) => Promise<T>,
+    usageType: UsageType = 'text'
+  ): Promise<{ result: T; model: ProviderId; failedProviders: ProviderId[] }> {
+    const chain = this.buildProviderChain(request);
+    console.log('- 提供方链路:', chain.join(' → '));
+
+    const failedProviders: ProviderId[] = [];
+    let lastError: unknown = new ProviderBugError('没有可用的翻译提供方，请稍后重试', { code: 'NO_PROVIDER_AVAILABLE' });
+
+    for (const model of chain) {
+      // 超出用量预算的提供方按失败跳过；降级规则在链路末尾补上离线翻译
+      // 预算检查放在熔断检查之前，跳过时不会占用半开状态的试探名额
+      if (model !== OFFLINE_PROVIDER_ID) {
+        const budget = budgetService.check(model, usageType, request.text.length, undefined, 'text');
+        if (!budget.allowed) {
+          console.warn('💰 提供方超出用量预算，跳过:', model);
+          failedProviders.push(model);
+          lastError = budget.error;
+          if (budget.action === 'downgrade' && !chain.includes(OFFLINE_PROVIDER_ID)) {
+            chain.push(OFFLINE_PROVIDER_ID);
+          }
+          continue;
+        }
+      }
+
+      const breaker = this.getCircuitBreaker(model);
+      if (!breaker.canRequest()) {
+        console.warn('⛔ 提供方处于熔断状态，跳过:', model);
+        failedProviders.push(model);
+        continue;
+      }
+
+      try {
+        const service = this.registry.getEngine(model);
+        console.log('- 使用模型:', model, service.constructor.name);
+
+        const result = await attempt(service, model);
+        console.log('✅ 翻译服务调用成功:', result);
+
+        breaker.recordSuccess();
+        return { result, model, failedProviders };
+      } catch (error) {
+        // 用户取消不是提供方故障，不记入熔断、也不尝试下一个提供方
+        if (isCancelledError(error)) {
+          breaker.releaseTrial();
+          throw createCancelledError(error);
+        }
+
+        const apiError = ApiErrorHandler.categorizeError(error);
+        breaker.recordFailure(apiError);
+        failedProviders.push(model);
+        lastError = apiError;
+        recordError(`translate:${model}`, apiError);
+
+        console.error('❌ 翻译服务错误:', model, error);
+        console.error('- 错误分类:', apiError.code, apiError.retryable ? '(可重试)' : '');
+      }
+    }
+
+    // 抛出最后一个提供方的分类错误，页面据此展示处理建议
+    throw lastError;
+  }
+
+  // 整段命中术语表时的响应
+  private glossaryResponse(glossary: ProtectedText): TranslationResponse {
+    return {
+      translatedText: glossaryService.restore(glossary.text, glossary),
+      confidence: 1,
+      model: GLOSSARY_MODEL
+    };
+  }
+
+  // 还原标记占位符，丢失或重复的占位符记入 warnings
+  private restoreMarkup(response: TranslationResponse, markup: ProtectedMarkup): TranslationResponse {
+    const { text, warnings } = markupService.restore(response.translatedText, markup);
+    return {
+      ...response,
+      translatedText: text,
+      warnings: warnings.length > 0 ? warnings : undefined
+    };
+  }
+
+  // 检查返回结果是否为模拟格式（显式选择模拟服务时除外）
+  private assertNotMockResult(model: ProviderId, translatedText: string) {
+    if (model !== 'mock' && translatedText && translatedText.includes('Translation]')) {
+      console.error('⚠️ 警告：检测到模拟翻译结果格式！');
+      console.error('- 结果:', translatedText);
+      throw new ProviderBugError('获得了模拟翻译结果，而非真实API结果', { code: 'MOCK_RESULT', provider: model });
+    }
+  }
+
+  // 主提供方在前，其后是未熔断的备用提供方；不支持该语言对的提供方会被跳过
+  // 离线模式下不尝试任何联网提供方
+  private buildProviderChain(request: TranslationRequest): ProviderId[] {
+    if (this.offlineMode) {
+      return [OFFLINE_PROVIDER_ID];
+    }
+
+    const primary = this.resolveModel(request.model);
+    const chain = [primary, ...this.failoverChain].filter((id, index, all) => all.indexOf(id) === index);
+
+    return chain.filter(id => {
+      if (id === primary) return true;
+      return this.registry.has(id) && this.registry.supportsPair(id, request.sourceLang, request.targetLang);
+    });
+  }
+
+  private getCircuitBreaker(model: ProviderId): CircuitBreaker {
+    let breaker = this.circuitBreakers.get(model);
+    if (!breaker) {
+      breaker = new CircuitBreaker();
+      this.circuitBreakers.set(model, breaker);
+    }
+    return breaker;
+  }
+
+  // 默认使用本地检测；本地结果不确定时（在线状态下）再询问首选提供方
   async detectLanguage(text: string): Promise<string> {
+    const [top] = detectLanguageCandidates(text, 1);
+    if (top && (top.score >= LOCAL_DETECTION_THRESHOLD || this.offlineMode)) {
+      return top.code;
+    }
+
     try {
-      const service = this.factory.getService(this.defaultModel);
+      const service = this.registry.getEngine(this.offlineMode ? OFFLINE_PROVIDER_ID : this.defaultModel);
       return await service.detectLanguage(text);
     } catch (error) {
+      if (top) {
+        console.warn('提供方语言检测失败，使用本地检测结果:', top.code, error);
+        return top.code;
+      }
       console.error('语言检测错误:', error);
-      throw {
-        code: 'DETECTION_ERROR',
-        message: 'Failed to detect language',
-        details: error
-      } as TranslationError;
+      const apiError = ApiErrorHandler.categorizeError(error);
+      recordError('detect', apiError);
+      throw apiError;
     }
   }
 
+  // 本地检测的候选语言（按分数排序），供界面展示
+  detectLanguageCandidates(text: string, limit: number = 3): LanguageCandidate[] {
+    return detectLanguageCandidates(text, limit);
+  }
+
   // 设置默认翻译模型
-  setDefaultModel(model: 'baidu' | 'google' | 'openai' | 'mock') {
+  setDefaultModel(model: ProviderId) {
+    if (!this.registry.has(model)) {
+      throw new Error(`未注册的翻译提供方: ${model}`);
+    }
     this.defaultModel = model;
   }
 
@@ -523,19 +1099,64 @@ export class TranslationService {
     return this.defaultModel;
   }
 
+  // 离线模式：只使用本地数据，不发起网络请求
+  setOfflineMode(enabled: boolean) {
+    this.offlineMode = enabled;
+  }
+
+  isOfflineMode() {
+    return this.offlineMode;
+  }
+
+  // 设置备用提供方（按顺序尝试）
+  setFailoverChain(chain: ProviderId[]) {
+    this.failoverChain = chain.filter(id => this.registry.has(id));
+  }
+
+  getFailoverChain() {
+    return [...this.failoverChain];
+  }
+
+  // 各提供方熔断器状态
+  getCircuitStates(): Record<ProviderId, CircuitSnapshot> {
+    const states: Record<ProviderId, CircuitSnapshot> = {};
+    this.circuitBreakers.forEach((breaker, id) => {
+      states[id] = breaker.getSnapshot();
+    });
+    return states;
+  }
+
+  resetCircuit(model: ProviderId) {
+    this.circuitBreakers.get(model)?.reset();
+  }
+
+  // 获取已注册的翻译提供方
+  getProviders(capability?: ProviderCapability) {
+    return this.registry.find({ capability });
+  }
+
+  // 检查指定提供方是否可用
+  async checkProviderHealth(model: ProviderId): Promise<ProviderHealth> {
+    if (this.offlineMode && model !== OFFLINE_PROVIDER_ID) {
+      return { healthy: false, latency: 0, checkedAt: Date.now(), message: '离线模式下不检查联网提供方' };
+    }
+    return this.registry.checkHealth(model);
+  }
+
   // 检查百度翻译服务是否可用
   async checkBaiduService(): Promise<boolean> {
-    try {
-      await this.translate({
-        text: 'test',
-        sourceLang: 'en',
-        targetLang: 'zh',
-        model: 'baidu'
-      });
-      return true;
-    } catch (error) {
-      return false;
+    const health = await this.checkProviderHealth('baidu');
+    return health.healthy;
+  }
+
+  // 未注册的模型（例如旧版本保存的设置）回退到默认模型
+  private resolveModel(model?: ProviderId): ProviderId {
+    const resolved = model || this.defaultModel;
+    if (!this.registry.has(resolved)) {
+      console.warn('⚠️ 未注册的翻译提供方，使用默认模型:', resolved);
+      return this.defaultModel;
     }
+    return resolved;
   }
 
   getLanguages() {
@@ -551,4 +1172,6 @@ export class TranslationService {
 }
 
 // Export singleton instance
-export const translationService = new TranslationService();
\ No newline at end of file
+export const translationService = new TranslationService();
+
+export { providerRegistry };
\ No newline at end of file
@@ -1,5 +1,9 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import { DEFAULT_PROVIDER_ID, ProviderId } from '../services/providerRegistry';
+import type { Glossary } from '../services/glossaryService';
+import type { BudgetRule } from '../services/budgetService';
+import type { PerceptualHashAlgorithm } from '../utils/perceptualHash';
 
 // Types
 export interface TranslationRecord {
@@ -19,11 +23,17 @@ export interface TranslationRecord {
 export interface UserSettings {
   defaultSourceLang: string;
   defaultTargetLang: string;
-  preferredModel: 'baidu' | 'google' | 'openai' | 'azure';
+  preferredModel: ProviderId; // 对应 providerRegistry 中注册的提供方
+  failoverChain: ProviderId[]; // 首选提供方失败时按顺序尝试的备用提供方
   overlayOpacity: number;
   autoDetect: boolean;
   saveHistory: boolean;
   offlineMode: boolean;
+  qualityCheck: boolean; // 翻译后回译检查质量，额外调用一次翻译接口
+  budgets: BudgetRule[]; // 用量预算，超出后拦截或降级到离线翻译
+  pricingPlans: Record<string, string>; // 各提供方的计费方案（提供方 id → 方案 id），未设置时用默认方案
+  imageHashAlgorithm: PerceptualHashAlgorithm; // 图片和 OCR 缓存使用的感知哈希算法
+  imageMatchDistance: number; // 相似图片复用缓存的最大汉明距离，0 表示只复用内容相同的图片
   smartSuggestions: boolean;
 }
 
@@ -61,6 +71,12 @@ interface TranslationState {
   clearRecentLanguagePairs: () => void;
   removeRecentLanguagePair: (index: number) => void;
 
+  // Glossaries
+  glossaries: Glossary[];
+  addGlossary: (glossary: Omit<Glossary, 'id'>) => string;
+  updateGlossary: (id: string, glossary: Partial<Omit<Glossary, 'id'>>) => void;
+  removeGlossary: (id: string) => void;
+
   // Statistics
   getStats: () => {
     totalTranslations: number;
@@ -74,10 +90,16 @@ interface TranslationState {
 const defaultSettings: UserSettings = {
   defaultSourceLang: 'auto',
   defaultTargetLang: 'en',
-  preferredModel: 'baidu',
+  preferredModel: DEFAULT_PROVIDER_ID,
+  failoverChain: [],
   autoDetect: true,
   saveHistory: true,
   offlineMode: false,
+  qualityCheck: false,
+  budgets: [],
+  pricingPlans: {},
+  imageHashAlgorithm: 'dhash',
+  imageMatchDistance: 3,
   overlayOpacity: 0.8,
   smartSuggestions: true
 };
@@ -203,6 +225,29 @@ export const useTranslationStore = create<TranslationState>()
         }));
       },
 
+      // Glossaries
+      glossaries: [],
+
+      addGlossary: (glossary) => {
+        const id = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+        set((state) => ({
+          glossaries: [...state.glossaries, { ...glossary, id }]
+        }));
+        return id;
+      },
+
+      updateGlossary: (id, glossary) => {
+        set((state) => ({
+          glossaries: state.glossaries.map(g => g.id === id ? { ...g, ...glossary } : g)
+        }));
+      },
+
+      removeGlossary: (id) => {
+        set((state) => ({
+          glossaries: state.glossaries.filter(g => g.id !== id)
+        }));
+      },
+
       // Statistics
       getStats: () => {
         const { history } = get();
@@ -278,12 +323,22 @@ export const useTranslationStore = create<TranslationState>()
     }),
     {
       name: 'translation-store',
+      version: 1,
+      migrate: (persistedState, version) => {
+        const state = persistedState as Partial<TranslationState>;
+        // v0 允许保存未实现的 'azure'，迁移到默认提供方
+        if (version < 1 && state?.settings?.preferredModel === 'azure') {
+          state.settings = { ...state.settings, preferredModel: DEFAULT_PROVIDER_ID };
+        }
+        return state as TranslationState;
+      },
       partialize: (state) => {
         const typedState = state as TranslationState;
         return {
           history: typedState.history,
           settings: typedState.settings,
-          recentLanguagePairs: typedState.recentLanguagePairs
+          recentLanguagePairs: typedState.recentLanguagePairs,
+          glossaries: typedState.glossaries
         };
       }
     }
@@ -293,4 +348,5 @@ export const useTranslationStore = create<TranslationState>()
 export const useTranslationHistory = () => useTranslationStore(state => state.history);
 export const useTranslationSettings = () => useTranslationStore(state => state.settings);
 export const useCurrentTranslation = () => useTranslationStore(state => state.currentTranslation);
-export const useRecentLanguagePairs = () => useTranslationStore(state => state.recentLanguagePairs);
\ No newline at end of file
+export const useRecentLanguagePairs = () => useTranslationStore(state => state.recentLanguagePairs);
+export const useGlossaries = () => useTranslationStore(state => state.glossaries);
\ No newline at end of file
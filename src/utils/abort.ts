@@ -0,0 +1,47 @@
+// 请求取消：统一的取消错误、取消检查点、可取消的等待
+// 各层收到 AbortSignal 后在排队、重试、网络请求和 OCR 之间检查，取消时抛出 code 为 CANCELLED 的错误
+
+import type { ApiError } from '../services/apiUtils';
+
+export const CANCELLED_CODE = 'CANCELLED';
+
+export const createCancelledError = (details?: unknown): ApiError => ({
+  code: CANCELLED_CODE,
+  message: '请求已取消',
+  retryable: false,
+  details
+});
+
+// 已转换的取消错误、axios 的 CanceledError 和 fetch 的 AbortError
+export const isCancelledError = (error: unknown): boolean => {
+  const candidate = error as { code?: string; name?: string } | null;
+  return candidate?.code === CANCELLED_CODE ||
+    candidate?.code === 'ERR_CANCELED' ||
+    candidate?.name === 'CanceledError' ||
+    candidate?.name === 'AbortError';
+};
+
+export const throwIfAborted = (signal?: AbortSignal): void => {
+  if (signal?.aborted) {
+    throw createCancelledError();
+  }
+};
+
+// 取消时立即以取消错误结束，原 promise 的结果被忽略
+export const raceWithAbort = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (!signal) return promise;
+  if (signal.aborted) {
+    promise.catch(() => undefined);
+    return Promise.reject(createCancelledError());
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(createCancelledError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+};
+
+// 重试退避等待，取消时提前结束
+export const abortableDelay = (ms: number, signal?: AbortSignal): Promise<void> =>
+  raceWithAbort(new Promise<void>(resolve => setTimeout(resolve, ms)), signal);
@@ -51,14 +51,14 @@ export function detectBrowserEnvironment(): BrowserEnvironment {
 
 export function getEnvironmentConfig(env: BrowserEnvironment): EnvironmentConfig {
   return {
-    useProxy: env.isEmbedded,
+    useProxy: true,
     timeout: env.isEmbedded ? 20000 : 10000,
     maxRetries: env.isEmbedded ? 3 : 2,
     retryDelay: env.isEmbedded ? 1500 : 1000,
     headers: {
       ...(env.isEmbedded ? { 'X-Requested-With': 'XMLHttpRequest' } : {})
     },
-    apiEndpoint: env.isEmbedded ? '/api/baidu' : 'https://fanyi-api.baidu.com',
+    apiEndpoint: '/api/translate', // 所有环境都经翻译代理调用
     errorHandling: {
       showDetailedErrors: !env.isEmbedded,
       fallbackToMock: !!env.restrictions.apiAccessLimited,
@@ -0,0 +1,13 @@
+// 浏览器下载：通过临时链接保存 Blob
+
+// 部分浏览器在 click() 返回后才开始读取 Blob，立即释放会导致下载失败，延后释放
+const REVOKE_DELAY_MS = 40 * 1000;
+
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+}
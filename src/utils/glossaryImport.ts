@@ -0,0 +1,135 @@
+// 术语表导入：支持 CSV（源术语,目标术语[,区分大小写][,不翻译]）和 TBX
+import type { GlossaryTerm } from '../services/glossaryService';
+
+export type ImportedTerm = Omit<GlossaryTerm, 'id'>;
+
+const TRUE_VALUES = ['1', 'true', 'yes', 'y', '是', 'x'];
+
+const isTruthy = (value?: string) => !!value && TRUE_VALUES.includes(value.trim().toLowerCase());
+
+// 按 RFC 4180 拆分：支持引号内的逗号、换行和转义的双引号
+const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',' || char === ';' || char === '\t') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+};
+
+// 表头识别，列名大小写不敏感，中英文均可
+const HEADER_ALIASES: Record<keyof ImportedTerm, string[]> = {
+  sourceTerm: ['source', 'source term', 'term', '源术语', '原文'],
+  targetTerm: ['target', 'target term', 'translation', '目标术语', '译文'],
+  caseSensitive: ['case sensitive', 'case_sensitive', 'casesensitive', '区分大小写'],
+  doNotTranslate: ['do not translate', 'do_not_translate', 'donottranslate', 'dnt', '不翻译']
+};
+
+export function parseGlossaryCsv(text: string): ImportedTerm[] {
+  const rows = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  if (rows.length === 0) return [];
+
+  const header = rows[0].map(cell => cell.trim().toLowerCase());
+  const columnOf = (key: keyof ImportedTerm) => header.findIndex(cell => HEADER_ALIASES[key].includes(cell));
+  const hasHeader = columnOf('sourceTerm') >= 0;
+
+  const columns = hasHeader
+    ? {
+        sourceTerm: columnOf('sourceTerm'),
+        targetTerm: columnOf('targetTerm'),
+        caseSensitive: columnOf('caseSensitive'),
+        doNotTranslate: columnOf('doNotTranslate')
+      }
+    : { sourceTerm: 0, targetTerm: 1, caseSensitive: 2, doNotTranslate: 3 };
+
+  return rows.slice(hasHeader ? 1 : 0)
+    .map(cells => ({
+      sourceTerm: (cells[columns.sourceTerm] || '').trim(),
+      targetTerm: (cells[columns.targetTerm] || '').trim(),
+      caseSensitive: isTruthy(cells[columns.caseSensitive]),
+      doNotTranslate: isTruthy(cells[columns.doNotTranslate])
+    }))
+    .filter(term => term.sourceTerm && (term.targetTerm || term.doNotTranslate));
+}
+
+// 语言代码只比较主标签（zh-CN 与 zh 视为相同）
+const primaryTag = (lang: string) => lang.toLowerCase().split(/[-_]/)[0];
+
+const termsOfLangSet = (langSet: Element): string[] =>
+  Array.from(langSet.getElementsByTagName('term'))
+    .map(term => term.textContent?.trim() || '')
+    .filter(Boolean);
+
+// TBX（ISO 30042）：每个 termEntry 取源语言和目标语言的首选术语
+export function parseGlossaryTbx(xml: string, sourceLang: string, targetLang: string): ImportedTerm[] {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('TBX 文件格式无效');
+  }
+
+  const entries = [
+    ...Array.from(doc.getElementsByTagName('termEntry')),
+    ...Array.from(doc.getElementsByTagName('conceptEntry'))
+  ];
+
+  const terms: ImportedTerm[] = [];
+  entries.forEach(entry => {
+    const langSets = [
+      ...Array.from(entry.getElementsByTagName('langSet')),
+      ...Array.from(entry.getElementsByTagName('langSec'))
+    ];
+    const langOf = (langSet: Element) => primaryTag(langSet.getAttribute('xml:lang') || langSet.getAttribute('lang') || '');
+
+    // 源语言为 auto 时取第一个非目标语言的语言段
+    const source = langSets.find(langSet => sourceLang === 'auto'
+      ? langOf(langSet) !== primaryTag(targetLang)
+      : langOf(langSet) === primaryTag(sourceLang));
+    const target = langSets.find(langSet => langOf(langSet) === primaryTag(targetLang));
+    if (!source || !target) return;
+
+    const sourceTerm = termsOfLangSet(source)[0];
+    const targetTerm = termsOfLangSet(target)[0];
+    if (!sourceTerm || !targetTerm) return;
+
+    // 译文与原文相同视为不翻译（如产品名）
+    terms.push({
+      sourceTerm,
+      targetTerm,
+      caseSensitive: false,
+      doNotTranslate: sourceTerm === targetTerm
+    });
+  });
+
+  return terms;
+}
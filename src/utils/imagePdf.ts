@@ -0,0 +1,178 @@
+// 由逐页 JPEG 图像生成 PDF：每页一张整页图片（DCTDecode），页面尺寸沿用原文档（单位 pt）
+// 提供了文字行的页面在图片上叠加不可见的文字层（渲染模式 3），译文可以选中、复制和搜索
+
+// 文字层的一行，坐标与页面图像的像素一致（左上角为原点）
+export interface PdfTextLine {
+  text: string;
+  x: number;
+  baseline: number;
+  width: number;
+  fontSize: number;
+}
+
+export interface PdfPageImage {
+  jpeg: Uint8Array;
+  pixelWidth: number;
+  pixelHeight: number;
+  width: number; // 页面宽度（pt）
+  height: number; // 页面高度（pt）
+  textLines?: PdfTextLine[];
+}
+
+// data:image/jpeg;base64,... 转为字节
+export const dataUrlToBytes = (dataUrl: string): Uint8Array => {
+  const binary = atob(dataUrl.slice(dataUrl.indexOf(',') + 1));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+// ToUnicode 的 bfchar 每段最多 100 项
+const CMAP_BLOCK_SIZE = 100;
+
+const toHex = (value: number, digits: number) => value.toString(16).toUpperCase().padStart(digits, '0');
+
+// 字符的 UTF-16BE 十六进制（增补平面字符为代理对）
+const utf16Hex = (char: string) =>
+  Array.from({ length: char.length }, (_, i) => toHex(char.charCodeAt(i), 4)).join('');
+
+// 文字层字体：不嵌入字形，CID 按字符首次出现的顺序编号，ToUnicode 把 CID 还原为原字符
+function buildToUnicode(chars: string[]): string {
+  const entries = chars.map((char, index) => `<${toHex(index + 1, 4)}> <${utf16Hex(char)}>`);
+  const blocks: string[] = [];
+  for (let i = 0; i < entries.length; i += CMAP_BLOCK_SIZE) {
+    const block = entries.slice(i, i + CMAP_BLOCK_SIZE);
+    blocks.push(`${block.length} beginbfchar\n${block.join('\n')}\nendbfchar`);
+  }
+
+  return [
+    '/CIDInit /ProcSet findresource begin',
+    '12 dict begin',
+    'begincmap',
+    '/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def',
+    '/CMapName /Adobe-Identity-UCS def',
+    '/CMapType 2 def',
+    '1 begincodespacerange\n<0000> <FFFF>\nendcodespacerange',
+    ...blocks,
+    'endcmap',
+    'CMapName currentdict /CMap defineresource pop',
+    'end',
+    'end'
+  ].join('\n');
+}
+
+export function buildImagePdf(pages: PdfPageImage[]): Blob {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (data: string | Uint8Array) => {
+    const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const beginObject = (id: number) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n`);
+  };
+  const writeStream = (id: number, content: string) => {
+    beginObject(id);
+    write(`<< /Length ${encoder.encode(content).length} >>\nstream\n${content}\nendstream\nendobj\n`);
+  };
+
+  // 文字层用到的字符，CID 从 1 开始
+  const cids = new Map<string, number>();
+  pages.forEach(page => page.textLines?.forEach(line => {
+    for (const char of line.text) {
+      if (!cids.has(char)) cids.set(char, cids.size + 1);
+    }
+  }));
+  const hasTextLayer = cids.size > 0;
+
+  // 对象编号：1 目录，2 页面树，之后每页依次为页面、内容流、图像，最后是文字层字体
+  const pageId = (index: number) => 3 + index * 3;
+  const fontId = 3 + pages.length * 3;
+  const objectCount = 2 + pages.length * 3 + (hasTextLayer ? 4 : 0);
+
+  write('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n');
+
+  beginObject(1);
+  write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+
+  beginObject(2);
+  const kids = pages.map((_, index) => `${pageId(index)} 0 R`).join(' ');
+  write(`<< /Type /Pages /Kids [${kids}] /Count ${pages.length} >>\nendobj\n`);
+
+  pages.forEach((page, index) => {
+    const id = pageId(index);
+    const width = page.width.toFixed(2);
+    const height = page.height.toFixed(2);
+    const lines = (page.textLines || []).filter(line => line.text.length > 0);
+    const font = lines.length > 0 ? ` /Font << /F1 ${fontId} 0 R >>` : '';
+
+    beginObject(id);
+    write(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] ` +
+      `/Resources << /XObject << /Im0 ${id + 2} 0 R >>${font} >> /Contents ${id + 1} 0 R >>\nendobj\n`
+    );
+
+    // 字形宽度统一为 1em，按行宽横向缩放，选中范围与页面上的译文大致重合
+    const scaleX = page.width / page.pixelWidth;
+    const scaleY = page.height / page.pixelHeight;
+    const text = lines.map(line => {
+      const chars = Array.from(line.text);
+      const fontSize = line.fontSize * scaleY;
+      const horizontalScale = (line.width * scaleX) / (chars.length * fontSize) * 100;
+      const x = line.x * scaleX;
+      const y = page.height - line.baseline * scaleY;
+      const codes = chars.map(char => toHex(cids.get(char)!, 4)).join('');
+      return `/F1 ${fontSize.toFixed(2)} Tf ${horizontalScale.toFixed(2)} Tz 1 0 0 1 ${x.toFixed(2)} ${y.toFixed(2)} Tm <${codes}> Tj`;
+    });
+    const content = `q ${width} 0 0 ${height} 0 0 cm /Im0 Do Q` + (text.length > 0 ? `\nBT 3 Tr\n${text.join('\n')}\nET` : '');
+    writeStream(id + 1, content);
+
+    beginObject(id + 2);
+    write(
+      `<< /Type /XObject /Subtype /Image /Width ${page.pixelWidth} /Height ${page.pixelHeight} ` +
+      `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`
+    );
+    write(page.jpeg);
+    write('\nendstream\nendobj\n');
+  });
+
+  if (hasTextLayer) {
+    beginObject(fontId);
+    write(
+      `<< /Type /Font /Subtype /Type0 /BaseFont /GlyphLessFont /Encoding /Identity-H ` +
+      `/DescendantFonts [${fontId + 1} 0 R] /ToUnicode ${fontId + 3} 0 R >>\nendobj\n`
+    );
+
+    beginObject(fontId + 1);
+    write(
+      `<< /Type /Font /Subtype /CIDFontType2 /BaseFont /GlyphLessFont ` +
+      `/CIDSystemInfo << /Registry (Adobe) /Ordering (Identity) /Supplement 0 >> ` +
+      `/FontDescriptor ${fontId + 2} 0 R /DW 1000 /CIDToGIDMap /Identity >>\nendobj\n`
+    );
+
+    beginObject(fontId + 2);
+    write(
+      `<< /Type /FontDescriptor /FontName /GlyphLessFont /Flags 5 /FontBBox [0 -200 1000 800] ` +
+      `/ItalicAngle 0 /Ascent 800 /Descent -200 /CapHeight 700 /StemV 80 >>\nendobj\n`
+    );
+
+    writeStream(fontId + 3, buildToUnicode(Array.from(cids.keys())));
+  }
+
+  const xrefOffset = length;
+  let xref = `xref\n0 ${objectCount + 1}\n0000000000 65535 f \n`;
+  for (let id = 1; id <= objectCount; id++) {
+    xref += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  write(xref);
+  write(`trailer\n<< /Size ${objectCount + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(chunks, { type: 'application/pdf' });
+}
@@ -0,0 +1,252 @@
+// 本地语言检测：先按 Unicode 文字系统划分，再用常用词、特征字母和字符 n-gram 在同一文字系统的语言间打分
+// 覆盖 config/languages.ts 中的全部语言代码，不依赖网络
+
+export interface LanguageCandidate {
+  code: string;
+  score: number; // 0 ~ 1，所有候选之和约为 1
+}
+
+type Script =
+  | 'han' | 'kana' | 'hangul' | 'latin' | 'cyrillic' | 'arabic' | 'devanagari'
+  | 'hebrew' | 'armenian' | 'bengali' | 'gurmukhi' | 'gujarati' | 'tamil' | 'telugu'
+  | 'kannada' | 'malayalam' | 'sinhala' | 'thai' | 'lao' | 'myanmar' | 'georgian'
+  | 'ethiopic' | 'khmer';
+
+const SCRIPT_PATTERNS: Array<{ script: Script; pattern: RegExp }> = [
+  { script: 'kana', pattern: /[\u3040-\u30ff]/ },
+  { script: 'han', pattern: /[\u3400-\u4dbf\u4e00-\u9fff]/ },
+  { script: 'hangul', pattern: /[\u1100-\u11ff\uac00-\ud7af]/ },
+  { script: 'latin', pattern: /[a-zA-Z\u00c0-\u024f\u1e00-\u1eff]/ },
+  { script: 'cyrillic', pattern: /[\u0400-\u04ff]/ },
+  { script: 'arabic', pattern: /[\u0600-\u06ff\u0750-\u077f]/ },
+  { script: 'devanagari', pattern: /[\u0900-\u097f]/ },
+  { script: 'hebrew', pattern: /[\u0590-\u05ff]/ },
+  { script: 'armenian', pattern: /[\u0530-\u058f]/ },
+  { script: 'bengali', pattern: /[\u0980-\u09ff]/ },
+  { script: 'gurmukhi', pattern: /[\u0a00-\u0a7f]/ },
+  { script: 'gujarati', pattern: /[\u0a80-\u0aff]/ },
+  { script: 'tamil', pattern: /[\u0b80-\u0bff]/ },
+  { script: 'telugu', pattern: /[\u0c00-\u0c7f]/ },
+  { script: 'kannada', pattern: /[\u0c80-\u0cff]/ },
+  { script: 'malayalam', pattern: /[\u0d00-\u0d7f]/ },
+  { script: 'sinhala', pattern: /[\u0d80-\u0dff]/ },
+  { script: 'thai', pattern: /[\u0e00-\u0e7f]/ },
+  { script: 'lao', pattern: /[\u0e80-\u0eff]/ },
+  { script: 'myanmar', pattern: /[\u1000-\u109f]/ },
+  { script: 'georgian', pattern: /[\u10a0-\u10ff]/ },
+  { script: 'ethiopic', pattern: /[\u1200-\u137f]/ },
+  { script: 'khmer', pattern: /[\u1780-\u17ff]/ }
+];
+
+// 只对应一种语言的文字系统
+const SINGLE_LANGUAGE_SCRIPTS: Partial<Record<Script, string>> = {
+  hangul: 'ko',
+  hebrew: 'he',
+  armenian: 'hy',
+  bengali: 'bn',
+  gurmukhi: 'pa',
+  gujarati: 'gu',
+  tamil: 'ta',
+  telugu: 'te',
+  kannada: 'kn',
+  malayalam: 'ml',
+  sinhala: 'si',
+  thai: 'th',
+  lao: 'lo',
+  myanmar: 'my',
+  georgian: 'ka',
+  ethiopic: 'am',
+  khmer: 'km'
+};
+
+// 同一文字系统内区分语言的特征
+interface LanguageProfile {
+  script: Script;
+  words: string[]; // 高频功能词
+  chars?: string; // 该语言特有或常见的字母
+  ngrams?: string[]; // 常见字符组合
+  prior?: number; // 没有任何特征命中时的倾向
+}
+
+const LANGUAGE_PROFILES: Record<string, LanguageProfile> = {
+  // 拉丁字母
+  en: { script: 'latin', prior: 0.3, words: ['the', 'and', 'is', 'of', 'to', 'in', 'that', 'it', 'you', 'for', 'with', 'this', 'are', 'was', 'be', 'have', 'not'], ngrams: ['th', 'ing', 'wh'] },
+  fr: { script: 'latin', prior: 0.05, words: ['le', 'la', 'les', 'de', 'des', 'et', 'est', 'un', 'une', 'du', 'que', 'pas', 'pour', 'dans', 'je', 'vous', 'nous', 'il', 'ce'], chars: 'éèêàçùœ', ngrams: ['eau', 'qu', 'ou'] },
+  de: { script: 'latin', prior: 0.05, words: ['der', 'die', 'das', 'und', 'ist', 'nicht', 'ein', 'eine', 'ich', 'zu', 'mit', 'den', 'von', 'sie', 'es', 'auf', 'sich'], chars: 'ßäöü', ngrams: ['sch', 'ch', 'ei', 'ung'] },
+  es: { script: 'latin', prior: 0.05, words: ['el', 'la', 'los', 'las', 'de', 'que', 'y', 'en', 'es', 'un', 'una', 'por', 'con', 'no', 'para', 'del', 'se'], chars: 'ñ¿¡áíó', ngrams: ['ción', 'll'] },
+  it: { script: 'latin', prior: 0.05, words: ['il', 'lo', 'la', 'gli', 'le', 'di', 'che', 'e', 'è', 'un', 'una', 'per', 'non', 'sono', 'con', 'del', 'della'], chars: 'èìò', ngrams: ['zione', 'gli', 'cch', 'zz'] },
+  pt: { script: 'latin', prior: 0.05, words: ['o', 'a', 'os', 'as', 'de', 'que', 'e', 'é', 'um', 'uma', 'não', 'para', 'com', 'do', 'da', 'em', 'você'], chars: 'ãõçâêô', ngrams: ['ção', 'nh', 'lh'] },
+  vi: { script: 'latin', words: ['và', 'của', 'là', 'có', 'không', 'được', 'những', 'một', 'các', 'người', 'trong', 'này', 'cho'], chars: 'ăđơưạảấầẩẫậắằẳẵặẹẻẽếềểễệỉịọỏốồổỗộớờởỡợụủứừửữựỳỵỷỹ' },
+  tr: { script: 'latin', words: ['ve', 'bir', 'bu', 'da', 'de', 'için', 'ile', 'ne', 'çok', 'değil', 'ben', 'sen', 'olarak'], chars: 'ğış' },
+  pl: { script: 'latin', words: ['i', 'w', 'z', 'na', 'nie', 'się', 'jest', 'do', 'to', 'że', 'co', 'jak', 'ale', 'dla'], chars: 'ąęłńśźż', ngrams: ['sz', 'cz', 'rz', 'prz'] },
+  nl: { script: 'latin', words: ['de', 'het', 'een', 'en', 'van', 'is', 'niet', 'dat', 'op', 'te', 'ik', 'je', 'met', 'voor', 'zijn'], ngrams: ['ij', 'oo', 'aa', 'ee', 'sch'] },
+  sv: { script: 'latin', words: ['och', 'att', 'det', 'som', 'en', 'är', 'på', 'för', 'med', 'inte', 'jag', 'har', 'av', 'till'], chars: 'åäö' },
+  da: { script: 'latin', words: ['og', 'at', 'det', 'er', 'en', 'til', 'på', 'for', 'med', 'ikke', 'jeg', 'har', 'af', 'som', 'den'], chars: 'æøå' },
+  no: { script: 'latin', words: ['og', 'å', 'det', 'er', 'en', 'til', 'på', 'for', 'med', 'ikke', 'jeg', 'har', 'av', 'som', 'den', 'ikkje'], chars: 'æøå' },
+  fi: { script: 'latin', words: ['ja', 'on', 'ei', 'se', 'että', 'hän', 'oli', 'mutta', 'kun', 'tai', 'minä', 'sinä', 'olen', 'ole'], chars: 'äö', ngrams: ['ää', 'kk', 'ssa', 'ssä', 'lla', 'llä'] },
+  cs: { script: 'latin', words: ['a', 'je', 'se', 'na', 'v', 'že', 'to', 'ne', 's', 'jsem', 'jako', 'ale', 'by', 'pro'], chars: 'ěřů' },
+  sk: { script: 'latin', words: ['a', 'je', 'sa', 'na', 'v', 'že', 'to', 'nie', 's', 'som', 'ako', 'ale', 'by', 'pre'], chars: 'ľĺŕô' },
+  hu: { script: 'latin', words: ['a', 'az', 'és', 'hogy', 'nem', 'is', 'egy', 'van', 'de', 'meg', 'ez', 'csak'], chars: 'őű', ngrams: ['sz', 'gy', 'cs', 'zs', 'ny'] },
+  ro: { script: 'latin', words: ['și', 'în', 'de', 'la', 'cu', 'nu', 'este', 'pe', 'un', 'o', 'care', 'mai', 'din'], chars: 'ășțâî' },
+  hr: { script: 'latin', words: ['i', 'je', 'u', 'da', 'se', 'na', 'za', 'su', 'ne', 'od', 'kako', 'ali', 'što'], chars: 'čćđšž' },
+  bs: { script: 'latin', words: ['i', 'je', 'u', 'da', 'se', 'na', 'za', 'su', 'ne', 'od', 'kako', 'ali', 'šta'], chars: 'čćđšž' },
+  me: { script: 'latin', words: ['i', 'je', 'u', 'da', 'se', 'na', 'za', 'su', 'ne', 'od', 'kako', 'ali', 'šta'], chars: 'čćđšžśź' },
+  sl: { script: 'latin', words: ['in', 'je', 'v', 'da', 'se', 'na', 'za', 'so', 'ne', 'od', 'ki', 'tudi', 'pa'], chars: 'čšž' },
+  et: { script: 'latin', words: ['ja', 'on', 'ei', 'et', 'see', 'oli', 'kui', 'aga', 'ma', 'sa', 'ta'], chars: 'õ', ngrams: ['ää', 'üü'] },
+  lv: { script: 'latin', words: ['un', 'ir', 'ar', 'no', 'uz', 'par', 'kas', 'ka', 'tas', 'es', 'tu', 'nav'], chars: 'āēģīķļņū' },
+  lt: { script: 'latin', words: ['ir', 'yra', 'kad', 'su', 'į', 'iš', 'ne', 'tai', 'kaip', 'bet', 'aš'], chars: 'ąęėįų' },
+  mt: { script: 'latin', words: ['il', 'u', 'ta', 'li', 'fuq', 'minn', 'huwa', 'hija', 'għal', 'dan', 'din'], chars: 'ħġċ' },
+  is: { script: 'latin', words: ['og', 'að', 'er', 'í', 'á', 'sem', 'ekki', 'það', 'við', 'ég', 'um'], chars: 'þð' },
+  ga: { script: 'latin', words: ['an', 'agus', 'is', 'na', 'ar', 'le', 'go', 'bhí', 'sé', 'sí', 'ní'], ngrams: ['bh', 'mh', 'dh', 'ch'] },
+  cy: { script: 'latin', words: ['y', 'yr', 'a', 'ac', 'yn', 'o', 'i', 'ar', 'mae', 'ei', 'ddim', 'gyda'], chars: 'ŵŷ', ngrams: ['dd', 'll', 'wy'] },
+  eu: { script: 'latin', words: ['eta', 'da', 'ez', 'bat', 'du', 'ere', 'dira', 'baina', 'hau', 'zen'], ngrams: ['tz', 'tx', 'rr'] },
+  ca: { script: 'latin', words: ['el', 'la', 'els', 'les', 'de', 'i', 'que', 'és', 'un', 'una', 'per', 'amb', 'no', 'del', 'als'], chars: 'ò·', ngrams: ['ny', 'ix'] },
+  gl: { script: 'latin', words: ['o', 'a', 'os', 'as', 'de', 'e', 'que', 'é', 'un', 'unha', 'non', 'para', 'con', 'do', 'da', 'en'] },
+  az: { script: 'latin', words: ['və', 'bir', 'bu', 'da', 'də', 'üçün', 'ilə', 'ki', 'mən', 'sən', 'deyil'], chars: 'əğış' },
+  uz: { script: 'latin', words: ['va', 'bu', 'bir', 'ham', 'uchun', 'bilan', 'emas', 'men', 'sen', 'edi'], chars: 'ʻ', ngrams: ["o'", "g'", 'sh', 'ch'] },
+  id: { script: 'latin', words: ['dan', 'yang', 'di', 'ini', 'itu', 'dengan', 'untuk', 'tidak', 'ada', 'saya', 'akan', 'dari', 'karena', 'bisa', 'sudah'] },
+  ms: { script: 'latin', words: ['dan', 'yang', 'di', 'ini', 'itu', 'dengan', 'untuk', 'tidak', 'ada', 'saya', 'akan', 'dari', 'kerana', 'boleh', 'sahaja'] },
+  tl: { script: 'latin', words: ['ang', 'ng', 'mga', 'sa', 'na', 'at', 'ay', 'ako', 'ka', 'siya', 'hindi', 'ito'] },
+  sw: { script: 'latin', words: ['na', 'ya', 'wa', 'kwa', 'ni', 'za', 'katika', 'hii', 'hiyo', 'kama', 'lakini', 'sana'] },
+  yo: { script: 'latin', words: ['ni', 'ti', 'àti', 'won', 'kò', 'sí', 'fún', 'ní', 'pé'], chars: 'ẹọṣ' },
+  ig: { script: 'latin', words: ['na', 'nke', 'ya', 'ọ', 'ka', 'bụ', 'ndị', 'gị', 'anyị'], chars: 'ịụṅ' },
+  ha: { script: 'latin', words: ['da', 'ba', 'na', 'ya', 'ta', 'shi', 'ita', 'su', 'wannan', 'amma'], chars: 'ɓɗƙƴ' },
+  zu: { script: 'latin', words: ['ngi', 'futhi', 'kodwa', 'kanye', 'lokho', 'ukuthi', 'abantu', 'kakhulu'], ngrams: ['hl', 'nga', 'ku'] },
+  af: { script: 'latin', words: ['die', 'en', 'is', 'van', 'het', 'nie', 'te', 'in', 'om', 'wat', 'ek', 'jy', 'sy'] },
+  sq: { script: 'latin', words: ['dhe', 'të', 'në', 'një', 'është', 'me', 'për', 'nga', 'që', 'nuk'], chars: 'ë', ngrams: ['dh', 'xh', 'sh'] },
+
+  // 西里尔字母
+  ru: { script: 'cyrillic', prior: 0.3, words: ['и', 'в', 'не', 'на', 'я', 'что', 'он', 'с', 'как', 'это', 'по', 'но', 'они', 'мы'], chars: 'ыэё' },
+  uk: { script: 'cyrillic', words: ['і', 'в', 'не', 'на', 'я', 'що', 'він', 'з', 'як', 'це', 'та', 'але', 'ми'], chars: 'іїєґ' },
+  be: { script: 'cyrillic', words: ['і', 'у', 'не', 'на', 'я', 'што', 'ён', 'з', 'як', 'гэта', 'але', 'мы'], chars: 'ў' },
+  bg: { script: 'cyrillic', words: ['и', 'в', 'не', 'на', 'аз', 'че', 'той', 'с', 'как', 'това', 'да', 'се', 'от', 'са'], chars: 'ъ' },
+  sr: { script: 'cyrillic', words: ['и', 'у', 'не', 'на', 'ја', 'да', 'је', 'се', 'од', 'као', 'али', 'што'], chars: 'ђћџ' },
+  mk: { script: 'cyrillic', words: ['и', 'во', 'не', 'на', 'јас', 'дека', 'тој', 'со', 'како', 'ова', 'се', 'од'], chars: 'ѓќѕ' },
+  kk: { script: 'cyrillic', words: ['және', 'бір', 'бұл', 'мен', 'да', 'де', 'үшін', 'емес', 'ол'], chars: 'әғқұһ' },
+  ky: { script: 'cyrillic', words: ['жана', 'бир', 'бул', 'мен', 'да', 'үчүн', 'эмес', 'ал'], chars: 'ңөү' },
+  tg: { script: 'cyrillic', words: ['ва', 'дар', 'ин', 'аз', 'бо', 'ки', 'барои', 'ман', 'нест'], chars: 'ӣӯҳҷ' },
+  mn: { script: 'cyrillic', words: ['ба', 'нь', 'юм', 'энэ', 'би', 'та', 'бол', 'байна', 'гэж'], chars: 'өү' },
+
+  // 阿拉伯字母
+  ar: { script: 'arabic', prior: 0.3, words: ['في', 'من', 'على', 'أن', 'إلى', 'هذا', 'التي', 'الذي', 'ما', 'لا', 'هو'], chars: 'ةأإى', ngrams: ['ال'] },
+  fa: { script: 'arabic', words: ['و', 'در', 'به', 'از', 'که', 'این', 'را', 'با', 'است', 'می', 'برای'], chars: 'پچژگ' },
+  ur: { script: 'arabic', words: ['اور', 'کے', 'کی', 'میں', 'ہے', 'کا', 'یہ', 'سے', 'کو', 'نہیں'], chars: 'ٹڈڑںےہ' },
+
+  // 天城文
+  hi: { script: 'devanagari', prior: 0.3, words: ['है', 'के', 'में', 'की', 'और', 'को', 'से', 'का', 'यह', 'नहीं', 'हैं'] },
+  mr: { script: 'devanagari', words: ['आहे', 'आणि', 'च्या', 'ची', 'चा', 'हे', 'ते', 'या', 'नाही', 'मी'], chars: 'ळ' },
+  ne: { script: 'devanagari', words: ['छ', 'र', 'मा', 'यो', 'हो', 'छन्', 'गर्न', 'पनि', 'भएको'] }
+};
+
+const WORD_WEIGHT = 2;
+const CHAR_WEIGHT = 3;
+const NGRAM_WEIGHT = 0.5;
+const DEFAULT_PRIOR = 0.02;
+
+const countScripts = (text: string): Map<Script, number> => {
+  const counts = new Map<Script, number>();
+  for (const char of text) {
+    const match = SCRIPT_PATTERNS.find(({ pattern }) => pattern.test(char));
+    if (match) {
+      counts.set(match.script, (counts.get(match.script) || 0) + 1);
+    }
+  }
+  return counts;
+};
+
+const countOccurrences = (text: string, needle: string): number => {
+  let count = 0;
+  let index = text.indexOf(needle);
+  while (index !== -1) {
+    count++;
+    index = text.indexOf(needle, index + needle.length);
+  }
+  return count;
+};
+
+// 同一文字系统内的语言打分，返回归一化后的概率
+const scoreWithinScript = (text: string, script: Script): LanguageCandidate[] => {
+  const lower = text.toLowerCase();
+  const tokens = lower.split(/[^\p{L}\p{M}'’·-]+/u).filter(Boolean);
+  const tokenCounts = new Map<string, number>();
+  tokens.forEach(token => tokenCounts.set(token, (tokenCounts.get(token) || 0) + 1));
+
+  const raw = Object.entries(LANGUAGE_PROFILES)
+    .filter(([, profile]) => profile.script === script)
+    .map(([code, profile]) => {
+      let score = profile.prior ?? DEFAULT_PRIOR;
+      profile.words.forEach(word => {
+        score += (tokenCounts.get(word) || 0) * WORD_WEIGHT;
+      });
+      for (const char of profile.chars || '') {
+        score += countOccurrences(lower, char) * CHAR_WEIGHT;
+      }
+      (profile.ngrams || []).forEach(ngram => {
+        score += countOccurrences(lower, ngram) * NGRAM_WEIGHT;
+      });
+      return { code, score };
+    });
+
+  const total = raw.reduce((sum, candidate) => sum + candidate.score, 0);
+  return raw.map(candidate => ({ code: candidate.code, score: total > 0 ? candidate.score / total : 0 }));
+};
+
+// 返回按分数从高到低排列的候选语言
+export function detectLanguageCandidates(text: string, limit: number = 3): LanguageCandidate[] {
+  const scriptCounts = countScripts(text);
+  const totalChars = Array.from(scriptCounts.values()).reduce((sum, count) => sum + count, 0);
+  if (totalChars === 0) return [];
+
+  const scores = new Map<string, number>();
+  const add = (code: string, score: number) => scores.set(code, (scores.get(code) || 0) + score);
+
+  const kanaShare = (scriptCounts.get('kana') || 0) / totalChars;
+  const hanShare = (scriptCounts.get('han') || 0) / totalChars;
+
+  // 出现假名时汉字大概率属于日语，否则按中文处理
+  if (kanaShare > 0) {
+    add('ja', kanaShare + hanShare * 0.9);
+    add('zh', hanShare * 0.1);
+  } else if (hanShare > 0) {
+    add('zh', hanShare * 0.85);
+    add('ja', hanShare * 0.15);
+  }
+
+  scriptCounts.forEach((count, script) => {
+    if (script === 'kana' || script === 'han') return;
+
+    const share = count / totalChars;
+    const single = SINGLE_LANGUAGE_SCRIPTS[script];
+    if (single) {
+      add(single, share);
+      return;
+    }
+
+    scoreWithinScript(text, script).forEach(candidate => add(candidate.code, share * candidate.score));
+  });
+
+  return Array.from(scores.entries())
+    .map(([code, score]) => ({ code, score: Math.round(score * 1000) / 1000 }))
+    .filter(candidate => candidate.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+// 最可能的语言，无法判断时返回 fallback
+export function detectLanguage(text: string, fallback: string = 'en'): string {
+  return detectLanguageCandidates(text, 1)[0]?.code || fallback;
+}
+
+// 远端（如百度返回的 from）与本地检测不一致时做裁决：
+// 远端结果在本地候选中有一定分数时采信远端，本地高度确定（通常是文字系统不同）时采信本地
+export function resolveDetectedLanguage(remote: string | undefined, text: string): string | undefined {
+  const candidates = detectLanguageCandidates(text, 5);
+  const top = candidates[0];
+
+  if (!remote) return top?.code;
+  if (!top) return remote;
+  if (candidates.some(candidate => candidate.code === remote && candidate.score >= 0.1)) {
+    return remote;
+  }
+  return top.score >= 0.8 ? top.code : remote;
+}
@@ -0,0 +1,324 @@
+// 本地化资源文件：各格式解析 → 写入译文 → 再解析的往返测试
+import { describe, expect, it } from 'vitest';
+import {
+  detectLocalizationFormat,
+  localizedFileName,
+  parseLocalizationFile,
+  serializeLocalizationFile,
+  type LocalizationFile
+} from './localizationFiles';
+
+// 按 key 写入译文并导出
+const translate = (file: LocalizationFile, translations: Record<string, string>, targetLang = 'zh') => {
+  const values = new Map(
+    file.entries
+      .filter(entry => translations[entry.key] !== undefined)
+      .map(entry => [entry.id, translations[entry.key]])
+  );
+  return serializeLocalizationFile(file, values, targetLang);
+};
+
+const byKey = (file: LocalizationFile) => Object.fromEntries(file.entries.map(entry => [entry.key, entry]));
+
+describe('detectLocalizationFormat', () => {
+  it('按扩展名和内容识别格式', () => {
+    expect(detectLocalizationFormat('en.json', '{}')).toBe('i18next-json');
+    expect(detectLocalizationFormat('messages.pot', '')).toBe('po');
+    expect(detectLocalizationFormat('app.xlf', '')).toBe('xliff');
+    expect(detectLocalizationFormat('app.xml', '<xliff version="1.2">')).toBe('xliff');
+    expect(detectLocalizationFormat('strings.xml', '<resources>')).toBe('android-xml');
+    expect(detectLocalizationFormat('Localizable.strings', '')).toBe('ios-strings');
+    expect(detectLocalizationFormat('other.xml', '<root/>')).toBeNull();
+    expect(detectLocalizationFormat('readme.txt', '')).toBeNull();
+  });
+});
+
+describe('i18next JSON', () => {
+  const content = [
+    '{',
+    '    "greeting": "Hello, {{name}}!",',
+    '    "cart": {',
+    '        "item_one": "{{count}} item",',
+    '        "item_other": "{{count}} items"',
+    '    },',
+    '    "empty": "",',
+    '    "enabled": true',
+    '}',
+    ''
+  ].join('\n');
+
+  it('嵌套键按路径展开，复数后缀和空值分别标出', () => {
+    const entries = byKey(parseLocalizationFile('en.json', content));
+
+    expect(Object.keys(entries)).toEqual(['greeting', 'cart.item_one', 'cart.item_other', 'empty']);
+    expect(entries['cart.item_one'].note).toBe('复数形式: one');
+    expect(entries.greeting.translatable).toBe(true);
+    expect(entries.empty.translatable).toBe(false);
+  });
+
+  it('写回译文时保留缩进、结尾换行和未翻译的值', () => {
+    const file = parseLocalizationFile('en.json', content);
+    const output = translate(file, { greeting: '你好，{{name}}！', 'cart.item_other': '{{count}} 件商品 "特价"' });
+
+    expect(output).toContain('\n    "greeting": "你好，{{name}}！",');
+    expect(output.endsWith('}\n')).toBe(true);
+    expect(JSON.parse(output)).toEqual({
+      greeting: '你好，{{name}}！',
+      cart: { item_one: '{{count}} item', item_other: '{{count}} 件商品 "特价"' },
+      empty: '',
+      enabled: true
+    });
+    expect(byKey(parseLocalizationFile('zh.json', output))['cart.item_other'].source).toBe('{{count}} 件商品 "特价"');
+  });
+});
+
+describe('gettext PO', () => {
+  const content = [
+    'msgid ""',
+    'msgstr ""',
+    '"Content-Type: text/plain; charset=UTF-8\\n"',
+    '"Language: en\\n"',
+    '',
+    '#. 首页标题',
+    '#: src/home.c:12',
+    'msgctxt "menu"',
+    'msgid "Open \\"file\\""',
+    'msgstr ""',
+    '',
+    'msgid "One file"',
+    'msgid_plural "%d files"',
+    'msgstr[0] ""',
+    'msgstr[1] ""',
+    '',
+    'msgid ""',
+    '"First line\\n"',
+    '"Second line"',
+    'msgstr ""',
+    '',
+    '#~ msgid "Obsolete"',
+    '#~ msgstr "Obsolete"',
+    ''
+  ].join('\n');
+
+  it('解析上下文、注释、转义和复数形式，跳过文件头和废弃条目', () => {
+    const file = parseLocalizationFile('messages.po', content);
+    const entries = byKey(file);
+
+    expect(file.entries.map(entry => entry.key)).toEqual([
+      'Open "file"',
+      'One file [0]',
+      'One file [1]',
+      'First line\nSecond line'
+    ]);
+    expect(entries['Open "file"'].note).toBe('上下文: menu\n首页标题\nsrc/home.c:12');
+    expect(entries['One file [0]'].source).toBe('One file');
+    expect(entries['One file [1]'].source).toBe('%d files');
+    expect(entries['One file [1]'].note).toBe('复数形式 1');
+  });
+
+  it('写入 msgstr 并修改文件头语言，再次解析得到相同的译文', () => {
+    const file = parseLocalizationFile('messages.po', content);
+    const output = translate(file, {
+      'Open "file"': '打开"文件"\t\\',
+      'One file [0]': '%d 个文件',
+      'First line\nSecond line': '第一行\n第二行'
+    }, 'zh_CN');
+
+    expect(output).toContain('"Language: zh_CN\\n"');
+    expect(output).toContain('msgstr "打开\\"文件\\"\\t\\\\"');
+    expect(output).toContain('msgstr[0] "%d 个文件"\nmsgstr[1] ""');
+    expect(output).toContain('msgstr ""\n"第一行\\n"\n"第二行"');
+    expect(output).toContain('#~ msgid "Obsolete"');
+
+    const entries = byKey(parseLocalizationFile('zh_CN.po', output));
+    expect(entries['Open "file"'].target).toBe('打开"文件"\t\\');
+    expect(entries['One file [0]'].target).toBe('%d 个文件');
+    expect(entries['One file [1]'].target).toBe('');
+    expect(entries['First line\nSecond line'].target).toBe('第一行\n第二行');
+  });
+
+  it('没有写入译文的条目原样保留', () => {
+    const file = parseLocalizationFile('messages.po', content);
+    expect(serializeLocalizationFile(file, new Map(), 'en')).toBe(content);
+  });
+});
+
+describe('XLIFF', () => {
+  const xliff12 = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<xliff version="1.2">',
+    '  <file source-language="en" datatype="plaintext" original="app">',
+    '    <body>',
+    '      <trans-unit id="welcome">',
+    '        <source>Welcome <g id="1">back</g></source>',
+    '        <note>登录后的问候语</note>',
+    '      </trans-unit>',
+    '      <trans-unit id="age">',
+    '        <source>Age must be over 18</source>',
+    '        <target/>',
+    '      </trans-unit>',
+    '      <trans-unit id="brand" translate="no">',
+    '        <source>Acme</source>',
+    '      </trans-unit>',
+    '    </body>',
+    '  </file>',
+    '</xliff>'
+  ].join('\n');
+
+  it('解析 1.2 的注释和不翻译标记', () => {
+    const entries = byKey(parseLocalizationFile('app.xlf', xliff12));
+
+    expect(entries.welcome.source).toBe('Welcome <g id="1">back</g>');
+    expect(entries.welcome.note).toBe('登录后的问候语');
+    expect(entries.brand.translatable).toBe(false);
+  });
+
+  it('插入或填写 target，设置目标语言，并转义裸露的 & 和 <', () => {
+    const file = parseLocalizationFile('app.xlf', xliff12);
+    const output = translate(file, {
+      welcome: '欢迎<g id="1">回来</g> & 再见',
+      age: 'Age < 18 &amp; 年龄 <!-- 待审 -->'
+    });
+
+    expect(output).toContain('<file source-language="en" datatype="plaintext" original="app" target-language="zh">');
+    expect(output).toContain(
+      '        <source>Welcome <g id="1">back</g></source>\n        <target>欢迎<g id="1">回来</g> &amp; 再见</target>'
+    );
+    expect(output).toContain('<target>Age &lt; 18 &amp; 年龄 <!-- 待审 --></target>');
+
+    const entries = byKey(parseLocalizationFile('app.zh.xlf', output));
+    expect(entries.welcome.target).toBe('欢迎<g id="1">回来</g> &amp; 再见');
+    expect(entries.age.target).toBe('Age &lt; 18 &amp; 年龄 <!-- 待审 -->');
+    expect(entries.brand.target).toBe('');
+  });
+
+  it('2.0 按 segment 拆分条目，在 xliff 上声明 trgLang', () => {
+    const xliff20 = [
+      '<xliff xmlns="urn:oasis:names:tc:xliff:document:2.0" version="2.0" srcLang="en">',
+      '  <file id="f1">',
+      '    <unit id="intro">',
+      '      <segment><source>First.</source></segment>',
+      '      <segment><source>Second.</source><target>旧译文</target></segment>',
+      '    </unit>',
+      '  </file>',
+      '</xliff>'
+    ].join('\n');
+    const file = parseLocalizationFile('app.xliff', xliff20);
+    expect(file.entries.map(entry => [entry.key, entry.target])).toEqual([
+      ['intro (1)', ''],
+      ['intro (2)', '旧译文']
+    ]);
+
+    const output = translate(file, { 'intro (1)': '第一句。', 'intro (2)': '第二句。' }, 'zh-CN');
+    expect(output).toContain('version="2.0" srcLang="en" trgLang="zh-CN">');
+    expect(parseLocalizationFile('app.xliff', output).entries.map(entry => entry.target)).toEqual(['第一句。', '第二句。']);
+  });
+});
+
+describe('Android strings.xml', () => {
+  const content = [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<resources xmlns:xliff="urn:oasis:names:tc:xliff:document:1.2">',
+    '    <!-- 应用名称 -->',
+    '    <string name="app_name" translatable="false">Acme</string>',
+    '    <string name="greeting">Hello, <xliff:g id="name" example="Bob">%1$s</xliff:g>!</string>',
+    '    <!-- <string name="disabled">Not a resource</string> -->',
+    '    <plurals name="songs">',
+    '        <item quantity="one">%d song</item>',
+    '        <item quantity="other">%d songs</item>',
+    '    </plurals>',
+    '    <string-array name="days">',
+    '        <item>Monday</item>',
+    '        <item>Tuesday</item>',
+    '    </string-array>',
+    '</resources>'
+  ].join('\n');
+
+  it('解析注释、不翻译标记、复数和字符串数组，注释掉的资源不算条目', () => {
+    const file = parseLocalizationFile('strings.xml', content);
+    const entries = byKey(file);
+
+    expect(file.entries.map(entry => entry.key)).toEqual([
+      'app_name',
+      'greeting',
+      'songs[one]',
+      'songs[other]',
+      'days[0]',
+      'days[1]'
+    ]);
+    expect(entries.app_name.translatable).toBe(false);
+    expect(entries.app_name.note).toBe('应用名称');
+    expect(entries.greeting.note).toBeUndefined();
+    expect(entries['songs[other]'].note).toBe('<string name="disabled">Not a resource</string>\n复数形式: other');
+    expect(entries['days[0]'].note).toBeUndefined();
+  });
+
+  it('写回时转义引号、& 和 <，标签属性里的引号保持不变', () => {
+    const file = parseLocalizationFile('strings.xml', content);
+    const output = translate(file, {
+      greeting: '你好，<xliff:g id="name" example="Bob">%1$s</xliff:g>！',
+      'songs[one]': "%d song's < 2 & \"best\"",
+      'days[1]': '星期二'
+    });
+
+    expect(output).toContain('<string name="greeting">你好，<xliff:g id="name" example="Bob">%1$s</xliff:g>！</string>');
+    expect(output).toContain('<item quantity="one">%d song\\\'s &lt; 2 &amp; \\"best\\"</item>');
+    expect(output).toContain('<item quantity="other">%d songs</item>');
+    expect(output).toContain('<item>Monday</item>\n        <item>星期二</item>');
+    expect(output).toContain('<!-- <string name="disabled">Not a resource</string> -->');
+
+    const entries = byKey(parseLocalizationFile('strings.xml', output));
+    expect(entries['songs[one]'].source).toBe('%d song\\\'s &lt; 2 &amp; \\"best\\"');
+    expect(entries.app_name.source).toBe('Acme');
+  });
+
+  it('已经转义的引号不重复转义', () => {
+    const file = parseLocalizationFile('strings.xml', content);
+    const output = translate(file, { 'days[0]': "Lundi d\\'été" });
+    expect(output).toContain("<item>Lundi d\\'été</item>");
+  });
+});
+
+describe('iOS .strings', () => {
+  const content = [
+    '/* 登录按钮 */',
+    '"login.button" = "Sign in";',
+    '',
+    '// 带引号的提示',
+    '"quote" = "Say \\"hi\\"";',
+    '"multiline" = "Line 1\\nLine 2";',
+    ''
+  ].join('\n');
+
+  it('解析注释和转义后的值', () => {
+    const entries = byKey(parseLocalizationFile('Localizable.strings', content));
+
+    expect(entries['login.button'].note).toBe('登录按钮');
+    expect(entries.quote.note).toBe('带引号的提示');
+    expect(entries.quote.source).toBe('Say \\"hi\\"');
+    expect(entries.multiline.note).toBeUndefined();
+  });
+
+  it('写回时补上裸双引号和换行的转义，其余内容不变', () => {
+    const file = parseLocalizationFile('Localizable.strings', content);
+    const output = translate(file, { 'login.button': '登录 "现在"', multiline: '第一行\n第二行', quote: '说 \\"嗨\\"' });
+
+    expect(output).toBe([
+      '/* 登录按钮 */',
+      '"login.button" = "登录 \\"现在\\"";',
+      '',
+      '// 带引号的提示',
+      '"quote" = "说 \\"嗨\\"";',
+      '"multiline" = "第一行\\n第二行";',
+      ''
+    ].join('\n'));
+    expect(byKey(parseLocalizationFile('Localizable.strings', output))['login.button'].source).toBe('登录 \\"现在\\"');
+  });
+});
+
+describe('localizedFileName', () => {
+  it('在扩展名前加目标语言，PO 文件以语言命名', () => {
+    expect(localizedFileName(parseLocalizationFile('en.json', '{}'), 'zh')).toBe('en.zh.json');
+    expect(localizedFileName(parseLocalizationFile('messages.pot', ''), 'zh_CN')).toBe('zh_CN.po');
+  });
+});
@@ -0,0 +1,461 @@
+// 本地化资源文件：解析出待翻译的键值，导出时只替换译文，键、注释、复数形式和原有排版保持不变
+// 支持 i18next JSON、gettext PO、XLIFF 1.2 / 2.0、Android strings.xml 和 iOS .strings
+import type { TextFormat } from '../services/markupService';
+
+export type LocalizationFormat = 'i18next-json' | 'po' | 'xliff' | 'android-xml' | 'ios-strings';
+
+export interface LocalizationEntry {
+  id: string; // 文件内唯一，导出时按它回填译文
+  key: string; // 展示给用户的键名
+  source: string;
+  target: string; // 文件中已有的译文，源语言文件为空
+  note?: string; // 注释、上下文或复数形式说明，供审阅参考
+  translatable: boolean; // translatable="false"、translate="no" 等标记的条目只展示不翻译
+}
+
+export interface LocalizationFile {
+  format: LocalizationFormat;
+  fileName: string;
+  content: string; // 原始文本，导出时在此基础上替换
+  entries: LocalizationEntry[];
+}
+
+export const LOCALIZATION_FORMATS: Record<LocalizationFormat, { label: string; markup: TextFormat }> = {
+  'i18next-json': { label: 'i18next JSON', markup: 'i18next' },
+  po: { label: 'gettext PO', markup: 'printf' },
+  xliff: { label: 'XLIFF', markup: 'html' },
+  'android-xml': { label: 'Android strings.xml', markup: 'android' },
+  'ios-strings': { label: 'iOS .strings', markup: 'printf' }
+};
+
+export const LOCALIZATION_FILE_ACCEPT = '.json,.po,.pot,.xlf,.xliff,.xml,.strings';
+
+export function detectLocalizationFormat(fileName: string, content: string): LocalizationFormat | null {
+  const extension = fileName.toLowerCase().split('.').pop();
+  switch (extension) {
+    case 'json':
+      return 'i18next-json';
+    case 'po':
+    case 'pot':
+      return 'po';
+    case 'xlf':
+    case 'xliff':
+      return 'xliff';
+    case 'strings':
+      return 'ios-strings';
+    case 'xml':
+      return /<xliff[\s>]/.test(content) ? 'xliff' : /<resources\b/.test(content) ? 'android-xml' : null;
+    default:
+      return null;
+  }
+}
+
+// ---- i18next JSON ----
+
+type JsonValue = string | number | boolean | null | JsonValue[] | { [key: string]: JsonValue };
+
+const parseJson = (content: string): LocalizationEntry[] => {
+  const entries: LocalizationEntry[] = [];
+  const walk = (value: JsonValue, path: string[]) => {
+    if (typeof value === 'string') {
+      const key = path.join('.');
+      // i18next v4 复数后缀：key_one / key_other
+      const plural = /_(zero|one|two|few|many|other)$/.exec(path[path.length - 1] || '');
+      entries.push({
+        id: JSON.stringify(path),
+        key,
+        source: value,
+        target: '',
+        note: plural ? `复数形式: ${plural[1]}` : undefined,
+        translatable: true
+      });
+    } else if (value && typeof value === 'object') {
+      Object.entries(value).forEach(([child, childValue]) => walk(childValue, [...path, child]));
+    }
+  };
+  walk(JSON.parse(content.replace(/^\uFEFF/, '')), []);
+  return entries;
+};
+
+const serializeJson = (content: string, values: Map<string, string>): string => {
+  const data = JSON.parse(content.replace(/^\uFEFF/, ''));
+  values.forEach((value, id) => {
+    const path: string[] = JSON.parse(id);
+    const parent = path.slice(0, -1).reduce((node, key) => node[key], data);
+    parent[path[path.length - 1]] = value;
+  });
+  // 沿用原文件的缩进和结尾换行
+  const indent = /^[ \t]*\{\s*\n([ \t]+)/.exec(content)?.[1] || '  ';
+  return JSON.stringify(data, null, indent) + (/\n$/.test(content) ? '\n' : '');
+};
+
+// ---- gettext PO ----
+
+const unescapePo = (text: string) =>
+  text.replace(/\\(.)/g, (_, char: string) => ({ n: '\n', t: '\t', r: '\r' } as Record<string, string>)[char] ?? char);
+
+const escapePo = (text: string) =>
+  text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\t/g, '\\t').replace(/\r/g, '\\r').replace(/\n/g, '\\n');
+
+interface PoBlock {
+  lines: string[];
+  context?: string;
+  msgid?: string;
+  msgidPlural?: string;
+  msgstr: Map<string, string>; // '' 为单数，'0'、'1'… 为复数各形式
+  comments: string[];
+  msgstrStart: number; // 第一行 msgstr 在 lines 中的位置
+}
+
+// PO 条目之间以空行分隔
+const splitPoBlocks = (content: string): string[][] => {
+  const blocks: string[][] = [];
+  let current: string[] = [];
+  content.split(/\r?\n/).forEach(line => {
+    if (line.trim()) {
+      current.push(line);
+      return;
+    }
+    // 空行单独成块，导出时按行原样拼回
+    if (current.length > 0) blocks.push(current);
+    blocks.push([line]);
+    current = [];
+  });
+  if (current.length > 0) blocks.push(current);
+  return blocks;
+};
+
+const parsePoBlock = (lines: string[]): PoBlock => {
+  const block: PoBlock = { lines, msgstr: new Map(), comments: [], msgstrStart: -1 };
+  let field: string | null = null;
+  let value = '';
+
+  const flush = () => {
+    if (field === null) return;
+    const text = unescapePo(value);
+    if (field === 'msgctxt') block.context = text;
+    else if (field === 'msgid') block.msgid = text;
+    else if (field === 'msgid_plural') block.msgidPlural = text;
+    else block.msgstr.set(field.replace(/^msgstr\[?|\]$/g, ''), text);
+    field = null;
+    value = '';
+  };
+
+  lines.forEach((line, index) => {
+    const keyword = /^(msgctxt|msgid_plural|msgid|msgstr(?:\[\d+\])?)\s+"(.*)"\s*$/.exec(line);
+    if (keyword) {
+      flush();
+      field = keyword[1];
+      value = keyword[2];
+      if (field.startsWith('msgstr') && block.msgstrStart < 0) block.msgstrStart = index;
+    } else if (/^\s*".*"\s*$/.test(line) && field) {
+      value += line.trim().slice(1, -1);
+    } else if (line.startsWith('#.') || line.startsWith('#:')) {
+      block.comments.push(line.slice(2).trim());
+    }
+  });
+  flush();
+  return block;
+};
+
+// 条目是否有效：有 msgid、不是文件头、不是已废弃的 #~ 条目
+const isPoEntry = (block: PoBlock) => block.msgid !== undefined && block.msgid !== '';
+
+const poEntryId = (block: PoBlock, form: string) => `${block.context ?? ''}\u0004${block.msgid}\u0004${form}`;
+
+const parsePo = (content: string): LocalizationEntry[] => {
+  const entries: LocalizationEntry[] = [];
+  splitPoBlocks(content).map(parsePoBlock).filter(isPoEntry).forEach(block => {
+    const note = [block.context && `上下文: ${block.context}`, ...block.comments].filter(Boolean).join('\n') || undefined;
+    block.msgstr.forEach((target, form) => {
+      // 复数形式：第 0 种翻译 msgid，其余翻译 msgid_plural
+      const plural = form !== '';
+      entries.push({
+        id: poEntryId(block, form),
+        key: plural ? `${block.msgid} [${form}]` : block.msgid!,
+        source: plural && form !== '0' ? block.msgidPlural ?? block.msgid! : block.msgid!,
+        target,
+        note: plural ? [note, `复数形式 ${form}`].filter(Boolean).join('\n') : note,
+        translatable: true
+      });
+    });
+  });
+  return entries;
+};
+
+const formatPoString = (keyword: string, text: string): string[] => {
+  if (!text.includes('\n') || text.indexOf('\n') === text.length - 1) {
+    return [`${keyword} "${escapePo(text)}"`];
+  }
+  // 多行译文按换行拆开，与 msgid 的写法一致
+  const parts = text.split(/(?<=\n)/);
+  return [`${keyword} ""`, ...parts.map(part => `"${escapePo(part)}"`)];
+};
+
+const serializePo = (content: string, values: Map<string, string>, targetLang: string): string => {
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  return splitPoBlocks(content).map(lines => {
+    const block = parsePoBlock(lines);
+
+    // 文件头中的 Language 字段改为目标语言
+    if (block.msgid === '' && block.context === undefined) {
+      return lines.map(line => line.replace(/^"Language:[^"\\]*\\n"$/, `"Language: ${targetLang}\\n"`));
+    }
+    if (!isPoEntry(block) || block.msgstrStart < 0) return lines;
+
+    const forms = [...block.msgstr.keys()];
+    if (!forms.some(form => values.has(poEntryId(block, form)))) return lines;
+
+    const msgstrLines = forms.flatMap(form => formatPoString(
+      form === '' ? 'msgstr' : `msgstr[${form}]`,
+      values.get(poEntryId(block, form)) ?? block.msgstr.get(form) ?? ''
+    ));
+    // msgstr 之后的行一般不存在，保险起见原样保留非 msgstr 的注释行
+    const trailing = lines.slice(block.msgstrStart).filter(line => line.startsWith('#'));
+    return [...lines.slice(0, block.msgstrStart), ...msgstrLines, ...trailing];
+  }).map(lines => lines.join(eol)).join(eol);
+};
+
+// ---- XML 工具 ----
+
+// 译文中裸露的 & 和 < 转义，已有的实体和占位符还原出的标签（含注释、CDATA）保持不变
+const escapeXmlText = (text: string) =>
+  text
+    .replace(/&(?!(?:[a-zA-Z]+|#\d+|#x[0-9a-fA-F]+);)/g, '&amp;')
+    .replace(/<(?!\/?[A-Za-z_][\w:.-]*(?:\s[^<>]*)?\/?>|!--|!\[CDATA\[)/g, '&lt;');
+
+const attributeOf = (attributes: string, name: string): string | undefined =>
+  new RegExp(`(?:^|\\s)${name}\\s*=\\s*"([^"]*)"`).exec(attributes)?.[1];
+
+const stripTags = (xml: string) => xml.replace(/<[^>]+>/g, '').trim();
+
+// ---- XLIFF 1.2 / 2.0 ----
+
+const XLIFF_UNIT = /<(trans-unit|unit)\b([^>]*)>([\s\S]*?)<\/\1>/g;
+const XLIFF_SEGMENT = /<segment\b[^>]*>[\s\S]*?<\/segment>/g;
+const XLIFF_SOURCE = /<source\b[^>]*>([\s\S]*?)<\/source>/;
+const XLIFF_TARGET = /<target\b[^>]*>([\s\S]*?)<\/target>|<target\b[^>]*\/>/;
+
+// 1.2 的 trans-unit 本身就是一个片段，2.0 的 unit 下可能有多个 segment
+const xliffSegments = (tag: string, body: string): string[] =>
+  tag === 'trans-unit' ? [body] : body.match(XLIFF_SEGMENT) || [];
+
+const parseXliff = (content: string): LocalizationEntry[] => {
+  const entries: LocalizationEntry[] = [];
+  let unitIndex = 0;
+  for (const [, tag, attributes, body] of content.matchAll(XLIFF_UNIT)) {
+    const unitId = attributeOf(attributes, 'id') || String(unitIndex);
+    unitIndex++;
+    const translatable = attributeOf(attributes, 'translate') !== 'no';
+    const notes = [...body.matchAll(/<note\b[^>]*>([\s\S]*?)<\/note>/g)].map(match => stripTags(match[1]));
+    const segments = xliffSegments(tag, body);
+
+    segments.forEach((segment, index) => {
+      const source = XLIFF_SOURCE.exec(segment);
+      if (!source) return;
+      entries.push({
+        id: `${unitId}#${index}`,
+        key: segments.length > 1 ? `${unitId} (${index + 1})` : unitId,
+        source: source[1],
+        target: XLIFF_TARGET.exec(segment)?.[1] ?? '',
+        note: notes.join('\n') || undefined,
+        translatable
+      });
+    });
+  }
+  return entries;
+};
+
+const serializeXliff = (content: string, values: Map<string, string>, targetLang: string): string => {
+  let unitIndex = 0;
+  const result = content.replace(XLIFF_UNIT, (_, tag: string, attributes: string, body: string) => {
+    const unitId = attributeOf(attributes, 'id') || String(unitIndex);
+    unitIndex++;
+    let segmentIndex = 0;
+
+    const replaceSegment = (segment: string) => {
+      const value = values.get(`${unitId}#${segmentIndex++}`);
+      if (value === undefined) return segment;
+      const target = escapeXmlText(value);
+      if (XLIFF_TARGET.test(segment)) {
+        return segment.replace(XLIFF_TARGET, match => match.endsWith('/>')
+          ? `${match.slice(0, -2).trimEnd()}>${target}</target>`
+          : match.replace(/(<target\b[^>]*>)[\s\S]*(<\/target>)/, (_, open: string, close: string) => open + target + close));
+      }
+      // 没有 target 时紧跟在 source 之后插入，沿用 source 的缩进
+      return segment.replace(/([ \t]*)(<source\b[^>]*>[\s\S]*?<\/source>)/, (_, indent: string, source: string) =>
+        `${indent}${source}\n${indent}<target>${target}</target>`);
+    };
+
+    const newBody = tag === 'trans-unit' ? replaceSegment(body) : body.replace(XLIFF_SEGMENT, replaceSegment);
+    return `<${tag}${attributes}>${newBody}</${tag}>`;
+  });
+
+  // 1.2 在 <file> 上声明 target-language，2.0 在 <xliff> 上声明 trgLang
+  const setAttribute = (xml: string, element: string, name: string) =>
+    xml.replace(new RegExp(`<${element}\\b[^>]*>`, 'g'), open => new RegExp(`\\s${name}="`).test(open)
+      ? open.replace(new RegExp(`(\\s${name}=")[^"]*"`), `$1${targetLang}"`)
+      : open.replace(/\s*(\/?)>$/, ` ${name}="${targetLang}"$1>`));
+
+  return /<xliff\b[^>]*version="2/.test(result)
+    ? setAttribute(result, 'xliff', 'trgLang')
+    : setAttribute(result, 'file', 'target-language');
+};
+
+// ---- Android strings.xml ----
+
+// 注释一并匹配，避免把注释掉的资源当作条目
+const ANDROID_RESOURCE = /<!--[\s\S]*?-->|<(string|string-array|plurals)\b([^>]*)>([\s\S]*?)<\/\1>/g;
+const ANDROID_ITEM = /<item\b([^>]*)>([\s\S]*?)<\/item>/g;
+
+// Android 中未转义的单双引号会被吞掉或报错，标签属性里的引号不处理
+const escapeAndroid = (text: string) =>
+  escapeXmlText(text).replace(/(<[^>]*>)|(?<!\\)(['"])/g, (_, tag: string | undefined, quote: string) =>
+    tag ?? `\\${quote}`);
+
+const parseAndroid = (content: string): LocalizationEntry[] => {
+  const entries: LocalizationEntry[] = [];
+  let comment: string | undefined;
+
+  for (const [match, tag, attributes, body] of content.matchAll(ANDROID_RESOURCE)) {
+    if (!tag) {
+      comment = match.slice(4, -3).trim();
+      continue;
+    }
+    const name = attributeOf(attributes, 'name') || '';
+    const translatable = attributeOf(attributes, 'translatable') !== 'false';
+
+    if (tag === 'string') {
+      entries.push({ id: name, key: name, source: body, target: '', note: comment, translatable });
+    } else {
+      let index = 0;
+      for (const [, itemAttributes, itemBody] of body.matchAll(ANDROID_ITEM)) {
+        const quantity = attributeOf(itemAttributes, 'quantity');
+        entries.push({
+          id: `${name}[${index}]`,
+          key: `${name}[${quantity ?? index}]`,
+          source: itemBody,
+          target: '',
+          note: [comment, quantity && `复数形式: ${quantity}`].filter(Boolean).join('\n') || undefined,
+          translatable
+        });
+        index++;
+      }
+    }
+    comment = undefined;
+  }
+  return entries;
+};
+
+const serializeAndroid = (content: string, values: Map<string, string>): string =>
+  content.replace(ANDROID_RESOURCE, (match, tag: string | undefined, attributes: string, body: string) => {
+    if (!tag) return match;
+    const name = attributeOf(attributes, 'name') || '';
+
+    if (tag === 'string') {
+      const value = values.get(name);
+      return value === undefined ? match : `<${tag}${attributes}>${escapeAndroid(value)}</${tag}>`;
+    }
+
+    let index = 0;
+    const newBody = body.replace(ANDROID_ITEM, (item, itemAttributes: string) => {
+      const value = values.get(`${name}[${index++}]`);
+      return value === undefined ? item : `<item${itemAttributes}>${escapeAndroid(value)}</item>`;
+    });
+    return `<${tag}${attributes}>${newBody}</${tag}>`;
+  });
+
+// ---- iOS .strings ----
+
+const IOS_ENTRY = /\/\*[\s\S]*?\*\/|\/\/[^\n]*|"((?:[^"\\]|\\.)*)"\s*=\s*"((?:[^"\\]|\\.)*)"\s*;/g;
+
+const parseIosStrings = (content: string): LocalizationEntry[] => {
+  const entries: LocalizationEntry[] = [];
+  let comment: string | undefined;
+
+  for (const [match, key, value] of content.matchAll(IOS_ENTRY)) {
+    if (key === undefined) {
+      comment = match.replace(/^\/\*|\*\/$|^\/\//g, '').trim();
+      continue;
+    }
+    entries.push({ id: key, key, source: value, target: '', note: comment, translatable: true });
+    comment = undefined;
+  }
+  return entries;
+};
+
+const serializeIosStrings = (content: string, values: Map<string, string>): string =>
+  content.replace(IOS_ENTRY, (match, key: string | undefined, value: string) => {
+    if (key === undefined || !values.has(key)) return match;
+    // 值保持转义形式，只补上提供方可能引入的裸双引号
+    const translated = values.get(key)!.replace(/(?<!\\)"/g, '\\"').replace(/\n/g, '\\n');
+    const valueStart = match.lastIndexOf(`"${value}"`);
+    return match.slice(0, valueStart) + `"${translated}"` + match.slice(valueStart + value.length + 2);
+  });
+
+// ---- 对外接口 ----
+
+export function parseLocalizationFile(fileName: string, content: string): LocalizationFile {
+  const format = detectLocalizationFormat(fileName, content);
+  if (!format) {
+    throw new Error('不支持的文件格式，请选择 JSON、PO、XLIFF、Android strings.xml 或 iOS .strings 文件');
+  }
+
+  let entries: LocalizationEntry[];
+  try {
+    switch (format) {
+      case 'i18next-json':
+        entries = parseJson(content);
+        break;
+      case 'po':
+        entries = parsePo(content);
+        break;
+      case 'xliff':
+        entries = parseXliff(content);
+        break;
+      case 'android-xml':
+        entries = parseAndroid(content);
+        break;
+      case 'ios-strings':
+        entries = parseIosStrings(content);
+        break;
+    }
+  } catch (error) {
+    throw new Error(`${LOCALIZATION_FORMATS[format].label} 文件解析失败: ${error instanceof Error ? error.message : error}`);
+  }
+
+  // 空值没有可翻译的内容
+  entries = entries.map(entry => ({ ...entry, translatable: entry.translatable && entry.source.trim().length > 0 }));
+  return { format, fileName, content, entries };
+}
+
+// values 中只包含需要写入的译文，未出现的条目保持原样
+export function serializeLocalizationFile(
+  file: LocalizationFile,
+  values: Map<string, string>,
+  targetLang: string
+): string {
+  switch (file.format) {
+    case 'i18next-json':
+      return serializeJson(file.content, values);
+    case 'po':
+      return serializePo(file.content, values, targetLang);
+    case 'xliff':
+      return serializeXliff(file.content, values, targetLang);
+    case 'android-xml':
+      return serializeAndroid(file.content, values);
+    case 'ios-strings':
+      return serializeIosStrings(file.content, values);
+  }
+}
+
+// 导出文件名：在扩展名前加上目标语言，PO 文件直接以语言命名
+export function localizedFileName(file: LocalizationFile, targetLang: string): string {
+  const dot = file.fileName.lastIndexOf('.');
+  const base = dot > 0 ? file.fileName.slice(0, dot) : file.fileName;
+  const extension = dot > 0 ? file.fileName.slice(dot) : '';
+  if (file.format === 'po') {
+    return `${targetLang}.po`;
+  }
+  return `${base}.${targetLang}${extension}`;
+}
@@ -0,0 +1,149 @@
+// 图片感知哈希：把图片缩小为灰度小图后计算 64 位指纹
+// 同一张图片重新压缩、缩放或轻微改动后指纹只有少数几位不同，用汉明距离判断是否为相似图片
+
+export type PerceptualHashAlgorithm = 'dhash' | 'phash';
+
+export interface ImageFingerprint {
+  algorithm: PerceptualHashAlgorithm;
+  hash: string; // 64 位指纹，16 个十六进制字符
+  width: number;
+  height: number;
+}
+
+// 差值哈希：缩小为 9x8，比较每行相邻像素的亮度
+const DHASH_WIDTH = 9;
+const DHASH_HEIGHT = 8;
+
+// DCT 哈希：缩小为 32x32，取左上角 8x8 的低频分量与中位数比较
+const PHASH_SIZE = 32;
+const PHASH_LOW_FREQUENCIES = 8;
+
+// 缩小后的灰度像素（按行排列）
+function toGrayscale(source: CanvasImageSource, width: number, height: number): Float64Array {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(source, 0, 0, width, height);
+
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const pixels = new Float64Array(width * height);
+  for (let i = 0; i < pixels.length; i++) {
+    pixels[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return pixels;
+}
+
+function bitsToHex(bits: boolean[]): string {
+  let hex = '';
+  for (let i = 0; i < bits.length; i += 4) {
+    const nibble = (Number(bits[i]) << 3) | (Number(bits[i + 1]) << 2) | (Number(bits[i + 2]) << 1) | Number(bits[i + 3]);
+    hex += nibble.toString(16);
+  }
+  return hex;
+}
+
+function differenceHash(source: CanvasImageSource): string {
+  const pixels = toGrayscale(source, DHASH_WIDTH, DHASH_HEIGHT);
+  const bits: boolean[] = [];
+  for (let y = 0; y < DHASH_HEIGHT; y++) {
+    for (let x = 0; x < DHASH_WIDTH - 1; x++) {
+      bits.push(pixels[y * DHASH_WIDTH + x] > pixels[y * DHASH_WIDTH + x + 1]);
+    }
+  }
+  return bitsToHex(bits);
+}
+
+function dctHash(source: CanvasImageSource): string {
+  const pixels = toGrayscale(source, PHASH_SIZE, PHASH_SIZE);
+  const n = PHASH_SIZE;
+  const k = PHASH_LOW_FREQUENCIES;
+
+  // 只计算需要的低频分量：cosines[u][x] = cos((2x + 1)uπ / 2n)
+  const cosines = Array.from({ length: k }, (_, u) =>
+    Array.from({ length: n }, (_, x) => Math.cos(((2 * x + 1) * u * Math.PI) / (2 * n)))
+  );
+
+  // 先对每行做一维 DCT，再对列做
+  const rows = new Float64Array(n * k);
+  for (let y = 0; y < n; y++) {
+    for (let u = 0; u < k; u++) {
+      let sum = 0;
+      for (let x = 0; x < n; x++) {
+        sum += pixels[y * n + x] * cosines[u][x];
+      }
+      rows[y * k + u] = sum;
+    }
+  }
+
+  const coefficients: number[] = [];
+  for (let v = 0; v < k; v++) {
+    for (let u = 0; u < k; u++) {
+      let sum = 0;
+      for (let y = 0; y < n; y++) {
+        sum += rows[y * k + u] * cosines[v][y];
+      }
+      coefficients.push(sum);
+    }
+  }
+
+  // 直流分量只反映整体亮度，不参与中位数计算
+  const sorted = coefficients.slice(1).sort((a, b) => a - b);
+  const median = sorted[Math.floor(sorted.length / 2)];
+  return bitsToHex(coefficients.map(value => value > median));
+}
+
+// 计算已加载的图片或画布的指纹
+export function computePerceptualHash(
+  source: HTMLImageElement | HTMLCanvasElement,
+  algorithm: PerceptualHashAlgorithm = 'dhash'
+): ImageFingerprint {
+  const width = source instanceof HTMLImageElement ? source.naturalWidth : source.width;
+  const height = source instanceof HTMLImageElement ? source.naturalHeight : source.height;
+  const hash = algorithm === 'phash' ? dctHash(source) : differenceHash(source);
+  return { algorithm, hash, width, height };
+}
+
+// 百度图片翻译等接口传入的是不带前缀的 base64，浏览器会按内容识别实际图片格式
+const toImageUrl = (image: string): string =>
+  /^(data:|blob:|https?:)/.test(image) ? image : `data:image/png;base64,${image}`;
+
+// 解码图片（data URL、对象 URL 或 base64）并计算指纹，无法解码时抛出错误
+export function fingerprintImage(
+  image: string,
+  algorithm: PerceptualHashAlgorithm = 'dhash'
+): Promise<ImageFingerprint> {
+  return new Promise((resolve, reject) => {
+    if (typeof document === 'undefined') {
+      reject(new Error('当前环境无法解码图片'));
+      return;
+    }
+
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => {
+      try {
+        resolve(computePerceptualHash(img, algorithm));
+      } catch (error) {
+        reject(error);
+      }
+    };
+    img.onerror = () => reject(new Error('图片解码失败'));
+    img.src = toImageUrl(image);
+  });
+}
+
+const NIBBLE_BITS = [0, 1, 1, 2, 1, 2, 2, 3, 1, 2, 2, 3, 2, 3, 3, 4];
+
+// 两个指纹不同的位数；长度不同（算法不同）时视为完全不同
+export function hammingDistance(a: string, b: string): number {
+  if (a.length !== b.length) return Infinity;
+
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    distance += NIBBLE_BITS[parseInt(a[i], 16) ^ parseInt(b[i], 16)];
+  }
+  return distance;
+}
@@ -0,0 +1,101 @@
+// 长文本分句：切分后原样拼回应得到原文，译文拼接时处理中日文的句间空格
+import { describe, expect, it } from 'vitest';
+import { reassembleText, segmentText, splitSentences, type TextSegment } from './textSegmentation';
+
+const translatableTexts = (segments: TextSegment[]) =>
+  segments.filter(segment => segment.translatable).map(segment => segment.text);
+
+// 每个可翻译片段原样作为“译文”拼回
+const roundTrip = (text: string, targetLang = 'en') => {
+  const segments = segmentText(text);
+  return reassembleText(segments, translatableTexts(segments), targetLang);
+};
+
+describe('splitSentences', () => {
+  it('按中西文句末标点断句，右引号和连续标点归入前一句', () => {
+    expect(translatableTexts(splitSentences('今天下雨了。我们去哪？“走吧！”他说。'))).toEqual([
+      '今天下雨了。',
+      '我们去哪？',
+      '“走吧！”',
+      '他说。'
+    ]);
+    expect(translatableTexts(splitSentences('Is it done?! "Yes." Then go.'))).toEqual([
+      'Is it done?!',
+      '"Yes."',
+      'Then go.'
+    ]);
+  });
+
+  it('缩写、人名首字母、小写开头和没有空白的句点不断句', () => {
+    expect(translatableTexts(splitSentences('Dr. Smith met J. R. Tolkien at 3 p.m. on Friday. See e.g. the notes.'))).toEqual([
+      'Dr. Smith met J. R. Tolkien at 3 p.m. on Friday.',
+      'See e.g. the notes.'
+    ]);
+    expect(translatableTexts(splitSentences('Version 1.2 is out... and Yahoo! is fine.'))).toEqual([
+      'Version 1.2 is out... and Yahoo! is fine.'
+    ]);
+  });
+
+  it('超长句子在逗号或空白处切开，找不到时硬切', () => {
+    const segments = splitSentences('alpha beta, gamma delta epsilon', 12);
+    expect(segments.map(segment => segment.text).join('')).toBe('alpha beta, gamma delta epsilon');
+    expect(translatableTexts(segments)).toEqual(['alpha beta,', 'gamma delta', 'epsilon']);
+
+    expect(translatableTexts(splitSentences('abcdefghij', 4))).toEqual(['abcd', 'efgh', 'ij']);
+  });
+});
+
+describe('segmentText', () => {
+  it('列表符号、标题、代码块和纯符号行原样保留', () => {
+    const text = [
+      '# Title here',
+      '',
+      '- First item. Second sentence.',
+      '```js',
+      'const a = 1. // not a sentence',
+      '```',
+      '---',
+      '> Quoted line'
+    ].join('\n');
+    const segments = segmentText(text);
+
+    expect(translatableTexts(segments)).toEqual([
+      'Title here',
+      'First item.',
+      'Second sentence.',
+      'Quoted line'
+    ]);
+    expect(segments.map(segment => segment.text).join('')).toBe(text);
+  });
+
+  it('未闭合的代码块一直保留到文末', () => {
+    const segments = segmentText('Intro.\n~~~\ncode. More code.\n```\nStill code. Not translated.');
+    expect(translatableTexts(segments)).toEqual(['Intro.']);
+  });
+
+  it('原样拼回得到原文，包括 CRLF、行尾空白和多个空行', () => {
+    const text = 'First line.  Second one!\r\n\r\n\r\n  1. Numbered item   \r\n\tLast line\n';
+    expect(roundTrip(text)).toBe(text);
+
+    const chinese = '第一句。第二句！\r\n\r\n  - 列表项。\n';
+    expect(roundTrip(chinese, 'zh')).toBe(chinese);
+  });
+});
+
+describe('reassembleText', () => {
+  it('译成中日文时去掉句间空格，换行和缩进保留', () => {
+    const segments = segmentText('Hello there. How are you?\n  - Fine.');
+    expect(reassembleText(segments, ['你好。', '你好吗？', '很好。'], 'zh')).toBe('你好。你好吗？\n  - 很好。');
+  });
+
+  it('由中日文译成其他语言时在相邻句子间补空格', () => {
+    const segments = segmentText('你好。你好吗？');
+    expect(reassembleText(segments, ['Hello. ', ' How are you?'], 'en')).toBe('Hello. How are you?');
+  });
+
+  it('译文不足时只拼接已翻译的前缀', () => {
+    const segments = segmentText('One. Two. Three.');
+    expect(reassembleText(segments, ['Un.'], 'fr')).toBe('Un. ');
+    expect(reassembleText(segments, [], 'fr')).toBe('');
+  });
+});
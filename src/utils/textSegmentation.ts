@@ -0,0 +1,169 @@
+// 长文本分句：按代码块、段落、行、句子逐级切分，空白和代码块原样保留，翻译后按原结构拼回
+// 切出的句子不含换行，可直接走批量翻译（百度按行对齐译文）
+
+export interface TextSegment {
+  text: string;
+  translatable: boolean; // false 表示原样保留（空白、列表符号、代码块、纯符号）
+}
+
+// 单句上限，超长的句子再按逗号或空白切开
+export const MAX_SENTENCE_CHARS = 1500;
+
+const CJK_TERMINATORS = '。！？；…';
+const LATIN_TERMINATORS = '.!?';
+// 句末可能跟着的右引号和右括号
+const CLOSING_MARKS = '”’」』）》】"\')]';
+
+// 句点后不断句的常见缩写（小写、不含末尾句点）
+const ABBREVIATIONS = new Set([
+  'mr', 'mrs', 'ms', 'dr', 'prof', 'sr', 'jr', 'st', 'mt', 'vs', 'etc', 'e.g', 'i.e', 'cf', 'al',
+  'inc', 'ltd', 'co', 'corp', 'dept', 'est', 'approx', 'no', 'nos', 'vol', 'fig', 'p', 'pp', 'ch',
+  'jan', 'feb', 'mar', 'apr', 'jun', 'jul', 'aug', 'sep', 'sept', 'oct', 'nov', 'dec',
+  'a.m', 'p.m', 'u.s', 'u.k', 'u.n'
+]);
+
+// 行首的标题、列表符号、编号和引用符号不参与翻译
+const LINE_PREFIX = /^[ \t]*(?:(?:#{1,6}|[-*+•]|\d+[.)]|>)[ \t]+)?/;
+const FENCE = /^[ \t]*(`{3,}|~{3,})/;
+const HAS_LETTER = /\p{L}/u;
+const CJK_TARGETS = ['zh', 'ja'];
+
+const pushSegment = (segments: TextSegment[], text: string, translatable: boolean) => {
+  if (!text) return;
+  const isTranslatable = translatable && HAS_LETTER.test(text);
+  const last = segments[segments.length - 1];
+  // 相邻的保留片段合并，减少片段数量
+  if (!isTranslatable && last && !last.translatable) {
+    last.text += text;
+  } else {
+    segments.push({ text, translatable: isTranslatable });
+  }
+};
+
+// 句点前的单词是缩写或单个字母（人名首字母）时不断句
+const endsWithAbbreviation = (text: string): boolean => {
+  const word = text.slice(text.search(/[^\s(（"“]*$/)).replace(/\.$/, '').toLowerCase();
+  return ABBREVIATIONS.has(word) || /^[a-z]$/.test(word);
+};
+
+// 超长句子在限长内的最后一个逗号或空白处切开，找不到时硬切
+const splitLongSentence = (sentence: string, maxChars: number, segments: TextSegment[]) => {
+  let rest = sentence;
+  while (rest.length > maxChars) {
+    const window = rest.slice(0, maxChars);
+    const breakAt = Math.max(
+      window.search(/[,，、:：][^,，、:：]*$/) + 1,
+      window.search(/\s\S*$/)
+    );
+    const cut = breakAt > maxChars / 2 ? breakAt : maxChars;
+    const head = rest.slice(0, cut);
+    const tail = rest.slice(cut);
+    const body = head.trimEnd();
+    const next = tail.trimStart();
+    pushSegment(segments, body, true);
+    pushSegment(segments, head.slice(body.length) + tail.slice(0, tail.length - next.length), false);
+    rest = next;
+  }
+  pushSegment(segments, rest, true);
+};
+
+// 单行文本分句，句间空白作为保留片段
+export function splitSentences(line: string, maxChars: number = MAX_SENTENCE_CHARS): TextSegment[] {
+  const segments: TextSegment[] = [];
+  let start = 0;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    const isCjk = CJK_TERMINATORS.includes(char);
+    if (!isCjk && !LATIN_TERMINATORS.includes(char)) continue;
+
+    // 连续的句末标点和右引号归入当前句
+    let end = i + 1;
+    while (end < line.length && (CJK_TERMINATORS + LATIN_TERMINATORS + CLOSING_MARKS).includes(line[end])) {
+      end++;
+    }
+    let next = end;
+    while (next < line.length && /\s/.test(line[next])) next++;
+    if (next >= line.length) break;
+
+    if (!isCjk) {
+      // 西文标点后必须有空白，且下一句不以小写字母开头（省略号、"Yahoo! is" 等）
+      if (next === end || /\p{Ll}/u.test(line[next])) continue;
+      if (char === '.' && endsWithAbbreviation(line.slice(start, i + 1))) continue;
+    }
+
+    splitLongSentence(line.slice(start, end), maxChars, segments);
+    pushSegment(segments, line.slice(end, next), false);
+    start = next;
+    i = next - 1;
+  }
+
+  splitLongSentence(line.slice(start), maxChars, segments);
+  return segments;
+}
+
+// 整段文本切分：围栏代码块原样保留，其余按行分句
+export function segmentText(text: string, maxChars: number = MAX_SENTENCE_CHARS): TextSegment[] {
+  const segments: TextSegment[] = [];
+  const lines = text.split(/(\r?\n)/);
+  let fence: string | null = null;
+
+  for (let index = 0; index < lines.length; index += 2) {
+    const line = lines[index];
+    const newline = lines[index + 1] || '';
+    const fenceMatch = line.match(FENCE);
+
+    if (fence !== null || fenceMatch) {
+      // 未闭合的代码块一直保留到文末
+      if (fence === null) {
+        fence = fenceMatch![1];
+      } else if (fenceMatch && fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) {
+        fence = null;
+      }
+      pushSegment(segments, line + newline, false);
+      continue;
+    }
+
+    const prefix = line.match(LINE_PREFIX)![0];
+    const content = line.slice(prefix.length).trimEnd();
+    pushSegment(segments, prefix, false);
+    splitSentences(content, maxChars).forEach(segment => pushSegment(segments, segment.text, segment.translatable));
+    pushSegment(segments, line.slice(prefix.length + content.length) + newline, false);
+  }
+
+  return segments;
+}
+
+// 按顺序填回译文；译文不足时只拼接已翻译的前缀（用于显示进度中的部分结果）
+// 中日文译文去掉句间空格，由中日文译成其他语言时在相邻句子间补空格
+export function reassembleText(segments: TextSegment[], translations: string[], targetLang: string): string {
+  const cjkTarget = CJK_TARGETS.includes(targetLang);
+  let result = '';
+  let used = 0;
+  let previousTranslated = false;
+
+  for (let index = 0; index < segments.length; index++) {
+    const segment = segments[index];
+
+    if (segment.translatable) {
+      if (used >= translations.length) break;
+      const translated = translations[used++].trim();
+      // 相邻的可翻译片段之间没有空白（中日文断句或超长句切分）
+      if (previousTranslated && !cjkTarget) {
+        result += ' ';
+      }
+      result += translated;
+      previousTranslated = true;
+      continue;
+    }
+
+    const betweenSentences = previousTranslated && /^[ \t\u3000]+$/.test(segment.text)
+      && segments[index + 1]?.translatable;
+    if (!(betweenSentences && cjkTarget)) {
+      result += segment.text;
+    }
+    previousTranslated = false;
+  }
+
+  return result;
+}
@@ -0,0 +1,47 @@
+// TMX 导入：每个翻译单元按源语言拆成若干语言对条目
+import type { MemoryEntry } from '../services/translationMemoryService';
+
+// 只保留主标签（zh-CN -> zh），与应用内的语言代码一致
+const normalizeLang = (lang: string) => lang.toLowerCase().split(/[-_]/)[0];
+
+const langOf = (element: Element) =>
+  element.getAttribute('xml:lang') || element.getAttribute('lang') || '';
+
+// seg 内可能有 bpt/ept/ph 等内联标记，只取文本
+const segmentText = (tuv: Element): string =>
+  tuv.getElementsByTagName('seg')[0]?.textContent?.trim() || '';
+
+export function parseTmx(xml: string): MemoryEntry[] {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('TMX 文件格式无效');
+  }
+
+  const headerSource = doc.getElementsByTagName('header')[0]?.getAttribute('srclang') || '*all*';
+  const entries: MemoryEntry[] = [];
+
+  Array.from(doc.getElementsByTagName('tu')).forEach(tu => {
+    const variants = Array.from(tu.getElementsByTagName('tuv'))
+      .map(tuv => ({ lang: normalizeLang(langOf(tuv)), text: segmentText(tuv) }))
+      .filter(variant => variant.lang && variant.text);
+
+    // srclang 为 *all* 时任意语言都可作为源语言
+    const srclang = tu.getAttribute('srclang') || headerSource;
+    const sources = srclang === '*all*'
+      ? variants
+      : variants.filter(variant => variant.lang === normalizeLang(srclang));
+
+    sources.forEach(source => {
+      variants
+        .filter(target => target.lang !== source.lang)
+        .forEach(target => entries.push({
+          sourceText: source.text,
+          translatedText: target.text,
+          sourceLang: source.lang,
+          targetLang: target.lang
+        }));
+    });
+  });
+
+  return entries;
+}
@@ -0,0 +1,183 @@
+// 最小 ZIP 读写（DOCX 等 Office 文档使用）：解压和压缩用浏览器自带的 DecompressionStream / CompressionStream
+// 未修改的条目原样复制压缩数据，只有替换过内容的条目重新压缩
+
+export interface ZipEntry {
+  name: string;
+  method: number; // 0 存储，8 deflate
+  crc32: number;
+  compressedData: Uint8Array;
+  uncompressedSize: number;
+}
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const pipeThrough = async (data: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> => {
+  const buffer = await new Response(new Blob([data]).stream().pipeThrough(stream)).arrayBuffer();
+  return new Uint8Array(buffer);
+};
+
+export class ZipArchive {
+  private entries: ZipEntry[] = [];
+
+  static async load(data: ArrayBuffer): Promise<ZipArchive> {
+    const archive = new ZipArchive();
+    const bytes = new Uint8Array(data);
+    const view = new DataView(data);
+
+    // 从末尾向前查找中央目录结束记录（后面可能跟着注释）
+    let end = -1;
+    for (let offset = bytes.length - 22; offset >= Math.max(0, bytes.length - 65557); offset--) {
+      if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+        end = offset;
+        break;
+      }
+    }
+    if (end < 0) {
+      throw new Error('不是有效的 ZIP 文件');
+    }
+
+    const count = view.getUint16(end + 10, true);
+    let offset = view.getUint32(end + 16, true);
+    const decoder = new TextDecoder();
+
+    for (let i = 0; i < count; i++) {
+      if (view.getUint32(offset, true) !== CENTRAL_HEADER) {
+        throw new Error('ZIP 中央目录已损坏');
+      }
+      const method = view.getUint16(offset + 10, true);
+      const crc = view.getUint32(offset + 16, true);
+      const compressedSize = view.getUint32(offset + 20, true);
+      const uncompressedSize = view.getUint32(offset + 24, true);
+      const nameLength = view.getUint16(offset + 28, true);
+      const extraLength = view.getUint16(offset + 30, true);
+      const commentLength = view.getUint16(offset + 32, true);
+      const localOffset = view.getUint32(offset + 42, true);
+      const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+      if (view.getUint32(localOffset, true) !== LOCAL_HEADER) {
+        throw new Error(`ZIP 条目已损坏: ${name}`);
+      }
+      // 本地文件头的扩展字段长度可能与中央目录不同
+      const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+
+      archive.entries.push({
+        name,
+        method,
+        crc32: crc,
+        compressedData: bytes.slice(dataStart, dataStart + compressedSize),
+        uncompressedSize
+      });
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+
+    return archive;
+  }
+
+  getNames(): string[] {
+    return this.entries.map(entry => entry.name);
+  }
+
+  has(name: string): boolean {
+    return this.entries.some(entry => entry.name === name);
+  }
+
+  async readText(name: string): Promise<string> {
+    const entry = this.entries.find(item => item.name === name);
+    if (!entry) {
+      throw new Error(`ZIP 中没有 ${name}`);
+    }
+    if (entry.method === 0) {
+      return new TextDecoder().decode(entry.compressedData);
+    }
+    if (entry.method !== 8) {
+      throw new Error(`不支持的压缩方式: ${entry.method}`);
+    }
+    return new TextDecoder().decode(await pipeThrough(entry.compressedData, new DecompressionStream('deflate-raw')));
+  }
+
+  async writeText(name: string, text: string): Promise<void> {
+    const data = new TextEncoder().encode(text);
+    const entry: ZipEntry = {
+      name,
+      method: 8,
+      crc32: crc32(data),
+      compressedData: await pipeThrough(data, new CompressionStream('deflate-raw')),
+      uncompressedSize: data.length
+    };
+    const index = this.entries.findIndex(item => item.name === name);
+    if (index >= 0) {
+      this.entries[index] = entry;
+    } else {
+      this.entries.push(entry);
+    }
+  }
+
+  // 按原有条目顺序写出（[Content_Types].xml 需要保持在最前面）
+  toBlob(mimeType: string): Blob {
+    const encoder = new TextEncoder();
+    const parts: Uint8Array[] = [];
+    const central: Uint8Array[] = [];
+    let offset = 0;
+
+    for (const entry of this.entries) {
+      const name = encoder.encode(entry.name);
+      const local = new DataView(new ArrayBuffer(30));
+      local.setUint32(0, LOCAL_HEADER, true);
+      local.setUint16(4, 20, true);
+      local.setUint16(6, 0x0800, true); // 文件名为 UTF-8
+      local.setUint16(8, entry.method, true);
+      local.setUint32(14, entry.crc32, true);
+      local.setUint32(18, entry.compressedData.length, true);
+      local.setUint32(22, entry.uncompressedSize, true);
+      local.setUint16(26, name.length, true);
+
+      const header = new DataView(new ArrayBuffer(46));
+      header.setUint32(0, CENTRAL_HEADER, true);
+      header.setUint16(4, 20, true);
+      header.setUint16(6, 20, true);
+      header.setUint16(8, 0x0800, true);
+      header.setUint16(10, entry.method, true);
+      header.setUint32(16, entry.crc32, true);
+      header.setUint32(20, entry.compressedData.length, true);
+      header.setUint32(24, entry.uncompressedSize, true);
+      header.setUint16(28, name.length, true);
+      header.setUint32(42, offset, true);
+
+      parts.push(new Uint8Array(local.buffer), name, entry.compressedData);
+      central.push(new Uint8Array(header.buffer), name);
+      offset += 30 + name.length + entry.compressedData.length;
+    }
+
+    const centralSize = central.reduce((sum, part) => sum + part.length, 0);
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+    end.setUint16(8, this.entries.length, true);
+    end.setUint16(10, this.entries.length, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, offset, true);
+
+    return new Blob([...parts, ...central, new Uint8Array(end.buffer)], { type: mimeType });
+  }
+}
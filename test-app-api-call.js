@@ -1,8 +1,14 @@
+import 'dotenv/config';
 import crypto from 'crypto';
 
-// 模拟应用的环境变量
-const appId = '20250816002432414';
-const apiKey = 'b3a1JQGV7LUYIEVti14j';
+// 与翻译代理相同的服务端凭据（不再下发到浏览器）
+const appId = process.env.BAIDU_APP_ID;
+const apiKey = process.env.BAIDU_API_KEY;
+
+if (!appId || !apiKey) {
+  console.error('❌ 请先设置 BAIDU_APP_ID 和 BAIDU_API_KEY（例如写入 .env）');
+  process.exit(1);
+}
 
 // 模拟应用的签名生成
 function generateSign(query, appId, salt, apiKey) {
@@ -66,15 +72,16 @@ async function testAppAPICall() {
     console.log('❌ 直接API调用失败:', error.message);
   }
 
-  // 测试通过应用代理
+  // 测试通过应用代理（签名在代理服务中完成，浏览器只发送原文和语言）
   console.log('\n🔍 测试通过应用代理...');
   try {
-    const proxyResponse = await fetch('http://localhost:5173/api/baidu/api/trans/vip/translate', {
+    const proxyResponse = await fetch('http://localhost:5173/api/translate', {
       method: 'POST',
       headers: {
-        'Content-Type': 'application/x-www-form-urlencoded'
+        'Content-Type': 'application/json',
+        'X-Client-Id': 'test-app-api-call'
       },
-      body: new URLSearchParams(params)
+      body: JSON.stringify({ text: query, sourceLang: 'en', targetLang: 'zh' })
     });
 
     const proxyData = await proxyResponse.json();
@@ -82,10 +89,10 @@ async function testAppAPICall() {
     console.log('- 状态码:', proxyResponse.status);
     console.log('- 响应数据:', JSON.stringify(proxyData, null, 2));
 
-    if (proxyData.error_code) {
+    if (proxyData.error_code || proxyData.error) {
       console.log('❌ 代理API调用失败:');
-      console.log('- 错误代码:', proxyData.error_code);
-      console.log('- 错误信息:', proxyData.error_msg);
+      console.log('- 错误代码:', proxyData.error_code || proxyData.error.code);
+      console.log('- 错误信息:', proxyData.error_msg || proxyData.error.message);
     } else {
       console.log('✅ 代理API调用成功!');
     }
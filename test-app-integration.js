@@ -1,14 +1,20 @@
 // Test script to verify Baidu translation integration
+import 'dotenv/config';
 import axios from 'axios';
 import crypto from 'crypto';
 
-// Test the same configuration the app uses
+// Same credentials the translation proxy uses (never shipped to the browser)
 const BAIDU_CONFIG = {
-  appId: '20250816002432414',
-  apiKey: 'b3a1JQGV7LUYIEVti14j',
+  appId: process.env.BAIDU_APP_ID,
+  apiKey: process.env.BAIDU_API_KEY,
   apiUrl: 'https://fanyi-api.baidu.com/api/trans/vip/translate'
 };
 
+if (!BAIDU_CONFIG.appId || !BAIDU_CONFIG.apiKey) {
+  console.error('❌ Set BAIDU_APP_ID and BAIDU_API_KEY (e.g. in .env) before running this script');
+  process.exit(1);
+}
+
 // Generate MD5 signature (same as app)
 function generateSign(query, appId, salt, apiKey) {
   const str = appId + query + salt + apiKey;
@@ -109,30 +115,20 @@ async function testAppProxy() {
   
   try {
     const query = 'Good morning';
-    const salt = Date.now().toString();
-    const sign = generateSign(query, BAIDU_CONFIG.appId, salt, BAIDU_CONFIG.apiKey);
-
-    const params = {
-      q: query,
-      from: 'en',
-      to: 'zh',
-      appid: BAIDU_CONFIG.appId,
-      salt: salt,
-      sign: sign
-    };
 
-    // This would be the app's proxy URL in development
-    const proxyUrl = 'http://localhost:5173/api/baidu/api/trans/vip/translate';
+    // The app calls the translation proxy through the Vite dev server; signing happens server-side
+    const proxyUrl = 'http://localhost:5173/api/translate';
     
     console.log('📤 Testing proxy URL:', proxyUrl);
-    console.log('📤 Request params:', { ...params, sign: sign.substring(0, 8) + '***' });
+    console.log('📤 Request body:', { text: query, sourceLang: 'en', targetLang: 'zh' });
 
     const response = await axios.post(
       proxyUrl,
-      new URLSearchParams(params),
+      { text: query, sourceLang: 'en', targetLang: 'zh' },
       {
         headers: {
-          'Content-Type': 'application/x-www-form-urlencoded'
+          'Content-Type': 'application/json',
+          'X-Client-Id': 'test-app-integration'
         },
         timeout: 10000
       }
@@ -1,94 +1,60 @@
-// 测试百度翻译API - 全面测试版本
+// 测试百度翻译API - 全面测试版本（经翻译代理调用，凭据只保存在代理服务端）
+// 先运行 npm run server，并在代理的环境变量中设置 BAIDU_APP_ID / BAIDU_API_KEY
 import axios from 'axios';
-import crypto from 'crypto';
-import { fileURLToPath } from 'url';
-import { dirname } from 'path';
 import dotenv from 'dotenv';
 
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
 dotenv.config();
 
-// 百度翻译API配置
-const BAIDU_CONFIG = {
-  appId: process.env.VITE_BAIDU_APP_ID || '20250816002432414',
-  apiKey: process.env.VITE_BAIDU_API_KEY || 'b3a1JQGV7LUYIEVti14j',
-  apiUrl: 'https://fanyi-api.baidu.com/api/trans/vip/translate'
+// 翻译代理配置
+const PROXY_CONFIG = {
+  baseUrl: (process.env.TRANSLATION_PROXY_URL || 'http://localhost:8787').replace(/\/+$/, ''),
+  clientId: 'test-translation-script'
 };
 
-// 生成MD5签名
-function generateSign(query, appId, salt, apiKey) {
-  const str = appId + query + salt + apiKey;
-  return crypto.createHash('md5').update(str).digest('hex');
+const PROXY_TRANSLATE_URL = `${PROXY_CONFIG.baseUrl}/api/translate`;
+
+// 把代理的错误响应转换为可读信息
+function describeError(error) {
+  const data = error.response?.data;
+  if (data?.error_code) {
+    return `${data.error_msg} (${data.error_code})`;
+  }
+  if (data?.error?.message) {
+    return `${data.error.message} (${data.error.code})`;
+  }
+  return error.message;
 }
 
 // 测试百度翻译API
 async function testBaiduTranslation() {
   console.log('🚀 开始测试百度翻译API...');
   console.log('配置信息:');
-  console.log('- APP ID:', BAIDU_CONFIG.appId);
-  console.log('- API Key:', BAIDU_CONFIG.apiKey.substring(0, 8) + '***');
-  console.log('- API URL:', BAIDU_CONFIG.apiUrl);
+  console.log('- 代理地址:', PROXY_TRANSLATE_URL);
   console.log('');
 
   try {
-    const query = 'hello world';
-    const salt = Date.now().toString();
-    const sign = generateSign(query, BAIDU_CONFIG.appId, salt, BAIDU_CONFIG.apiKey);
-
-    const params = {
-      q: query,
-      from: 'en',
-      to: 'zh',
-      appid: BAIDU_CONFIG.appId,
-      salt: salt,
-      sign: sign
-    };
+    const payload = { text: 'hello world', sourceLang: 'en', targetLang: 'zh' };
 
     console.log('📤 发送请求参数:');
-    console.log('- 查询文本:', params.q);
-    console.log('- 源语言:', params.from);
-    console.log('- 目标语言:', params.to);
-    console.log('- 盐值:', params.salt);
-    console.log('- 签名:', params.sign);
+    console.log('- 查询文本:', payload.text);
+    console.log('- 源语言:', payload.sourceLang);
+    console.log('- 目标语言:', payload.targetLang);
     console.log('');
 
-    const response = await axios.post(
-      BAIDU_CONFIG.apiUrl,
-      new URLSearchParams(params),
-      {
-        headers: {
-          'Content-Type': 'application/x-www-form-urlencoded'
-        },
-        timeout: 10000
-      }
-    );
+    const response = await translateText(payload.text, payload.sourceLang, payload.targetLang);
 
     console.log('📥 API响应:');
-    console.log('- 状态码:', response.status);
-    console.log('- 响应数据:', JSON.stringify(response.data, null, 2));
-
-    if (response.data.error_code) {
-      console.log('❌ API调用失败:');
-      console.log('- 错误代码:', response.data.error_code);
-      console.log('- 错误信息:', response.data.error_msg);
-    } else {
-      console.log('✅ API调用成功!');
-      console.log('- 原文:', response.data.trans_result[0].src);
-      console.log('- 译文:', response.data.trans_result[0].dst);
-      console.log('- 检测语言:', response.data.from);
-    }
-
+    console.log('- 响应数据:', JSON.stringify(response, null, 2));
+    console.log('✅ API调用成功!');
+    console.log('- 原文:', response.translations[0].source);
+    console.log('- 译文:', response.translations[0].translated);
+    console.log('- 检测语言:', response.from);
   } catch (error) {
     console.log('❌ 请求失败:');
     if (error.response) {
       console.log('- HTTP状态码:', error.response.status);
-      console.log('- 响应数据:', error.response.data);
-    } else if (error.request) {
-      console.log('- 网络错误:', error.message);
-    } else {
-      console.log('- 其他错误:', error.message);
     }
+    console.log('- 错误信息:', describeError(error));
   }
 }
 
@@ -98,69 +64,37 @@ async function testLanguageDetection() {
   
   try {
     const query = '这是什么';
-    const salt = Date.now().toString();
-    const sign = generateSign(query, BAIDU_CONFIG.appId, salt, BAIDU_CONFIG.apiKey);
-
-    const params = {
-      q: query,
-      from: 'auto',
-      to: 'en',
-      appid: BAIDU_CONFIG.appId,
-      salt: salt,
-      sign: sign
-    };
 
     console.log('📤 发送语言检测请求:');
-    console.log('- 查询文本:', params.q);
-    console.log('- 源语言:', params.from, '(自动检测)');
+    console.log('- 查询文本:', query);
+    console.log('- 源语言: auto (自动检测)');
     console.log('');
 
-    const response = await axios.post(
-      BAIDU_CONFIG.apiUrl,
-      new URLSearchParams(params),
-      {
-        headers: {
-          'Content-Type': 'application/x-www-form-urlencoded'
-        },
-        timeout: 10000
-      }
-    );
+    const response = await translateText(query, 'auto', 'en');
 
     console.log('📥 语言检测响应:');
-    console.log('- 检测到的语言:', response.data.from);
-    console.log('- 翻译结果:', response.data.trans_result[0].dst);
+    console.log('- 检测到的语言:', response.from);
+    console.log('- 翻译结果:', response.translations[0].translated);
 
   } catch (error) {
-    console.log('❌ 语言检测失败:', error.message);
+    console.log('❌ 语言检测失败:', describeError(error));
   }
 }
 
-// 调用百度翻译API
-async function translateText(text, from = 'auto', to = 'zh') {
-  const salt = Date.now().toString();
-  const sign = generateSign(text, BAIDU_CONFIG.appId, salt, BAIDU_CONFIG.apiKey);
-  
-  const params = {
-    q: text,
-    from,
-    to,
-    appid: BAIDU_CONFIG.appId,
-    salt,
-    sign
-  };
-  
-  try {
-    const response = await axios.post(BAIDU_CONFIG.apiUrl, new URLSearchParams(params), {
+// 通过翻译代理调用百度翻译
+async function translateText(text, sourceLang = 'auto', targetLang = 'zh') {
+  const response = await axios.post(
+    PROXY_TRANSLATE_URL,
+    { text, sourceLang, targetLang },
+    {
       headers: {
-        'Content-Type': 'application/x-www-form-urlencoded'
+        'Content-Type': 'application/json',
+        'X-Client-Id': PROXY_CONFIG.clientId
       },
       timeout: 15000
-    });
-    
-    return response.data;
-  } catch (error) {
-    throw new Error(`API调用失败: ${error.message}`);
-  }
+    }
+  );
+  return response.data;
 }
 
 // 延迟函数（避免API调用过于频繁）
@@ -176,9 +110,9 @@ const testCases = [
     tests: [
       { text: 'Hello World', from: 'en', to: 'zh', desc: '英译中 - 基础问候' },
       { text: '你好我是一个翻译机器人嘿嘿嘿', from: 'zh', to: 'en', desc: '中译英 - 基础问候' },
-      { text: 'こんにちは', from: 'jp', to: 'zh', desc: '日译中 - 问候语' },
-      { text: 'Bonjour le monde', from: 'fra', to: 'zh', desc: '法译中 - 问候语' },
-      { text: 'Hola mundo', from: 'spa', to: 'zh', desc: '西译中 - 问候语' }
+      { text: 'こんにちは', from: 'ja', to: 'zh', desc: '日译中 - 问候语' },
+      { text: 'Bonjour le monde', from: 'fr', to: 'zh', desc: '法译中 - 问候语' },
+      { text: 'Hola mundo', from: 'es', to: 'zh', desc: '西译中 - 问候语' }
     ]
   },
   
@@ -282,13 +216,8 @@ async function runSingleTest(test, index, total) {
     
     const result = await translateText(test.text, test.from, test.to);
     
-    if (result.error_code) {
-      console.log(`   ❌ 失败: ${result.error_msg} (${result.error_code})`);
-      return { success: false, error: result.error_msg };
-    }
-    
-    const translation = result.trans_result[0];
-    console.log(`   译文: "${translation.dst}"`);
+    const translation = result.translations[0];
+    console.log(`   译文: "${translation.translated}"`);
     
     if (test.from === 'auto') {
       console.log(`   检测语言: ${result.from}`);
@@ -298,14 +227,14 @@ async function runSingleTest(test, index, total) {
     
     return { 
       success: true, 
-      original: translation.src,
-      translated: translation.dst,
+      original: translation.source,
+      translated: translation.translated,
       detectedLang: result.from
     };
     
   } catch (error) {
-    console.log(`   ❌ 异常: ${error.message}`);
-    return { success: false, error: error.message };
+    console.log(`   ❌ 失败: ${describeError(error)}`);
+    return { success: false, error: describeError(error) };
   }
 }
 
@@ -314,8 +243,7 @@ async function runTests() {
   console.log('🚀 开始百度翻译API全面测试');
   console.log('='.repeat(80));
   console.log(`配置信息:`);
-  console.log(`  APP ID: ${BAIDU_CONFIG.appId}`);
-  console.log(`  API URL: ${BAIDU_CONFIG.apiUrl}`);
+  console.log(`  代理地址: ${PROXY_TRANSLATE_URL}`);
   console.log('='.repeat(80));
   
   let totalTests = 0;
@@ -420,17 +348,17 @@ async function runTests() {
 // 主程序入口
 async function main() {
   try {
-    console.log('🔍 检查环境变量...');
-    console.log('VITE_BAIDU_APP_ID:', process.env.VITE_BAIDU_APP_ID ? '已设置' : '未设置');
-    console.log('VITE_BAIDU_API_KEY:', process.env.VITE_BAIDU_API_KEY ? '已设置' : '未设置');
-    console.log('配置对象:', BAIDU_CONFIG);
+    console.log('🔍 检查翻译代理...');
+    const health = await axios.get(`${PROXY_CONFIG.baseUrl}/api/health`, { timeout: 5000 })
+      .then(response => response.data)
+      .catch(() => null);
     
     // 检查配置
-    if (!BAIDU_CONFIG.appId || !BAIDU_CONFIG.apiKey) {
-      console.error('❌ 错误: 缺少百度翻译API配置');
-      console.error('请确保设置了以下环境变量:');
-      console.error('  - VITE_BAIDU_APP_ID');
-      console.error('  - VITE_BAIDU_API_KEY');
+    if (!health?.configured) {
+      console.error('❌ 错误: 翻译代理不可用或未配置百度翻译凭据');
+      console.error(`请先运行 npm run server（当前地址: ${PROXY_CONFIG.baseUrl}），并在代理环境中设置:`);
+      console.error('  - BAIDU_APP_ID');
+      console.error('  - BAIDU_API_KEY');
       process.exit(1);
     }
     
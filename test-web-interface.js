@@ -162,8 +162,8 @@ try {
     }
   });
   
-  console.log('🔍 测试翻译API端点...');
-  exec('curl -s "http://localhost:5173/api/baidu/api/trans/vip/translate"', (error, stdout, stderr) => {
+  console.log('🔍 测试翻译代理端点...');
+  exec('curl -s "http://localhost:5173/api/health"', (error, stdout, stderr) => {
     if (error) {
       console.error('❌ API端点测试失败:', error.message);
     } else {
@@ -13,10 +13,10 @@ async function testWebInterface() {
     console.log('📄 应用响应内容:');
     console.log(appResponse);
     
-    // 测试翻译API端点
-    console.log('🔍 测试翻译API端点...');
+    // 测试翻译代理端点
+    console.log('🔍 测试翻译代理端点...');
     try {
-      const { stdout: apiResponse } = await execAsync('curl -s "http://localhost:5173/api/baidu/api/trans/vip/translate"');
+      const { stdout: apiResponse } = await execAsync('curl -s "http://localhost:5173/api/health"');
       console.log('📡 API端点响应:', apiResponse);
     } catch (apiError) {
       console.log('📡 API端点响应:', apiError.message);
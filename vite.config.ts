@@ -27,39 +27,15 @@ export default defineConfig({
       'Content-Security-Policy': "default-src 'self' 'unsafe-inline' 'unsafe-eval' data: blob: https:; connect-src 'self' https: wss: ws:; img-src 'self' data: blob: https:;"
     },
     proxy: {
-      '/api/baidu': {
-        target: 'https://fanyi-api.baidu.com',
-        changeOrigin: true,
-        secure: true,
-        rewrite: (path) => path.replace(/^\/api\/baidu/, ''),
-        configure: (proxy, options) => {
-          proxy.on('proxyReq', (proxyReq, req, res) => {
-            // Enhanced headers for embedded browser compatibility
-            proxyReq.setHeader('User-Agent', 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36');
-            proxyReq.setHeader('Accept', 'application/json, text/plain, */*');
-            proxyReq.setHeader('Accept-Language', 'en-US,en;q=0.9,zh-CN;q=0.8,zh;q=0.7');
-            proxyReq.setHeader('Cache-Control', 'no-cache');
-            proxyReq.setHeader('Pragma', 'no-cache');
-          });
-          
-          proxy.on('proxyRes', (proxyRes, req, res) => {
-            // Add CORS headers to proxy responses
-            proxyRes.headers['Access-Control-Allow-Origin'] = '*';
-            proxyRes.headers['Access-Control-Allow-Methods'] = 'GET,POST,PUT,DELETE,OPTIONS';
-            proxyRes.headers['Access-Control-Allow-Headers'] = 'Content-Type,Authorization,X-Requested-With';
-          });
-          
-          proxy.on('error', (err, req, res) => {
-            console.error('Proxy error:', err);
-            if (res && !res.headersSent) {
-              res.writeHead(500, {
-                'Content-Type': 'application/json',
-                'Access-Control-Allow-Origin': '*'
-              });
-              res.end(JSON.stringify({ error: 'Proxy error', details: err.message }));
-            }
-          });
-        }
+      // Translation proxy (server/index.js) holds the Baidu credentials and signs requests; run `npm run server` first.
+      // Keep the Host header so the proxy sees requests from the dev page as same-origin.
+      '/api/translate': {
+        target: process.env.TRANSLATION_PROXY_TARGET || 'http://localhost:8787',
+        changeOrigin: false
+      },
+      '/api/health': {
+        target: process.env.TRANSLATION_PROXY_TARGET || 'http://localhost:8787',
+        changeOrigin: false
       }
     }
   },